@@ -0,0 +1,178 @@
+import { ContractRunner, Signer } from 'ethers';
+import {
+    ArbitrationModule,
+    ArbitrationModule__factory,
+    PolyEscrow__factory,
+} from '../typechain-types';
+import { decodeEscrow, decodeProposal } from './codec';
+import {
+    ArbitrationProposal,
+    ArbitrationProposalInput,
+    EscrowLeg,
+    ProposalStatus,
+} from './types';
+
+/**
+ * Typed client for a deployed ArbitrationModule contract.
+ *
+ * Parties to an escrow (or its arbiters) make proposals to refund or release it; the escrow's arbiters
+ * vote on them. Reads work with a Provider, while propose, vote, cancel and expire require a Signer.
+ */
+export class ArbitrationClient {
+    public readonly contract: ArbitrationModule;
+
+    /**
+     * @param address Address of the deployed ArbitrationModule contract.
+     * @param runner A Signer (for reads and writes) or Provider (reads only).
+     */
+    constructor(address: string, runner: ContractRunner) {
+        this.contract = ArbitrationModule__factory.connect(address, runner);
+    }
+
+    /**
+     * Address of the ArbitrationModule contract this client talks to.
+     */
+    public get address(): string {
+        return this.contract.target as string;
+    }
+
+    /**
+     * Returns a new client for the same contract, connected to a different signer or provider.
+     *
+     * @param runner The new Signer or Provider.
+     */
+    public connect(runner: ContractRunner): ArbitrationClient {
+        return new ArbitrationClient(this.address, runner);
+    }
+
+    /**
+     * Proposes to refund or release an escrow, which puts it into arbitration. Amounts left out
+     * default to everything that remains in that leg.
+     *
+     * @param input The proposal to make.
+     * @returns The proposal as stored on-chain.
+     */
+    public async propose(
+        input: ArbitrationProposalInput
+    ): Promise<ArbitrationProposal> {
+        this._requireSigner();
+
+        let { primaryAmount, secondaryAmount } = input;
+        if (primaryAmount === undefined || secondaryAmount === undefined) {
+            const escrow = decodeEscrow(
+                await PolyEscrow__factory.connect(
+                    await this.contract.escrowContract(),
+                    this.contract.runner
+                ).getEscrow(input.escrowId)
+            );
+            primaryAmount ??= getAmountRemaining(escrow.primaryLeg);
+            secondaryAmount ??= getAmountRemaining(escrow.secondaryLeg);
+        }
+
+        const tx = await this.contract.propose(
+            input.escrowId,
+            input.proposalType,
+            primaryAmount,
+            secondaryAmount,
+            input.reason ?? ''
+        );
+        const receipt = await tx.wait();
+
+        //find the ProposalCreated event
+        for (const log of receipt?.logs ?? []) {
+            const parsed = this.contract.interface.parseLog(log);
+            if (parsed?.name === 'ProposalCreated') {
+                return await this.getProposal(parsed.args.proposalId);
+            }
+        }
+
+        throw new Error('ProposalCreatedEventNotFound');
+    }
+
+    /**
+     * Votes for a proposal; if this brings it to the escrow's quorum, it is executed.
+     *
+     * @param proposalId The id of the proposal.
+     * @returns The proposal as stored on-chain after the vote.
+     */
+    public async vote(proposalId: bigint): Promise<ArbitrationProposal> {
+        this._requireSigner();
+        await (await this.contract.vote(proposalId)).wait();
+        return await this.getProposal(proposalId);
+    }
+
+    /**
+     * Cancels a pending proposal; only its proposer may do this.
+     *
+     * @param proposalId The id of the proposal.
+     * @returns The proposal as stored on-chain after cancelling.
+     */
+    public async cancel(proposalId: bigint): Promise<ArbitrationProposal> {
+        this._requireSigner();
+        await (await this.contract.cancel(proposalId)).wait();
+        return await this.getProposal(proposalId);
+    }
+
+    /**
+     * Marks a pending proposal whose time is up as expired.
+     *
+     * @param proposalId The id of the proposal.
+     * @returns The proposal as stored on-chain after expiring.
+     */
+    public async expire(proposalId: bigint): Promise<ArbitrationProposal> {
+        this._requireSigner();
+        await (await this.contract.expire(proposalId)).wait();
+        return await this.getProposal(proposalId);
+    }
+
+    /**
+     * Retrieves a proposal by its id. If no such proposal exists, the returned proposal's escrow id
+     * is zero.
+     *
+     * @param proposalId The id of the proposal.
+     */
+    public async getProposal(proposalId: bigint): Promise<ArbitrationProposal> {
+        return decodeProposal(
+            BigInt(proposalId),
+            await this.contract.getProposal(proposalId)
+        );
+    }
+
+    /**
+     * Returns all proposals made for an escrow, oldest first.
+     *
+     * @param escrowId The unique escrow id.
+     */
+    public async getEscrowProposals(
+        escrowId: string
+    ): Promise<ArbitrationProposal[]> {
+        const ids = await this.contract.getEscrowProposals(escrowId);
+        return await Promise.all(ids.map((id) => this.getProposal(id)));
+    }
+
+    /**
+     * Returns the pending proposal for an escrow, if there is one.
+     *
+     * @param escrowId The unique escrow id.
+     */
+    public async getPendingProposal(
+        escrowId: string
+    ): Promise<ArbitrationProposal | undefined> {
+        return (await this.getEscrowProposals(escrowId)).find(
+            (p) => p.status === ProposalStatus.Pending
+        );
+    }
+
+    private _requireSigner(): Signer {
+        const runner = this.contract.runner as Signer | null;
+        if (!runner || typeof runner.sendTransaction !== 'function') {
+            throw new Error('SignerRequired');
+        }
+        return runner;
+    }
+}
+
+//what has been paid into a leg, and not yet released or refunded
+function getAmountRemaining(leg: EscrowLeg): bigint {
+    return leg.amountPaid - leg.amountReleased - leg.amountRefunded;
+}
@@ -0,0 +1,1086 @@
+import {
+    BigNumberish,
+    ContractRunner,
+    ContractTransaction,
+    ContractTransactionResponse,
+    Provider,
+    Signature,
+    Signer,
+    TypedDataDomain,
+    ZeroAddress,
+    ZeroHash,
+} from 'ethers';
+import {
+    IERC20__factory,
+    IERC721__factory,
+    IERC1155__factory,
+    PolyEscrow,
+    PolyEscrow__factory,
+    RelayNode__factory,
+    SystemSettings__factory,
+} from '../typechain-types';
+import {
+    computeEscrowId,
+    computeRelayNodeAddress,
+    decodeEscrow,
+    decodeEscrowTemplate,
+    encodeCreateEscrowInput,
+    encodeEscrowTemplate,
+    encodeTemplateLegInput,
+    MAX_RELAY_NODES_PER_ESCROW,
+} from './codec';
+import {
+    EscrowPayouts,
+    PlatformFeeSettings,
+    simulateEscrowPayouts,
+} from './fees';
+import {
+    signCancellation,
+    signIntent,
+    signPermit,
+    verifyCancellation,
+} from './signatures';
+import {
+    BatchOptions,
+    CancellationSignature,
+    CreateEscrowInput,
+    EscrowDefinition,
+    EscrowIntent,
+    EscrowLeg,
+    EscrowPaymentType,
+    EscrowTemplate,
+    PaymentInput,
+    RelayNodeBalance,
+    RelayNodeSummary,
+    SignedIntent,
+    TemplateLegInput,
+} from './types';
+
+/**
+ * Typed client for a deployed PolyEscrow contract.
+ *
+ * Works against any ethers v6 ContractRunner: a Provider is enough for reads (getEscrow, hasEscrow, simulatePayouts),
+ * while writes (creating escrows and templates, payments, deployRelayNode, cancellation) require a Signer.
+ */
+export class PolyEscrowClient {
+    public readonly contract: PolyEscrow;
+
+    /**
+     * @param address Address of the deployed PolyEscrow contract.
+     * @param runner A Signer (for reads and writes) or Provider (reads only).
+     */
+    constructor(address: string, runner: ContractRunner) {
+        this.contract = PolyEscrow__factory.connect(address, runner);
+    }
+
+    /**
+     * Address of the PolyEscrow contract this client talks to.
+     */
+    public get address(): string {
+        return this.contract.target as string;
+    }
+
+    /**
+     * Returns a new client for the same contract, connected to a different signer or provider.
+     *
+     * @param runner The new Signer or Provider.
+     */
+    public connect(runner: ContractRunner): PolyEscrowClient {
+        return new PolyEscrowClient(this.address, runner);
+    }
+
+    /**
+     * Creates a new escrow agreement; optional times, arbitration and fees default to none.
+     *
+     * @param input Specification of the escrow to create.
+     * @returns The escrow as stored on-chain after creation.
+     */
+    public async createEscrow(
+        input: CreateEscrowInput
+    ): Promise<EscrowDefinition> {
+        this._requireSigner();
+
+        const tx = await this.contract.createEscrow(
+            encodeCreateEscrowInput(input)
+        );
+        await tx.wait();
+
+        return await this.getEscrow(input.id);
+    }
+
+    /**
+     * Pays into one leg of an escrow. The leg is identified by currency; for token legs, the escrow
+     * contract is approved first if the current allowance (or NFT approval) doesn't already cover the
+     * payment.
+     *
+     * @param payment The payment to place.
+     * @returns The escrow as stored on-chain after the payment.
+     */
+    public async placePayment(
+        payment: PaymentInput
+    ): Promise<EscrowDefinition> {
+        const signer = this._requireSigner();
+        const escrow = await this.getEscrow(payment.escrowId);
+        const leg = this._findLegForCurrency(escrow, payment.currency);
+        const amount = BigInt(payment.amount);
+
+        //take care of approvals
+        if (leg?.paymentType === EscrowPaymentType.ERC20) {
+            await this._approveErc20(signer, leg.currency, amount);
+        } else if (leg?.paymentType === EscrowPaymentType.ERC721) {
+            await this._approveErc721(signer, leg.currency, leg.tokenId);
+        } else if (leg?.paymentType === EscrowPaymentType.ERC1155) {
+            await this._approveErc1155(signer, leg.currency);
+        }
+
+        //place the payment
+        const isNative = leg?.paymentType === EscrowPaymentType.Native;
+        const tx = await this.contract.placePayment(
+            {
+                escrowId: payment.escrowId,
+                currency: payment.currency,
+                amount,
+            },
+            { value: isNative ? amount : 0 }
+        );
+        await tx.wait();
+
+        return await this.getEscrow(payment.escrowId);
+    }
+
+    /**
+     * Creates a new escrow with an id derived from the signer, their escrow nonce and a salt, so that
+     * the caller needn't invent a unique id (see predictEscrowId).
+     *
+     * @param input Specification of the escrow to create, without its id.
+     * @param salt Any 32-byte value.
+     * @returns The escrow as stored on-chain after creation.
+     */
+    public async createEscrowWithSalt(
+        input: Omit<CreateEscrowInput, 'id'>,
+        salt: string
+    ): Promise<EscrowDefinition> {
+        this._requireSigner();
+
+        const tx = await this.contract.createEscrowWithSalt(
+            encodeCreateEscrowInput({ ...input, id: ZeroHash }),
+            salt
+        );
+        return await this.getEscrow(await this._getCreatedEscrowId(tx));
+    }
+
+    /**
+     * Returns the id which an account's next escrow created with the given salt will have. The id is
+     * computed locally, from the account's current escrow nonce.
+     *
+     * @param salt The salt to be given.
+     * @param creator The account which will create the escrow; defaults to the connected signer.
+     */
+    public async predictEscrowId(
+        salt: string,
+        creator?: string
+    ): Promise<string> {
+        creator ??= await this._requireSigner().getAddress();
+        return computeEscrowId(
+            creator,
+            await this.contract.escrowNonces(creator),
+            salt
+        );
+    }
+
+    /**
+     * Stores a template of escrow terms, which anyone may then create escrows from.
+     *
+     * @param template The terms to store.
+     * @returns The id of the new template.
+     */
+    public async createTemplate(template: EscrowTemplate): Promise<bigint> {
+        this._requireSigner();
+
+        const tx = await this.contract.createTemplate(
+            encodeEscrowTemplate(template)
+        );
+        const receipt = await tx.wait();
+
+        //find the TemplateCreated event
+        for (const log of receipt?.logs ?? []) {
+            const parsed = this.contract.interface.parseLog(log);
+            if (parsed?.name === 'TemplateCreated') {
+                return parsed.args.templateId;
+            }
+        }
+
+        throw new Error('TemplateCreatedEventNotFound');
+    }
+
+    /**
+     * Retrieves a template by its id. If no such template exists, its currencies are zero.
+     *
+     * @param templateId The template id.
+     */
+    public async getTemplate(
+        templateId: BigNumberish
+    ): Promise<EscrowTemplate> {
+        return decodeEscrowTemplate(
+            await this.contract.getTemplate(templateId)
+        );
+    }
+
+    /**
+     * Creates a new escrow from a template, with an id derived as in createEscrowWithSalt. It starts
+     * now, and ends after the template's duration (if any).
+     *
+     * @param templateId The template id.
+     * @param primaryLeg The primary leg's participant and pledge.
+     * @param secondaryLeg The secondary leg's participant and pledge.
+     * @param salt Any 32-byte value.
+     * @returns The escrow as stored on-chain after creation.
+     */
+    public async createEscrowFromTemplate(
+        templateId: BigNumberish,
+        primaryLeg: TemplateLegInput,
+        secondaryLeg: TemplateLegInput,
+        salt: string
+    ): Promise<EscrowDefinition> {
+        this._requireSigner();
+
+        const tx = await this.contract.createEscrowFromTemplate(
+            templateId,
+            encodeTemplateLegInput(primaryLeg),
+            encodeTemplateLegInput(secondaryLeg),
+            salt
+        );
+        return await this.getEscrow(await this._getCreatedEscrowId(tx));
+    }
+
+    /**
+     * Creates several escrows, in one transaction unless options split them into several (see
+     * BatchOptions).
+     *
+     * @param inputs Specifications of the escrows to create.
+     * @param options How to split the batch into transactions.
+     * @returns The escrows as stored on-chain after creation, in the order given.
+     */
+    public async createEscrows(
+        inputs: CreateEscrowInput[],
+        options: BatchOptions = {}
+    ): Promise<EscrowDefinition[]> {
+        this._requireSigner();
+
+        await this._sendInChunks(inputs, options, (chunk) =>
+            this.contract.createEscrows.populateTransaction(
+                chunk.map(encodeCreateEscrowInput)
+            )
+        );
+
+        return await Promise.all(inputs.map((i) => this.getEscrow(i.id)));
+    }
+
+    /**
+     * Places several payments, in one transaction unless options split them into several (see
+     * BatchOptions). Token approvals are made first, as in placePayment, for the total paid in each token; each
+     * transaction sends the total of its native payments.
+     *
+     * @param payments The payments to place, in order.
+     * @param options How to split the batch into transactions.
+     * @returns The escrows as stored on-chain after the payments, in the order of the payments.
+     */
+    public async placePayments(
+        payments: PaymentInput[],
+        options: BatchOptions = {}
+    ): Promise<EscrowDefinition[]> {
+        const signer = this._requireSigner();
+
+        //total up the amounts of each token, to approve them once
+        const erc20Totals = new Map<string, bigint>();
+        const erc1155Tokens = new Set<string>();
+        const erc721Tokens: EscrowLeg[] = [];
+        for (const payment of payments) {
+            const escrow = await this.getEscrow(payment.escrowId);
+            const leg = this._findLegForCurrency(escrow, payment.currency);
+
+            if (leg?.paymentType === EscrowPaymentType.ERC20) {
+                const total = erc20Totals.get(leg.currency) ?? 0n;
+                erc20Totals.set(leg.currency, total + BigInt(payment.amount));
+            } else if (leg?.paymentType === EscrowPaymentType.ERC721) {
+                erc721Tokens.push(leg);
+            } else if (leg?.paymentType === EscrowPaymentType.ERC1155) {
+                erc1155Tokens.add(leg.currency);
+            }
+        }
+
+        //take care of approvals
+        for (const [currency, total] of erc20Totals) {
+            await this._approveErc20(signer, currency, total);
+        }
+        for (const leg of erc721Tokens) {
+            await this._approveErc721(signer, leg.currency, leg.tokenId);
+        }
+        for (const currency of erc1155Tokens) {
+            await this._approveErc1155(signer, currency);
+        }
+
+        //place the payments; the native ones are paid for by the value sent
+        await this._sendInChunks(payments, options, (chunk) => {
+            const value = chunk
+                .filter((p) => p.currency === ZeroAddress)
+                .reduce((total, p) => total + BigInt(p.amount), 0n);
+
+            return this.contract.placePayments.populateTransaction(
+                chunk.map((p) => ({
+                    escrowId: p.escrowId,
+                    currency: p.currency,
+                    amount: BigInt(p.amount),
+                })),
+                { value }
+            );
+        });
+
+        return await Promise.all(
+            payments.map((p) => this.getEscrow(p.escrowId))
+        );
+    }
+
+    /**
+     * Pays into an ERC20 leg of an escrow in a single transaction, signing an EIP-2612 permit for the
+     * escrow contract in place of a separate approval. The token must support EIP-2612.
+     *
+     * @param payment The payment to place.
+     * @param deadline Time (in unix seconds) after which the permit can't be used.
+     * @returns The escrow as stored on-chain after the payment.
+     */
+    public async placePaymentWithPermit(
+        payment: PaymentInput,
+        deadline: BigNumberish
+    ): Promise<EscrowDefinition> {
+        const signer = this._requireSigner();
+        const escrow = await this.getEscrow(payment.escrowId);
+        const leg = this._findLegForCurrency(escrow, payment.currency);
+        if (leg?.paymentType !== EscrowPaymentType.ERC20) {
+            throw new Error('InvalidPaymentType');
+        }
+
+        const permit = await signPermit(
+            signer,
+            leg.currency,
+            this.address,
+            payment.amount,
+            deadline
+        );
+        const { v, r, s } = Signature.from(permit.signature);
+        const tx = await this.contract.placePaymentWithPermit(
+            {
+                escrowId: payment.escrowId,
+                currency: payment.currency,
+                amount: permit.value,
+            },
+            permit.deadline,
+            v,
+            r,
+            s
+        );
+        await tx.wait();
+
+        return await this.getEscrow(payment.escrowId);
+    }
+
+    /**
+     * Refunds whatever remains in an escrow whose end time has passed to the parties that paid it,
+     * and completes the escrow. Anyone may do this.
+     *
+     * @param escrowId The unique escrow id.
+     * @returns The escrow as stored on-chain after the refund.
+     */
+    public async refundExpired(escrowId: string): Promise<EscrowDefinition> {
+        this._requireSigner();
+        await (await this.contract.refundExpired(escrowId)).wait();
+        return await this.getEscrow(escrowId);
+    }
+
+    /**
+     * Approves cancelling an Active escrow, as one of its participants. Once both participants have
+     * approved, the escrow is cancelled: what remains of each leg is refunded, and it is Completed.
+     *
+     * @param escrowId The unique escrow id.
+     * @returns The escrow as stored on-chain after the approval.
+     */
+    public async approveCancellation(
+        escrowId: string
+    ): Promise<EscrowDefinition> {
+        this._requireSigner();
+        await (await this.contract.approveCancellation(escrowId)).wait();
+        return await this.getEscrow(escrowId);
+    }
+
+    /**
+     * Returns true if a participant has approved cancelling the escrow on-chain.
+     *
+     * @param escrowId The unique escrow id.
+     * @param participant Address of the participant.
+     */
+    public async isCancellationApproved(
+        escrowId: string,
+        participant: string
+    ): Promise<boolean> {
+        return await this.contract.isCancellationApproved(
+            escrowId,
+            participant
+        );
+    }
+
+    /**
+     * Signs the connected participant's agreement to cancel an escrow, off-chain. Nothing is sent to
+     * the chain; pass the signature, with the other participant's, to cancelWithSignatures.
+     *
+     * @param escrowId The unique escrow id.
+     * @param deadline Time (in unix seconds) after which the signature can't be used.
+     */
+    public async signCancellation(
+        escrowId: string,
+        deadline: BigNumberish
+    ): Promise<CancellationSignature> {
+        const signer = this._requireSigner();
+        return await signCancellation(
+            signer,
+            await this.getDomain(),
+            escrowId,
+            deadline
+        );
+    }
+
+    /**
+     * Cancels an Active escrow with both participants' cancellation signatures, in either order. The
+     * connected signer submits them, and needn't be a participant.
+     *
+     * @param signatures The signatures of the two participants, for the same escrow and deadline.
+     * @returns The escrow as stored on-chain after cancelling.
+     */
+    public async cancelWithSignatures(
+        signatures: CancellationSignature[]
+    ): Promise<EscrowDefinition> {
+        this._requireSigner();
+        const [{ escrowId, deadline }] = signatures;
+        if (
+            signatures.some(
+                (s) => s.escrowId !== escrowId || s.deadline !== deadline
+            )
+        ) {
+            throw new Error('MismatchedCancellationSignatures');
+        }
+
+        //each participant's signature must be there, and valid
+        const domain = await this.getDomain();
+        const escrow = await this.getEscrow(escrowId);
+        const signatureOf = (leg: EscrowLeg) => {
+            const found = signatures.find(
+                (s) =>
+                    s.signer.toLowerCase() ===
+                        leg.participantAddress.toLowerCase() &&
+                    verifyCancellation(domain, s)
+            );
+            if (!found) {
+                throw new Error('MissingCancellationSignature');
+            }
+            return found.signature;
+        };
+
+        const tx = await this.contract.cancelWithSignatures(
+            escrowId,
+            deadline,
+            signatureOf(escrow.primaryLeg),
+            signatureOf(escrow.secondaryLeg)
+        );
+        await tx.wait();
+
+        return await this.getEscrow(escrowId);
+    }
+
+    /**
+     * Returns an account's next nonce on the contract, which its next signed intent must use.
+     *
+     * @param account Address of the account.
+     */
+    public async getNonce(account: string): Promise<bigint> {
+        return await this.contract.nonces(account);
+    }
+
+    /**
+     * Signs an intent as the connected signer, off-chain, for a relayer to submit and pay the gas for.
+     * Nothing is sent to the chain.
+     *
+     * @param intent The action to sign.
+     * @param deadline Time (in unix seconds) after which the signature can't be used.
+     * @param nonce Defaults to the signer's next nonce; pass later ones to sign several intents ahead.
+     */
+    public async signIntent(
+        intent: EscrowIntent,
+        deadline: BigNumberish,
+        nonce?: BigNumberish
+    ): Promise<SignedIntent> {
+        const signer = this._requireSigner();
+        return await signIntent(
+            signer,
+            await this.getDomain(),
+            intent,
+            nonce ?? (await this.getNonce(await signer.getAddress())),
+            deadline
+        );
+    }
+
+    /**
+     * Simulates submitting a signed intent, with eth_call; throws the contract's revert if it would fail.
+     *
+     * @param signed The signed intent.
+     */
+    public async simulateIntent(signed: SignedIntent): Promise<void> {
+        const { method, args } = this._getIntentCall(signed);
+        await this.contract.getFunction(method).staticCall(...args);
+    }
+
+    /**
+     * Submits a signed intent to the contract. The connected signer sends the transaction and pays the
+     * gas; the intent's signer needn't hold any native currency.
+     *
+     * @param signed The signed intent.
+     * @returns Hash of the mined transaction.
+     */
+    public async submitIntent(signed: SignedIntent): Promise<string> {
+        this._requireSigner();
+        const { method, args } = this._getIntentCall(signed);
+        const tx = await this.contract.getFunction(method).send(...args);
+        await tx.wait();
+        return tx.hash;
+    }
+
+    /**
+     * Returns the EIP-712 domain of the contract, as it reports it.
+     */
+    public async getDomain(): Promise<TypedDataDomain> {
+        const { name, version, chainId, verifyingContract } =
+            await this.contract.eip712Domain();
+        return { name, version, chainId, verifyingContract };
+    }
+
+    /**
+     * Returns the address of one of an escrow's relay nodes, whether or not it's been deployed yet; payments
+     * sent to it before it's deployed are relayed when it is. The address is computed locally. Throws
+     * MaxRelayNodesExceeded if no relay node can be deployed at the index, as the contract does.
+     *
+     * @param escrowId The unique escrow id of the relay node.
+     * @param index Its position among the escrow's relay nodes, in the order deployed (from 0).
+     */
+    public async predictRelayNodeAddress(
+        escrowId: string,
+        index: BigNumberish
+    ): Promise<string> {
+        if (BigInt(index) >= MAX_RELAY_NODES_PER_ESCROW) {
+            throw new Error('MaxRelayNodesExceeded');
+        }
+
+        return computeRelayNodeAddress(
+            await this.contract.getAddress(),
+            await this.contract.relayNodeImplementation(),
+            escrowId,
+            index
+        );
+    }
+
+    /**
+     * Deploys a relay node for the given escrow.
+     *
+     * @param escrowId The unique escrow id to associate with the relay node.
+     * @param autoForwardNative Whether native payments into the node are forwarded automatically.
+     * @returns Address of the deployed relay node.
+     */
+    public async deployRelayNode(
+        escrowId: string,
+        autoForwardNative: boolean = true
+    ): Promise<string> {
+        this._requireSigner();
+
+        const tx = await this.contract.deployRelayNode(
+            escrowId,
+            autoForwardNative
+        );
+        const receipt = await tx.wait();
+
+        //find the RelayNodeDeployed event
+        for (const log of receipt?.logs ?? []) {
+            const parsed = this.contract.interface.parseLog(log);
+            if (parsed?.name === 'RelayNodeDeployed') {
+                return parsed.args.relayAddress;
+            }
+        }
+
+        throw new Error('RelayNodeDeployedEventNotFound');
+    }
+
+    /**
+     * Returns what a relay node holds in each of its escrow's currencies, waiting to be relayed. While the
+     * escrow is in arbitration, this is held until arbitration is resolved; once it's completed, deposits
+     * wait for their depositors to claim them, and the rest is refunded by the next relay.
+     *
+     * @param relayNode Address of the relay node.
+     * @returns A balance for each leg of the node's escrow, primary leg first.
+     */
+    public async getRelayNodeBalances(
+        relayNode: string
+    ): Promise<RelayNodeBalance[]> {
+        const node = RelayNode__factory.connect(
+            relayNode,
+            this.contract.runner
+        );
+        const escrow = await this.getEscrow(await node.escrowId());
+
+        const balances: RelayNodeBalance[] = [];
+        for (const leg of [escrow.primaryLeg, escrow.secondaryLeg]) {
+            balances.push({
+                currency: leg.currency,
+                paymentType: leg.paymentType,
+                amount: await this._getHeldAmount(leg, relayNode),
+            });
+        }
+        return balances;
+    }
+
+    /**
+     * Returns how much a relay node holds for one depositor, which they may claim back until it's relayed.
+     *
+     * @param relayNode Address of the relay node.
+     * @param currency Token address, or 0x0 for native.
+     * @param depositor Address of the depositor.
+     */
+    public async getRelayNodeDeposit(
+        relayNode: string,
+        currency: string,
+        depositor: string
+    ): Promise<bigint> {
+        return await RelayNode__factory.connect(
+            relayNode,
+            this.contract.runner
+        ).depositOf(currency, depositor);
+    }
+
+    /**
+     * Claims back the signer's own deposits in one currency from a relay node.
+     *
+     * @param relayNode Address of the relay node.
+     * @param currency Token address, or 0x0 for native.
+     */
+    public async claimRelayNodeRefund(
+        relayNode: string,
+        currency: string
+    ): Promise<void> {
+        const tx = await RelayNode__factory.connect(
+            relayNode,
+            this._requireSigner()
+        ).claimRefund(currency);
+        await tx.wait();
+    }
+
+    /**
+     * Returns the addresses of the relay nodes deployed for an escrow, in the order deployed.
+     *
+     * @param escrowId The unique escrow id.
+     */
+    public async getRelayNodes(escrowId: string): Promise<string[]> {
+        return [...(await this.contract.getRelayNodes(escrowId))];
+    }
+
+    /**
+     * Returns each of an escrow's relay nodes, with its state and what it holds in each of the escrow's
+     * currencies (see getRelayNodeBalances).
+     *
+     * @param escrowId The unique escrow id.
+     * @returns The relay nodes, in the order deployed.
+     */
+    public async getRelayNodeSummaries(
+        escrowId: string
+    ): Promise<RelayNodeSummary[]> {
+        const summaries: RelayNodeSummary[] = [];
+        for (const address of await this.getRelayNodes(escrowId)) {
+            const node = RelayNode__factory.connect(
+                address,
+                this.contract.runner
+            );
+            summaries.push({
+                address,
+                autoForwardNative: await node.autoForwardNative(),
+                paused: await node.paused(),
+                retired: await node.retired(),
+                balances: await this.getRelayNodeBalances(address),
+            });
+        }
+        return summaries;
+    }
+
+    /**
+     * Retires a relay node, which refunds what it holds other than deposits (which their depositors may
+     * still claim), and accepts no further payments. The signer must have the system role.
+     *
+     * @param relayNode Address of the relay node.
+     */
+    public async retireRelayNode(relayNode: string): Promise<void> {
+        const tx = await RelayNode__factory.connect(
+            relayNode,
+            this._requireSigner()
+        ).retire();
+        await tx.wait();
+    }
+
+    /**
+     * Pauses (or unpauses) each of an escrow's relay nodes which isn't already. The signer must have the
+     * system role.
+     *
+     * @param escrowId The unique escrow id.
+     * @param paused Whether to pause the relay nodes, or unpause them.
+     * @returns Addresses of the relay nodes which were paused or unpaused.
+     */
+    public async setRelayNodesPaused(
+        escrowId: string,
+        paused: boolean
+    ): Promise<string[]> {
+        const signer = this._requireSigner();
+
+        const changed: string[] = [];
+        for (const address of await this.getRelayNodes(escrowId)) {
+            const node = RelayNode__factory.connect(address, signer);
+            if ((await node.paused()) !== paused) {
+                await (await (paused ? node.pause() : node.unpause())).wait();
+                changed.push(address);
+            }
+        }
+        return changed;
+    }
+
+    /**
+     * Retrieves an escrow by its id. If no such escrow exists, the returned escrow's id is zero.
+     *
+     * @param escrowId The unique escrow id.
+     */
+    public async getEscrow(escrowId: string): Promise<EscrowDefinition> {
+        return decodeEscrow(await this.contract.getEscrow(escrowId));
+    }
+
+    /**
+     * Finds the escrows which name an account as one of their arbiters, by reading each escrow created
+     * (according to the EscrowCreated events) from the given block on.
+     *
+     * @param arbiter Address of the arbiter.
+     * @param fromBlock Block to search from; defaults to the first.
+     * @returns The escrows, oldest first.
+     */
+    public async findEscrowsByArbiter(
+        arbiter: string,
+        fromBlock: number = 0
+    ): Promise<EscrowDefinition[]> {
+        const events = await this.contract.queryFilter(
+            this.contract.filters.EscrowCreated(),
+            fromBlock
+        );
+
+        const escrows: EscrowDefinition[] = [];
+        for (const event of events) {
+            const escrow = await this.getEscrow(event.args.escrowId);
+            if (
+                escrow.arbitration.arbiters.some(
+                    (a) => a.toLowerCase() === arbiter.toLowerCase()
+                )
+            ) {
+                escrows.push(escrow);
+            }
+        }
+        return escrows;
+    }
+
+    /**
+     * Returns true if the escrow exists in the contract.
+     *
+     * @param escrowId The unique escrow id.
+     */
+    public async hasEscrow(escrowId: string): Promise<boolean> {
+        return await this.contract.hasEscrow(escrowId);
+    }
+
+    /**
+     * Returns the platform fee settings the contract currently applies to new escrows.
+     */
+    public async getPlatformFeeSettings(): Promise<PlatformFeeSettings> {
+        const settingsAddress = await this.contract.settings();
+        if (settingsAddress === ZeroAddress) {
+            return { vaultAddress: ZeroAddress, feeBps: 0n };
+        }
+
+        const settings = SystemSettings__factory.connect(
+            settingsAddress,
+            this.contract.runner
+        );
+        return {
+            vaultAddress: await settings.vaultAddress(),
+            feeBps: await settings.feeBps(),
+        };
+    }
+
+    /**
+     * Shows who would receive what if the given escrow were created now and paid in full, under the
+     * current platform fee settings. Nothing is sent to the chain.
+     *
+     * @param input Specification of the escrow.
+     */
+    public async simulatePayouts(
+        input: CreateEscrowInput
+    ): Promise<EscrowPayouts> {
+        return simulateEscrowPayouts(
+            input,
+            await this.getPlatformFeeSettings()
+        );
+    }
+
+    private _requireSigner(): Signer {
+        const runner = this.contract.runner as Signer | null;
+        if (!runner || typeof runner.sendTransaction !== 'function') {
+            throw new Error('SignerRequired');
+        }
+        return runner;
+    }
+
+    //the contract function, and its arguments, which carries out a signed intent
+    private _getIntentCall(signed: SignedIntent): {
+        method: string;
+        args: any[];
+    } {
+        const { intent, signer, deadline, signature } = signed;
+        switch (intent.type) {
+            case 'createEscrow':
+                return {
+                    method: 'createEscrowWithSignature',
+                    args: [
+                        encodeCreateEscrowInput(intent.input),
+                        signer,
+                        deadline,
+                        signature,
+                    ],
+                };
+            case 'placePayment': {
+                const args: any[] = [
+                    {
+                        escrowId: intent.payment.escrowId,
+                        currency: intent.payment.currency,
+                        amount: BigInt(intent.payment.amount),
+                    },
+                    signer,
+                    deadline,
+                    signature,
+                ];
+                if (!intent.permit) {
+                    return { method: 'placePaymentWithSignature', args };
+                }
+
+                const { v, r, s } = Signature.from(intent.permit.signature);
+                return {
+                    method: 'placePaymentWithSignatureAndPermit',
+                    args: [
+                        ...args,
+                        { deadline: BigInt(intent.permit.deadline), v, r, s },
+                    ],
+                };
+            }
+            case 'relayRefund':
+                return {
+                    method: 'refundRelayNodeWithSignature',
+                    args: [
+                        intent.relayNode,
+                        intent.currency,
+                        signer,
+                        deadline,
+                        signature,
+                    ],
+                };
+        }
+    }
+
+    //the id of the escrow created by a transaction, from its EscrowCreated event
+    private async _getCreatedEscrowId(
+        tx: ContractTransactionResponse
+    ): Promise<string> {
+        const receipt = await tx.wait();
+        for (const log of receipt?.logs ?? []) {
+            const parsed = this.contract.interface.parseLog(log);
+            if (parsed?.name === 'EscrowCreated') {
+                return parsed.args.escrowId;
+            }
+        }
+
+        throw new Error('EscrowCreatedEventNotFound');
+    }
+
+    //sends the items in one transaction, unless options ask for them to be split. Then, they're sent in
+    //order, each transaction taking as many of the remaining items as fit under the gas limit: the batch
+    //is halved until its estimate fits. Each is mined before the next is estimated, since later items may
+    //depend on earlier ones
+    private async _sendInChunks<T>(
+        items: T[],
+        options: BatchOptions,
+        populate: (chunk: T[]) => Promise<ContractTransaction>
+    ): Promise<void> {
+        const signer = this._requireSigner();
+
+        if (
+            options.maxGas === undefined &&
+            options.maxBatchSize === undefined
+        ) {
+            if (items.length > 0) {
+                await (
+                    await signer.sendTransaction(await populate(items))
+                ).wait();
+            }
+            return;
+        }
+
+        const maxGas = options.maxGas ?? (await this._getDefaultMaxGas());
+
+        let start = 0;
+        while (start < items.length) {
+            let size = Math.min(
+                items.length - start,
+                options.maxBatchSize ?? items.length
+            );
+            let tx = await populate(items.slice(start, start + size));
+            let gas = await signer.estimateGas(tx);
+
+            while (gas > maxGas) {
+                //a single item which doesn't fit can't be split any further
+                if (size === 1) {
+                    throw new Error('BatchGasLimitExceeded');
+                }
+                size = Math.ceil(size / 2);
+                tx = await populate(items.slice(start, start + size));
+                gas = await signer.estimateGas(tx);
+            }
+
+            await (
+                await signer.sendTransaction({ ...tx, gasLimit: gas })
+            ).wait();
+            start += size;
+        }
+    }
+
+    private async _getDefaultMaxGas(): Promise<bigint> {
+        const block = await this._requireSigner().provider?.getBlock('latest');
+        if (!block) {
+            throw new Error('ProviderRequired');
+        }
+        return block.gasLimit / 2n;
+    }
+
+    //how much of a leg's currency an address holds
+    private async _getHeldAmount(
+        leg: EscrowLeg,
+        holder: string
+    ): Promise<bigint> {
+        const provider = this._requireProvider();
+
+        switch (leg.paymentType) {
+            case EscrowPaymentType.Native:
+                return await provider.getBalance(holder);
+            case EscrowPaymentType.ERC20:
+                return await IERC20__factory.connect(
+                    leg.currency,
+                    provider
+                ).balanceOf(holder);
+            case EscrowPaymentType.ERC1155:
+                return await IERC1155__factory.connect(
+                    leg.currency,
+                    provider
+                ).balanceOf(holder, leg.tokenId);
+            case EscrowPaymentType.ERC721:
+                return await this._getNftBalance(leg, holder);
+        }
+        return 0n;
+    }
+
+    //ownerOf() reverts for tokens which don't exist (yet)
+    private async _getNftBalance(
+        leg: EscrowLeg,
+        holder: string
+    ): Promise<bigint> {
+        try {
+            const owner = await IERC721__factory.connect(
+                leg.currency,
+                this._requireProvider()
+            ).ownerOf(leg.tokenId);
+            return owner.toLowerCase() === holder.toLowerCase() ? 1n : 0n;
+        } catch {
+            return 0n;
+        }
+    }
+
+    private _requireProvider(): Provider {
+        const provider = this.contract.runner?.provider;
+        if (!provider) {
+            throw new Error('ProviderRequired');
+        }
+        return provider;
+    }
+
+    //mirrors the contract: the paying leg is the one whose currency matches
+    private _findLegForCurrency(
+        escrow: EscrowDefinition,
+        currency: string
+    ): EscrowLeg | undefined {
+        const matches = (leg: EscrowLeg) =>
+            leg.paymentType === EscrowPaymentType.Native
+                ? currency === ZeroAddress
+                : leg.currency.toLowerCase() === currency.toLowerCase();
+
+        if (matches(escrow.secondaryLeg)) return escrow.secondaryLeg;
+        if (matches(escrow.primaryLeg)) return escrow.primaryLeg;
+        return undefined;
+    }
+
+    private async _approveErc20(
+        signer: Signer,
+        currency: string,
+        amount: bigint
+    ): Promise<void> {
+        const token = IERC20__factory.connect(currency, signer);
+        const allowance = await token.allowance(
+            await signer.getAddress(),
+            this.address
+        );
+
+        if (allowance < amount) {
+            await (await token.approve(this.address, amount)).wait();
+        }
+    }
+
+    private async _approveErc721(
+        signer: Signer,
+        currency: string,
+        tokenId: bigint
+    ): Promise<void> {
+        const token = IERC721__factory.connect(currency, signer);
+        const owner = await signer.getAddress();
+
+        const approved =
+            (await token.getApproved(tokenId)) === this.address ||
+            (await token.isApprovedForAll(owner, this.address));
+
+        if (!approved) {
+            await (await token.approve(this.address, tokenId)).wait();
+        }
+    }
+
+    //ERC1155 has no per-token approvals
+    private async _approveErc1155(
+        signer: Signer,
+        currency: string
+    ): Promise<void> {
+        const token = IERC1155__factory.connect(currency, signer);
+        const owner = await signer.getAddress();
+
+        if (!(await token.isApprovedForAll(owner, this.address))) {
+            await (await token.setApprovalForAll(this.address, true)).wait();
+        }
+    }
+}
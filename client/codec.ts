@@ -0,0 +1,371 @@
+import {
+    AbiCoder,
+    BigNumberish,
+    concat,
+    getAddress,
+    getCreate2Address,
+    keccak256,
+    ZeroAddress,
+} from 'ethers';
+import { PolyEscrow__factory } from '../typechain-types';
+import {
+    CreateEscrowInputStruct,
+    EscrowTemplateStruct,
+    TemplateLegInputStruct,
+} from '../typechain-types/src/escrow/PolyEscrow';
+import {
+    ArbitrationDefinition,
+    ArbitrationProposal,
+    CreateEscrowInput,
+    EscrowDefinition,
+    EscrowLeg,
+    EscrowPaymentType,
+    EscrowStatus,
+    EscrowTemplate,
+    FeeDefinition,
+    ProposalStatus,
+    ProposalType,
+    TemplateLegInput,
+} from './types';
+
+/**
+ * Decodes the tuple returned by PolyEscrow.getEscrow into a plain EscrowDefinition.
+ *
+ * Works positionally, so accepts an ethers Result as well as a plain nested array. All amounts and
+ * times are decoded losslessly as bigint; fees and arbiters are copied out into plain arrays so that
+ * no ethers Result proxies leak out.
+ *
+ * @param raw The raw getEscrow result.
+ */
+export function decodeEscrow(raw: any): EscrowDefinition {
+    return {
+        id: raw[0],
+        primaryLeg: decodeEscrowLeg(raw[1]),
+        secondaryLeg: decodeEscrowLeg(raw[2]),
+        timestamp: BigInt(raw[3]),
+        startTime: BigInt(raw[4]),
+        endTime: BigInt(raw[5]),
+        status: decodeEscrowStatus(raw[6]),
+        arbitration: decodeArbitration(raw[7]),
+        fees: decodeFees(raw[8]),
+    };
+}
+
+/**
+ * Decodes an EscrowLeg tuple.
+ *
+ * @param raw The raw leg tuple.
+ */
+export function decodeEscrowLeg(raw: any): EscrowLeg {
+    return {
+        participantAddress: raw[0],
+        currency: raw[1],
+        paymentType: decodePaymentType(raw[2]),
+        amountPledged: BigInt(raw[3]),
+        amountPaid: BigInt(raw[4]),
+        amountReleased: BigInt(raw[5]),
+        amountRefunded: BigInt(raw[6]),
+        tokenId: BigInt(raw[7]),
+    };
+}
+
+/**
+ * Decodes an ArbitrationDefinition tuple.
+ *
+ * @param raw The raw arbitration tuple.
+ */
+export function decodeArbitration(raw: any): ArbitrationDefinition {
+    return {
+        arbiters: Array.from(raw[0], (a: string) => a),
+        arbitrationModule: raw[1],
+        quorum: Number(raw[2]),
+    };
+}
+
+/**
+ * Decodes an array of FeeDefinition tuples.
+ *
+ * @param raw The raw fees array.
+ */
+export function decodeFees(raw: any): FeeDefinition[] {
+    return Array.from(raw, (fee: any) => ({
+        recipient: fee[0],
+        feeBps: BigInt(fee[1]),
+    }));
+}
+
+/**
+ * Decodes an on-chain EscrowStatus value.
+ *
+ * Throws 'InvalidEscrowStatus' if the value is not a known status.
+ */
+export function decodeEscrowStatus(raw: any): EscrowStatus {
+    return decodeEnum(EscrowStatus, raw, 'InvalidEscrowStatus');
+}
+
+/**
+ * Decodes an on-chain EscrowPaymentType value.
+ *
+ * Throws 'InvalidPaymentType' if the value is not a known payment type.
+ */
+export function decodePaymentType(raw: any): EscrowPaymentType {
+    return decodeEnum(EscrowPaymentType, raw, 'InvalidPaymentType');
+}
+
+/**
+ * Decodes the tuple returned by ArbitrationModule.getProposal into a plain ArbitrationProposal.
+ *
+ * @param id The id of the proposal, which is not part of the tuple.
+ * @param raw The raw getProposal result.
+ */
+export function decodeProposal(id: bigint, raw: any): ArbitrationProposal {
+    return {
+        id,
+        escrowId: raw[0],
+        proposer: raw[1],
+        reason: raw[2],
+        timestamp: BigInt(raw[3]),
+        proposalType: decodeEnum(ProposalType, raw[4], 'InvalidProposalType'),
+        primaryAmount: BigInt(raw[5]),
+        secondaryAmount: BigInt(raw[6]),
+        votes: Array.from(raw[7], (v: any) => Number(v)),
+        expiresAt: BigInt(raw[8]),
+        status: decodeEnum(ProposalStatus, raw[9], 'InvalidProposalStatus'),
+    };
+}
+
+/**
+ * Encodes a CreateEscrowInput into the struct expected by PolyEscrow.createEscrow. Optional times,
+ * arbitration and fees are filled in with their 'none' values, amounts are converted to bigint, and
+ * addresses are checksummed (throws on an invalid address).
+ *
+ * @param input Specification of the escrow to create.
+ */
+export function encodeCreateEscrowInput(
+    input: CreateEscrowInput
+): CreateEscrowInputStruct {
+    const encodeLeg = (leg: CreateEscrowInput['primaryLeg']) => ({
+        participantAddress: getAddress(leg.participantAddress),
+        currency: getAddress(leg.currency),
+        paymentType: BigInt(leg.paymentType),
+        amount: BigInt(leg.amount),
+        tokenId: BigInt(leg.tokenId ?? 0),
+    });
+
+    return {
+        id: input.id,
+        primaryLeg: encodeLeg(input.primaryLeg),
+        secondaryLeg: encodeLeg(input.secondaryLeg),
+        startTime: BigInt(input.startTime ?? 0),
+        endTime: BigInt(input.endTime ?? 0),
+        arbitration: encodeArbitration(input.arbitration),
+        fees: encodeFees(input.fees),
+    };
+}
+
+/**
+ * Decodes the tuple returned by PolyEscrow.getTemplate into a plain EscrowTemplate. A template which
+ * doesn't exist decodes with zero addresses throughout.
+ *
+ * @param raw The raw getTemplate result.
+ */
+export function decodeEscrowTemplate(raw: any): EscrowTemplate {
+    const decodeLeg = (leg: any) => ({
+        currency: leg[0],
+        paymentType: decodePaymentType(leg[1]),
+    });
+
+    return {
+        primaryLeg: decodeLeg(raw[0]),
+        secondaryLeg: decodeLeg(raw[1]),
+        duration: BigInt(raw[2]),
+        arbitration: decodeArbitration(raw[3]),
+        fees: decodeFees(raw[4]),
+    };
+}
+
+/**
+ * Encodes an EscrowTemplate into the struct expected by PolyEscrow.createTemplate, filling in the
+ * optional duration, arbitration and fees as encodeCreateEscrowInput does.
+ *
+ * @param template The template to store.
+ */
+export function encodeEscrowTemplate(
+    template: EscrowTemplate
+): EscrowTemplateStruct {
+    const encodeLeg = (leg: EscrowTemplate['primaryLeg']) => ({
+        currency: getAddress(leg.currency),
+        paymentType: BigInt(leg.paymentType),
+    });
+
+    return {
+        primaryLeg: encodeLeg(template.primaryLeg),
+        secondaryLeg: encodeLeg(template.secondaryLeg),
+        duration: BigInt(template.duration ?? 0),
+        arbitration: encodeArbitration(template.arbitration),
+        fees: encodeFees(template.fees),
+    };
+}
+
+/**
+ * Encodes a TemplateLegInput into the struct expected by PolyEscrow.createEscrowFromTemplate.
+ *
+ * @param leg A leg's participant and pledge.
+ */
+export function encodeTemplateLegInput(
+    leg: TemplateLegInput
+): TemplateLegInputStruct {
+    return {
+        participantAddress: getAddress(leg.participantAddress),
+        amount: BigInt(leg.amount),
+        tokenId: BigInt(leg.tokenId ?? 0),
+    };
+}
+
+/**
+ * First byte of every id derived from a salt (as in PolyEscrow.sol), as a hex prefix; createEscrow rejects ids
+ * chosen by the caller which start with it.
+ */
+export const SALTED_ESCROW_ID_TAG = '0xff';
+
+/**
+ * Returns the id of an escrow created with a salt, as the contract's computeEscrowId does: keccak256
+ * of the ABI-encoded creator, nonce and salt, with its first byte set to SALTED_ESCROW_ID_TAG.
+ *
+ * @param creator The account which creates the escrow.
+ * @param nonce The creator's escrow nonce at the time (see PolyEscrow.escrowNonces).
+ * @param salt The salt given by the creator (32 bytes).
+ */
+export function computeEscrowId(
+    creator: string,
+    nonce: BigNumberish,
+    salt: string
+): string {
+    const hash = keccak256(
+        AbiCoder.defaultAbiCoder().encode(
+            ['address', 'uint256', 'bytes32'],
+            [creator, nonce, salt]
+        )
+    );
+    return SALTED_ESCROW_ID_TAG + hash.slice(4);
+}
+
+/**
+ * Most relay nodes which can be deployed for one escrow (as in PolyEscrow.sol).
+ */
+export const MAX_RELAY_NODES_PER_ESCROW = 10n;
+
+/**
+ * Returns the address of an escrow's relay node, whether or not it's been deployed yet, as the contract's
+ * predictRelayNodeAddress does: relay nodes are minimal proxies (EIP-1167) of the escrow contract's relay node
+ * implementation, deployed by the escrow contract with CREATE2, salted with keccak256 of the ABI-encoded escrow
+ * id and index. Only indexes below MAX_RELAY_NODES_PER_ESCROW can ever be deployed to.
+ *
+ * @param escrowContract Address of the escrow contract.
+ * @param implementation Address of its relay node implementation (see PolyEscrow.relayNodeImplementation).
+ * @param escrowId The unique escrow id of the relay node.
+ * @param index Its position among the escrow's relay nodes, in the order deployed (from 0).
+ */
+export function computeRelayNodeAddress(
+    escrowContract: string,
+    implementation: string,
+    escrowId: string,
+    index: BigNumberish
+): string {
+    const initCode = concat([
+        '0x3d602d80600a3d3981f3363d3d373d3d3d363d73',
+        getAddress(implementation),
+        '0x5af43d82803e903d91602b57fd5bf3',
+    ]);
+
+    return getCreate2Address(
+        escrowContract,
+        keccak256(
+            AbiCoder.defaultAbiCoder().encode(
+                ['bytes32', 'uint256'],
+                [escrowId, index]
+            )
+        ),
+        keccak256(initCode)
+    );
+}
+
+/**
+ * Returns the hash of a CreateEscrowInput which a CreateEscrowIntent signs, as the contract computes it:
+ * keccak256 of the ABI-encoded input struct.
+ *
+ * @param input Specification of the escrow to create.
+ */
+export function hashCreateEscrowInput(input: CreateEscrowInput): string {
+    const [type] =
+        PolyEscrow__factory.createInterface().getFunction(
+            'createEscrow'
+        ).inputs;
+    return keccak256(
+        AbiCoder.defaultAbiCoder().encode(
+            [type],
+            [encodeCreateEscrowInput(input)]
+        )
+    );
+}
+
+/**
+ * Returns the CreateEscrowInput that describes an existing escrow: its legs (with pledged amounts),
+ * times, arbitration and fees. Useful for re-creating an escrow with the same terms under a new id.
+ *
+ * @param escrow An escrow, as returned by decodeEscrow.
+ */
+export function toCreateEscrowInput(
+    escrow: EscrowDefinition
+): CreateEscrowInput {
+    const toLegInput = (leg: EscrowLeg) => ({
+        participantAddress: leg.participantAddress,
+        currency: leg.currency,
+        paymentType: leg.paymentType,
+        amount: leg.amountPledged,
+        tokenId: leg.tokenId,
+    });
+
+    return {
+        id: escrow.id,
+        primaryLeg: toLegInput(escrow.primaryLeg),
+        secondaryLeg: toLegInput(escrow.secondaryLeg),
+        startTime: escrow.startTime,
+        endTime: escrow.endTime,
+        arbitration: {
+            arbiters: [...escrow.arbitration.arbiters],
+            arbitrationModule: escrow.arbitration.arbitrationModule,
+            quorum: escrow.arbitration.quorum,
+        },
+        fees: escrow.fees.map((fee) => ({ ...fee })),
+    };
+}
+
+function encodeArbitration(arbitration?: ArbitrationDefinition) {
+    return {
+        arbiters: (arbitration?.arbiters ?? []).map((a) => getAddress(a)),
+        arbitrationModule: getAddress(
+            arbitration?.arbitrationModule ?? ZeroAddress
+        ),
+        quorum: BigInt(arbitration?.quorum ?? 0),
+    };
+}
+
+function encodeFees(fees?: CreateEscrowInput['fees']) {
+    return (fees ?? []).map((fee) => ({
+        recipient: getAddress(fee.recipient),
+        feeBps: BigInt(fee.feeBps),
+    }));
+}
+
+function decodeEnum<T extends number>(
+    enumType: Record<string, string | number>,
+    raw: any,
+    errorName: string
+): T {
+    const value = Number(raw);
+    if (typeof enumType[value] !== 'string') {
+        throw new Error(errorName);
+    }
+    return value as T;
+}
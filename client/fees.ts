@@ -0,0 +1,191 @@
+import { BigNumberish, getAddress, ZeroAddress } from 'ethers';
+import { CreateEscrowInput, EscrowPaymentType, FeeDefinition } from './types';
+
+const MAX_UINT256 = 2n ** 256n - 1n;
+const BPS_DENOMINATOR = 10000n;
+
+/**
+ * PlatformFeeSettings: the platform fee, as read from SystemSettings.vaultAddress() and feeBps().
+ */
+export interface PlatformFeeSettings {
+    vaultAddress: string; //the zero address means no platform fee
+    feeBps: BigNumberish;
+}
+
+/**
+ * Payout: an amount transferred to one recipient when a leg is released.
+ */
+export interface Payout {
+    recipient: string;
+    amount: bigint;
+    isFee: boolean; //false for the counterparty's share
+}
+
+/**
+ * LegPayouts: the breakdown of one released leg.
+ */
+export interface LegPayouts {
+    currency: string;
+    paymentType: EscrowPaymentType;
+    amount: bigint; //total amount released
+    payouts: Payout[]; //counterparty first, then one entry per fee
+}
+
+/**
+ * EscrowPayouts: the fees an escrow will be created with, and who receives what when it's released.
+ */
+export interface EscrowPayouts {
+    fees: FeeDefinition[];
+    primaryLeg: LegPayouts;
+    secondaryLeg: LegPayouts;
+}
+
+/**
+ * Computes floor(x * y / denominator) with full precision, as CarefulMath.mulDiv does.
+ *
+ * Throws 'MulDivOverflow' where the contract reverts: if the denominator is zero or the result
+ * doesn't fit in a uint256.
+ */
+export function mulDiv(
+    x: BigNumberish,
+    y: BigNumberish,
+    denominator: BigNumberish
+): bigint {
+    const d = BigInt(denominator);
+    if (d === 0n) {
+        throw new Error('MulDivOverflow');
+    }
+
+    const result = (BigInt(x) * BigInt(y)) / d;
+    if (result > MAX_UINT256) {
+        throw new Error('MulDivOverflow');
+    }
+    return result;
+}
+
+/**
+ * Returns the fees an escrow is created with, given the fees in its creation input; mirrors
+ * PolyEscrow._addEscrowFeesToEscrow. All given fees are kept in order; if one of them is for the
+ * platform's vault but lower than the platform fee, it's raised to the platform fee, and if none of
+ * them is, the platform fee is appended (unless it's zero).
+ *
+ * @param fees Fees given in the creation input.
+ * @param settings Current platform fee settings.
+ */
+export function resolveEscrowFees(
+    fees: { recipient: string; feeBps: BigNumberish }[],
+    settings: PlatformFeeSettings
+): FeeDefinition[] {
+    const vault = getAddress(settings.vaultAddress);
+    const platformFee = BigInt(settings.feeBps);
+    let found = false;
+
+    const resolved = fees.map((fee) => {
+        const recipient = getAddress(fee.recipient);
+        let feeBps = BigInt(fee.feeBps);
+
+        //only the first fee for the vault is raised
+        if (!found && vault !== ZeroAddress && recipient === vault) {
+            found = true;
+            if (feeBps < platformFee) feeBps = platformFee;
+        }
+        return { recipient, feeBps };
+    });
+
+    if (!found && vault !== ZeroAddress && platformFee > 0n) {
+        resolved.push({ recipient: vault, feeBps: platformFee });
+    }
+    return resolved;
+}
+
+/**
+ * Returns who receives what when an amount of one leg is released; mirrors
+ * PolyEscrow._calculatePaymentAmounts. The counterparty receives the amount minus fees. Fees are only
+ * taken from native and ERC20 legs, each rounded down; other legs go entirely to the counterparty.
+ *
+ * Throws 'FeesExceedAmount' where the contract reverts, because the fees add up to more than the
+ * amount.
+ *
+ * @param escrow Participants and fees of the escrow.
+ * @param leg The leg being released.
+ * @param amount The amount being released.
+ */
+export function calculatePaymentAmounts(
+    escrow: {
+        primaryLeg: { participantAddress: string };
+        secondaryLeg: { participantAddress: string };
+        fees: FeeDefinition[];
+    },
+    leg: {
+        participantAddress: string;
+        paymentType: EscrowPaymentType;
+    },
+    amount: BigNumberish
+): Payout[] {
+    const total = BigInt(amount);
+
+    //the base amount is paid to the counterparty
+    const counterparty =
+        getAddress(leg.participantAddress) ===
+        getAddress(escrow.primaryLeg.participantAddress)
+            ? escrow.secondaryLeg.participantAddress
+            : escrow.primaryLeg.participantAddress;
+    const payouts: Payout[] = [
+        { recipient: getAddress(counterparty), amount: total, isFee: false },
+    ];
+
+    //fees are only calculated for ERC20 and native payments
+    if (
+        leg.paymentType !== EscrowPaymentType.ERC20 &&
+        leg.paymentType !== EscrowPaymentType.Native
+    ) {
+        return payouts;
+    }
+
+    for (const fee of escrow.fees) {
+        const feeAmount = mulDiv(total, fee.feeBps, BPS_DENOMINATOR);
+        if (feeAmount > payouts[0].amount) {
+            throw new Error('FeesExceedAmount');
+        }
+
+        payouts[0].amount -= feeAmount;
+        payouts.push({
+            recipient: getAddress(fee.recipient),
+            amount: feeAmount,
+            isFee: true,
+        });
+    }
+    return payouts;
+}
+
+/**
+ * Simulates an escrow from creation to release: the fees it will be created with under the given
+ * platform settings, and who receives what from each leg once both legs are paid in full.
+ *
+ * @param input Specification of the escrow to create.
+ * @param settings Current platform fee settings.
+ */
+export function simulateEscrowPayouts(
+    input: CreateEscrowInput,
+    settings: PlatformFeeSettings
+): EscrowPayouts {
+    const fees = resolveEscrowFees(input.fees ?? [], settings);
+    const escrow = {
+        primaryLeg: input.primaryLeg,
+        secondaryLeg: input.secondaryLeg,
+        fees,
+    };
+
+    const simulateLeg = (leg: CreateEscrowInput['primaryLeg']) => ({
+        currency: getAddress(leg.currency),
+        paymentType: leg.paymentType,
+        amount: BigInt(leg.amount),
+        payouts: calculatePaymentAmounts(escrow, leg, leg.amount),
+    });
+
+    return {
+        fees,
+        primaryLeg: simulateLeg(input.primaryLeg),
+        secondaryLeg: simulateLeg(input.secondaryLeg),
+    };
+}
@@ -0,0 +1,7 @@
+export * from './types';
+export * from './codec';
+export * from './fees';
+export * from './lifecycle';
+export * from './signatures';
+export { PolyEscrowClient } from './PolyEscrowClient';
+export { ArbitrationClient } from './ArbitrationClient';
@@ -0,0 +1,246 @@
+import { getAddress } from 'ethers';
+import { EscrowDefinition, EscrowLeg, EscrowStatus } from './types';
+
+/**
+ * The status transitions allowed by the lifecycle documented in Types.sol. Completed is terminal.
+ */
+export const ESCROW_TRANSITIONS: Readonly<
+    Record<EscrowStatus, readonly EscrowStatus[]>
+> = {
+    [EscrowStatus.Pending]: [EscrowStatus.Active],
+    [EscrowStatus.Active]: [EscrowStatus.Completed, EscrowStatus.Arbitration],
+    [EscrowStatus.Arbitration]: [EscrowStatus.Active, EscrowStatus.Completed],
+    [EscrowStatus.Completed]: [],
+};
+
+/**
+ * InvariantViolation: one way in which an escrow, or a change to it, breaks the lifecycle model.
+ */
+export interface InvariantViolation {
+    escrowId: string;
+    rule: string; //e.g. 'InvalidTransition'
+    message: string;
+}
+
+/**
+ * Returns true if the lifecycle allows going from one status directly to another.
+ */
+export function isValidTransition(
+    from: EscrowStatus,
+    to: EscrowStatus
+): boolean {
+    return ESCROW_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Returns true if the lifecycle allows going from one status to another in zero or more steps.
+ *
+ * Snapshots taken between transactions can skip statuses: a single payment which pays an escrow in full
+ * takes it from Pending through Active to Completed.
+ */
+export function isReachable(from: EscrowStatus, to: EscrowStatus): boolean {
+    const seen = new Set<EscrowStatus>([from]);
+    const queue = [from];
+
+    while (queue.length) {
+        for (const next of ESCROW_TRANSITIONS[queue.shift()!]) {
+            if (!seen.has(next)) {
+                seen.add(next);
+                queue.push(next);
+            }
+        }
+    }
+    return seen.has(to);
+}
+
+/**
+ * Checks the invariants which hold for any single snapshot of an escrow:
+ * - on each leg, amountPaid >= amountReleased + amountRefunded
+ * - on each fungible leg, no more than the pledged amount is released; fees are taken out of the
+ *   released amount, so the counterparty never receives more than the pledge less fees
+ * - a Pending escrow has had nothing paid in
+ * - a Completed escrow holds nothing: everything paid in was released or refunded
+ *
+ * @param escrow The escrow snapshot.
+ * @returns Every violation found; empty if there are none.
+ */
+export function checkEscrowInvariants(
+    escrow: EscrowDefinition
+): InvariantViolation[] {
+    const violations: InvariantViolation[] = [];
+    const fail = (rule: string, message: string) =>
+        violations.push({ escrowId: escrow.id, rule, message });
+
+    for (const [name, leg] of legsOf(escrow)) {
+        if (leg.amountPaid < leg.amountReleased + leg.amountRefunded) {
+            fail(
+                'LegOverdrawn',
+                `${name}: paid ${leg.amountPaid} < released ${leg.amountReleased} + refunded ${leg.amountRefunded}`
+            );
+        }
+
+        if (leg.amountReleased > leg.amountPledged) {
+            fail(
+                'ReleaseExceedsPledge',
+                `${name}: released ${leg.amountReleased} > pledged ${leg.amountPledged}`
+            );
+        }
+
+        if (escrow.status === EscrowStatus.Pending && leg.amountPaid > 0n) {
+            fail(
+                'PendingWithPayments',
+                `${name}: paid ${leg.amountPaid} while Pending`
+            );
+        }
+
+        if (
+            escrow.status === EscrowStatus.Completed &&
+            leg.amountPaid !== leg.amountReleased + leg.amountRefunded
+        ) {
+            fail(
+                'CompletedWithBalance',
+                `${name}: ${leg.amountPaid - leg.amountReleased - leg.amountRefunded} still held while Completed`
+            );
+        }
+    }
+    return violations;
+}
+
+/**
+ * Checks a change from one snapshot of an escrow to a later one:
+ * - the status change is allowed by the lifecycle (possibly in several steps)
+ * - amounts paid, released and refunded never decrease
+ * - participants, currencies, pledged amounts, times and fees never change
+ *
+ * The invariants of the later snapshot are checked as well.
+ *
+ * @param before The earlier snapshot.
+ * @param after The later snapshot.
+ * @returns Every violation found; empty if there are none.
+ */
+export function checkEscrowTransition(
+    before: EscrowDefinition,
+    after: EscrowDefinition
+): InvariantViolation[] {
+    const violations = checkEscrowInvariants(after);
+    const fail = (rule: string, message: string) =>
+        violations.push({ escrowId: after.id, rule, message });
+
+    if (
+        before.status !== after.status &&
+        !isReachable(before.status, after.status)
+    ) {
+        fail(
+            'InvalidTransition',
+            `${EscrowStatus[before.status]} -> ${EscrowStatus[after.status]}`
+        );
+    }
+
+    const afterLegs = legsOf(after);
+    legsOf(before).forEach(([name, from], n) => {
+        const to = afterLegs[n][1];
+
+        for (const field of [
+            'amountPaid',
+            'amountReleased',
+            'amountRefunded',
+        ] as const) {
+            if (to[field] < from[field]) {
+                fail(
+                    'AmountDecreased',
+                    `${name}.${field}: ${from[field]} -> ${to[field]}`
+                );
+            }
+        }
+
+        for (const field of [
+            'participantAddress',
+            'currency',
+            'paymentType',
+            'amountPledged',
+            'tokenId',
+        ] as const) {
+            if (!sameValue(from[field], to[field])) {
+                fail('ImmutableFieldChanged', `${name}.${field}`);
+            }
+        }
+    });
+
+    for (const field of ['timestamp', 'startTime', 'endTime'] as const) {
+        if (before[field] !== after[field]) {
+            fail('ImmutableFieldChanged', field);
+        }
+    }
+    if (!sameFees(before, after)) {
+        fail('ImmutableFieldChanged', 'fees');
+    }
+    return violations;
+}
+
+/**
+ * Checks a history of snapshots of one escrow, in order (e.g. one taken after each of its events).
+ *
+ * @param snapshots Snapshots of the escrow, oldest first.
+ * @returns Every violation found; empty if there are none.
+ */
+export function checkEscrowHistory(
+    snapshots: EscrowDefinition[]
+): InvariantViolation[] {
+    const checker = new EscrowInvariantChecker();
+    return snapshots.flatMap((snapshot) => checker.check(snapshot));
+}
+
+/**
+ * Checks a stream of escrow snapshots, for any number of escrows. Each snapshot is checked on its own,
+ * and against the previous snapshot of the same escrow.
+ */
+export class EscrowInvariantChecker {
+    private readonly previous = new Map<string, EscrowDefinition>();
+
+    /**
+     * Checks the next snapshot of an escrow.
+     *
+     * @param escrow The escrow snapshot.
+     * @returns Every violation found; empty if there are none.
+     */
+    public check(escrow: EscrowDefinition): InvariantViolation[] {
+        const before = this.previous.get(escrow.id);
+        this.previous.set(escrow.id, escrow);
+
+        return before
+            ? checkEscrowTransition(before, escrow)
+            : checkEscrowInvariants(escrow);
+    }
+
+    /**
+     * Forgets all previous snapshots, e.g. after the chain was reverted.
+     */
+    public reset(): void {
+        this.previous.clear();
+    }
+}
+
+function legsOf(escrow: EscrowDefinition): [string, EscrowLeg][] {
+    return [
+        ['primaryLeg', escrow.primaryLeg],
+        ['secondaryLeg', escrow.secondaryLeg],
+    ];
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+    if (typeof a === 'string' && typeof b === 'string') {
+        return getAddress(a) === getAddress(b);
+    }
+    return a === b;
+}
+
+function sameFees(a: EscrowDefinition, b: EscrowDefinition): boolean {
+    return (
+        a.fees.length === b.fees.length &&
+        a.fees.every(
+            (fee, n) =>
+                getAddress(fee.recipient) === getAddress(b.fees[n].recipient) &&
+                fee.feeBps === b.fees[n].feeBps
+        )
+    );
+}
@@ -0,0 +1,309 @@
+import {
+    BigNumberish,
+    ContractRunner,
+    Signer,
+    TypedDataDomain,
+    getAddress,
+    verifyTypedData,
+} from 'ethers';
+import {
+    IERC20Metadata__factory,
+    IERC20Permit__factory,
+    IERC5267__factory,
+} from '../typechain-types';
+import { hashCreateEscrowInput } from './codec';
+import {
+    CancellationSignature,
+    EscrowIntent,
+    PermitSignature,
+    SignedIntent,
+} from './types';
+
+/**
+ * EIP-712 domain name and version of the PolyEscrow contract.
+ */
+export const ESCROW_DOMAIN_NAME = 'PolyEscrow';
+export const ESCROW_DOMAIN_VERSION = '1';
+
+/**
+ * EIP-712 types of a participant's agreement to cancel an escrow; must match CANCEL_ESCROW_TYPEHASH
+ * in PolyEscrow.sol.
+ */
+export const CANCEL_ESCROW_TYPES = {
+    CancelEscrow: [
+        { name: 'escrowId', type: 'bytes32' },
+        { name: 'deadline', type: 'uint256' },
+    ],
+};
+
+/**
+ * EIP-712 types of each kind of intent; must match the intent typehashes in PolyEscrow.sol.
+ */
+export const INTENT_TYPES = {
+    createEscrow: {
+        CreateEscrowIntent: [
+            { name: 'inputHash', type: 'bytes32' },
+            { name: 'nonce', type: 'uint256' },
+            { name: 'deadline', type: 'uint256' },
+        ],
+    },
+    placePayment: {
+        PaymentIntent: [
+            { name: 'escrowId', type: 'bytes32' },
+            { name: 'currency', type: 'address' },
+            { name: 'amount', type: 'uint256' },
+            { name: 'nonce', type: 'uint256' },
+            { name: 'deadline', type: 'uint256' },
+        ],
+    },
+    relayRefund: {
+        RelayRefundIntent: [
+            { name: 'relayNode', type: 'address' },
+            { name: 'currency', type: 'address' },
+            { name: 'nonce', type: 'uint256' },
+            { name: 'deadline', type: 'uint256' },
+        ],
+    },
+};
+
+/**
+ * EIP-712 types of an EIP-2612 permit.
+ */
+export const PERMIT_TYPES = {
+    Permit: [
+        { name: 'owner', type: 'address' },
+        { name: 'spender', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' },
+    ],
+};
+
+/**
+ * Returns the EIP-712 domain of a PolyEscrow contract, for signing offline.
+ *
+ * @param escrowAddress Address of the PolyEscrow contract.
+ * @param chainId Id of the chain it's deployed on.
+ */
+export function getEscrowDomain(
+    escrowAddress: string,
+    chainId: BigNumberish
+): TypedDataDomain {
+    return {
+        name: ESCROW_DOMAIN_NAME,
+        version: ESCROW_DOMAIN_VERSION,
+        chainId,
+        verifyingContract: escrowAddress,
+    };
+}
+
+/**
+ * Signs a participant's agreement to cancel an escrow.
+ *
+ * @param signer The participant.
+ * @param domain The EIP-712 domain of the PolyEscrow contract.
+ * @param escrowId The unique escrow id.
+ * @param deadline Time (in unix seconds) after which the signature can't be used.
+ */
+export async function signCancellation(
+    signer: Signer,
+    domain: TypedDataDomain,
+    escrowId: string,
+    deadline: BigNumberish
+): Promise<CancellationSignature> {
+    const value = { escrowId, deadline: BigInt(deadline) };
+    return {
+        ...value,
+        signer: await signer.getAddress(),
+        signature: await signer.signTypedData(
+            domain,
+            CANCEL_ESCROW_TYPES,
+            value
+        ),
+    };
+}
+
+/**
+ * Returns true if a cancellation signature was made by the account it names.
+ *
+ * @param domain The EIP-712 domain of the PolyEscrow contract.
+ * @param cancellation The signature to check.
+ */
+export function verifyCancellation(
+    domain: TypedDataDomain,
+    cancellation: CancellationSignature
+): boolean {
+    try {
+        const recovered = verifyTypedData(
+            domain,
+            CANCEL_ESCROW_TYPES,
+            {
+                escrowId: cancellation.escrowId,
+                deadline: cancellation.deadline,
+            },
+            cancellation.signature
+        );
+        return recovered === getAddress(cancellation.signer);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Returns the EIP-712 domain of an EIP-2612 token. Tokens which report their domain (EIP-5267) are
+ * asked for it; for others, it's made from the token's name and version '1', as most of them use.
+ *
+ * @param runner A provider, or a signer connected to one.
+ * @param tokenAddress Address of the token.
+ */
+export async function getPermitDomain(
+    runner: ContractRunner,
+    tokenAddress: string
+): Promise<TypedDataDomain> {
+    try {
+        const { name, version, chainId, verifyingContract } =
+            await IERC5267__factory.connect(
+                tokenAddress,
+                runner
+            ).eip712Domain();
+        return { name, version, chainId, verifyingContract };
+    } catch {
+        const name = await IERC20Metadata__factory.connect(
+            tokenAddress,
+            runner
+        ).name();
+        const { chainId } = await runner.provider!.getNetwork();
+        return { name, version: '1', chainId, verifyingContract: tokenAddress };
+    }
+}
+
+/**
+ * Signs an EIP-2612 permit for the spender to transfer the signer's tokens, using the signer's
+ * current nonce on the token.
+ *
+ * @param signer The token holder.
+ * @param tokenAddress Address of the token.
+ * @param spender Address allowed to transfer the tokens.
+ * @param value Amount allowed.
+ * @param deadline Time (in unix seconds) after which the permit can't be used.
+ */
+export async function signPermit(
+    signer: Signer,
+    tokenAddress: string,
+    spender: string,
+    value: BigNumberish,
+    deadline: BigNumberish
+): Promise<PermitSignature> {
+    const owner = await signer.getAddress();
+    const nonce = await IERC20Permit__factory.connect(
+        tokenAddress,
+        signer
+    ).nonces(owner);
+
+    const permit = {
+        owner,
+        spender,
+        value: BigInt(value),
+        nonce,
+        deadline: BigInt(deadline),
+    };
+    return {
+        ...permit,
+        token: tokenAddress,
+        signature: await signer.signTypedData(
+            await getPermitDomain(signer, tokenAddress),
+            PERMIT_TYPES,
+            permit
+        ),
+    };
+}
+
+//the EIP-712 message of an intent
+function getIntentMessage(
+    intent: EscrowIntent,
+    nonce: bigint,
+    deadline: bigint
+): Record<string, any> {
+    switch (intent.type) {
+        case 'createEscrow':
+            return {
+                inputHash: hashCreateEscrowInput(intent.input),
+                nonce,
+                deadline,
+            };
+        case 'placePayment':
+            return {
+                escrowId: intent.payment.escrowId,
+                currency: intent.payment.currency,
+                amount: BigInt(intent.payment.amount),
+                nonce,
+                deadline,
+            };
+        case 'relayRefund':
+            return {
+                relayNode: intent.relayNode,
+                currency: intent.currency,
+                nonce,
+                deadline,
+            };
+    }
+}
+
+/**
+ * Signs an intent, for a relayer to submit on the signer's behalf.
+ *
+ * @param signer The account the intent is for.
+ * @param domain The EIP-712 domain of the PolyEscrow contract.
+ * @param intent The action to sign.
+ * @param nonce The signer's nonce on the PolyEscrow contract, which the intent uses up.
+ * @param deadline Time (in unix seconds) after which the signature can't be used.
+ */
+export async function signIntent(
+    signer: Signer,
+    domain: TypedDataDomain,
+    intent: EscrowIntent,
+    nonce: BigNumberish,
+    deadline: BigNumberish
+): Promise<SignedIntent> {
+    const signed = {
+        intent,
+        signer: await signer.getAddress(),
+        nonce: BigInt(nonce),
+        deadline: BigInt(deadline),
+    };
+    return {
+        ...signed,
+        signature: await signer.signTypedData(
+            domain,
+            INTENT_TYPES[intent.type],
+            getIntentMessage(intent, signed.nonce, signed.deadline)
+        ),
+    };
+}
+
+/**
+ * Returns true if a signed intent was signed by the account it names.
+ *
+ * @param domain The EIP-712 domain of the PolyEscrow contract.
+ * @param signed The signed intent to check.
+ */
+export function verifyIntent(
+    domain: TypedDataDomain,
+    signed: SignedIntent
+): boolean {
+    try {
+        const recovered = verifyTypedData(
+            domain,
+            INTENT_TYPES[signed.intent.type],
+            getIntentMessage(
+                signed.intent,
+                BigInt(signed.nonce),
+                BigInt(signed.deadline)
+            ),
+            signed.signature
+        );
+        return recovered === getAddress(signed.signer);
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,277 @@
+import { BigNumberish } from 'ethers';
+
+/**
+ * EscrowStatus: mirrors the EscrowStatus enum in Types.sol.
+ */
+export enum EscrowStatus {
+    Pending, //Escrow has been created, but nothing has been paid in
+    Active, //Escrow has been created and at least some payment has been made
+    Completed, //Escrow has been either refunded or released
+    Arbitration, //Escrow has an arbitration proposal pending
+}
+
+/**
+ * EscrowPaymentType: mirrors the EscrowPaymentType enum in Types.sol.
+ */
+export enum EscrowPaymentType {
+    Native,
+    ERC20,
+    ERC721,
+    Bitcoin,
+    Custom,
+    ERC1155,
+}
+
+/**
+ * ProposalType: mirrors the ProposalType enum in Types.sol.
+ */
+export enum ProposalType {
+    Refund, //back to the parties that paid in
+    Release, //forward to the counterparties
+}
+
+/**
+ * ProposalStatus: mirrors the ProposalStatus enum in Types.sol.
+ */
+export enum ProposalStatus {
+    Pending, //waiting for votes
+    Passed, //passed and executed
+    Cancelled, //cancelled by the proposer
+    Expired, //expired without passing
+}
+
+/**
+ * EscrowLeg: one participant side of an escrow, as stored on-chain.
+ * All amounts are kept as bigint so that 18-decimal token values are never truncated.
+ */
+export interface EscrowLeg {
+    participantAddress: string;
+    currency: string; //token address, or 0x0 for native
+    paymentType: EscrowPaymentType;
+
+    //amounts
+    amountPledged: bigint;
+    amountPaid: bigint;
+    amountReleased: bigint;
+    amountRefunded: bigint;
+
+    tokenId: bigint; //ERC721/ERC1155: id of the token pledged; otherwise 0
+}
+
+/**
+ * FeeDefinition: a fee recipient and the fee in basis points (bps).
+ */
+export interface FeeDefinition {
+    recipient: string;
+    feeBps: bigint;
+}
+
+/**
+ * ArbitrationDefinition: how arbitration is handled for an escrow.
+ */
+export interface ArbitrationDefinition {
+    arbiters: string[]; //list of arbiters
+    arbitrationModule: string; //address of arbitration module
+    quorum: number; //number of arbiters required to rule
+}
+
+/**
+ * EscrowDefinition: a distinct escrow agreement between two parties.
+ */
+export interface EscrowDefinition {
+    //unique id
+    id: string;
+
+    //counterparties
+    primaryLeg: EscrowLeg;
+    secondaryLeg: EscrowLeg;
+
+    //times
+    timestamp: bigint;
+    startTime: bigint;
+    endTime: bigint;
+
+    //status
+    status: EscrowStatus;
+
+    //arbitration
+    arbitration: ArbitrationDefinition;
+
+    //fees
+    fees: FeeDefinition[];
+}
+
+/**
+ * EscrowLegInput: one side of an escrow, as specified on creation.
+ */
+export interface EscrowLegInput {
+    participantAddress: string;
+    currency: string; //token address, or 0x0 for native
+    paymentType: EscrowPaymentType;
+    amount: BigNumberish; //amount pledged (1 for ERC721)
+    tokenId?: BigNumberish; //ERC721/ERC1155: id of the token pledged
+}
+
+/**
+ * CreateEscrowInput: specification of an escrow to create.
+ * Times, arbitration and fees are optional and default to none.
+ */
+export interface CreateEscrowInput {
+    id: string;
+    primaryLeg: EscrowLegInput;
+    secondaryLeg: EscrowLegInput;
+    startTime?: BigNumberish;
+    endTime?: BigNumberish;
+    arbitration?: ArbitrationDefinition;
+    fees?: { recipient: string; feeBps: BigNumberish }[];
+}
+
+/**
+ * EscrowTemplate: reusable terms for recurring escrows: each leg's currency, along with the arbitration
+ * and fees of the escrows created from it. Duration (seconds from creation to end time), arbitration
+ * and fees are optional and default to none.
+ */
+export interface EscrowTemplate {
+    primaryLeg: EscrowLegTemplate;
+    secondaryLeg: EscrowLegTemplate;
+    duration?: BigNumberish;
+    arbitration?: ArbitrationDefinition;
+    fees?: { recipient: string; feeBps: BigNumberish }[];
+}
+
+/**
+ * EscrowLegTemplate: the part of a leg given by its template.
+ */
+export interface EscrowLegTemplate {
+    currency: string; //token address, or 0x0 for native
+    paymentType: EscrowPaymentType;
+}
+
+/**
+ * TemplateLegInput: the part of a leg given for each escrow created from a template.
+ */
+export interface TemplateLegInput {
+    participantAddress: string;
+    amount: BigNumberish; //amount pledged (1 for ERC721)
+    tokenId?: BigNumberish; //ERC721/ERC1155: id of the token pledged
+}
+
+/**
+ * PaymentInput: a payment into one leg of an escrow.
+ */
+export interface PaymentInput {
+    escrowId: string;
+    currency: string; //token address, or 0x0 for native
+    amount: BigNumberish; //amount (1 for ERC721, whose token is the leg's)
+}
+
+/**
+ * BatchOptions: whether and how a batch of escrows or payments is split into transactions. Without
+ * either option, the batch is sent in one all-or-nothing transaction. With either, it's split, and
+ * each transaction is all-or-nothing, but the batch is not: if one fails, those before it stay mined.
+ */
+export interface BatchOptions {
+    maxGas?: bigint; //gas limit of each transaction; defaults to half the latest block's gas limit
+    maxBatchSize?: number; //most items in one transaction; defaults to no limit
+}
+
+/**
+ * RelayNodeBalance: what a relay node holds in the currency of one of its escrow's legs, not yet relayed
+ * or refunded.
+ */
+export interface RelayNodeBalance {
+    currency: string; //token address, or 0x0 for native
+    paymentType: EscrowPaymentType;
+    amount: bigint; //ERC721: 1 if the node holds the pledged NFT, otherwise 0
+}
+
+/**
+ * RelayNodeSummary: one of an escrow's relay nodes, with its state and what it holds.
+ */
+export interface RelayNodeSummary {
+    address: string;
+    autoForwardNative: boolean;
+    paused: boolean;
+    retired: boolean; //accepts no further payments
+    balances: RelayNodeBalance[]; //primary leg first
+}
+
+/**
+ * ArbitrationProposal: an arbitration proposal, as stored by the ArbitrationModule contract.
+ */
+export interface ArbitrationProposal {
+    id: bigint;
+    escrowId: string;
+    proposer: string;
+    reason: string;
+    timestamp: bigint;
+    proposalType: ProposalType;
+
+    //how much of each leg to refund or release
+    primaryAmount: bigint;
+    secondaryAmount: bigint;
+
+    votes: number[]; //one per arbiter, in the escrow's order: 1 if they voted for it
+    expiresAt: bigint;
+    status: ProposalStatus;
+}
+
+/**
+ * ArbitrationProposalInput: a proposal to make. Amounts left out default to everything that
+ * remains in that leg.
+ */
+export interface ArbitrationProposalInput {
+    escrowId: string;
+    proposalType: ProposalType;
+    primaryAmount?: BigNumberish;
+    secondaryAmount?: BigNumberish;
+    reason?: string;
+}
+
+/**
+ * CancellationSignature: one participant's EIP-712 agreement to cancel an escrow. Anyone may submit
+ * it, along with the other participant's, until the deadline.
+ */
+export interface CancellationSignature {
+    escrowId: string;
+    deadline: bigint; //unix seconds
+    signer: string;
+    signature: string;
+}
+
+/**
+ * PermitSignature: a token holder's EIP-2612 permit, allowing the spender to transfer up to the value
+ * of their tokens until the deadline.
+ */
+export interface PermitSignature {
+    token: string;
+    owner: string;
+    spender: string;
+    value: bigint;
+    nonce: bigint;
+    deadline: bigint; //unix seconds
+    signature: string;
+}
+
+/**
+ * EscrowIntent: an action which one account signs (EIP-712), for a relayer to submit and pay the gas
+ * for. Each mirrors one of the contract's ...WithSignature functions. A payment may carry the payer's
+ * EIP-2612 permit for the amount, which is submitted along with it, so the payer needn't have approved
+ * the tokens beforehand; the permit has its own signature, which the intent's doesn't cover.
+ */
+export type EscrowIntent =
+    | { type: 'createEscrow'; input: CreateEscrowInput } //signed by one of the participants
+    | { type: 'placePayment'; payment: PaymentInput; permit?: PermitSignature } //signed by the payer; not native
+    | { type: 'relayRefund'; relayNode: string; currency: string }; //signed by one of the participants
+
+/**
+ * SignedIntent: an intent with its signature. Each signer's intents must be submitted in nonce order,
+ * before the deadline.
+ */
+export interface SignedIntent {
+    intent: EscrowIntent;
+    signer: string;
+    nonce: bigint;
+    deadline: bigint; //unix seconds
+    signature: string;
+}
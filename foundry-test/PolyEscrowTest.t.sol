@@ -134,7 +134,8 @@ contract PolyEscrowTestBase is Test {
                 participantAddress: primaryAddress,
                 currency: primaryCurrency,
                 paymentType: primaryPaymentType,
-                amount: primaryAmount
+                amount: primaryAmount,
+                tokenId: 0
             }),
             startTime: 0,
             endTime: 0,
@@ -142,7 +143,8 @@ contract PolyEscrowTestBase is Test {
                 participantAddress: secondaryAddress,
                 currency: secondaryCurrency,
                 paymentType: secondaryPaymentType,
-                amount: secondaryAmount
+                amount: secondaryAmount,
+                tokenId: 0
             }),
             fees: new FeeDefinition[](0),
             arbitration: ArbitrationDefinition({
@@ -205,7 +207,8 @@ contract PolyEscrowTestBase is Test {
                 participantAddress: primaryAddress,
                 currency: currency1,
                 paymentType: primaryPaymentType,
-                amount: primaryAmount
+                amount: primaryAmount,
+                tokenId: 0
             }),
             startTime: startTime,
             endTime: endTime,
@@ -213,7 +216,8 @@ contract PolyEscrowTestBase is Test {
                 participantAddress: secondaryAddress,
                 currency: currency2,
                 paymentType: secondaryPaymentType,
-                amount: secondaryAmount
+                amount: secondaryAmount,
+                tokenId: 0
             }),
             fees: new FeeDefinition[](0),
             arbitration: ArbitrationDefinition({
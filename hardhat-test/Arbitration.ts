@@ -0,0 +1,578 @@
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import {
+    ArbitrationClient,
+    PolyEscrowClient,
+    ProposalStatus,
+    ProposalType,
+} from '../client';
+import { RelayKeeper } from '../services/keeper';
+import {
+    EscrowStatus,
+    PaymentType,
+    deployArbitrationStack,
+    checkEscrowInvariantsAfterEachTransaction,
+} from './util';
+
+describe('Arbitration', function () {
+    checkEscrowInvariantsAfterEachTransaction();
+
+    let polyEscrow: any;
+    let arbitrationModule: any;
+    let testToken: any;
+    let escrowClient: PolyEscrowClient;
+    let arbitration: ArbitrationClient;
+    let vault: HardhatEthersSigner;
+    let partyA: HardhatEthersSigner; //pays tokens into the primary leg
+    let partyB: HardhatEthersSigner; //pays native into the secondary leg
+    let arbiters: HardhatEthersSigner[];
+    let outsider: HardhatEthersSigner;
+
+    const escrowId = ethers.keccak256('0x01');
+    const proposalDuration = 86400;
+    const feeBps = 100n;
+
+    async function createEscrow(
+        id: string = escrowId,
+        arbitrationModuleAddress: string = arbitrationModule.target
+    ) {
+        return await escrowClient.createEscrow({
+            id,
+            primaryLeg: {
+                participantAddress: partyA.address,
+                currency: testToken.target,
+                paymentType: PaymentType.ERC20,
+                amount: 1000,
+            },
+            secondaryLeg: {
+                participantAddress: partyB.address,
+                currency: ethers.ZeroAddress,
+                paymentType: PaymentType.Native,
+                amount: 500,
+            },
+            arbitration: {
+                arbiters: arbiters.map((a) => a.address),
+                arbitrationModule: arbitrationModuleAddress,
+                quorum: 2,
+            },
+        });
+    }
+
+    //creates the escrow, with all of the primary leg and some of the secondary paid in
+    async function createActiveEscrow(secondaryPaid: number = 200) {
+        await createEscrow();
+        await escrowClient.placePayment({
+            escrowId,
+            currency: testToken.target,
+            amount: 1000,
+        });
+        return await escrowClient.connect(partyB).placePayment({
+            escrowId,
+            currency: ethers.ZeroAddress,
+            amount: secondaryPaid,
+        });
+    }
+
+    const balanceOf = async (account: HardhatEthersSigner) =>
+        await testToken.balanceOf(account.address);
+
+    this.beforeEach(async () => {
+        const signers = await hre.ethers.getSigners();
+        vault = signers[2];
+        partyA = signers[3];
+        partyB = signers[4];
+        arbiters = signers.slice(9, 12);
+        outsider = signers[12];
+
+        ({ polyEscrow, arbitrationModule } = await deployArbitrationStack({
+            SystemSettingsModule: { vaultAddress: vault.address, feeBps },
+            ArbitrationModule: { proposalDuration },
+        }));
+
+        testToken = await (
+            await hre.ethers.getContractFactory('TestToken')
+        ).deploy('ABC', 'ABC');
+        await testToken.mint(partyA, 10000);
+
+        escrowClient = new PolyEscrowClient(polyEscrow.target, partyA);
+        arbitration = new ArbitrationClient(arbitrationModule.target, partyA);
+    });
+
+    describe('Deployment', function () {
+        it('is deployed for the escrow contract', async function () {
+            expect(await arbitrationModule.escrowContract()).to.equal(
+                polyEscrow.target
+            );
+            expect(await arbitrationModule.proposalDuration()).to.equal(
+                proposalDuration
+            );
+        });
+    });
+
+    describe('Proposals', function () {
+        it('puts the escrow into arbitration', async function () {
+            await createActiveEscrow();
+
+            const proposal = await arbitration.propose({
+                escrowId,
+                proposalType: ProposalType.Refund,
+                reason: 'not delivered',
+            });
+
+            expect(proposal.id).to.equal(1n);
+            expect(proposal.escrowId).to.equal(escrowId);
+            expect(proposal.proposer).to.equal(partyA.address);
+            expect(proposal.reason).to.equal('not delivered');
+            expect(proposal.proposalType).to.equal(ProposalType.Refund);
+            expect(proposal.primaryAmount).to.equal(1000n);
+            expect(proposal.secondaryAmount).to.equal(200n);
+            expect(proposal.votes).to.deep.equal([0, 0, 0]);
+            expect(proposal.expiresAt).to.equal(
+                proposal.timestamp + BigInt(proposalDuration)
+            );
+            expect(proposal.status).to.equal(ProposalStatus.Pending);
+
+            expect((await escrowClient.getEscrow(escrowId)).status).to.equal(
+                EscrowStatus.Arbitration
+            );
+            expect(
+                await arbitration.getPendingProposal(escrowId)
+            ).to.deep.equal(proposal);
+
+            //no more payments, and no second proposal, while in arbitration
+            await expect(
+                escrowClient.connect(partyB).placePayment({
+                    escrowId,
+                    currency: ethers.ZeroAddress,
+                    amount: 300,
+                })
+            ).to.be.revertedWith('InvalidEscrowState');
+            await expect(
+                arbitration.connect(partyB).propose({
+                    escrowId,
+                    proposalType: ProposalType.Release,
+                })
+            ).to.be.revertedWith('InvalidEscrowState');
+        });
+
+        it('can be made by either party or an arbiter, and no one else', async function () {
+            await createActiveEscrow();
+
+            for (const account of [partyB, arbiters[2]]) {
+                const proposal = await arbitration.connect(account).propose({
+                    escrowId,
+                    proposalType: ProposalType.Release,
+                    primaryAmount: 1,
+                    secondaryAmount: 0,
+                });
+                expect(proposal.proposer).to.equal(account.address);
+                await arbitration.connect(account).cancel(proposal.id);
+            }
+
+            await expect(
+                arbitration.connect(outsider).propose({
+                    escrowId,
+                    proposalType: ProposalType.Release,
+                })
+            ).to.be.revertedWith('Unauthorized');
+        });
+
+        it('rejects invalid proposals', async function () {
+            const propose = (primaryAmount: number, secondaryAmount: number) =>
+                arbitration.propose({
+                    escrowId,
+                    proposalType: ProposalType.Refund,
+                    primaryAmount,
+                    secondaryAmount,
+                });
+
+            await expect(propose(1, 0)).to.be.revertedWith('InvalidEscrow');
+
+            //nothing paid in yet
+            await createEscrow();
+            await expect(propose(0, 0)).to.be.revertedWith('InvalidAmount');
+            await expect(propose(1, 0)).to.be.revertedWith('AmountExceeded');
+
+            await escrowClient.connect(partyB).placePayment({
+                escrowId,
+                currency: ethers.ZeroAddress,
+                amount: 200,
+            });
+            await expect(propose(0, 201)).to.be.revertedWith('AmountExceeded');
+            await propose(0, 200);
+
+            //escrows which name another module, or no module
+            const otherId = ethers.keccak256('0x02');
+            await createEscrow(otherId, ethers.ZeroAddress);
+            await expect(
+                arbitration.propose({
+                    escrowId: otherId,
+                    proposalType: ProposalType.Refund,
+                })
+            ).to.be.revertedWith('InvalidArbitrationModule');
+        });
+    });
+
+    describe('Voting', function () {
+        it('refunds the escrow in full once the quorum is reached', async function () {
+            await createActiveEscrow();
+            const proposal = await arbitration.propose({
+                escrowId,
+                proposalType: ProposalType.Refund,
+            });
+
+            const tokensBefore = await balanceOf(partyA);
+            const nativeBefore = await ethers.provider.getBalance(partyB);
+
+            //one vote is not enough
+            const voted = await arbitration
+                .connect(arbiters[0])
+                .vote(proposal.id);
+            expect(voted.votes).to.deep.equal([1, 0, 0]);
+            expect(voted.status).to.equal(ProposalStatus.Pending);
+
+            //the second passes and executes it
+            const passed = await arbitration
+                .connect(arbiters[2])
+                .vote(proposal.id);
+            expect(passed.votes).to.deep.equal([1, 0, 1]);
+            expect(passed.status).to.equal(ProposalStatus.Passed);
+
+            expect(await balanceOf(partyA)).to.equal(tokensBefore + 1000n);
+            expect(await ethers.provider.getBalance(partyB)).to.equal(
+                nativeBefore + 200n
+            );
+
+            const escrow = await escrowClient.getEscrow(escrowId);
+            expect(escrow.status).to.equal(EscrowStatus.Completed);
+            expect(escrow.primaryLeg.amountRefunded).to.equal(1000n);
+            expect(escrow.secondaryLeg.amountRefunded).to.equal(200n);
+            expect(escrow.primaryLeg.amountReleased).to.equal(0n);
+        });
+
+        it('releases part of the escrow less fees, and reactivates it', async function () {
+            await createActiveEscrow();
+            const proposal = await arbitration.connect(partyB).propose({
+                escrowId,
+                proposalType: ProposalType.Release,
+                primaryAmount: 400,
+                secondaryAmount: 0,
+            });
+
+            await arbitration.connect(arbiters[0]).vote(proposal.id);
+            await expect(
+                arbitrationModule.connect(arbiters[1]).vote(proposal.id)
+            )
+                .to.emit(polyEscrow, 'ArbitrationExecuted')
+                .withArgs(escrowId, ProposalType.Release, 400, 0)
+                .and.to.emit(arbitrationModule, 'ProposalExecuted')
+                .withArgs(proposal.id);
+
+            //released to the counterparty, less the platform fee
+            expect(await balanceOf(partyB)).to.equal(396n);
+            expect(await balanceOf(vault)).to.equal(4n);
+
+            //still active, with the rest held and open to payments
+            let escrow = await escrowClient.getEscrow(escrowId);
+            expect(escrow.status).to.equal(EscrowStatus.Active);
+            expect(escrow.primaryLeg.amountReleased).to.equal(400n);
+
+            escrow = await escrowClient.connect(partyB).placePayment({
+                escrowId,
+                currency: ethers.ZeroAddress,
+                amount: 300,
+            });
+            expect(escrow.status).to.equal(EscrowStatus.Completed);
+            expect(escrow.primaryLeg.amountReleased).to.equal(1000n);
+            expect(await balanceOf(partyB)).to.equal(990n);
+        });
+
+        it('accepts one vote from each arbiter, and only from arbiters', async function () {
+            await createActiveEscrow();
+            const proposal = await arbitration.propose({
+                escrowId,
+                proposalType: ProposalType.Refund,
+            });
+
+            await expect(
+                arbitrationModule.connect(outsider).vote(proposal.id)
+            ).to.be.revertedWith('Unauthorized');
+            await expect(
+                arbitrationModule.connect(partyA).vote(proposal.id)
+            ).to.be.revertedWith('Unauthorized');
+
+            await arbitration.connect(arbiters[1]).vote(proposal.id);
+            await expect(
+                arbitrationModule.connect(arbiters[1]).vote(proposal.id)
+            ).to.be.revertedWith('AlreadyVoted');
+
+            await arbitration.connect(arbiters[0]).vote(proposal.id);
+            await expect(
+                arbitrationModule.connect(arbiters[2]).vote(proposal.id)
+            ).to.be.revertedWith('InvalidProposalState');
+            await expect(arbitrationModule.vote(99)).to.be.revertedWith(
+                'InvalidProposal'
+            );
+        });
+
+        it('can only be executed by the escrow arbitration module', async function () {
+            await createActiveEscrow();
+            await arbitration.propose({
+                escrowId,
+                proposalType: ProposalType.Refund,
+            });
+
+            await expect(
+                polyEscrow
+                    .connect(arbiters[0])
+                    .executeArbitrationProposal(
+                        escrowId,
+                        ProposalType.Refund,
+                        1000,
+                        200
+                    )
+            ).to.be.revertedWith('Unauthorized');
+            await expect(
+                polyEscrow.connect(partyA).setArbitration(escrowId, false)
+            ).to.be.revertedWith('Unauthorized');
+        });
+    });
+
+    describe('Cancellation and Expiry', function () {
+        it('lets the proposer cancel, which reactivates the escrow', async function () {
+            await createActiveEscrow();
+            const proposal = await arbitration.propose({
+                escrowId,
+                proposalType: ProposalType.Refund,
+            });
+
+            await expect(
+                arbitrationModule.connect(partyB).cancel(proposal.id)
+            ).to.be.revertedWith('Unauthorized');
+
+            const cancelled = await arbitration.cancel(proposal.id);
+            expect(cancelled.status).to.equal(ProposalStatus.Cancelled);
+            expect((await escrowClient.getEscrow(escrowId)).status).to.equal(
+                EscrowStatus.Active
+            );
+            expect(await arbitration.getPendingProposal(escrowId)).to.be
+                .undefined;
+
+            await expect(
+                arbitrationModule.connect(arbiters[0]).vote(proposal.id)
+            ).to.be.revertedWith('InvalidProposalState');
+        });
+
+        it('stops voting once expired, and lets anyone mark it as expired', async function () {
+            await createActiveEscrow();
+            const proposal = await arbitration.propose({
+                escrowId,
+                proposalType: ProposalType.Refund,
+            });
+            await arbitration.connect(arbiters[0]).vote(proposal.id);
+
+            await expect(
+                arbitrationModule.connect(outsider).expire(proposal.id)
+            ).to.be.revertedWith('ProposalNotExpired');
+
+            await time.increaseTo(proposal.expiresAt);
+            await expect(
+                arbitrationModule.connect(arbiters[1]).vote(proposal.id)
+            ).to.be.revertedWith('ProposalExpired');
+
+            const expired = await arbitration
+                .connect(outsider)
+                .expire(proposal.id);
+            expect(expired.status).to.equal(ProposalStatus.Expired);
+            expect((await escrowClient.getEscrow(escrowId)).status).to.equal(
+                EscrowStatus.Active
+            );
+
+            //a new proposal can be made
+            const next = await arbitration.propose({
+                escrowId,
+                proposalType: ProposalType.Refund,
+            });
+            expect(next.id).to.equal(2n);
+            expect(
+                (await arbitration.getEscrowProposals(escrowId)).map(
+                    (p) => p.status
+                )
+            ).to.deep.equal([ProposalStatus.Expired, ProposalStatus.Pending]);
+        });
+
+        it('stops proposals once the escrow has expired, so that it can be refunded', async function () {
+            const endTime = (await time.latest()) + proposalDuration * 2;
+            await escrowClient.createEscrow({
+                id: escrowId,
+                primaryLeg: {
+                    participantAddress: partyA.address,
+                    currency: testToken.target,
+                    paymentType: PaymentType.ERC20,
+                    amount: 1000,
+                },
+                secondaryLeg: {
+                    participantAddress: partyB.address,
+                    currency: ethers.ZeroAddress,
+                    paymentType: PaymentType.Native,
+                    amount: 500,
+                },
+                arbitration: {
+                    arbiters: arbiters.map((a) => a.address),
+                    arbitrationModule: arbitrationModule.target,
+                    quorum: 2,
+                },
+                endTime,
+            });
+            await escrowClient.placePayment({
+                escrowId,
+                currency: testToken.target,
+                amount: 1000,
+            });
+
+            //a proposal made just before the end time runs its course
+            await time.increaseTo(endTime - 10);
+            const proposal = await arbitration.propose({
+                escrowId,
+                proposalType: ProposalType.Refund,
+            });
+            await time.increaseTo(endTime);
+            await expect(polyEscrow.refundExpired(escrowId)).to.be.revertedWith(
+                'InvalidEscrowState'
+            );
+
+            //but once it's settled, no new one can be made
+            await arbitration.cancel(proposal.id);
+            for (const account of [partyA, arbiters[0]]) {
+                await expect(
+                    arbitration.connect(account).propose({
+                        escrowId,
+                        proposalType: ProposalType.Refund,
+                    })
+                ).to.be.revertedWith('EscrowExpired');
+            }
+
+            await expect(
+                polyEscrow.connect(outsider).refundExpired(escrowId)
+            ).to.changeTokenBalance(testToken, partyA, 1000);
+            expect((await escrowClient.getEscrow(escrowId)).status).to.equal(
+                EscrowStatus.Completed
+            );
+        });
+    });
+
+    describe('Relay Nodes', function () {
+        let relayNode: any;
+
+        function createKeeper(): RelayKeeper {
+            return new RelayKeeper({
+                signer: outsider,
+                escrowAddress: polyEscrow.target,
+                backoffMs: 1,
+                log: () => {},
+            });
+        }
+
+        //puts the escrow into arbitration, then pays native into its relay node
+        async function holdDeposit() {
+            await createActiveEscrow();
+            relayNode = await ethers.getContractAt(
+                'RelayNode',
+                await escrowClient.deployRelayNode(escrowId)
+            );
+            const proposal = await arbitration.propose({
+                escrowId,
+                proposalType: ProposalType.Refund,
+            });
+
+            await expect(
+                partyB.sendTransaction({ to: relayNode.target, value: 100 })
+            )
+                .to.emit(relayNode, 'DepositHeld')
+                .withArgs(ethers.ZeroAddress, 100);
+            return proposal;
+        }
+
+        it('holds deposits during arbitration', async function () {
+            await holdDeposit();
+
+            const escrow = await escrowClient.getEscrow(escrowId);
+            expect(escrow.secondaryLeg.amountPaid).to.equal(200n);
+            expect(
+                await escrowClient.getRelayNodeBalances(relayNode.target)
+            ).to.deep.equal([
+                {
+                    currency: testToken.target,
+                    paymentType: PaymentType.ERC20,
+                    amount: 0n,
+                },
+                {
+                    currency: ethers.ZeroAddress,
+                    paymentType: PaymentType.Native,
+                    amount: 100n,
+                },
+            ]);
+        });
+
+        it('relays held deposits once the escrow is reactivated', async function () {
+            const proposal = await holdDeposit();
+            await arbitration.cancel(proposal.id);
+
+            await expect(relayNode.relay())
+                .to.emit(relayNode, 'Relayed')
+                .withArgs(ethers.ZeroAddress, 100);
+            const escrow = await escrowClient.getEscrow(escrowId);
+            expect(escrow.secondaryLeg.amountPaid).to.equal(300n);
+        });
+
+        it('leaves held deposits to be claimed once arbitration completes the escrow', async function () {
+            const proposal = await holdDeposit();
+            await arbitration.connect(arbiters[0]).vote(proposal.id);
+            await arbitration.connect(arbiters[1]).vote(proposal.id);
+
+            await expect(relayNode.relay()).to.changeEtherBalances(
+                [relayNode, partyB],
+                [0, 0]
+            );
+            await expect(
+                relayNode.connect(partyB).claimRefund(ethers.ZeroAddress)
+            ).to.changeEtherBalances([relayNode, partyB], [-100, 100]);
+        });
+
+        it('has the keeper relay held native once the escrow is reactivated', async function () {
+            const keeper = createKeeper();
+            const proposal = await holdDeposit();
+
+            //nothing is done while the escrow is in arbitration, but the node stays pending
+            expect(await keeper.sync()).to.be.empty;
+            expect(keeper.pendingNodes).to.deep.equal([relayNode.target]);
+
+            await arbitration.cancel(proposal.id);
+            expect((await keeper.sync()).length).to.equal(1);
+            expect(keeper.pendingNodes).to.be.empty;
+
+            const escrow = await escrowClient.getEscrow(escrowId);
+            expect(escrow.secondaryLeg.amountPaid).to.equal(300n);
+            expect(await ethers.provider.getBalance(relayNode.target)).to.equal(
+                0n
+            );
+        });
+
+        it('has the keeper settle held native once arbitration completes the escrow', async function () {
+            const keeper = createKeeper();
+            const proposal = await holdDeposit();
+            await arbitration.connect(arbiters[0]).vote(proposal.id);
+            await arbitration.connect(arbiters[1]).vote(proposal.id);
+
+            expect((await keeper.sync()).length).to.equal(1);
+            expect(keeper.pendingNodes).to.be.empty;
+
+            //the deposit is left for its depositor to claim
+            expect(
+                await relayNode.depositOf(ethers.ZeroAddress, partyB.address)
+            ).to.equal(100n);
+        });
+    });
+});
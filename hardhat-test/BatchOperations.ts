@@ -0,0 +1,300 @@
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import {
+    CreateEscrowInput,
+    PolyEscrowClient,
+    encodeCreateEscrowInput,
+} from '../client';
+import {
+    EscrowStatus,
+    PaymentType,
+    deployPolyEscrowStack,
+    checkEscrowInvariantsAfterEachTransaction,
+} from './util';
+
+describe('Batch Operations', function () {
+    checkEscrowInvariantsAfterEachTransaction();
+
+    let polyEscrow: any;
+    let testToken: any;
+    let escrowClient: PolyEscrowClient;
+    let partyA: HardhatEthersSigner; //pays native into the primary legs
+    let partyB: HardhatEthersSigner; //pays tokens into the secondary legs
+
+    const escrowIds = [1, 2, 3, 4, 5].map((n) =>
+        ethers.keccak256(ethers.toBeHex(n, 32))
+    );
+
+    function escrowInput(id: string): CreateEscrowInput {
+        return {
+            id,
+            primaryLeg: {
+                participantAddress: partyA.address,
+                currency: ethers.ZeroAddress,
+                paymentType: PaymentType.Native,
+                amount: 100,
+            },
+            secondaryLeg: {
+                participantAddress: partyB.address,
+                currency: testToken.target,
+                paymentType: PaymentType.ERC20,
+                amount: 1000,
+            },
+        };
+    }
+
+    function nativePayment(escrowId: string, amount: number = 100) {
+        return { escrowId, currency: ethers.ZeroAddress, amount };
+    }
+
+    function tokenPayment(escrowId: string, amount: number = 1000) {
+        return { escrowId, currency: testToken.target, amount };
+    }
+
+    this.beforeEach(async () => {
+        const signers = await hre.ethers.getSigners();
+        partyA = signers[3];
+        partyB = signers[4];
+
+        ({ polyEscrow } = await deployPolyEscrowStack({
+            SystemSettingsModule: {
+                vaultAddress: signers[2].address,
+                feeBps: 0,
+            },
+        }));
+
+        testToken = await (
+            await hre.ethers.getContractFactory('TestToken')
+        ).deploy('ABC', 'ABC');
+        await testToken.mint(partyB, 10000);
+
+        escrowClient = new PolyEscrowClient(polyEscrow.target, partyA);
+    });
+
+    describe('Contract', function () {
+        it('creates several escrows in one transaction', async function () {
+            const tx = polyEscrow.createEscrows(
+                escrowIds
+                    .slice(0, 3)
+                    .map((id) => encodeCreateEscrowInput(escrowInput(id)))
+            );
+            for (const id of escrowIds.slice(0, 3)) {
+                await expect(tx)
+                    .to.emit(polyEscrow, 'EscrowCreated')
+                    .withArgs(id);
+            }
+            for (const id of escrowIds.slice(0, 3)) {
+                expect(await polyEscrow.hasEscrow(id)).to.be.true;
+            }
+        });
+
+        it('creates none of the escrows if any fails', async function () {
+            await expect(
+                polyEscrow.createEscrows(
+                    [escrowIds[0], escrowIds[1], escrowIds[0]].map((id) =>
+                        encodeCreateEscrowInput(escrowInput(id))
+                    )
+                )
+            ).to.be.revertedWith('DuplicateEscrow');
+
+            expect(await polyEscrow.hasEscrow(escrowIds[0])).to.be.false;
+            expect(await polyEscrow.hasEscrow(escrowIds[1])).to.be.false;
+        });
+
+        it('pays native legs from the total value sent', async function () {
+            await escrowClient.createEscrows(
+                escrowIds.slice(0, 2).map(escrowInput)
+            );
+
+            const tx = polyEscrow
+                .connect(partyA)
+                .placePayments(
+                    [
+                        nativePayment(escrowIds[0]),
+                        nativePayment(escrowIds[1], 40),
+                    ],
+                    { value: 140 }
+                );
+            await expect(tx).to.changeEtherBalances(
+                [partyA, polyEscrow],
+                [-140, 140]
+            );
+
+            expect(
+                (await escrowClient.getEscrow(escrowIds[0])).primaryLeg
+                    .amountPaid
+            ).to.equal(100n);
+            expect(
+                (await escrowClient.getEscrow(escrowIds[1])).primaryLeg
+                    .amountPaid
+            ).to.equal(40n);
+        });
+
+        it('requires exactly the total of the native payments', async function () {
+            await escrowClient.createEscrows(
+                escrowIds.slice(0, 2).map(escrowInput)
+            );
+            const payments = [
+                nativePayment(escrowIds[0]),
+                nativePayment(escrowIds[1]),
+            ];
+
+            await expect(
+                polyEscrow
+                    .connect(partyA)
+                    .placePayments(payments, { value: 199 })
+            ).to.be.revertedWith('InvalidAmount');
+            await expect(
+                polyEscrow
+                    .connect(partyA)
+                    .placePayments(payments, { value: 201 })
+            ).to.be.revertedWith('InvalidAmount');
+        });
+
+        it('places none of the payments if any fails', async function () {
+            await escrowClient.createEscrow(escrowInput(escrowIds[0]));
+            await testToken.connect(partyB).approve(polyEscrow.target, 2000);
+
+            await expect(
+                polyEscrow
+                    .connect(partyB)
+                    .placePayments([
+                        tokenPayment(escrowIds[0]),
+                        tokenPayment(escrowIds[1]),
+                    ])
+            ).to.be.revertedWith('InvalidEscrow');
+
+            const escrow = await escrowClient.getEscrow(escrowIds[0]);
+            expect(escrow.secondaryLeg.amountPaid).to.equal(0n);
+            expect(await testToken.balanceOf(partyB)).to.equal(10000n);
+        });
+
+        it('completes escrows paid in full within the batch', async function () {
+            await escrowClient.createEscrow(escrowInput(escrowIds[0]));
+            await escrowClient.placePayment(nativePayment(escrowIds[0]));
+            await testToken.connect(partyB).approve(polyEscrow.target, 1000);
+
+            await polyEscrow
+                .connect(partyB)
+                .placePayments([
+                    tokenPayment(escrowIds[0], 400),
+                    tokenPayment(escrowIds[0], 600),
+                ]);
+
+            const escrow = await escrowClient.getEscrow(escrowIds[0]);
+            expect(escrow.status).to.equal(EscrowStatus.Completed);
+            expect(await testToken.balanceOf(partyA)).to.equal(1000n);
+        });
+    });
+
+    describe('Client', function () {
+        it('creates and pays many escrows in one transaction each', async function () {
+            const blockNumber = await ethers.provider.getBlockNumber();
+            const created = await escrowClient.createEscrows(
+                escrowIds.map(escrowInput)
+            );
+            expect(created.map((e) => e.id)).to.deep.equal(escrowIds);
+
+            const paid = await escrowClient.placePayments(
+                escrowIds.map((id) => nativePayment(id))
+            );
+            expect(await ethers.provider.getBlockNumber()).to.equal(
+                blockNumber + 2
+            );
+            for (const escrow of paid) {
+                expect(escrow.status).to.equal(EscrowStatus.Active);
+                expect(escrow.primaryLeg.amountPaid).to.equal(100n);
+            }
+        });
+
+        it('approves each token once for its total', async function () {
+            await escrowClient.createEscrows(escrowIds.map(escrowInput));
+
+            const blockNumber = await ethers.provider.getBlockNumber();
+            await escrowClient
+                .connect(partyB)
+                .placePayments(escrowIds.map((id) => tokenPayment(id, 500)));
+
+            //the approval, and the payments
+            expect(await ethers.provider.getBlockNumber()).to.equal(
+                blockNumber + 2
+            );
+            expect(await testToken.balanceOf(polyEscrow.target)).to.equal(
+                2500n
+            );
+        });
+
+        it('splits batches by size', async function () {
+            const blockNumber = await ethers.provider.getBlockNumber();
+            await escrowClient.createEscrows(escrowIds.map(escrowInput), {
+                maxBatchSize: 2,
+            });
+
+            expect(await ethers.provider.getBlockNumber()).to.equal(
+                blockNumber + 3
+            );
+            for (const id of escrowIds) {
+                expect(await escrowClient.hasEscrow(id)).to.be.true;
+            }
+        });
+
+        it('splits batches to fit under the gas limit', async function () {
+            const gasOfOne = await polyEscrow
+                .connect(partyA)
+                .createEscrows.estimateGas([
+                    encodeCreateEscrowInput(escrowInput(escrowIds[0])),
+                ]);
+
+            const blockNumber = await ethers.provider.getBlockNumber();
+            await escrowClient.createEscrows(escrowIds.map(escrowInput), {
+                maxGas: (gasOfOne * 3n) / 2n,
+            });
+
+            //each transaction fits only one escrow
+            expect(await ethers.provider.getBlockNumber()).to.equal(
+                blockNumber + escrowIds.length
+            );
+            for (const id of escrowIds) {
+                expect(await escrowClient.hasEscrow(id)).to.be.true;
+            }
+        });
+
+        it('keeps a batch atomic unless asked to split it', async function () {
+            const inputs = [0, 1, 0].map((n) => escrowInput(escrowIds[n]));
+
+            let error: any;
+            try {
+                await escrowClient.createEscrows(inputs);
+            } catch (e) {
+                error = e;
+            }
+            expect(error?.message).to.contain('DuplicateEscrow');
+            expect(await escrowClient.hasEscrow(escrowIds[0])).to.be.false;
+
+            //split, the transactions before the failing one stay mined
+            error = undefined;
+            try {
+                await escrowClient.createEscrows(inputs, { maxBatchSize: 2 });
+            } catch (e) {
+                error = e;
+            }
+            expect(error?.message).to.contain('DuplicateEscrow');
+            expect(await escrowClient.hasEscrow(escrowIds[0])).to.be.true;
+            expect(await escrowClient.hasEscrow(escrowIds[1])).to.be.true;
+        });
+
+        it('rejects an item which does not fit on its own', async function () {
+            let error: any;
+            try {
+                await escrowClient.createEscrows(escrowIds.map(escrowInput), {
+                    maxGas: 21000n,
+                });
+            } catch (e) {
+                error = e;
+            }
+            expect(error?.message).to.equal('BatchGasLimitExceeded');
+            expect(await escrowClient.hasEscrow(escrowIds[0])).to.be.false;
+        });
+    });
+});
@@ -0,0 +1,356 @@
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import {
+    PolyEscrowClient,
+    getEscrowDomain,
+    signCancellation,
+    verifyCancellation,
+} from '../client';
+import {
+    EscrowStatus,
+    PaymentType,
+    deployPolyEscrowStack,
+    checkEscrowInvariantsAfterEachTransaction,
+} from './util';
+
+const ONE_DAY = 86400;
+
+describe('Cancellation', function () {
+    checkEscrowInvariantsAfterEachTransaction();
+
+    let polyEscrow: any;
+    let testToken: any;
+    let escrowClient: PolyEscrowClient;
+    let partyA: HardhatEthersSigner; //pays tokens into the primary leg
+    let partyB: HardhatEthersSigner; //pays native into the secondary leg
+    let outsider: HardhatEthersSigner;
+
+    const escrowId = ethers.keccak256('0x01');
+
+    async function createEscrow(id: string = escrowId) {
+        return await escrowClient.createEscrow({
+            id,
+            primaryLeg: {
+                participantAddress: partyA.address,
+                currency: testToken.target,
+                paymentType: PaymentType.ERC20,
+                amount: 1000,
+            },
+            secondaryLeg: {
+                participantAddress: partyB.address,
+                currency: ethers.ZeroAddress,
+                paymentType: PaymentType.Native,
+                amount: 500,
+            },
+        });
+    }
+
+    //creates the escrow, with some of each leg paid in
+    async function createActiveEscrow() {
+        await createEscrow();
+        await escrowClient.placePayment({
+            escrowId,
+            currency: testToken.target,
+            amount: 400,
+        });
+        return await escrowClient.connect(partyB).placePayment({
+            escrowId,
+            currency: ethers.ZeroAddress,
+            amount: 200,
+        });
+    }
+
+    async function deadlineIn(seconds: number) {
+        return BigInt((await time.latest()) + seconds);
+    }
+
+    this.beforeEach(async () => {
+        const signers = await hre.ethers.getSigners();
+        partyA = signers[3];
+        partyB = signers[4];
+        outsider = signers[12];
+
+        ({ polyEscrow } = await deployPolyEscrowStack({
+            SystemSettingsModule: {
+                vaultAddress: signers[2].address,
+                feeBps: 0,
+            },
+        }));
+
+        testToken = await (
+            await hre.ethers.getContractFactory('TestToken')
+        ).deploy('ABC', 'ABC');
+        await testToken.mint(partyA, 10000);
+
+        escrowClient = new PolyEscrowClient(polyEscrow.target, partyA);
+    });
+
+    describe('On-chain Approval', function () {
+        it('records the first approval without cancelling', async function () {
+            await createActiveEscrow();
+
+            await expect(
+                polyEscrow.connect(partyA).approveCancellation(escrowId)
+            )
+                .to.emit(polyEscrow, 'CancellationApproved')
+                .withArgs(escrowId, partyA.address);
+
+            expect(
+                await escrowClient.isCancellationApproved(
+                    escrowId,
+                    partyA.address
+                )
+            ).to.be.true;
+            expect(
+                await escrowClient.isCancellationApproved(
+                    escrowId,
+                    partyB.address
+                )
+            ).to.be.false;
+            expect((await escrowClient.getEscrow(escrowId)).status).to.equal(
+                EscrowStatus.Active
+            );
+        });
+
+        it('cancels and refunds once both participants approve', async function () {
+            await createActiveEscrow();
+            await escrowClient.approveCancellation(escrowId);
+
+            const tx = polyEscrow.connect(partyB).approveCancellation(escrowId);
+            await expect(tx)
+                .to.emit(polyEscrow, 'EscrowCancelled')
+                .withArgs(escrowId, 400, 200);
+            await expect(tx).to.changeTokenBalances(
+                testToken,
+                [polyEscrow, partyA],
+                [-400, 400]
+            );
+            await expect(tx).to.changeEtherBalances(
+                [polyEscrow, partyB],
+                [-200, 200]
+            );
+
+            const escrow = await escrowClient.getEscrow(escrowId);
+            expect(escrow.status).to.equal(EscrowStatus.Completed);
+            expect(escrow.primaryLeg.amountRefunded).to.equal(400n);
+            expect(escrow.secondaryLeg.amountRefunded).to.equal(200n);
+        });
+
+        it('only accepts approvals from the participants', async function () {
+            await createActiveEscrow();
+            await expect(
+                polyEscrow.connect(outsider).approveCancellation(escrowId)
+            ).to.be.revertedWith('Unauthorized');
+        });
+
+        it('only cancels Active escrows', async function () {
+            await expect(
+                polyEscrow.connect(partyA).approveCancellation(escrowId)
+            ).to.be.revertedWith('InvalidEscrow');
+
+            //nothing has been paid in yet
+            await createEscrow();
+            await expect(
+                polyEscrow.connect(partyA).approveCancellation(escrowId)
+            ).to.be.revertedWith('InvalidEscrowState');
+        });
+
+        it('cannot cancel an escrow twice', async function () {
+            await createActiveEscrow();
+            await escrowClient.approveCancellation(escrowId);
+            await escrowClient.connect(partyB).approveCancellation(escrowId);
+
+            await expect(
+                polyEscrow.connect(partyA).approveCancellation(escrowId)
+            ).to.be.revertedWith('InvalidEscrowState');
+        });
+
+        it('cannot be approved while paused', async function () {
+            await createActiveEscrow();
+            await polyEscrow.pause();
+            await expect(
+                polyEscrow.connect(partyA).approveCancellation(escrowId)
+            ).to.be.revertedWith('Paused');
+        });
+    });
+
+    describe('Signatures', function () {
+        it('cancels with both signatures, submitted by anyone', async function () {
+            await createActiveEscrow();
+            const deadline = await deadlineIn(ONE_DAY);
+
+            //in either order
+            const signatures = [
+                await escrowClient
+                    .connect(partyB)
+                    .signCancellation(escrowId, deadline),
+                await escrowClient.signCancellation(escrowId, deadline),
+            ];
+            const escrow = await escrowClient
+                .connect(outsider)
+                .cancelWithSignatures(signatures);
+
+            expect(escrow.status).to.equal(EscrowStatus.Completed);
+            expect(escrow.primaryLeg.amountRefunded).to.equal(400n);
+            expect(escrow.secondaryLeg.amountRefunded).to.equal(200n);
+            expect(await testToken.balanceOf(partyA)).to.equal(10000n);
+        });
+
+        it('emits EscrowCancelled', async function () {
+            await createActiveEscrow();
+            const deadline = await deadlineIn(ONE_DAY);
+            const primary = await escrowClient.signCancellation(
+                escrowId,
+                deadline
+            );
+            const secondary = await escrowClient
+                .connect(partyB)
+                .signCancellation(escrowId, deadline);
+
+            await expect(
+                polyEscrow.cancelWithSignatures(
+                    escrowId,
+                    deadline,
+                    primary.signature,
+                    secondary.signature
+                )
+            )
+                .to.emit(polyEscrow, 'EscrowCancelled')
+                .withArgs(escrowId, 400, 200);
+        });
+
+        it('accepts signatures until the deadline', async function () {
+            await createActiveEscrow();
+            const deadline = await deadlineIn(ONE_DAY);
+            const signatures = [
+                await escrowClient.signCancellation(escrowId, deadline),
+                await escrowClient
+                    .connect(partyB)
+                    .signCancellation(escrowId, deadline),
+            ];
+
+            await time.increaseTo(deadline - 1n);
+            const escrow = await escrowClient.cancelWithSignatures(signatures);
+            expect(escrow.status).to.equal(EscrowStatus.Completed);
+        });
+
+        it('rejects signatures after the deadline', async function () {
+            await createActiveEscrow();
+            const deadline = await deadlineIn(ONE_DAY);
+            const signatures = [
+                await escrowClient.signCancellation(escrowId, deadline),
+                await escrowClient
+                    .connect(partyB)
+                    .signCancellation(escrowId, deadline),
+            ];
+
+            await time.increaseTo(deadline);
+            await expect(
+                escrowClient.cancelWithSignatures(signatures)
+            ).to.be.revertedWith('SignatureExpired');
+        });
+
+        it('rejects signatures of the wrong accounts, or in the wrong order', async function () {
+            await createActiveEscrow();
+            const deadline = await deadlineIn(ONE_DAY);
+            const primary = await escrowClient.signCancellation(
+                escrowId,
+                deadline
+            );
+            const secondary = await escrowClient
+                .connect(partyB)
+                .signCancellation(escrowId, deadline);
+            const other = await escrowClient
+                .connect(outsider)
+                .signCancellation(escrowId, deadline);
+
+            for (const [a, b] of [
+                [primary, other],
+                [other, secondary],
+                [secondary, primary],
+            ]) {
+                await expect(
+                    polyEscrow.cancelWithSignatures(
+                        escrowId,
+                        deadline,
+                        a.signature,
+                        b.signature
+                    )
+                ).to.be.revertedWith('InvalidSignature');
+            }
+        });
+
+        it('rejects signatures for another deadline or escrow', async function () {
+            await createActiveEscrow();
+            const deadline = await deadlineIn(ONE_DAY);
+            const primary = await escrowClient.signCancellation(
+                escrowId,
+                deadline
+            );
+            const secondary = await escrowClient
+                .connect(partyB)
+                .signCancellation(escrowId, deadline);
+            await expect(
+                polyEscrow.cancelWithSignatures(
+                    escrowId,
+                    deadline + 1n,
+                    primary.signature,
+                    secondary.signature
+                )
+            ).to.be.revertedWith('InvalidSignature');
+
+            const otherEscrow = await escrowClient
+                .connect(partyB)
+                .signCancellation(ethers.keccak256('0x02'), deadline);
+            await expect(
+                polyEscrow.cancelWithSignatures(
+                    escrowId,
+                    deadline,
+                    primary.signature,
+                    otherEscrow.signature
+                )
+            ).to.be.revertedWith('InvalidSignature');
+        });
+
+        it('requires a valid signature from each participant in the client', async function () {
+            await createActiveEscrow();
+            const deadline = await deadlineIn(ONE_DAY);
+            const primary = await escrowClient.signCancellation(
+                escrowId,
+                deadline
+            );
+
+            //claims to be from partyB, but isn't
+            const forged = { ...primary, signer: partyB.address };
+            for (const signatures of [[primary], [primary, forged]]) {
+                let error: any;
+                try {
+                    await escrowClient.cancelWithSignatures(signatures);
+                } catch (e) {
+                    error = e;
+                }
+                expect(error?.message).to.equal('MissingCancellationSignature');
+            }
+        });
+
+        it('signs offline with the same domain as the contract', async function () {
+            const { chainId } = await ethers.provider.getNetwork();
+            const domain = getEscrowDomain(polyEscrow.target, chainId);
+            expect(await escrowClient.getDomain()).to.deep.equal(domain);
+
+            const signature = await signCancellation(
+                partyA,
+                domain,
+                escrowId,
+                1000
+            );
+            expect(signature.signer).to.equal(partyA.address);
+            expect(verifyCancellation(domain, signature)).to.be.true;
+            expect(
+                verifyCancellation(domain, { ...signature, deadline: 1001n })
+            ).to.be.false;
+        });
+    });
+});
@@ -0,0 +1,220 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import path from 'path';
+import hre, { ethers } from 'hardhat';
+import {
+    ADMIN_ROLE,
+    PAUSER_ROLE,
+    SYSTEM_ROLE,
+} from '../ignition/modules/SecurityContext';
+import {
+    checkDeploymentParameters,
+    resolveDeploymentParameters,
+} from '../tasks/deploy';
+import { deployPolyEscrowStack } from './util';
+
+const PARAMETERS_DIR = path.join(__dirname, '../ignition/parameters');
+
+describe('Deployment', function () {
+    describe('PolyEscrowModule', function () {
+        it('deploys and wires up the full stack', async function () {
+            const [admin, , vaultAccount] = await hre.ethers.getSigners();
+            const { securityContext, systemSettings, polyEscrow } =
+                await deployPolyEscrowStack();
+
+            expect(await polyEscrow.securityContext()).to.equal(
+                securityContext.target
+            );
+            expect(await polyEscrow.settings()).to.equal(systemSettings.target);
+            expect(await systemSettings.securityContext()).to.equal(
+                securityContext.target
+            );
+            expect(await systemSettings.vaultAddress()).to.equal(
+                vaultAccount.address
+            );
+            expect(await systemSettings.feeBps()).to.equal(0);
+
+            //all roles default to the deployer
+            for (const role of [ADMIN_ROLE, SYSTEM_ROLE, PAUSER_ROLE]) {
+                expect(await securityContext.hasRole(role, admin.address)).to.be
+                    .true;
+            }
+        });
+
+        it('grants roles to the given accounts', async function () {
+            const [admin, a2, a3, a4, a5] = await hre.ethers.getSigners();
+            const { securityContext, systemSettings, polyEscrow } =
+                await deployPolyEscrowStack({
+                    SecurityContextModule: {
+                        admin: a2.address,
+                        systemAccount: a3.address,
+                        pauserAccount: a4.address,
+                    },
+                    SystemSettingsModule: {
+                        vaultAddress: a5.address,
+                        feeBps: 125,
+                    },
+                });
+
+            expect(await securityContext.hasRole(ADMIN_ROLE, a2.address)).to.be
+                .true;
+            expect(await securityContext.hasRole(SYSTEM_ROLE, a3.address)).to.be
+                .true;
+            expect(await securityContext.hasRole(PAUSER_ROLE, a4.address)).to.be
+                .true;
+            expect(await securityContext.hasRole(SYSTEM_ROLE, admin.address)).to
+                .be.false;
+            expect(await systemSettings.vaultAddress()).to.equal(a5.address);
+            expect(await systemSettings.feeBps()).to.equal(125);
+
+            //only the system account may pause
+            await expect(polyEscrow.connect(a4).pause())
+                .to.be.revertedWithCustomError(polyEscrow, 'UnauthorizedAccess')
+                .withArgs(SYSTEM_ROLE, a4.address);
+            await expect(polyEscrow.connect(a3).pause()).to.emit(
+                polyEscrow,
+                'Paused'
+            );
+        });
+
+        it('admin can grant and revoke roles after deployment', async function () {
+            const [admin, a2] = await hre.ethers.getSigners();
+            const { securityContext } = await deployPolyEscrowStack();
+
+            await securityContext.grantRole(SYSTEM_ROLE, a2.address);
+            expect(await securityContext.hasRole(SYSTEM_ROLE, a2.address)).to.be
+                .true;
+
+            await securityContext.revokeRole(SYSTEM_ROLE, a2.address);
+            expect(await securityContext.hasRole(SYSTEM_ROLE, a2.address)).to.be
+                .false;
+
+            //non-admin cannot grant
+            await expect(
+                securityContext.connect(a2).grantRole(ADMIN_ROLE, a2.address)
+            ).to.be.revertedWithCustomError(
+                securityContext,
+                'AccessControlUnauthorizedAccount'
+            );
+            expect(await securityContext.hasRole(ADMIN_ROLE, admin.address)).to
+                .be.true;
+        });
+    });
+
+    describe('Parameters', function () {
+        it('supplies parameters for every configured network', async function () {
+            for (const network of Object.keys(hre.config.networks)) {
+                if (network === 'localhost') continue;
+
+                const file = path.join(PARAMETERS_DIR, `${network}.json`);
+                expect(fs.existsSync(file), `missing ${file}`).to.be.true;
+
+                //the accounts are read from environment variables, e.g. SEPOLIA_VAULT_ADDRESS
+                const text = fs.readFileSync(file, 'utf8');
+                const env = Object.fromEntries(
+                    [...text.matchAll(/\$\{(\w+)\}/g)].map(([, name]) => [
+                        name,
+                        ethers.Wallet.createRandom().address,
+                    ])
+                );
+                const parameters = resolveDeploymentParameters(
+                    JSON.parse(text),
+                    file,
+                    env
+                );
+                expect(parameters.SystemSettingsModule.feeBps, file).to.be.a(
+                    'number'
+                );
+                checkDeploymentParameters(parameters, file);
+            }
+        });
+
+        it('reads accounts from environment variables', async function () {
+            const vault = ethers.Wallet.createRandom().address;
+            const parameters = resolveDeploymentParameters(
+                {
+                    SystemSettingsModule: {
+                        vaultAddress: '${TEST_VAULT_ADDRESS}',
+                        feeBps: 100,
+                    },
+                },
+                'test',
+                { TEST_VAULT_ADDRESS: vault }
+            );
+            expect(parameters.SystemSettingsModule).to.deep.equal({
+                vaultAddress: vault,
+                feeBps: 100,
+            });
+
+            expect(() =>
+                resolveDeploymentParameters(
+                    JSON.parse(
+                        fs.readFileSync(
+                            path.join(PARAMETERS_DIR, 'sepolia.json'),
+                            'utf8'
+                        )
+                    ),
+                    'sepolia.json',
+                    {}
+                )
+            ).to.throw(
+                'environment variable SEPOLIA_ADMIN_ADDRESS must be set'
+            );
+        });
+
+        it('refuses to deploy without a fee vault', async function () {
+            let error: any;
+            try {
+                await hre.run('deploy:stack', {
+                    parameters: path.join(PARAMETERS_DIR, 'example.json'),
+                });
+            } catch (e) {
+                error = e;
+            }
+            expect(error?.message).to.contain(
+                'SystemSettingsModule.vaultAddress must be'
+            );
+        });
+
+        it('refuses to deploy without a parameters file', async function () {
+            let error: any;
+            try {
+                await hre.run('deploy:stack', {
+                    parameters: path.join(PARAMETERS_DIR, 'nowhere.json'),
+                });
+            } catch (e) {
+                error = e;
+            }
+            expect(error?.message).to.contain('Missing parameters file');
+        });
+
+        it('rejects fees out of range', async function () {
+            expect(() =>
+                checkDeploymentParameters(
+                    {
+                        SystemSettingsModule: {
+                            vaultAddress: ethers.Wallet.createRandom().address,
+                            feeBps: 10001,
+                        },
+                    },
+                    'test'
+                )
+            ).to.throw('SystemSettingsModule.feeBps must be');
+        });
+
+        it('rejects role accounts which are not addresses', async function () {
+            expect(() =>
+                checkDeploymentParameters(
+                    {
+                        SecurityContextModule: { pauserAccount: 'nobody' },
+                        SystemSettingsModule: {
+                            vaultAddress: ethers.Wallet.createRandom().address,
+                            feeBps: 100,
+                        },
+                    },
+                    'test'
+                )
+            ).to.throw('SecurityContextModule.pauserAccount must be');
+        });
+    });
+});
@@ -0,0 +1,354 @@
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import { PolyEscrowClient } from '../client';
+import {
+    EscrowStatus,
+    PaymentType,
+    deployPolyEscrowStack,
+    checkEscrowInvariantsAfterEachTransaction,
+} from './util';
+
+const ONE_DAY = 86400;
+const TOKEN_ID = 42n;
+
+describe('ERC1155 Legs', function () {
+    checkEscrowInvariantsAfterEachTransaction();
+
+    let polyEscrow: any;
+    let testToken: any;
+    let multiToken: any;
+    let escrowClient: PolyEscrowClient;
+    let partyA: HardhatEthersSigner; //pays tokens into the primary leg
+    let partyB: HardhatEthersSigner; //pays multi-tokens into the secondary leg
+
+    const escrowId = ethers.keccak256('0x01');
+
+    async function createEscrow(
+        primaryLeg: any = {
+            participantAddress: partyA.address,
+            currency: testToken.target,
+            paymentType: PaymentType.ERC20,
+            amount: 1000,
+        },
+        endTime: number = 0
+    ) {
+        return await escrowClient.createEscrow({
+            id: escrowId,
+            primaryLeg,
+            secondaryLeg: {
+                participantAddress: partyB.address,
+                currency: multiToken.target,
+                paymentType: PaymentType.ERC1155,
+                amount: 30,
+                tokenId: TOKEN_ID,
+            },
+            endTime,
+        });
+    }
+
+    async function payMultiToken(amount: number) {
+        return await escrowClient.connect(partyB).placePayment({
+            escrowId,
+            currency: multiToken.target,
+            amount,
+        });
+    }
+
+    this.beforeEach(async () => {
+        const signers = await hre.ethers.getSigners();
+        partyA = signers[3];
+        partyB = signers[4];
+
+        ({ polyEscrow } = await deployPolyEscrowStack({
+            SystemSettingsModule: {
+                vaultAddress: signers[2].address,
+                feeBps: 100,
+            },
+        }));
+
+        testToken = await (
+            await hre.ethers.getContractFactory('TestToken')
+        ).deploy('ABC', 'ABC');
+        await testToken.mint(partyA, 10000);
+
+        multiToken = await (
+            await hre.ethers.getContractFactory('TestMultiToken')
+        ).deploy('https://example.com/{id}.json');
+        await multiToken.mint(partyB, TOKEN_ID, 100);
+        await multiToken.mint(partyB, TOKEN_ID + 1n, 100);
+
+        escrowClient = new PolyEscrowClient(polyEscrow.target, partyA);
+    });
+
+    describe('Escrow', function () {
+        it('creates an escrow with an ERC1155 leg', async function () {
+            const escrow = await createEscrow();
+            expect(escrow.secondaryLeg.paymentType).to.equal(
+                PaymentType.ERC1155
+            );
+            expect(escrow.secondaryLeg.currency).to.equal(multiToken.target);
+            expect(escrow.secondaryLeg.tokenId).to.equal(TOKEN_ID);
+            expect(escrow.secondaryLeg.amountPledged).to.equal(30n);
+        });
+
+        it('rejects a currency which is not an ERC1155', async function () {
+            await expect(
+                polyEscrow.createEscrow({
+                    id: escrowId,
+                    primaryLeg: {
+                        participantAddress: partyA.address,
+                        currency: testToken.target,
+                        paymentType: PaymentType.ERC20,
+                        amount: 1000,
+                        tokenId: 0,
+                    },
+                    secondaryLeg: {
+                        participantAddress: partyB.address,
+                        currency: testToken.target,
+                        paymentType: PaymentType.ERC1155,
+                        amount: 30,
+                        tokenId: TOKEN_ID,
+                    },
+                    startTime: 0,
+                    endTime: 0,
+                    fees: [],
+                    arbitration: {
+                        arbitrationModule: ethers.ZeroAddress,
+                        arbiters: [],
+                        quorum: 0,
+                    },
+                })
+            ).to.be.revertedWith('InvalidToken');
+        });
+
+        it('pulls in payments of the pledged token id', async function () {
+            await createEscrow();
+            const escrow = await payMultiToken(10);
+
+            expect(escrow.status).to.equal(EscrowStatus.Active);
+            expect(escrow.secondaryLeg.amountPaid).to.equal(10n);
+            expect(
+                await multiToken.balanceOf(polyEscrow.target, TOKEN_ID)
+            ).to.equal(10n);
+            expect(await multiToken.balanceOf(partyB, TOKEN_ID)).to.equal(90n);
+        });
+
+        it('swaps tokens for multi-tokens, without fees on the ERC1155 leg', async function () {
+            await createEscrow();
+            await payMultiToken(30);
+            const escrow = await escrowClient.placePayment({
+                escrowId,
+                currency: testToken.target,
+                amount: 1000,
+            });
+
+            expect(escrow.status).to.equal(EscrowStatus.Completed);
+            expect(escrow.secondaryLeg.amountReleased).to.equal(30n);
+            expect(await multiToken.balanceOf(partyA, TOKEN_ID)).to.equal(30n);
+            expect(
+                await multiToken.balanceOf(polyEscrow.target, TOKEN_ID)
+            ).to.equal(0n);
+
+            //the ERC20 leg pays the 1% platform fee
+            expect(await testToken.balanceOf(partyB)).to.equal(990n);
+        });
+
+        it('swaps native for multi-tokens', async function () {
+            await createEscrow({
+                participantAddress: partyA.address,
+                currency: ethers.ZeroAddress,
+                paymentType: PaymentType.Native,
+                amount: 1000,
+            });
+            await escrowClient.placePayment({
+                escrowId,
+                currency: ethers.ZeroAddress,
+                amount: 1000,
+            });
+            const escrow = await payMultiToken(30);
+
+            expect(escrow.status).to.equal(EscrowStatus.Completed);
+            expect(await multiToken.balanceOf(partyA, TOKEN_ID)).to.equal(30n);
+        });
+
+        it('refunds multi-tokens once expired', async function () {
+            const endTime = (await time.latest()) + ONE_DAY;
+            await createEscrow(undefined, endTime);
+            await payMultiToken(10);
+
+            await time.increaseTo(endTime);
+            const escrow = await escrowClient.refundExpired(escrowId);
+            expect(escrow.secondaryLeg.amountRefunded).to.equal(10n);
+            expect(await multiToken.balanceOf(partyB, TOKEN_ID)).to.equal(100n);
+        });
+
+        it('rejects multi-tokens sent to it directly', async function () {
+            await expect(
+                multiToken
+                    .connect(partyB)
+                    .safeTransferFrom(
+                        partyB.address,
+                        polyEscrow.target,
+                        TOKEN_ID,
+                        1,
+                        '0x'
+                    )
+            ).to.be.revertedWith('Unauthorized');
+
+            await expect(
+                multiToken
+                    .connect(partyB)
+                    .safeBatchTransferFrom(
+                        partyB.address,
+                        polyEscrow.target,
+                        [TOKEN_ID],
+                        [1],
+                        '0x'
+                    )
+            ).to.be.revertedWith('Unauthorized');
+        });
+    });
+
+    describe('Relay Node', function () {
+        let relayNode: any;
+
+        this.beforeEach(async () => {
+            await createEscrow();
+            relayNode = await ethers.getContractAt(
+                'RelayNode',
+                await escrowClient.deployRelayNode(escrowId)
+            );
+        });
+
+        it('relays multi-tokens into the escrow', async function () {
+            await multiToken
+                .connect(partyB)
+                .safeTransferFrom(
+                    partyB.address,
+                    relayNode.target,
+                    TOKEN_ID,
+                    20,
+                    '0x'
+                );
+            await relayNode.relay();
+
+            const escrow = await escrowClient.getEscrow(escrowId);
+            expect(escrow.secondaryLeg.amountPaid).to.equal(20n);
+            expect(
+                await multiToken.balanceOf(relayNode.target, TOKEN_ID)
+            ).to.equal(0n);
+        });
+
+        it('refunds multi-tokens to whoever sent them', async function () {
+            await multiToken
+                .connect(partyB)
+                .safeBatchTransferFrom(
+                    partyB.address,
+                    relayNode.target,
+                    [TOKEN_ID],
+                    [20],
+                    '0x'
+                );
+            await relayNode.connect(partyB).claimRefund(multiToken.target);
+
+            expect(await multiToken.balanceOf(partyB, TOKEN_ID)).to.equal(100n);
+        });
+
+        it('rejects token ids which are not pledged', async function () {
+            await expect(
+                multiToken
+                    .connect(partyB)
+                    .safeTransferFrom(
+                        partyB.address,
+                        relayNode.target,
+                        TOKEN_ID + 1n,
+                        1,
+                        '0x'
+                    )
+            ).to.be.revertedWith('InvalidToken');
+
+            await expect(
+                multiToken
+                    .connect(partyB)
+                    .safeBatchTransferFrom(
+                        partyB.address,
+                        relayNode.target,
+                        [TOKEN_ID, TOKEN_ID + 1n],
+                        [1, 1],
+                        '0x'
+                    )
+            ).to.be.revertedWith('InvalidToken');
+        });
+    });
+
+    describe('Reentrancy', function () {
+        it('stops a receiver from paying into an escrow again as it is released', async function () {
+            const attacker = await (
+                await hre.ethers.getContractFactory('ReentrantReceiver')
+            ).deploy();
+            await testToken.mint(attacker, 2000);
+            await attacker.execute(
+                testToken.target,
+                testToken.interface.encodeFunctionData('approve', [
+                    polyEscrow.target,
+                    2000,
+                ])
+            );
+            const payAttackerLeg = (amount: number) =>
+                polyEscrow.interface.encodeFunctionData('placePayment', [
+                    { escrowId, currency: testToken.target, amount },
+                ]);
+
+            //another escrow's multi-tokens, which a second release would pay out
+            const otherId = ethers.keccak256('0x02');
+            await escrowClient.createEscrow({
+                id: otherId,
+                primaryLeg: {
+                    participantAddress: partyA.address,
+                    currency: testToken.target,
+                    paymentType: PaymentType.ERC20,
+                    amount: 1000,
+                },
+                secondaryLeg: {
+                    participantAddress: partyB.address,
+                    currency: multiToken.target,
+                    paymentType: PaymentType.ERC1155,
+                    amount: 30,
+                    tokenId: TOKEN_ID,
+                },
+            });
+            await escrowClient.connect(partyB).placePayment({
+                escrowId: otherId,
+                currency: multiToken.target,
+                amount: 30,
+            });
+
+            await createEscrow({
+                participantAddress: attacker.target,
+                currency: testToken.target,
+                paymentType: PaymentType.ERC20,
+                amount: 1000,
+            });
+            await payMultiToken(30);
+
+            //completing its payment releases the multi-tokens to it, and it pays in again as they arrive
+            await attacker.setReentry(polyEscrow.target, payAttackerLeg(1));
+            await attacker.execute(polyEscrow.target, payAttackerLeg(1000));
+
+            expect(await attacker.reentered()).to.be.false;
+            expect(
+                await multiToken.balanceOf(attacker.target, TOKEN_ID)
+            ).to.equal(30n);
+            expect(
+                await multiToken.balanceOf(polyEscrow.target, TOKEN_ID)
+            ).to.equal(30n);
+
+            const escrow = await escrowClient.getEscrow(escrowId);
+            expect(escrow.status).to.equal(EscrowStatus.Completed);
+            expect(escrow.primaryLeg.amountPaid).to.equal(1000n);
+            expect(escrow.secondaryLeg.amountReleased).to.equal(30n);
+        });
+    });
+});
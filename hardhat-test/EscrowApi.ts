@@ -0,0 +1,290 @@
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import { PolyEscrowClient } from '../client';
+import { EscrowApiServer } from '../services/api';
+import { EscrowIndexer, IndexerStore } from '../services/indexer';
+import {
+    EscrowStatus,
+    PaymentType,
+    deployPolyEscrowStack,
+    checkEscrowInvariantsAfterEachTransaction,
+} from './util';
+
+describe('EscrowApiServer', function () {
+    checkEscrowInvariantsAfterEachTransaction();
+
+    let polyEscrow: any;
+    let testToken1: any;
+    let testToken2: any;
+    let client: PolyEscrowClient;
+    let receiver1: HardhatEthersSigner;
+    let receiver2: HardhatEthersSigner;
+    let receiver3: HardhatEthersSigner;
+    let store: IndexerStore;
+    let api: EscrowApiServer;
+    let baseUrl: string;
+    let now: number;
+
+    const escrowId1 = ethers.keccak256('0x01');
+    const escrowId2 = ethers.keccak256('0x02');
+    const escrowId3 = ethers.keccak256('0x03');
+    const amount = 1000n;
+    const day = 86400;
+
+    //creates a token-to-native escrow
+    async function createEscrow(
+        id: string,
+        primary: HardhatEthersSigner,
+        secondary: HardhatEthersSigner,
+        token: any,
+        endTime: number = 0
+    ) {
+        await client.createEscrow({
+            id,
+            primaryLeg: {
+                participantAddress: primary.address,
+                currency: token.target,
+                paymentType: PaymentType.ERC20,
+                amount,
+            },
+            secondaryLeg: {
+                participantAddress: secondary.address,
+                currency: ethers.ZeroAddress,
+                paymentType: PaymentType.Native,
+                amount,
+            },
+            endTime,
+        });
+    }
+
+    async function pay(id: string, currency: string = ethers.ZeroAddress) {
+        await client.placePayment({ escrowId: id, currency, amount });
+    }
+
+    async function get(path: string): Promise<{ status: number; body: any }> {
+        const response = await fetch(`${baseUrl}${path}`);
+        return { status: response.status, body: await response.json() };
+    }
+
+    //gets the ids of the escrows listed at the given path
+    async function getIds(path: string): Promise<string[]> {
+        const { status, body } = await get(path);
+        expect(status).to.equal(200);
+        return body.items.map((e: any) => e.id);
+    }
+
+    this.beforeEach(async () => {
+        const signers = await hre.ethers.getSigners();
+        const admin = signers[0];
+        receiver1 = signers[6];
+        receiver2 = signers[7];
+        receiver3 = signers[8];
+
+        ({ polyEscrow } = await deployPolyEscrowStack());
+        client = new PolyEscrowClient(polyEscrow.target, admin);
+
+        const tokenFactory = await hre.ethers.getContractFactory('TestToken');
+        testToken1 = await tokenFactory.deploy('ABC', 'ABC');
+        testToken2 = await tokenFactory.deploy('DEF', 'DEF');
+        await testToken1.mint(admin, amount * 10n);
+        await testToken2.mint(admin, amount * 10n);
+
+        //escrow 1: active, ends in a day
+        //escrow 2: pending, ends in 10 days
+        //escrow 3: completed, doesn't end
+        now = await time.latest();
+        await createEscrow(
+            escrowId1,
+            receiver1,
+            receiver2,
+            testToken1,
+            now + day
+        );
+        await createEscrow(
+            escrowId2,
+            receiver1,
+            receiver3,
+            testToken1,
+            now + 10 * day
+        );
+        await createEscrow(escrowId3, receiver2, receiver3, testToken2);
+        await pay(escrowId1);
+        await pay(escrowId3);
+        await pay(escrowId3, testToken2.target);
+
+        store = await IndexerStore.open();
+        await new EscrowIndexer(store, {
+            provider: ethers.provider,
+            escrowAddress: polyEscrow.target,
+            confirmations: 0,
+        }).sync();
+
+        api = new EscrowApiServer(store, 2);
+        baseUrl = await api.listen();
+    });
+
+    this.afterEach(async () => {
+        await api.close();
+        store.close();
+    });
+
+    describe('Escrows', function () {
+        it('lists escrows by participant, on either leg', async function () {
+            expect(
+                await getIds(`/escrows?participant=${receiver1.address}`)
+            ).to.deep.equal([escrowId1, escrowId2]);
+            expect(
+                await getIds(
+                    `/escrows?participant=${receiver3.address.toLowerCase()}`
+                )
+            ).to.deep.equal([escrowId2, escrowId3]);
+        });
+
+        it('lists escrows by status', async function () {
+            expect(await getIds('/escrows?status=Active')).to.deep.equal([
+                escrowId1,
+            ]);
+            expect(
+                await getIds(`/escrows?status=${EscrowStatus.Completed}`)
+            ).to.deep.equal([escrowId3]);
+            expect(await getIds('/escrows?status=arbitration')).to.be.empty;
+        });
+
+        it('lists escrows expiring before a time', async function () {
+            expect(
+                await getIds(`/escrows?endsBefore=${now + 2 * day}`)
+            ).to.deep.equal([escrowId1]);
+
+            const later = new Date((now + 20 * day) * 1000).toISOString();
+            expect(await getIds(`/escrows?endsBefore=${later}`)).to.deep.equal([
+                escrowId1,
+                escrowId2,
+            ]);
+        });
+
+        it('lists escrows by currency, combined with other filters', async function () {
+            expect(
+                await getIds(`/escrows?currency=${testToken2.target}`)
+            ).to.deep.equal([escrowId3]);
+            expect(
+                await getIds(
+                    `/escrows?currency=${ethers.ZeroAddress}&participant=${receiver1.address}&status=pending`
+                )
+            ).to.deep.equal([escrowId2]);
+        });
+
+        it('pages escrows', async function () {
+            let { body } = await get('/escrows');
+            expect(body.total).to.equal(3);
+            expect(body.limit).to.equal(2);
+            expect(body.items.map((e: any) => e.id)).to.deep.equal([
+                escrowId1,
+                escrowId2,
+            ]);
+
+            ({ body } = await get('/escrows?limit=1&offset=2'));
+            expect(body.total).to.equal(3);
+            expect(body.items.map((e: any) => e.id)).to.deep.equal([escrowId3]);
+        });
+
+        it('returns one escrow with its payments', async function () {
+            const { status, body } = await get(`/escrows/${escrowId1}`);
+
+            expect(status).to.equal(200);
+            expect(body.id).to.equal(escrowId1);
+            expect(body.status).to.equal(EscrowStatus.Active);
+            expect(body.secondaryLeg.amountPaid).to.equal(amount.toString());
+            expect(body.payments.length).to.equal(1);
+            expect(body.payments[0].amount).to.equal(amount.toString());
+            expect(body.relayNodes).to.be.empty;
+
+            const payments = await get(`/escrows/${escrowId3}/payments`);
+            expect(payments.body.items.length).to.equal(2);
+        });
+    });
+
+    describe('Balances', function () {
+        it('totals held and pending amounts per currency', async function () {
+            const { body } = await get('/balances');
+            const byCurrency = Object.fromEntries(
+                body.items.map((b: any) => [b.currency, b])
+            );
+
+            //token 1: pledged in escrows 1 and 2, nothing paid yet
+            expect(byCurrency[testToken1.target]).to.deep.include({
+                held: '0',
+                pending: (amount * 2n).toString(),
+                legCount: 2,
+            });
+
+            //native: paid into escrow 1, pledged in escrow 2, released in escrow 3
+            expect(byCurrency[ethers.ZeroAddress]).to.deep.include({
+                held: amount.toString(),
+                pending: amount.toString(),
+                legCount: 3,
+            });
+
+            //token 2: released in escrow 3
+            expect(byCurrency[testToken2.target]).to.deep.include({
+                held: '0',
+                pending: '0',
+            });
+        });
+
+        it('totals balances over filtered escrows', async function () {
+            const { body } = await get(
+                `/balances?participant=${receiver2.address}&status=active`
+            );
+            expect(
+                body.items.map((b: any) => [b.currency, b.held])
+            ).to.deep.equal([
+                [testToken1.target, '0'],
+                [ethers.ZeroAddress, amount.toString()],
+            ]);
+        });
+    });
+
+    describe('Status and errors', function () {
+        it('reports the indexing status', async function () {
+            const { body } = await get('/status');
+            expect(body.escrowCount).to.equal(3);
+            expect(body.checkpoint.blockNumber).to.equal(
+                await ethers.provider.getBlockNumber()
+            );
+        });
+
+        it('rejects invalid parameters', async function () {
+            for (const path of [
+                '/escrows?status=Refunded',
+                '/escrows?participant=0x1234',
+                '/escrows?endsBefore=tomorrow',
+                '/escrows?limit=0',
+                '/escrows?limit=3',
+                '/escrows?offset=-1',
+                '/escrows/0x1234',
+            ]) {
+                const { status, body } = await get(path);
+                expect(status, path).to.equal(400);
+                expect(body.error, path).to.match(/^InvalidParameter/);
+            }
+        });
+
+        it('returns 404 for unknown escrows and paths', async function () {
+            let response = await get(`/escrows/${ethers.keccak256('0x09')}`);
+            expect(response.status).to.equal(404);
+            expect(response.body.error).to.equal('EscrowNotFound');
+
+            response = await get('/escrow');
+            expect(response.status).to.equal(404);
+        });
+
+        it('only allows GET', async function () {
+            const response = await fetch(`${baseUrl}/escrows`, {
+                method: 'POST',
+            });
+            expect(response.status).to.equal(405);
+        });
+    });
+});
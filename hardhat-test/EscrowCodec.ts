@@ -0,0 +1,288 @@
+import { expect } from 'chai';
+import fc from 'fast-check';
+import hre, { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import {
+    CreateEscrowInput,
+    decodeEscrow,
+    encodeCreateEscrowInput,
+    EscrowPaymentType,
+    EscrowStatus,
+    toCreateEscrowInput,
+} from '../client';
+import {
+    deployPolyEscrowStack,
+    checkEscrowInvariantsAfterEachTransaction,
+} from './util';
+
+const MAX_UINT256 = 2n ** 256n - 1n;
+const NUM_RUNS = 15;
+
+describe('Escrow Codec', function () {
+    checkEscrowInvariantsAfterEachTransaction();
+
+    let polyEscrow: any;
+    let testToken1: any;
+    let testToken2: any;
+    let testNft1: any;
+    let vaultAddress: string;
+    let escrowCount = 0;
+
+    //currencies by payment type, with the payment type each pair of legs uses
+    let legCurrencies: [EscrowPaymentType, string][][];
+
+    const nextEscrowId = () =>
+        ethers.keccak256(ethers.toBeHex(++escrowCount, 32));
+
+    const addressArb = fc
+        .uint8Array({ minLength: 20, maxLength: 20 })
+        .map((bytes) => ethers.getAddress(ethers.hexlify(bytes)))
+        .filter((a) => a !== ethers.ZeroAddress && a !== vaultAddress);
+
+    //an ERC721 leg pledges one token, with any id
+    const legInput = (
+        r: {
+            currencies: [EscrowPaymentType, string][];
+            participants: [string, string];
+            amounts: [bigint, bigint];
+            tokenIds: [bigint, bigint];
+        },
+        n: number
+    ) => {
+        const isNft = r.currencies[n][0] === EscrowPaymentType.ERC721;
+        return {
+            participantAddress: r.participants[n],
+            paymentType: r.currencies[n][0],
+            currency: r.currencies[n][1],
+            amount: isNft ? 1n : r.amounts[n],
+            tokenId: isNft ? r.tokenIds[n] : 0n,
+        };
+    };
+
+    //random but valid escrow creation input (times are relative to now)
+    const createInputArb = (now: number) =>
+        fc
+            .record({
+                currencies: fc.constantFrom(...legCurrencies),
+                participants: fc
+                    .tuple(addressArb, addressArb)
+                    .filter(([a, b]) => a !== b),
+                amounts: fc.tuple(
+                    fc.bigInt({ min: 1n, max: MAX_UINT256 }),
+                    fc.bigInt({ min: 1n, max: MAX_UINT256 })
+                ),
+                tokenIds: fc.tuple(
+                    fc.bigInt({ min: 0n, max: MAX_UINT256 }),
+                    fc.bigInt({ min: 0n, max: MAX_UINT256 })
+                ),
+                startTime: fc.oneof(
+                    fc.constant(0),
+                    fc.integer({ min: 1, max: now })
+                ),
+                endTime: fc.oneof(
+                    fc.constant(0),
+                    fc.integer({ min: now + 7200, max: now + 365 * 86400 })
+                ),
+                arbiters: fc.array(addressArb, { maxLength: 5 }),
+                arbitrationModule: fc.oneof(
+                    fc.constant(ethers.ZeroAddress),
+                    addressArb
+                ),
+                quorum: fc.integer({ min: 0, max: 255 }),
+                fees: fc.array(
+                    fc.record({
+                        recipient: addressArb,
+                        feeBps: fc.bigInt({ min: 0n, max: 10000n }),
+                    }),
+                    { maxLength: 3 }
+                ),
+            })
+            .map(
+                (r): CreateEscrowInput => ({
+                    id: nextEscrowId(),
+                    primaryLeg: legInput(r, 0),
+                    secondaryLeg: legInput(r, 1),
+                    startTime: r.startTime,
+                    endTime: r.endTime,
+                    arbitration: {
+                        arbiters: r.arbiters,
+                        arbitrationModule: r.arbitrationModule,
+                        quorum: r.quorum,
+                    },
+                    fees: r.fees,
+                })
+            );
+
+    async function createAndRead(input: CreateEscrowInput) {
+        await polyEscrow.createEscrow(encodeCreateEscrowInput(input));
+        return decodeEscrow(await polyEscrow.getEscrow(input.id));
+    }
+
+    this.beforeEach(async () => {
+        const [, , vaultAccount] = await hre.ethers.getSigners();
+        vaultAddress = vaultAccount.address;
+
+        ({ polyEscrow } = await deployPolyEscrowStack({
+            SystemSettingsModule: { vaultAddress, feeBps: 0 },
+        }));
+
+        const TestTokenFactory =
+            await hre.ethers.getContractFactory('TestToken');
+        testToken1 = await TestTokenFactory.deploy('ABC', 'ABC');
+        testToken2 = await TestTokenFactory.deploy('XYZ', 'ZYX');
+        testNft1 = await (
+            await hre.ethers.getContractFactory('TestNft')
+        ).deploy('ABC', 'ABC');
+
+        const native: [EscrowPaymentType, string] = [
+            EscrowPaymentType.Native,
+            ethers.ZeroAddress,
+        ];
+        const token1: [EscrowPaymentType, string] = [
+            EscrowPaymentType.ERC20,
+            testToken1.target,
+        ];
+        const token2: [EscrowPaymentType, string] = [
+            EscrowPaymentType.ERC20,
+            testToken2.target,
+        ];
+        const nft1: [EscrowPaymentType, string] = [
+            EscrowPaymentType.ERC721,
+            testNft1.target,
+        ];
+        legCurrencies = [
+            [native, token1],
+            [token1, native],
+            [token1, token2],
+            [token2, nft1],
+            [nft1, native],
+        ];
+    });
+
+    describe('Decoding', function () {
+        it('decodes amounts above 2^53 without loss', async function () {
+            const [, , , a1, a2] = await hre.ethers.getSigners();
+            const amount = MAX_UINT256 - 12345n;
+
+            const escrow = await createAndRead({
+                id: nextEscrowId(),
+                primaryLeg: {
+                    participantAddress: a1.address,
+                    paymentType: EscrowPaymentType.ERC20,
+                    currency: testToken1.target,
+                    amount,
+                },
+                secondaryLeg: {
+                    participantAddress: a2.address,
+                    paymentType: EscrowPaymentType.Native,
+                    currency: ethers.ZeroAddress,
+                    amount: 2n ** 53n + 1n,
+                },
+            });
+
+            expect(escrow.primaryLeg.amountPledged).to.equal(amount);
+            expect(escrow.secondaryLeg.amountPledged).to.equal(2n ** 53n + 1n);
+            expect(escrow.status).to.equal(EscrowStatus.Pending);
+            expect(escrow.secondaryLeg.paymentType).to.equal(
+                EscrowPaymentType.Native
+            );
+        });
+
+        it('materializes fees and arbiters as plain arrays', async function () {
+            const [, , , a1, a2, a3, a4] = await hre.ethers.getSigners();
+
+            const escrow = await createAndRead({
+                id: nextEscrowId(),
+                primaryLeg: {
+                    participantAddress: a1.address,
+                    paymentType: EscrowPaymentType.ERC20,
+                    currency: testToken1.target,
+                    amount: 100,
+                },
+                secondaryLeg: {
+                    participantAddress: a2.address,
+                    paymentType: EscrowPaymentType.Native,
+                    currency: ethers.ZeroAddress,
+                    amount: 100,
+                },
+                arbitration: {
+                    arbiters: [a3.address, a4.address],
+                    arbitrationModule: ethers.ZeroAddress,
+                    quorum: 2,
+                },
+                fees: [{ recipient: a3.address, feeBps: 150 }],
+            });
+
+            expect(Object.getPrototypeOf(escrow.fees)).to.equal(
+                Array.prototype
+            );
+            expect(Object.getPrototypeOf(escrow.arbitration.arbiters)).to.equal(
+                Array.prototype
+            );
+            expect(escrow.fees).to.deep.equal([
+                { recipient: a3.address, feeBps: 150n },
+            ]);
+            expect(escrow.arbitration).to.deep.equal({
+                arbiters: [a3.address, a4.address],
+                arbitrationModule: ethers.ZeroAddress,
+                quorum: 2,
+            });
+        });
+
+        it('rejects unknown enum values', async function () {
+            const raw = await polyEscrow.getEscrow(ethers.ZeroHash);
+            const withStatus = (status: number) => [
+                ...raw.slice(0, 6),
+                status,
+                ...raw.slice(7),
+            ];
+
+            expect(decodeEscrow(withStatus(3)).status).to.equal(
+                EscrowStatus.Arbitration
+            );
+            expect(() => decodeEscrow(withStatus(4))).to.throw(
+                'InvalidEscrowStatus'
+            );
+        });
+    });
+
+    describe('Round Trips', function () {
+        it('encode -> createEscrow -> getEscrow -> decode preserves the input', async function () {
+            const now = await time.latest();
+
+            await fc.assert(
+                fc.asyncProperty(createInputArb(now), async (input) => {
+                    const escrow = await createAndRead(input);
+
+                    expect(escrow.id).to.equal(input.id);
+                    expect(escrow.status).to.equal(EscrowStatus.Pending);
+                    expect(
+                        encodeCreateEscrowInput(toCreateEscrowInput(escrow))
+                    ).to.deep.equal(encodeCreateEscrowInput(input));
+                }),
+                { numRuns: NUM_RUNS }
+            );
+        });
+
+        it('decode -> encode -> createEscrow reproduces the escrow', async function () {
+            const now = await time.latest();
+
+            await fc.assert(
+                fc.asyncProperty(createInputArb(now), async (input) => {
+                    const original = await createAndRead(input);
+                    const copy = await createAndRead({
+                        ...toCreateEscrowInput(original),
+                        id: nextEscrowId(),
+                    });
+
+                    expect({
+                        ...copy,
+                        id: original.id,
+                        timestamp: original.timestamp,
+                    }).to.deep.equal(original);
+                }),
+                { numRuns: NUM_RUNS }
+            );
+        });
+    });
+});
@@ -0,0 +1,293 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import hre, { ethers } from 'hardhat';
+import { takeSnapshot } from '@nomicfoundation/hardhat-network-helpers';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import { PolyEscrowClient } from '../client';
+import { EscrowIndexer, IndexerStore } from '../services/indexer';
+import {
+    EscrowStatus,
+    PaymentType,
+    deployPolyEscrowStack,
+    checkEscrowInvariantsAfterEachTransaction,
+} from './util';
+
+describe('EscrowIndexer', function () {
+    checkEscrowInvariantsAfterEachTransaction();
+
+    let polyEscrow: any;
+    let systemSettings: any;
+    let testToken: any;
+    let client: PolyEscrowClient;
+    let admin: HardhatEthersSigner;
+    let receiver1: HardhatEthersSigner;
+    let receiver2: HardhatEthersSigner;
+    let store: IndexerStore;
+
+    const escrowId1 = ethers.keccak256('0x01');
+    const escrowId2 = ethers.keccak256('0x02');
+    const amount = 1000n;
+
+    //creates a token-to-native escrow between the two receivers
+    async function createEscrow(id: string) {
+        return await client.createEscrow({
+            id,
+            primaryLeg: {
+                participantAddress: receiver1.address,
+                currency: testToken.target as string,
+                paymentType: PaymentType.ERC20,
+                amount,
+            },
+            secondaryLeg: {
+                participantAddress: receiver2.address,
+                currency: ethers.ZeroAddress,
+                paymentType: PaymentType.Native,
+                amount,
+            },
+        });
+    }
+
+    //pays one leg of the escrow: native by default
+    async function pay(id: string, currency: string = ethers.ZeroAddress) {
+        return await client.placePayment({ escrowId: id, currency, amount });
+    }
+
+    //mines blocks one at a time; historical calls into blocks mined in bulk (hardhat_mine) aren't
+    //supported by the hardhat network
+    async function mineBlocks(count: number) {
+        for (let n = 0; n < count; n++) {
+            await hre.network.provider.send('evm_mine');
+        }
+    }
+
+    function createIndexer(confirmations: number = 0): EscrowIndexer {
+        return new EscrowIndexer(store, {
+            provider: ethers.provider,
+            escrowAddress: polyEscrow.target,
+            confirmations,
+        });
+    }
+
+    this.beforeEach(async () => {
+        const signers = await hre.ethers.getSigners();
+        admin = signers[0];
+        receiver1 = signers[6];
+        receiver2 = signers[7];
+
+        ({ polyEscrow, systemSettings } = await deployPolyEscrowStack());
+        testToken = await (
+            await hre.ethers.getContractFactory('TestToken')
+        ).deploy('ABC', 'ABC');
+        await testToken.mint(admin, amount * 10n);
+
+        client = new PolyEscrowClient(polyEscrow.target, admin);
+        store = await IndexerStore.open();
+    });
+
+    this.afterEach(async () => {
+        store.close();
+    });
+
+    describe('Indexing', function () {
+        it('indexes escrows, payments and relay nodes', async function () {
+            await createEscrow(escrowId1);
+            await createEscrow(escrowId2);
+            await pay(escrowId1);
+            const relayNode = await client.deployRelayNode(escrowId2);
+
+            const lastBlock = await createIndexer().sync();
+            expect(lastBlock).to.equal(await ethers.provider.getBlockNumber());
+
+            //escrows, with their state as of the last block
+            const escrows = store.getEscrows();
+            expect(escrows.map((e) => e.id)).to.deep.equal([
+                escrowId1,
+                escrowId2,
+            ]);
+            expect(escrows[0]).to.deep.include(
+                await client.getEscrow(escrowId1)
+            );
+            expect(escrows[0].status).to.equal(EscrowStatus.Active);
+            expect(escrows[1].status).to.equal(EscrowStatus.Pending);
+
+            //payments
+            const payments = store.getPayments(escrowId1);
+            expect(payments.length).to.equal(1);
+            expect(payments[0]).to.deep.include({
+                escrowId: escrowId1,
+                from: admin.address,
+                currency: ethers.ZeroAddress,
+                paymentType: PaymentType.Native,
+                amount,
+            });
+            expect(store.getPayments(escrowId2)).to.be.empty;
+
+            //relay nodes
+            const relayNodes = store.getRelayNodes();
+            expect(relayNodes.length).to.equal(1);
+            expect(relayNodes[0]).to.deep.include({
+                address: relayNode,
+                escrowId: escrowId2,
+            });
+        });
+
+        it('updates escrows as payments are made', async function () {
+            const indexer = createIndexer();
+            await createEscrow(escrowId1);
+            await indexer.sync();
+            const createdBlock = store.getEscrow(escrowId1)!.createdBlock;
+
+            await pay(escrowId1);
+            await pay(escrowId1, testToken.target);
+            await indexer.sync();
+
+            const escrow = store.getEscrow(escrowId1)!;
+            expect(escrow.status).to.equal(EscrowStatus.Completed);
+            expect(escrow.primaryLeg.amountReleased).to.equal(amount);
+            expect(escrow.createdBlock).to.equal(createdBlock);
+            expect(store.getPayments().length).to.equal(2);
+        });
+
+        it('indexes pause and system settings events', async function () {
+            const [, newVault] = await hre.ethers.getSigners();
+            await polyEscrow.pause();
+            await polyEscrow.unpause();
+            await systemSettings.setVaultAddress(newVault.address);
+            await systemSettings.setFeeBps(250);
+
+            await createIndexer().sync();
+
+            expect(
+                store.getAdminEvents().map((e) => [e.event, e.account, e.value])
+            ).to.deep.equal([
+                ['Paused', admin.address, null],
+                ['Unpaused', admin.address, null],
+                ['VaultAddressChanged', admin.address, newVault.address],
+                ['FeeBpsChanged', admin.address, '250'],
+            ]);
+        });
+
+        it('filters and pages escrows', async function () {
+            const escrowId3 = ethers.keccak256('0x03');
+            await createEscrow(escrowId1);
+            await createEscrow(escrowId2);
+            await createEscrow(escrowId3);
+            await pay(escrowId2);
+            await createIndexer().sync();
+
+            expect(store.countEscrows()).to.equal(3);
+            expect(
+                store
+                    .getEscrows({ status: EscrowStatus.Active })
+                    .map((e) => e.id)
+            ).to.deep.equal([escrowId2]);
+            expect(
+                store.countEscrows({ participant: receiver2.address })
+            ).to.equal(3);
+            expect(store.countEscrows({ participant: admin.address })).to.equal(
+                0
+            );
+            expect(
+                store.getEscrows({ limit: 2, offset: 1 }).map((e) => e.id)
+            ).to.deep.equal([escrowId2, escrowId3]);
+        });
+    });
+
+    describe('Confirmations', function () {
+        it('only indexes blocks that are deep enough', async function () {
+            const indexer = createIndexer(3);
+            await createEscrow(escrowId1);
+
+            await indexer.sync();
+            expect(store.getEscrow(escrowId1)).to.be.undefined;
+
+            await mineBlocks(3);
+            await indexer.sync();
+            expect(store.getEscrow(escrowId1)).to.not.be.undefined;
+            expect(store.getCheckpoint()!.blockNumber).to.equal(
+                (await ethers.provider.getBlockNumber()) - 3
+            );
+        });
+    });
+
+    describe('Checkpoints', function () {
+        it('resumes from the last checkpoint after a restart', async function () {
+            const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'indexer-'));
+            const filename = path.join(dir, 'index.sqlite');
+
+            try {
+                //first run
+                store.close();
+                store = await IndexerStore.open(filename);
+                await createEscrow(escrowId1);
+                await pay(escrowId1);
+                const firstBlock = await createIndexer().sync();
+                store.close();
+
+                //second run, from the saved file
+                store = await IndexerStore.open(filename);
+                expect(store.getCheckpoint()!.blockNumber).to.equal(firstBlock);
+                expect(store.getEscrow(escrowId1)).to.not.be.undefined;
+
+                await createEscrow(escrowId2);
+                await createIndexer().sync();
+
+                expect(store.countEscrows()).to.equal(2);
+                expect(store.getPayments().length).to.equal(1);
+            } finally {
+                fs.rmSync(dir, { recursive: true, force: true });
+            }
+        });
+
+        it('indexes in batches', async function () {
+            await createEscrow(escrowId1);
+            await mineBlocks(10);
+            await createEscrow(escrowId2);
+
+            const indexer = new EscrowIndexer(store, {
+                provider: ethers.provider,
+                escrowAddress: polyEscrow.target,
+                confirmations: 0,
+                batchSize: 4,
+            });
+            await indexer.sync();
+
+            expect(store.countEscrows()).to.equal(2);
+            expect(store.getCheckpoints().length).to.be.greaterThan(2);
+        });
+    });
+
+    describe('Reorgs', function () {
+        it('rolls back and re-indexes blocks that were replaced', async function () {
+            const indexer = createIndexer();
+            await createEscrow(escrowId1);
+            await indexer.sync();
+
+            //index a payment and a new escrow, which are then reorged away
+            const snapshot = await takeSnapshot();
+            await pay(escrowId1);
+            await createEscrow(escrowId2);
+            await indexer.sync();
+            expect(store.getEscrow(escrowId2)).to.not.be.undefined;
+            expect(store.getEscrow(escrowId1)!.status).to.equal(
+                EscrowStatus.Active
+            );
+
+            //the replacement chain is longer, but doesn't contain them
+            await snapshot.restore();
+            await mineBlocks(5);
+            await indexer.sync();
+
+            expect(store.getEscrow(escrowId2)).to.be.undefined;
+            expect(store.getPayments()).to.be.empty;
+            const escrow1 = store.getEscrow(escrowId1)!;
+            expect(escrow1.status).to.equal(EscrowStatus.Pending);
+            expect(escrow1.secondaryLeg.amountPaid).to.equal(0n);
+            expect(store.getCheckpoint()!.blockHash).to.equal(
+                (await ethers.provider.getBlock('latest'))!.hash
+            );
+        });
+    });
+});
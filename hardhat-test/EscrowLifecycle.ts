@@ -0,0 +1,292 @@
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+import {
+    EscrowDefinition,
+    EscrowPaymentType,
+    EscrowStatus,
+    PolyEscrowClient,
+    checkEscrowHistory,
+    checkEscrowInvariants,
+    checkEscrowTransition,
+    isReachable,
+    isValidTransition,
+} from '../client';
+import {
+    checkEscrowInvariantsAfterEachTransaction,
+    deployPolyEscrowStack,
+} from './util';
+
+describe('Escrow Lifecycle', function () {
+    checkEscrowInvariantsAfterEachTransaction();
+
+    const address1 = '0x' + '11'.repeat(20);
+    const address2 = '0x' + '22'.repeat(20);
+
+    //an escrow snapshot, with both legs native-to-ERC20 and nothing paid
+    function escrow(
+        status: EscrowStatus = EscrowStatus.Pending,
+        primary: Partial<EscrowDefinition['primaryLeg']> = {},
+        secondary: Partial<EscrowDefinition['secondaryLeg']> = {}
+    ): EscrowDefinition {
+        const leg = {
+            amountPledged: 100n,
+            amountPaid: 0n,
+            amountReleased: 0n,
+            amountRefunded: 0n,
+            tokenId: 0n,
+        };
+        return {
+            id: ethers.keccak256('0x01'),
+            primaryLeg: {
+                participantAddress: address1,
+                currency: ethers.ZeroAddress,
+                paymentType: EscrowPaymentType.Native,
+                ...leg,
+                ...primary,
+            },
+            secondaryLeg: {
+                participantAddress: address2,
+                currency: address2,
+                paymentType: EscrowPaymentType.ERC20,
+                ...leg,
+                ...secondary,
+            },
+            timestamp: 1n,
+            startTime: 0n,
+            endTime: 0n,
+            status,
+            arbitration: {
+                arbiters: [],
+                arbitrationModule: ethers.ZeroAddress,
+                quorum: 0,
+            },
+            fees: [{ recipient: address2, feeBps: 100n }],
+        };
+    }
+
+    const rules = (violations: { rule: string }[]) =>
+        violations.map((v) => v.rule);
+
+    describe('Transitions', function () {
+        it('allows the transitions documented in Types.sol', async function () {
+            expect(isValidTransition(EscrowStatus.Pending, EscrowStatus.Active))
+                .to.be.true;
+            expect(
+                isValidTransition(EscrowStatus.Active, EscrowStatus.Arbitration)
+            ).to.be.true;
+            expect(
+                isValidTransition(EscrowStatus.Arbitration, EscrowStatus.Active)
+            ).to.be.true;
+            expect(
+                isValidTransition(
+                    EscrowStatus.Arbitration,
+                    EscrowStatus.Completed
+                )
+            ).to.be.true;
+
+            expect(
+                isValidTransition(EscrowStatus.Pending, EscrowStatus.Completed)
+            ).to.be.false;
+            expect(
+                isValidTransition(
+                    EscrowStatus.Pending,
+                    EscrowStatus.Arbitration
+                )
+            ).to.be.false;
+        });
+
+        it('never leaves Completed', async function () {
+            for (const status of [
+                EscrowStatus.Pending,
+                EscrowStatus.Active,
+                EscrowStatus.Arbitration,
+            ]) {
+                expect(isReachable(EscrowStatus.Completed, status)).to.be.false;
+                expect(isReachable(status, EscrowStatus.Completed)).to.be.true;
+            }
+            expect(isReachable(EscrowStatus.Active, EscrowStatus.Pending)).to.be
+                .false;
+        });
+    });
+
+    describe('Invariants', function () {
+        it('accepts consistent snapshots', async function () {
+            expect(checkEscrowInvariants(escrow())).to.be.empty;
+            expect(
+                checkEscrowInvariants(
+                    escrow(EscrowStatus.Active, { amountPaid: 50n })
+                )
+            ).to.be.empty;
+            expect(
+                checkEscrowInvariants(
+                    escrow(
+                        EscrowStatus.Completed,
+                        { amountPaid: 100n, amountReleased: 100n },
+                        { amountPaid: 100n, amountRefunded: 100n }
+                    )
+                )
+            ).to.be.empty;
+        });
+
+        it('detects legs paying out more than was paid in', async function () {
+            const violations = checkEscrowInvariants(
+                escrow(EscrowStatus.Active, {
+                    amountPaid: 50n,
+                    amountReleased: 30n,
+                    amountRefunded: 30n,
+                })
+            );
+            expect(rules(violations)).to.deep.equal(['LegOverdrawn']);
+            expect(violations[0].message).to.contain('primaryLeg');
+        });
+
+        it('detects releases beyond the pledge', async function () {
+            expect(
+                rules(
+                    checkEscrowInvariants(
+                        escrow(
+                            EscrowStatus.Completed,
+                            {},
+                            { amountPaid: 101n, amountReleased: 101n }
+                        )
+                    )
+                )
+            ).to.deep.equal(['ReleaseExceedsPledge']);
+
+            //ERC721 legs pledge a single token
+            expect(
+                rules(
+                    checkEscrowInvariants(
+                        escrow(
+                            EscrowStatus.Completed,
+                            {},
+                            {
+                                paymentType: EscrowPaymentType.ERC721,
+                                amountPledged: 1n,
+                                amountPaid: 2n,
+                                amountReleased: 2n,
+                            }
+                        )
+                    )
+                )
+            ).to.deep.equal(['ReleaseExceedsPledge']);
+        });
+
+        it('checks amounts against the status', async function () {
+            expect(
+                rules(
+                    checkEscrowInvariants(
+                        escrow(EscrowStatus.Pending, { amountPaid: 1n })
+                    )
+                )
+            ).to.deep.equal(['PendingWithPayments']);
+            expect(
+                rules(
+                    checkEscrowInvariants(
+                        escrow(EscrowStatus.Completed, {
+                            amountPaid: 100n,
+                            amountReleased: 99n,
+                        })
+                    )
+                )
+            ).to.deep.equal(['CompletedWithBalance']);
+        });
+    });
+
+    describe('Histories', function () {
+        it('detects invalid status transitions', async function () {
+            const completed = escrow(
+                EscrowStatus.Completed,
+                { amountPaid: 100n, amountReleased: 100n },
+                { amountPaid: 100n, amountReleased: 100n }
+            );
+
+            expect(checkEscrowTransition(escrow(), completed)).to.be.empty;
+            expect(
+                rules(
+                    checkEscrowTransition(
+                        completed,
+                        escrow(EscrowStatus.Active, { amountPaid: 100n })
+                    )
+                )
+            ).to.include('InvalidTransition');
+        });
+
+        it('detects decreasing amounts and changed terms', async function () {
+            const before = escrow(EscrowStatus.Active, { amountPaid: 50n });
+            const after = escrow(EscrowStatus.Active, { amountPaid: 40n });
+            after.secondaryLeg.amountPledged = 200n;
+            after.endTime = 5n;
+            after.fees = [];
+
+            const violations = checkEscrowTransition(before, after);
+            expect(rules(violations)).to.deep.equal([
+                'AmountDecreased',
+                'ImmutableFieldChanged',
+                'ImmutableFieldChanged',
+                'ImmutableFieldChanged',
+            ]);
+            expect(violations.map((v) => v.message)).to.include.members([
+                'primaryLeg.amountPaid: 50 -> 40',
+                'secondaryLeg.amountPledged',
+                'endTime',
+                'fees',
+            ]);
+        });
+
+        it('checks the on-chain history of an escrow', async function () {
+            const [admin] = await hre.ethers.getSigners();
+            const { polyEscrow } = await deployPolyEscrowStack();
+            const client = new PolyEscrowClient(
+                polyEscrow.target as string,
+                admin
+            );
+            const token = await (
+                await hre.ethers.getContractFactory('TestToken')
+            ).deploy('ABC', 'ABC');
+            await token.mint(admin, 100);
+
+            const snapshots = [
+                await client.createEscrow({
+                    id: ethers.keccak256('0x01'),
+                    primaryLeg: {
+                        participantAddress: address1,
+                        currency: token.target as string,
+                        paymentType: EscrowPaymentType.ERC20,
+                        amount: 100,
+                    },
+                    secondaryLeg: {
+                        participantAddress: address2,
+                        currency: ethers.ZeroAddress,
+                        paymentType: EscrowPaymentType.Native,
+                        amount: 100,
+                    },
+                }),
+            ];
+            for (const [currency, amount] of [
+                [ethers.ZeroAddress, 40],
+                [ethers.ZeroAddress, 60],
+                [token.target as string, 100],
+            ] as const) {
+                snapshots.push(
+                    await client.placePayment({
+                        escrowId: snapshots[0].id,
+                        currency,
+                        amount,
+                    })
+                );
+            }
+
+            expect(snapshots.map((s) => s.status)).to.deep.equal([
+                EscrowStatus.Pending,
+                EscrowStatus.Active,
+                EscrowStatus.Active,
+                EscrowStatus.Completed,
+            ]);
+            expect(checkEscrowHistory(snapshots)).to.be.empty;
+            expect(
+                rules(checkEscrowHistory([...snapshots].reverse()))
+            ).to.include.members(['InvalidTransition', 'AmountDecreased']);
+        });
+    });
+});
@@ -0,0 +1,346 @@
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import {
+    EscrowTemplate,
+    PolyEscrowClient,
+    computeEscrowId,
+    encodeCreateEscrowInput,
+    encodeEscrowTemplate,
+} from '../client';
+import {
+    EscrowStatus,
+    PaymentType,
+    deployPolyEscrowStack,
+    checkEscrowInvariantsAfterEachTransaction,
+} from './util';
+
+const ONE_DAY = 86400;
+
+describe('Escrow Templates & Ids', function () {
+    checkEscrowInvariantsAfterEachTransaction();
+
+    let polyEscrow: any;
+    let testToken: any;
+    let escrowClient: PolyEscrowClient;
+    let partyA: HardhatEthersSigner; //creates the escrows, and pays native into the primary legs
+    let partyB: HardhatEthersSigner; //pays tokens into the secondary legs
+    let feeRecipient: HardhatEthersSigner;
+
+    const salt = ethers.id('invoice-1');
+
+    function escrowInput() {
+        return {
+            primaryLeg: {
+                participantAddress: partyA.address,
+                currency: ethers.ZeroAddress,
+                paymentType: PaymentType.Native,
+                amount: 100,
+            },
+            secondaryLeg: {
+                participantAddress: partyB.address,
+                currency: testToken.target,
+                paymentType: PaymentType.ERC20,
+                amount: 1000,
+            },
+        };
+    }
+
+    function template(): EscrowTemplate {
+        return {
+            primaryLeg: {
+                currency: ethers.ZeroAddress,
+                paymentType: PaymentType.Native,
+            },
+            secondaryLeg: {
+                currency: testToken.target,
+                paymentType: PaymentType.ERC20,
+            },
+            duration: 7n * BigInt(ONE_DAY),
+            fees: [{ recipient: feeRecipient.address, feeBps: 200n }],
+        };
+    }
+
+    this.beforeEach(async () => {
+        const signers = await hre.ethers.getSigners();
+        partyA = signers[3];
+        partyB = signers[4];
+        feeRecipient = signers[6];
+
+        ({ polyEscrow } = await deployPolyEscrowStack({
+            SystemSettingsModule: {
+                vaultAddress: signers[2].address,
+                feeBps: 0,
+            },
+        }));
+
+        testToken = await (
+            await hre.ethers.getContractFactory('TestToken')
+        ).deploy('ABC', 'ABC');
+        await testToken.mint(partyB, 10000);
+
+        escrowClient = new PolyEscrowClient(polyEscrow.target, partyA);
+    });
+
+    describe('Deterministic Ids', function () {
+        it('creates an escrow with the predicted id', async function () {
+            const predicted = await escrowClient.predictEscrowId(salt);
+            expect(predicted).to.equal(
+                await polyEscrow.predictEscrowId(partyA.address, salt)
+            );
+            expect(predicted).to.equal(
+                computeEscrowId(partyA.address, 0, salt)
+            );
+
+            const escrow = await escrowClient.createEscrowWithSalt(
+                escrowInput(),
+                salt
+            );
+            expect(escrow.id).to.equal(predicted);
+            expect(escrow.status).to.equal(EscrowStatus.Pending);
+            expect(await polyEscrow.escrowNonces(partyA.address)).to.equal(1n);
+        });
+
+        it('derives a new id for each escrow, even with the same salt', async function () {
+            const first = await escrowClient.createEscrowWithSalt(
+                escrowInput(),
+                salt
+            );
+            const second = await escrowClient.createEscrowWithSalt(
+                escrowInput(),
+                salt
+            );
+
+            expect(second.id).to.not.equal(first.id);
+            expect(second.id).to.equal(
+                await polyEscrow.computeEscrowId(partyA.address, 1, salt)
+            );
+        });
+
+        it('derives ids from the creator', async function () {
+            const predicted = await escrowClient.predictEscrowId(
+                salt,
+                partyB.address
+            );
+            const escrow = await escrowClient
+                .connect(partyB)
+                .createEscrowWithSalt(escrowInput(), salt);
+
+            expect(escrow.id).to.equal(predicted);
+            expect(predicted).to.not.equal(
+                await escrowClient.predictEscrowId(salt)
+            );
+        });
+
+        it('ignores the id given in the input', async function () {
+            const id = ethers.keccak256('0x01');
+            await polyEscrow
+                .connect(partyA)
+                .createEscrowWithSalt(
+                    encodeCreateEscrowInput({ ...escrowInput(), id }),
+                    salt
+                );
+
+            expect(await escrowClient.hasEscrow(id)).to.be.false;
+            expect(
+                await escrowClient.hasEscrow(
+                    computeEscrowId(partyA.address, 0, salt)
+                )
+            ).to.be.true;
+        });
+
+        it('validates the input as createEscrow does', async function () {
+            const input = escrowInput();
+            input.secondaryLeg.amount = 0;
+
+            await expect(
+                polyEscrow.connect(partyA).createEscrowWithSalt(
+                    encodeCreateEscrowInput({
+                        ...input,
+                        id: ethers.ZeroHash,
+                    }),
+                    salt
+                )
+            ).to.be.revertedWith('InvalidAmount');
+            expect(await polyEscrow.escrowNonces(partyA.address)).to.equal(0n);
+        });
+
+        it("doesn't let createEscrow take a derived id first", async function () {
+            const predicted = await escrowClient.predictEscrowId(salt);
+            expect(predicted.slice(0, 4)).to.equal('0xff');
+
+            const input = encodeCreateEscrowInput({
+                ...escrowInput(),
+                id: predicted,
+            });
+            await expect(
+                polyEscrow.connect(partyB).createEscrow(input)
+            ).to.be.revertedWith('InvalidEscrow');
+            await expect(
+                polyEscrow.connect(partyB).createEscrows([input])
+            ).to.be.revertedWith('InvalidEscrow');
+
+            const escrow = await escrowClient.createEscrowWithSalt(
+                escrowInput(),
+                salt
+            );
+            expect(escrow.id).to.equal(predicted);
+        });
+
+        it('rejects any id starting with the tag from createEscrow', async function () {
+            const id = '0xff' + ethers.keccak256('0x01').slice(4);
+
+            await expect(
+                polyEscrow
+                    .connect(partyA)
+                    .createEscrow(
+                        encodeCreateEscrowInput({ ...escrowInput(), id })
+                    )
+            ).to.be.revertedWith('InvalidEscrow');
+        });
+    });
+
+    describe('Templates', function () {
+        it('stores templates', async function () {
+            await expect(
+                polyEscrow
+                    .connect(partyB)
+                    .createTemplate(encodeEscrowTemplate(template()))
+            )
+                .to.emit(polyEscrow, 'TemplateCreated')
+                .withArgs(1, partyB.address);
+
+            expect(await escrowClient.createTemplate(template())).to.equal(2n);
+            expect(await polyEscrow.templateCount()).to.equal(2n);
+            expect(await escrowClient.getTemplate(2)).to.deep.equal({
+                ...template(),
+                arbitration: {
+                    arbiters: [],
+                    arbitrationModule: ethers.ZeroAddress,
+                    quorum: 0,
+                },
+            });
+        });
+
+        it('creates escrows from a template', async function () {
+            const templateId = await escrowClient.createTemplate(template());
+            const predicted = await escrowClient.predictEscrowId(salt);
+
+            const escrow = await escrowClient.createEscrowFromTemplate(
+                templateId,
+                { participantAddress: partyA.address, amount: 100 },
+                { participantAddress: partyB.address, amount: 1000 },
+                salt
+            );
+
+            expect(escrow.id).to.equal(predicted);
+            expect(escrow.primaryLeg).to.deep.include({
+                participantAddress: partyA.address,
+                currency: ethers.ZeroAddress,
+                paymentType: PaymentType.Native,
+                amountPledged: 100n,
+            });
+            expect(escrow.secondaryLeg).to.deep.include({
+                participantAddress: partyB.address,
+                currency: testToken.target,
+                paymentType: PaymentType.ERC20,
+                amountPledged: 1000n,
+            });
+            expect(escrow.startTime).to.equal(0n);
+            expect(escrow.endTime).to.equal(
+                escrow.timestamp + 7n * BigInt(ONE_DAY)
+            );
+            expect(escrow.fees).to.deep.equal([
+                { recipient: feeRecipient.address, feeBps: 200n },
+            ]);
+        });
+
+        it('pays escrows created from templates as any other', async function () {
+            const templateId = await escrowClient.createTemplate(template());
+            const { id } = await escrowClient.createEscrowFromTemplate(
+                templateId,
+                { participantAddress: partyA.address, amount: 100 },
+                { participantAddress: partyB.address, amount: 1000 },
+                salt
+            );
+
+            await escrowClient.placePayment({
+                escrowId: id,
+                currency: ethers.ZeroAddress,
+                amount: 100,
+            });
+            const escrow = await escrowClient.connect(partyB).placePayment({
+                escrowId: id,
+                currency: testToken.target,
+                amount: 1000,
+            });
+
+            expect(escrow.status).to.equal(EscrowStatus.Completed);
+            expect(await testToken.balanceOf(partyA)).to.equal(980n);
+            expect(await testToken.balanceOf(feeRecipient)).to.equal(20n);
+        });
+
+        it('creates escrows without an end time from templates without a duration', async function () {
+            const templateId = await escrowClient.createTemplate({
+                ...template(),
+                duration: 0,
+            });
+            const escrow = await escrowClient.createEscrowFromTemplate(
+                templateId,
+                { participantAddress: partyA.address, amount: 100 },
+                { participantAddress: partyB.address, amount: 1000 },
+                salt
+            );
+
+            expect(escrow.endTime).to.equal(0n);
+        });
+
+        it('rejects templates which do not exist', async function () {
+            const legs = [
+                { participantAddress: partyA.address, amount: 100, tokenId: 0 },
+                {
+                    participantAddress: partyB.address,
+                    amount: 1000,
+                    tokenId: 0,
+                },
+            ];
+            await escrowClient.createTemplate(template());
+
+            await expect(
+                polyEscrow.createEscrowFromTemplate(0, ...legs, salt)
+            ).to.be.revertedWith('InvalidTemplate');
+            await expect(
+                polyEscrow.createEscrowFromTemplate(2, ...legs, salt)
+            ).to.be.revertedWith('InvalidTemplate');
+        });
+
+        it('rejects durations too short to pay', async function () {
+            await expect(
+                polyEscrow.createTemplate(
+                    encodeEscrowTemplate({ ...template(), duration: 3600 })
+                )
+            ).to.be.revertedWith('InvalidEndDate');
+        });
+
+        it('validates each escrow as createEscrow does', async function () {
+            const templateId = await escrowClient.createTemplate(template());
+
+            await expect(
+                polyEscrow.createEscrowFromTemplate(
+                    templateId,
+                    {
+                        participantAddress: partyA.address,
+                        amount: 100,
+                        tokenId: 0,
+                    },
+                    {
+                        participantAddress: partyA.address,
+                        amount: 1000,
+                        tokenId: 0,
+                    },
+                    salt
+                )
+            ).to.be.revertedWith('InvalidPartyAddress');
+        });
+    });
+});
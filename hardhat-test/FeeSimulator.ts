@@ -0,0 +1,363 @@
+import { expect } from 'chai';
+import fc from 'fast-check';
+import hre, { ethers } from 'hardhat';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import {
+    CreateEscrowInput,
+    EscrowPaymentType,
+    LegPayouts,
+    PolyEscrowClient,
+    calculatePaymentAmounts,
+    mulDiv,
+    resolveEscrowFees,
+    simulateEscrowPayouts,
+} from '../client';
+import {
+    deployPolyEscrowStack,
+    checkEscrowInvariantsAfterEachTransaction,
+} from './util';
+
+const MAX_UINT256 = 2n ** 256n - 1n;
+const NUM_RUNS = 15;
+
+describe('Fee Simulator', function () {
+    checkEscrowInvariantsAfterEachTransaction();
+
+    let systemSettings: any;
+    let testToken: any;
+    let client: PolyEscrowClient;
+    let admin: HardhatEthersSigner;
+    let vault: HardhatEthersSigner;
+    let receiver1: HardhatEthersSigner;
+    let receiver2: HardhatEthersSigner;
+    let feeRecipients: string[];
+    let escrowCount = 0;
+
+    const platformFeeBps = 100n;
+
+    const nextEscrowId = () =>
+        ethers.keccak256(ethers.toBeHex(++escrowCount, 32));
+
+    //sums the amounts paid to each recipient
+    function totalsByRecipient(leg: LegPayouts): Map<string, bigint> {
+        const totals = new Map<string, bigint>();
+        for (const payout of leg.payouts) {
+            totals.set(
+                payout.recipient,
+                (totals.get(payout.recipient) ?? 0n) + payout.amount
+            );
+        }
+        return totals;
+    }
+
+    async function getBalances(
+        addresses: string[],
+        token?: any
+    ): Promise<bigint[]> {
+        return await Promise.all(
+            addresses.map((a) =>
+                token ? token.balanceOf(a) : ethers.provider.getBalance(a)
+            )
+        );
+    }
+
+    //pays both legs of an escrow in full, and returns what each recipient of each leg received
+    async function payAndMeasure(
+        input: CreateEscrowInput,
+        expected: { primaryLeg: LegPayouts; secondaryLeg: LegPayouts },
+        token: any
+    ): Promise<Map<string, bigint>[]> {
+        const primaryRecipients = [
+            ...totalsByRecipient(expected.primaryLeg).keys(),
+        ];
+        const secondaryRecipients = [
+            ...totalsByRecipient(expected.secondaryLeg).keys(),
+        ];
+        const primaryBefore = await getBalances(primaryRecipients, token);
+        const secondaryBefore = await getBalances(secondaryRecipients);
+
+        await client.placePayment({
+            escrowId: input.id,
+            currency: input.primaryLeg.currency,
+            amount: input.primaryLeg.amount,
+        });
+        await client.placePayment({
+            escrowId: input.id,
+            currency: ethers.ZeroAddress,
+            amount: input.secondaryLeg.amount,
+        });
+
+        const primaryAfter = await getBalances(primaryRecipients, token);
+        const secondaryAfter = await getBalances(secondaryRecipients);
+        return [
+            new Map(
+                primaryRecipients.map((r, n) => [
+                    r,
+                    primaryAfter[n] - primaryBefore[n],
+                ])
+            ),
+            new Map(
+                secondaryRecipients.map((r, n) => [
+                    r,
+                    secondaryAfter[n] - secondaryBefore[n],
+                ])
+            ),
+        ];
+    }
+
+    this.beforeEach(async () => {
+        const signers = await hre.ethers.getSigners();
+        admin = signers[0];
+        vault = signers[2];
+        receiver1 = signers[6];
+        receiver2 = signers[7];
+        feeRecipients = [
+            vault.address,
+            ...signers.slice(10, 14).map((s) => s.address),
+        ];
+
+        let polyEscrow: any;
+        ({ polyEscrow, systemSettings } = await deployPolyEscrowStack({
+            SystemSettingsModule: {
+                vaultAddress: vault.address,
+                feeBps: platformFeeBps,
+            },
+        }));
+        client = new PolyEscrowClient(polyEscrow.target, admin);
+
+        testToken = await (
+            await hre.ethers.getContractFactory('TestToken')
+        ).deploy('ABC', 'ABC');
+    });
+
+    describe('Fees', function () {
+        const settings = () => ({
+            vaultAddress: vault.address,
+            feeBps: platformFeeBps,
+        });
+
+        it('appends the platform fee', async function () {
+            const fees = [{ recipient: feeRecipients[1], feeBps: 50 }];
+
+            expect(resolveEscrowFees(fees, settings())).to.deep.equal([
+                { recipient: feeRecipients[1], feeBps: 50n },
+                { recipient: vault.address, feeBps: platformFeeBps },
+            ]);
+        });
+
+        it('raises a user-supplied platform fee to the platform minimum', async function () {
+            const fees = [
+                { recipient: feeRecipients[1], feeBps: 50 },
+                { recipient: vault.address.toLowerCase(), feeBps: 20 },
+                { recipient: feeRecipients[2], feeBps: 30 },
+            ];
+
+            expect(resolveEscrowFees(fees, settings())).to.deep.equal([
+                { recipient: feeRecipients[1], feeBps: 50n },
+                { recipient: vault.address, feeBps: platformFeeBps },
+                { recipient: feeRecipients[2], feeBps: 30n },
+            ]);
+
+            //a higher fee is kept
+            expect(
+                resolveEscrowFees(
+                    [{ recipient: vault.address, feeBps: 500 }],
+                    settings()
+                )
+            ).to.deep.equal([{ recipient: vault.address, feeBps: 500n }]);
+        });
+
+        it('adds no platform fee if there is no vault or the fee is zero', async function () {
+            const fees = [{ recipient: feeRecipients[1], feeBps: 50 }];
+
+            for (const settings of [
+                { vaultAddress: ethers.ZeroAddress, feeBps: 100 },
+                { vaultAddress: vault.address, feeBps: 0 },
+            ]) {
+                expect(resolveEscrowFees(fees, settings)).to.deep.equal([
+                    { recipient: feeRecipients[1], feeBps: 50n },
+                ]);
+            }
+        });
+    });
+
+    describe('Payouts', function () {
+        const escrow = () => ({
+            primaryLeg: { participantAddress: receiver1.address },
+            secondaryLeg: { participantAddress: receiver2.address },
+            fees: [
+                { recipient: vault.address, feeBps: 100n },
+                { recipient: feeRecipients[1], feeBps: 333n },
+            ],
+        });
+
+        it('pays the counterparty the amount minus fees, rounding fees down', async function () {
+            const payouts = calculatePaymentAmounts(
+                escrow(),
+                {
+                    participantAddress: receiver1.address,
+                    paymentType: EscrowPaymentType.ERC20,
+                },
+                1001
+            );
+
+            //1001 * 1% = 10.01, 1001 * 3.33% = 33.3333
+            expect(payouts).to.deep.equal([
+                { recipient: receiver2.address, amount: 958n, isFee: false },
+                { recipient: vault.address, amount: 10n, isFee: true },
+                { recipient: feeRecipients[1], amount: 33n, isFee: true },
+            ]);
+        });
+
+        it('takes no fees from ERC721 legs', async function () {
+            const payouts = calculatePaymentAmounts(
+                escrow(),
+                {
+                    participantAddress: receiver2.address,
+                    paymentType: EscrowPaymentType.ERC721,
+                },
+                7
+            );
+
+            expect(payouts).to.deep.equal([
+                { recipient: receiver1.address, amount: 7n, isFee: false },
+            ]);
+        });
+
+        it('fails where the contract would revert', async function () {
+            const leg = {
+                participantAddress: receiver1.address,
+                paymentType: EscrowPaymentType.Native,
+            };
+            expect(() =>
+                calculatePaymentAmounts(
+                    {
+                        ...escrow(),
+                        fees: [
+                            { recipient: vault.address, feeBps: 6000n },
+                            { recipient: feeRecipients[1], feeBps: 6000n },
+                        ],
+                    },
+                    leg,
+                    100
+                )
+            ).to.throw('FeesExceedAmount');
+
+            expect(() => mulDiv(MAX_UINT256, 10001, 10000)).to.throw(
+                'MulDivOverflow'
+            );
+            expect(mulDiv(MAX_UINT256, 9999, 10000)).to.equal(
+                (MAX_UINT256 * 9999n) / 10000n
+            );
+        });
+    });
+
+    describe('Differential', function () {
+        it('matches on-chain fees and releases', async function () {
+            const recipientArb = fc.constantFrom(...feeRecipients);
+
+            await fc.assert(
+                fc.asyncProperty(
+                    fc.record({
+                        platformFeeBps: fc.bigInt({ min: 0n, max: 500n }),
+                        fees: fc.array(
+                            fc.record({
+                                recipient: recipientArb,
+                                feeBps: fc.bigInt({ min: 0n, max: 1500n }),
+                            }),
+                            { maxLength: 4 }
+                        ),
+                        tokenAmount: fc.oneof(
+                            fc.bigInt({ min: 1n, max: 1000000n }),
+                            fc.bigInt({ min: 1n, max: 2n ** 250n })
+                        ),
+                        nativeAmount: fc.bigInt({
+                            min: 1n,
+                            max: ethers.parseEther('1'),
+                        }),
+                    }),
+                    async (r) => {
+                        await systemSettings.setFeeBps(r.platformFeeBps);
+                        await testToken.mint(admin, r.tokenAmount);
+
+                        const input: CreateEscrowInput = {
+                            id: nextEscrowId(),
+                            primaryLeg: {
+                                participantAddress: receiver1.address,
+                                currency: testToken.target as string,
+                                paymentType: EscrowPaymentType.ERC20,
+                                amount: r.tokenAmount,
+                            },
+                            secondaryLeg: {
+                                participantAddress: receiver2.address,
+                                currency: ethers.ZeroAddress,
+                                paymentType: EscrowPaymentType.Native,
+                                amount: r.nativeAmount,
+                            },
+                            fees: r.fees,
+                        };
+                        const expected = await client.simulatePayouts(input);
+
+                        //the fees stored on creation
+                        const escrow = await client.createEscrow(input);
+                        expect(escrow.fees).to.deep.equal(expected.fees);
+
+                        //what each recipient receives on release
+                        const [primary, secondary] = await payAndMeasure(
+                            input,
+                            expected,
+                            testToken
+                        );
+                        expect(primary).to.deep.equal(
+                            totalsByRecipient(expected.primaryLeg)
+                        );
+                        expect(secondary).to.deep.equal(
+                            totalsByRecipient(expected.secondaryLeg)
+                        );
+                    }
+                ),
+                { numRuns: NUM_RUNS }
+            );
+        });
+
+        it('matches an on-chain release of an ERC721 leg', async function () {
+            const testNft = await (
+                await hre.ethers.getContractFactory('TestNft')
+            ).deploy('NFT', 'NFT');
+            await testNft.mint(admin, 3);
+
+            const input: CreateEscrowInput = {
+                id: nextEscrowId(),
+                primaryLeg: {
+                    participantAddress: receiver1.address,
+                    currency: testNft.target as string,
+                    paymentType: EscrowPaymentType.ERC721,
+                    amount: 1,
+                    tokenId: 3,
+                },
+                secondaryLeg: {
+                    participantAddress: receiver2.address,
+                    currency: ethers.ZeroAddress,
+                    paymentType: EscrowPaymentType.Native,
+                    amount: 10001,
+                },
+                fees: [{ recipient: feeRecipients[1], feeBps: 250 }],
+            };
+            const expected = simulateEscrowPayouts(input, {
+                vaultAddress: vault.address,
+                feeBps: platformFeeBps,
+            });
+            expect(expected.primaryLeg.payouts).to.deep.equal([
+                { recipient: receiver2.address, amount: 1n, isFee: false },
+            ]);
+
+            await client.createEscrow(input);
+            const [, secondary] = await payAndMeasure(input, expected, testNft);
+
+            expect(await testNft.ownerOf(3)).to.equal(receiver2.address);
+            expect(secondary).to.deep.equal(
+                totalsByRecipient(expected.secondaryLeg)
+            );
+        });
+    });
+});
@@ -0,0 +1,261 @@
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import { PolyEscrowClient, getPermitDomain, signPermit } from '../client';
+import {
+    EscrowStatus,
+    PaymentType,
+    deployPolyEscrowStack,
+    checkEscrowInvariantsAfterEachTransaction,
+} from './util';
+
+const ONE_DAY = 86400;
+
+describe('Permits', function () {
+    checkEscrowInvariantsAfterEachTransaction();
+
+    let polyEscrow: any;
+    let permitToken: any;
+    let escrowClient: PolyEscrowClient;
+    let partyA: HardhatEthersSigner; //pays permit tokens into the primary leg
+    let partyB: HardhatEthersSigner; //pays native into the secondary leg
+    let outsider: HardhatEthersSigner;
+
+    const escrowId = ethers.keccak256('0x01');
+
+    async function createEscrow() {
+        return await escrowClient.createEscrow({
+            id: escrowId,
+            primaryLeg: {
+                participantAddress: partyA.address,
+                currency: permitToken.target,
+                paymentType: PaymentType.ERC20,
+                amount: 1000,
+            },
+            secondaryLeg: {
+                participantAddress: partyB.address,
+                currency: ethers.ZeroAddress,
+                paymentType: PaymentType.Native,
+                amount: 500,
+            },
+        });
+    }
+
+    async function deadlineIn(seconds: number) {
+        return BigInt((await time.latest()) + seconds);
+    }
+
+    //signs a permit of partyA's tokens for the escrow contract, split for the contract call
+    async function signEscrowPermit(amount: number, deadline: bigint) {
+        const permit = await signPermit(
+            partyA,
+            permitToken.target,
+            polyEscrow.target,
+            amount,
+            deadline
+        );
+        const { v, r, s } = ethers.Signature.from(permit.signature);
+        return { v, r, s };
+    }
+
+    this.beforeEach(async () => {
+        const signers = await hre.ethers.getSigners();
+        partyA = signers[3];
+        partyB = signers[4];
+        outsider = signers[12];
+
+        ({ polyEscrow } = await deployPolyEscrowStack({
+            SystemSettingsModule: {
+                vaultAddress: signers[2].address,
+                feeBps: 0,
+            },
+        }));
+
+        permitToken = await (
+            await hre.ethers.getContractFactory('TestPermitToken')
+        ).deploy('ABC', 'ABC');
+        await permitToken.mint(partyA, 10000);
+
+        escrowClient = new PolyEscrowClient(polyEscrow.target, partyA);
+        await createEscrow();
+    });
+
+    it('pays a token leg in a single transaction, without an approval', async function () {
+        const nonce = await partyA.getNonce();
+        const escrow = await escrowClient.placePaymentWithPermit(
+            { escrowId, currency: permitToken.target, amount: 400 },
+            await deadlineIn(ONE_DAY)
+        );
+
+        expect(await partyA.getNonce()).to.equal(nonce + 1);
+        expect(escrow.status).to.equal(EscrowStatus.Active);
+        expect(escrow.primaryLeg.amountPaid).to.equal(400n);
+        expect(await permitToken.balanceOf(polyEscrow.target)).to.equal(400n);
+        expect(
+            await permitToken.allowance(partyA.address, polyEscrow.target)
+        ).to.equal(0n);
+    });
+
+    it('completes the escrow like any other payment', async function () {
+        await escrowClient.connect(partyB).placePayment({
+            escrowId,
+            currency: ethers.ZeroAddress,
+            amount: 500,
+        });
+        const escrow = await escrowClient.placePaymentWithPermit(
+            { escrowId, currency: permitToken.target, amount: 1000 },
+            await deadlineIn(ONE_DAY)
+        );
+
+        expect(escrow.status).to.equal(EscrowStatus.Completed);
+        expect(await permitToken.balanceOf(partyB)).to.equal(1000n);
+    });
+
+    it('emits PaymentReceived', async function () {
+        const deadline = await deadlineIn(ONE_DAY);
+        const { v, r, s } = await signEscrowPermit(400, deadline);
+
+        await expect(
+            polyEscrow
+                .connect(partyA)
+                .placePaymentWithPermit(
+                    { escrowId, currency: permitToken.target, amount: 400 },
+                    deadline,
+                    v,
+                    r,
+                    s
+                )
+        )
+            .to.emit(polyEscrow, 'PaymentReceived')
+            .withArgs(
+                escrowId,
+                partyA.address,
+                permitToken.target,
+                PaymentType.ERC20,
+                400
+            );
+    });
+
+    it('still pays if the permit was already submitted by someone else', async function () {
+        const deadline = await deadlineIn(ONE_DAY);
+        const { v, r, s } = await signEscrowPermit(400, deadline);
+
+        //e.g. copied from the mempool
+        await permitToken
+            .connect(outsider)
+            .permit(partyA.address, polyEscrow.target, 400, deadline, v, r, s);
+
+        await polyEscrow
+            .connect(partyA)
+            .placePaymentWithPermit(
+                { escrowId, currency: permitToken.target, amount: 400 },
+                deadline,
+                v,
+                r,
+                s
+            );
+        const escrow = await escrowClient.getEscrow(escrowId);
+        expect(escrow.primaryLeg.amountPaid).to.equal(400n);
+    });
+
+    it('rejects an expired permit', async function () {
+        const deadline = await deadlineIn(ONE_DAY);
+        const { v, r, s } = await signEscrowPermit(400, deadline);
+
+        await time.increaseTo(deadline + 1n);
+        await expect(
+            polyEscrow
+                .connect(partyA)
+                .placePaymentWithPermit(
+                    { escrowId, currency: permitToken.target, amount: 400 },
+                    deadline,
+                    v,
+                    r,
+                    s
+                )
+        ).to.be.revertedWithCustomError(
+            permitToken,
+            'ERC20InsufficientAllowance'
+        );
+    });
+
+    it('rejects a permit signed by someone other than the payer', async function () {
+        const deadline = await deadlineIn(ONE_DAY);
+        const { v, r, s } = await signEscrowPermit(400, deadline);
+
+        await permitToken.mint(outsider, 10000);
+        await expect(
+            polyEscrow
+                .connect(outsider)
+                .placePaymentWithPermit(
+                    { escrowId, currency: permitToken.target, amount: 400 },
+                    deadline,
+                    v,
+                    r,
+                    s
+                )
+        ).to.be.revertedWithCustomError(
+            permitToken,
+            'ERC20InsufficientAllowance'
+        );
+    });
+
+    it('rejects native payments', async function () {
+        const deadline = await deadlineIn(ONE_DAY);
+        const { v, r, s } = await signEscrowPermit(400, deadline);
+
+        await expect(
+            polyEscrow
+                .connect(partyB)
+                .placePaymentWithPermit(
+                    { escrowId, currency: ethers.ZeroAddress, amount: 400 },
+                    deadline,
+                    v,
+                    r,
+                    s
+                )
+        ).to.be.revertedWith('InvalidCurrency');
+    });
+
+    it('only permits token legs in the client', async function () {
+        let error: any;
+        try {
+            await escrowClient.connect(partyB).placePaymentWithPermit(
+                {
+                    escrowId,
+                    currency: ethers.ZeroAddress,
+                    amount: 500,
+                },
+                await deadlineIn(ONE_DAY)
+            );
+        } catch (e) {
+            error = e;
+        }
+        expect(error?.message).to.equal('InvalidPaymentType');
+    });
+
+    it('gets the domain of tokens which do not report it from their name', async function () {
+        const testToken = await (
+            await hre.ethers.getContractFactory('TestToken')
+        ).deploy('XYZ', 'XYZ');
+        const { chainId } = await ethers.provider.getNetwork();
+
+        expect(
+            await getPermitDomain(partyA, testToken.target as string)
+        ).to.deep.equal({
+            name: 'XYZ',
+            version: '1',
+            chainId,
+            verifyingContract: testToken.target,
+        });
+        expect(await getPermitDomain(partyA, permitToken.target)).to.deep.equal(
+            {
+                name: 'ABC',
+                version: '1',
+                chainId,
+                verifyingContract: permitToken.target,
+            }
+        );
+    });
+});
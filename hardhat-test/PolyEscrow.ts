@@ -1,18 +1,27 @@
 import { expect } from 'chai';
 import hre, { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
 import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
 import {
     EscrowStatus,
     EscrowDefinition,
     TestUtil,
+    deployPolyEscrowStack,
     convertEscrow as convertEscrow,
     PaymentType,
+    checkEscrowInvariantsAfterEachTransaction,
 } from './util';
 
 const ONE_HOUR = 3600;
 const ONE_DAY = 86400;
 
+//the NFTs pledged by ERC721 legs: testNft1's by the secondary payer, testNft2's by the primary payer
+const NFT1_TOKEN_ID = 7n;
+const NFT2_TOKEN_ID = 9n;
+
 describe('PolyEscrow', function () {
+    checkEscrowInvariantsAfterEachTransaction();
+
     let securityContext: any;
     let systemSettings: any;
     let polyEscrow: any;
@@ -32,20 +41,14 @@ describe('PolyEscrow', function () {
         nonOwner = a2;
         vaultAccount = a3;
 
-        //deploy security context
-        const SecurityContextFactory = await hre.ethers.getContractFactory(
-            'TestSecurityContext'
-        );
-        securityContext = await SecurityContextFactory.deploy(admin.address);
-
-        //deploy system settings
-        const SystemSettingsFactory =
-            await hre.ethers.getContractFactory('SystemSettings');
-        systemSettings = await SystemSettingsFactory.deploy(
-            securityContext.target,
-            vaultAccount,
-            defaultFeeBps
-        );
+        //deploy security context, system settings and polyEscrow
+        ({ securityContext, systemSettings, polyEscrow } =
+            await deployPolyEscrowStack({
+                SystemSettingsModule: {
+                    vaultAddress: vaultAccount.address,
+                    feeBps: defaultFeeBps,
+                },
+            }));
 
         //deploy test tokens
         const TestTokenFactory =
@@ -58,14 +61,6 @@ describe('PolyEscrow', function () {
         testNft1 = await TestNftFactory.deploy('ABC', 'ABC');
         testNft2 = await TestNftFactory.deploy('XYZ', 'ZYX');
 
-        //deploy polyEscrow
-        const PolyEscrowFactory =
-            await hre.ethers.getContractFactory('PolyEscrow');
-        polyEscrow = await PolyEscrowFactory.deploy(
-            securityContext.target,
-            systemSettings.target
-        );
-
         //create test util
         testUtil = new TestUtil(
             polyEscrow,
@@ -84,9 +79,11 @@ describe('PolyEscrow', function () {
         await testToken2.mint(testUtil.payers[0], 10000000000);
         await testToken2.mint(testUtil.payers[1], 10000000000);
 
-        //mint nfts
+        //mint nfts; token 1 of each should never move, as no escrow pledges it
         await testNft1.mint(testUtil.payers[1], 1);
         await testNft2.mint(testUtil.payers[1], 1);
+        await testNft1.mint(testUtil.payers[1], NFT1_TOKEN_ID);
+        await testNft2.mint(testUtil.payers[0], NFT2_TOKEN_ID);
     });
 
     describe('Deployment', function () {
@@ -176,12 +173,14 @@ describe('PolyEscrow', function () {
                             paymentType: PaymentType.ERC20,
                             currency: testToken1.target,
                             amount: amount1,
+                            tokenId: 0,
                         },
                         secondaryLeg: {
                             participantAddress: testUtil.receivers[1].address,
                             paymentType: PaymentType.Native,
                             currency: ethers.ZeroAddress,
                             amount: amount2,
+                            tokenId: 0,
                         },
                         startTime: 0,
                         endTime: 0,
@@ -211,6 +210,13 @@ describe('PolyEscrow', function () {
             amount2 = 20000002;
         });
 
+        const tokenIdFor = (currency: string) =>
+            currency === testNft1.target
+                ? NFT1_TOKEN_ID
+                : currency === testNft2.target
+                  ? NFT2_TOKEN_ID
+                  : 0n;
+
         async function createEscrow(currency1: string, currency2: string) {
             //create the escrow
             escrow = await testUtil.createEscrow(
@@ -228,6 +234,7 @@ describe('PolyEscrow', function () {
                               : PaymentType.Native,
                     currency: currency1,
                     amount: amount1,
+                    tokenId: tokenIdFor(currency1),
                 },
                 {
                     participantAddress: testUtil.receivers[1].address,
@@ -241,6 +248,7 @@ describe('PolyEscrow', function () {
                               : PaymentType.Native,
                     currency: currency2,
                     amount: amount2,
+                    tokenId: tokenIdFor(currency2),
                 }
             );
         }
@@ -522,11 +530,61 @@ describe('PolyEscrow', function () {
                     PaymentType.ERC721,
                     testNft1.target
                 );
+
+                //the pledged NFT went to the primary receiver, and no other
+                expect(await testNft1.ownerOf(NFT1_TOKEN_ID)).to.equal(
+                    testUtil.receivers[0].address
+                );
+                expect(await testNft1.ownerOf(1)).to.equal(
+                    testUtil.payers[1].address
+                );
             });
 
-            it('pay and fully release a native-to-nft escrow', async function () {});
+            it('pay and fully release a native-to-nft escrow', async function () {
+                amount2 = 1;
+                await testPaymentAndRelease(
+                    PaymentType.Native,
+                    ethers.ZeroAddress,
+                    PaymentType.ERC721,
+                    testNft1.target
+                );
 
-            it('pay and fully release an nft-to-token escrow', async function () {});
+                expect(await testNft1.ownerOf(NFT1_TOKEN_ID)).to.equal(
+                    testUtil.receivers[0].address
+                );
+            });
+
+            it('pay and fully release an nft-to-token escrow', async function () {
+                amount1 = 1;
+                await testPaymentAndRelease(
+                    PaymentType.ERC721,
+                    testNft2.target,
+                    PaymentType.ERC20,
+                    testToken1.target
+                );
+
+                //the pledged NFT went to the secondary receiver, and no other
+                expect(await testNft2.ownerOf(NFT2_TOKEN_ID)).to.equal(
+                    testUtil.receivers[1].address
+                );
+                expect(await testNft2.ownerOf(1)).to.equal(
+                    testUtil.payers[1].address
+                );
+            });
+
+            it('pay and fully release an nft-to-native escrow', async function () {
+                amount1 = 1;
+                await testPaymentAndRelease(
+                    PaymentType.ERC721,
+                    testNft2.target,
+                    PaymentType.Native,
+                    ethers.ZeroAddress
+                );
+
+                expect(await testNft2.ownerOf(NFT2_TOKEN_ID)).to.equal(
+                    testUtil.receivers[1].address
+                );
+            });
         });
 
         describe('Events', function () {
@@ -545,4 +603,208 @@ describe('PolyEscrow', function () {
             });
         });
     });
+
+    describe('ERC721 Legs', function () {
+        const escrowId = ethers.keccak256('0x01');
+
+        //the primary leg pledges testNft2's token, the secondary leg tokens
+        async function createNftEscrow(
+            nft: any = testNft2,
+            amount: number = 1,
+            endTime: number = 0
+        ) {
+            return await testUtil.createEscrow(
+                escrowId,
+                testUtil.payers[0],
+                {
+                    participantAddress: testUtil.receivers[0].address,
+                    paymentType: PaymentType.ERC721,
+                    currency: nft.target,
+                    amount,
+                    tokenId: NFT2_TOKEN_ID,
+                },
+                {
+                    participantAddress: testUtil.receivers[1].address,
+                    paymentType: PaymentType.ERC20,
+                    currency: testToken1.target,
+                    amount: 1000,
+                },
+                0,
+                endTime
+            );
+        }
+
+        it('records the token id of the leg', async function () {
+            const escrow = await createNftEscrow();
+            expect(escrow.primaryLeg.tokenId).to.equal(NFT2_TOKEN_ID);
+            expect(escrow.primaryLeg.amountPledged).to.equal(1n);
+            expect(escrow.secondaryLeg.tokenId).to.equal(0n);
+        });
+
+        it('rejects legs pledging other than one NFT', async function () {
+            for (const amount of [0, 2]) {
+                await expect(
+                    createNftEscrow(testNft2, amount)
+                ).to.be.revertedWith('InvalidAmount');
+            }
+        });
+
+        it('rejects legs whose currency is not an ERC721', async function () {
+            await expect(createNftEscrow(testToken1)).to.be.revertedWith(
+                'InvalidToken'
+            );
+        });
+
+        it('rejects payments of other than one NFT', async function () {
+            await createNftEscrow();
+            await testNft2
+                .connect(testUtil.payers[0])
+                .approve(polyEscrow.target, NFT2_TOKEN_ID);
+
+            await expect(
+                polyEscrow.connect(testUtil.payers[0]).placePayment({
+                    escrowId,
+                    currency: testNft2.target,
+                    amount: 2,
+                })
+            ).to.be.revertedWith('InvalidAmount');
+        });
+
+        it('rejects NFTs sent to it directly', async function () {
+            await createNftEscrow();
+            await expect(
+                testNft2
+                    .connect(testUtil.payers[0])
+                    [
+                        'safeTransferFrom(address,address,uint256)'
+                    ](testUtil.payers[0].address, polyEscrow.target, NFT2_TOKEN_ID)
+            ).to.be.revertedWith('Unauthorized');
+        });
+
+        it('refunds the NFT to its participant once expired', async function () {
+            const endTime = (await time.latest()) + ONE_DAY;
+            await createNftEscrow(testNft2, 1, endTime);
+            await testUtil.placePayment(
+                escrowId,
+                testUtil.payers[0],
+                1,
+                testNft2.target
+            );
+            expect(await testNft2.ownerOf(NFT2_TOKEN_ID)).to.equal(
+                polyEscrow.target
+            );
+
+            await time.increaseTo(endTime);
+            await polyEscrow.refundExpired(escrowId);
+
+            expect(await testNft2.ownerOf(NFT2_TOKEN_ID)).to.equal(
+                testUtil.receivers[0].address
+            );
+            const escrow = await testUtil.getEscrow(escrowId);
+            expect(escrow.primaryLeg.amountRefunded).to.equal(1n);
+        });
+    });
+
+    describe('Fees', function () {
+        const escrowId = ethers.keccak256('0x01');
+        const platformFeeBps = 200;
+
+        //creates a token-to-native escrow with the given fees, and returns the fees stored with it
+        const createEscrowWithFees = async (
+            escrowContract: any,
+            fees: { recipient: string; feeBps: number }[]
+        ) => {
+            await escrowContract.createEscrow({
+                id: escrowId,
+                primaryLeg: {
+                    participantAddress: testUtil.receivers[0].address,
+                    paymentType: PaymentType.ERC20,
+                    currency: testToken1.target,
+                    amount: 100,
+                    tokenId: 0,
+                },
+                secondaryLeg: {
+                    participantAddress: testUtil.receivers[1].address,
+                    paymentType: PaymentType.Native,
+                    currency: ethers.ZeroAddress,
+                    amount: 100,
+                    tokenId: 0,
+                },
+                startTime: 0,
+                endTime: 0,
+                arbitration: {
+                    arbitrationModule: ethers.ZeroAddress,
+                    arbiters: [],
+                    quorum: 0,
+                },
+                fees,
+            });
+
+            const escrow = await escrowContract.getEscrow(escrowId);
+            return escrow.fees.map((fee: any) => ({
+                recipient: fee.recipient,
+                feeBps: Number(fee.feeBps),
+            }));
+        };
+
+        this.beforeEach(async () => {
+            await systemSettings.setFeeBps(platformFeeBps);
+        });
+
+        it('keeps the fees listed after the platform fee, and raises the platform fee', async function () {
+            //(these used to be dropped, along with the platform fee itself)
+            const fees = await createEscrowWithFees(polyEscrow, [
+                { recipient: nonOwner.address, feeBps: 100 },
+                { recipient: vaultAccount.address, feeBps: 50 },
+                { recipient: admin.address, feeBps: 300 },
+            ]);
+
+            expect(fees).to.deep.equal([
+                { recipient: nonOwner.address, feeBps: 100 },
+                { recipient: vaultAccount.address, feeBps: platformFeeBps },
+                { recipient: admin.address, feeBps: 300 },
+            ]);
+        });
+
+        it('adds the platform fee if it is not listed', async function () {
+            const fees = await createEscrowWithFees(polyEscrow, [
+                { recipient: nonOwner.address, feeBps: 100 },
+            ]);
+
+            expect(fees).to.deep.equal([
+                { recipient: nonOwner.address, feeBps: 100 },
+                { recipient: vaultAccount.address, feeBps: platformFeeBps },
+            ]);
+        });
+
+        it('keeps the given fees when there are no system settings', async function () {
+            //(these used to be dropped)
+            const { linkReferences } =
+                await hre.artifacts.readArtifact('PolyEscrow');
+            const libraries: Record<string, string> = {};
+            for (const source of Object.values(linkReferences)) {
+                for (const name of Object.keys(source)) {
+                    libraries[name] = await (
+                        await hre.ethers.deployContract(name)
+                    ).getAddress();
+                }
+            }
+            const PolyEscrowFactory = await hre.ethers.getContractFactory(
+                'PolyEscrow',
+                { libraries }
+            );
+            const unsettled = await PolyEscrowFactory.deploy(
+                securityContext.target,
+                ethers.ZeroAddress
+            );
+
+            const fees = await createEscrowWithFees(unsettled, [
+                { recipient: nonOwner.address, feeBps: 100 },
+            ]);
+
+            expect(fees).to.deep.equal([
+                { recipient: nonOwner.address, feeBps: 100 },
+            ]);
+        });
+    });
 });
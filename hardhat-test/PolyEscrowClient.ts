@@ -0,0 +1,334 @@
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import { PolyEscrowClient } from '../client';
+import {
+    EscrowStatus,
+    PaymentType,
+    deployPolyEscrowStack,
+    checkEscrowInvariantsAfterEachTransaction,
+} from './util';
+
+describe('PolyEscrowClient', function () {
+    checkEscrowInvariantsAfterEachTransaction();
+
+    let polyEscrow: any;
+    let testToken1: any;
+    let testNft1: any;
+    let client: PolyEscrowClient;
+    let payer1: HardhatEthersSigner;
+    let payer2: HardhatEthersSigner;
+    let receiver1: HardhatEthersSigner;
+    let receiver2: HardhatEthersSigner;
+
+    const escrowId = ethers.keccak256('0x01');
+    const largeAmount = 12345678901234567890123n; //well above 2^53
+
+    this.beforeEach(async () => {
+        const signers = await hre.ethers.getSigners();
+        payer1 = signers[3];
+        payer2 = signers[4];
+        receiver1 = signers[6];
+        receiver2 = signers[7];
+
+        //deploy security context, system settings and polyEscrow
+        ({ polyEscrow } = await deployPolyEscrowStack());
+
+        //deploy test token and nft
+        testToken1 = await (
+            await hre.ethers.getContractFactory('TestToken')
+        ).deploy('ABC', 'ABC');
+        testNft1 = await (
+            await hre.ethers.getContractFactory('TestNft')
+        ).deploy('ABC', 'ABC');
+
+        //mint
+        await testToken1.mint(payer1, largeAmount * 2n);
+        await testNft1.mint(payer2, 5);
+
+        client = new PolyEscrowClient(polyEscrow.target, payer1);
+    });
+
+    describe('Create Escrows', function () {
+        it('creates an escrow and returns it with bigint amounts', async function () {
+            const escrow = await client.createEscrow({
+                id: escrowId,
+                primaryLeg: {
+                    participantAddress: receiver1.address,
+                    currency: testToken1.target,
+                    paymentType: PaymentType.ERC20,
+                    amount: largeAmount,
+                },
+                secondaryLeg: {
+                    participantAddress: receiver2.address,
+                    currency: ethers.ZeroAddress,
+                    paymentType: PaymentType.Native,
+                    amount: 1000,
+                },
+            });
+
+            expect(escrow.id).to.equal(escrowId);
+            expect(escrow.status).to.equal(EscrowStatus.Pending);
+            expect(escrow.primaryLeg.amountPledged).to.equal(largeAmount);
+            expect(typeof escrow.primaryLeg.amountPledged).to.equal('bigint');
+            expect(escrow.secondaryLeg.amountPledged).to.equal(1000n);
+            expect(await client.hasEscrow(escrowId)).to.be.true;
+            expect(await client.hasEscrow(ethers.keccak256('0x02'))).to.be
+                .false;
+        });
+    });
+
+    describe('Place Payments', function () {
+        this.beforeEach(async () => {
+            await client.createEscrow({
+                id: escrowId,
+                primaryLeg: {
+                    participantAddress: receiver1.address,
+                    currency: testToken1.target,
+                    paymentType: PaymentType.ERC20,
+                    amount: largeAmount,
+                },
+                secondaryLeg: {
+                    participantAddress: receiver2.address,
+                    currency: testNft1.target,
+                    paymentType: PaymentType.ERC721,
+                    amount: 1,
+                    tokenId: 5,
+                },
+            });
+        });
+
+        it('approves and pays an ERC20 leg', async function () {
+            const escrow = await client.placePayment({
+                escrowId,
+                currency: testToken1.target,
+                amount: largeAmount,
+            });
+
+            expect(escrow.status).to.equal(EscrowStatus.Active);
+            expect(escrow.primaryLeg.amountPaid).to.equal(largeAmount);
+            expect(await testToken1.balanceOf(polyEscrow.target)).to.equal(
+                largeAmount
+            );
+        });
+
+        it('does not re-approve when the allowance already covers the payment', async function () {
+            await testToken1
+                .connect(payer1)
+                .approve(polyEscrow.target, largeAmount);
+
+            await client.placePayment({
+                escrowId,
+                currency: testToken1.target,
+                amount: largeAmount,
+            });
+
+            //only the manual approval was made
+            const approvals = await testToken1.queryFilter(
+                testToken1.filters.Approval(payer1.address)
+            );
+            expect(approvals.length).to.equal(1);
+        });
+
+        it('approves and pays an ERC721 leg, releasing the escrow', async function () {
+            await client.placePayment({
+                escrowId,
+                currency: testToken1.target,
+                amount: largeAmount,
+            });
+
+            const escrow = await client.connect(payer2).placePayment({
+                escrowId,
+                currency: testNft1.target,
+                amount: 1,
+            });
+
+            expect(escrow.status).to.equal(EscrowStatus.Completed);
+            expect(escrow.secondaryLeg.tokenId).to.equal(5n);
+            expect(await testToken1.balanceOf(receiver2.address)).to.equal(
+                largeAmount
+            );
+            expect(await testNft1.ownerOf(5)).to.equal(receiver1.address);
+        });
+    });
+
+    describe('Relay Nodes', function () {
+        it('deploys a relay node and returns its address', async function () {
+            await client.createEscrow({
+                id: escrowId,
+                primaryLeg: {
+                    participantAddress: receiver1.address,
+                    currency: testToken1.target,
+                    paymentType: PaymentType.ERC20,
+                    amount: 100,
+                },
+                secondaryLeg: {
+                    participantAddress: receiver2.address,
+                    currency: ethers.ZeroAddress,
+                    paymentType: PaymentType.Native,
+                    amount: 100,
+                },
+            });
+
+            const relayAddress = await client.deployRelayNode(escrowId);
+            const relayNode = await ethers.getContractAt(
+                'RelayNode',
+                relayAddress
+            );
+            expect(await relayNode.escrowId()).to.equal(escrowId);
+        });
+
+        it('reports what a relay node holds, and for whom', async function () {
+            await client.createEscrow({
+                id: escrowId,
+                primaryLeg: {
+                    participantAddress: receiver1.address,
+                    currency: testToken1.target,
+                    paymentType: PaymentType.ERC20,
+                    amount: 100,
+                },
+                secondaryLeg: {
+                    participantAddress: receiver2.address,
+                    currency: testNft1.target,
+                    paymentType: PaymentType.ERC721,
+                    amount: 1,
+                    tokenId: 5,
+                },
+            });
+            const relayAddress = await client.deployRelayNode(escrowId);
+            const relayNode = await ethers.getContractAt(
+                'RelayNode',
+                relayAddress
+            );
+
+            await testToken1.connect(payer1).approve(relayAddress, 40);
+            await relayNode.connect(payer1).deposit(testToken1.target, 40);
+            await testNft1
+                .connect(payer2)
+                [
+                    'safeTransferFrom(address,address,uint256)'
+                ](payer2.address, relayAddress, 5);
+
+            expect(
+                await client.getRelayNodeBalances(relayAddress)
+            ).to.deep.equal([
+                {
+                    currency: testToken1.target,
+                    paymentType: PaymentType.ERC20,
+                    amount: 40n,
+                },
+                {
+                    currency: testNft1.target,
+                    paymentType: PaymentType.ERC721,
+                    amount: 1n,
+                },
+            ]);
+            expect(
+                await client.getRelayNodeDeposit(
+                    relayAddress,
+                    testToken1.target,
+                    payer1.address
+                )
+            ).to.equal(40n);
+
+            //nothing is left once relayed
+            await relayNode.relay();
+            const balances = await client
+                .connect(ethers.provider)
+                .getRelayNodeBalances(relayAddress);
+            expect(balances.map((b) => b.amount)).to.deep.equal([0n, 0n]);
+        });
+
+        it("lists, pauses and retires an escrow's relay nodes", async function () {
+            const [admin] = await hre.ethers.getSigners();
+            const system = client.connect(admin); //has the system role
+            await client.createEscrow({
+                id: escrowId,
+                primaryLeg: {
+                    participantAddress: receiver1.address,
+                    currency: testToken1.target,
+                    paymentType: PaymentType.ERC20,
+                    amount: 100,
+                },
+                secondaryLeg: {
+                    participantAddress: receiver2.address,
+                    currency: testNft1.target,
+                    paymentType: PaymentType.ERC721,
+                    amount: 1,
+                    tokenId: 5,
+                },
+            });
+            const first = await client.deployRelayNode(escrowId, false);
+            const second = await client.deployRelayNode(escrowId);
+            expect(await client.getRelayNodes(escrowId)).to.deep.equal([
+                first,
+                second,
+            ]);
+
+            await testToken1.connect(payer1).approve(first, 40);
+            await (await ethers.getContractAt('RelayNode', first))
+                .connect(payer1)
+                .deposit(testToken1.target, 40);
+
+            expect(
+                await system.setRelayNodesPaused(escrowId, true)
+            ).to.deep.equal([first, second]);
+            expect(
+                await system.setRelayNodesPaused(escrowId, true)
+            ).to.deep.equal([]);
+            expect(
+                await system.setRelayNodesPaused(escrowId, false)
+            ).to.deep.equal([first, second]);
+
+            //the deposit is left for its depositor to claim
+            await system.retireRelayNode(first);
+            const summaries = await client.getRelayNodeSummaries(escrowId);
+            expect(summaries[0]).to.deep.equal({
+                address: first,
+                autoForwardNative: false,
+                paused: false,
+                retired: true,
+                balances: [
+                    {
+                        currency: testToken1.target,
+                        paymentType: PaymentType.ERC20,
+                        amount: 40n,
+                    },
+                    {
+                        currency: testNft1.target,
+                        paymentType: PaymentType.ERC721,
+                        amount: 0n,
+                    },
+                ],
+            });
+            expect(summaries[1]).to.deep.include({
+                address: second,
+                autoForwardNative: true,
+                paused: false,
+                retired: false,
+            });
+
+            await client
+                .connect(payer1)
+                .claimRelayNodeRefund(first, testToken1.target);
+            expect(await testToken1.balanceOf(payer1)).to.equal(
+                largeAmount * 2n
+            );
+        });
+    });
+
+    describe('Providers', function () {
+        it('reads with a provider, but refuses to write', async function () {
+            const readOnly = client.connect(ethers.provider);
+
+            expect(await readOnly.hasEscrow(escrowId)).to.be.false;
+            let error: any;
+            try {
+                await readOnly.deployRelayNode(escrowId);
+            } catch (e) {
+                error = e;
+            }
+            expect(error?.message).to.equal('SignerRequired');
+        });
+    });
+});
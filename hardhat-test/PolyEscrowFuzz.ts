@@ -0,0 +1,25 @@
+import { checkEscrowInvariantsAfterEachTransaction } from './util';
+import { FuzzOptions, runEscrowFuzz } from './util/fuzz';
+
+//FUZZ_RUNS sets the number of sequences; FUZZ_SEED replays a failure
+const options: FuzzOptions = {
+    numRuns: Number(process.env.FUZZ_RUNS ?? 20),
+    seed: process.env.FUZZ_SEED ? Number(process.env.FUZZ_SEED) : undefined,
+};
+
+describe('PolyEscrow Fuzz', function () {
+    checkEscrowInvariantsAfterEachTransaction();
+    this.timeout(0);
+
+    it('matches the reference model for random sequences of escrow and relay node operations', async function () {
+        await runEscrowFuzz(options);
+    });
+
+    it('matches the reference model with NFTs other than token 1', async function () {
+        await runEscrowFuzz({ ...options, sharedNftCollection: true });
+    });
+
+    it('matches the reference model including relay node refunds', async function () {
+        await runEscrowFuzz({ ...options, refunds: true });
+    });
+});
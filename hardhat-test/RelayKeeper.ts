@@ -0,0 +1,334 @@
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import { PolyEscrowClient } from '../client';
+import { RelayKeeper } from '../services/keeper';
+import { KeeperOptions } from '../services/keeper/types';
+import {
+    PaymentType,
+    deployPolyEscrowStack,
+    checkEscrowInvariantsAfterEachTransaction,
+} from './util';
+
+describe('RelayKeeper', function () {
+    checkEscrowInvariantsAfterEachTransaction();
+
+    let polyEscrow: any;
+    let testToken1: any;
+    let testToken2: any;
+    let client: PolyEscrowClient;
+    let keeperAccount: HardhatEthersSigner;
+    let payer: HardhatEthersSigner;
+    let receiver1: HardhatEthersSigner;
+    let receiver2: HardhatEthersSigner;
+    let logged: string[];
+
+    const escrowId1 = ethers.keccak256('0x01');
+    const escrowId2 = ethers.keccak256('0x02');
+    const amount = 1000n;
+
+    //creates a token-to-native escrow
+    async function createEscrow(id: string) {
+        await client.createEscrow({
+            id,
+            primaryLeg: {
+                participantAddress: receiver1.address,
+                currency: testToken1.target as string,
+                paymentType: PaymentType.ERC20,
+                amount,
+            },
+            secondaryLeg: {
+                participantAddress: receiver2.address,
+                currency: ethers.ZeroAddress,
+                paymentType: PaymentType.Native,
+                amount,
+            },
+        });
+    }
+
+    function createKeeper(options: Partial<KeeperOptions> = {}): RelayKeeper {
+        return new RelayKeeper({
+            signer: keeperAccount,
+            escrowAddress: polyEscrow.target,
+            backoffMs: 0, //failed nodes are retried at the next sync
+            log: (message) => logged.push(message),
+            ...options,
+        });
+    }
+
+    async function deposit(
+        relayNode: string,
+        value: bigint,
+        token = testToken1
+    ) {
+        await (await token.connect(payer).transfer(relayNode, value)).wait();
+    }
+
+    async function getAmountPaid(escrowId: string): Promise<bigint> {
+        return (await client.getEscrow(escrowId)).primaryLeg.amountPaid;
+    }
+
+    this.beforeEach(async () => {
+        const signers = await hre.ethers.getSigners();
+        const admin = signers[0];
+        keeperAccount = signers[1];
+        payer = signers[3];
+        receiver1 = signers[6];
+        receiver2 = signers[7];
+
+        ({ polyEscrow } = await deployPolyEscrowStack());
+        client = new PolyEscrowClient(polyEscrow.target, admin);
+
+        const tokenFactory = await hre.ethers.getContractFactory('TestToken');
+        testToken1 = await tokenFactory.deploy('ABC', 'ABC');
+        testToken2 = await tokenFactory.deploy('DEF', 'DEF');
+        await testToken1.mint(payer, amount * 10n);
+        await testToken2.mint(payer, amount * 10n);
+
+        await createEscrow(escrowId1);
+        await createEscrow(escrowId2);
+        logged = [];
+    });
+
+    describe('Relaying', function () {
+        it('relays a plain token transfer into the escrow', async function () {
+            const keeper = createKeeper();
+            const relayNode = await client.deployRelayNode(escrowId1);
+            await deposit(relayNode, amount / 2n);
+
+            const actions = await keeper.sync();
+
+            expect(await getAmountPaid(escrowId1)).to.equal(amount / 2n);
+            expect(await testToken1.balanceOf(relayNode)).to.equal(0);
+            expect(actions.length).to.equal(1);
+            expect(actions[0]).to.deep.include({
+                relayNode,
+                escrowId: escrowId1,
+                dryRun: false,
+                attempts: 1,
+            });
+            expect(actions[0].transactionHash).to.be.a('string');
+            expect(actions[0].error).to.be.undefined;
+        });
+
+        it('discovers relay nodes deployed after it started', async function () {
+            const keeper = createKeeper();
+            expect(await keeper.sync()).to.be.empty;
+
+            const relayNode = await client.deployRelayNode(escrowId2);
+            await deposit(relayNode, amount);
+            await keeper.sync();
+
+            expect(keeper.relayNodes.map((n) => n.address)).to.deep.equal([
+                relayNode,
+            ]);
+            expect(await getAmountPaid(escrowId2)).to.equal(amount);
+        });
+
+        it('relays each deposit once', async function () {
+            const keeper = createKeeper();
+            const relayNode1 = await client.deployRelayNode(escrowId1);
+            const relayNode2 = await client.deployRelayNode(escrowId2);
+            await deposit(relayNode1, 100n);
+            await deposit(relayNode1, 200n);
+            await deposit(relayNode2, 300n);
+
+            expect((await keeper.sync()).length).to.equal(2);
+            expect(await keeper.sync()).to.be.empty;
+
+            expect(await getAmountPaid(escrowId1)).to.equal(300n);
+            expect(await getAmountPaid(escrowId2)).to.equal(300n);
+        });
+
+        it('refunds transfers into a completed escrow', async function () {
+            const keeper = createKeeper();
+            const relayNode = await client.deployRelayNode(escrowId1);
+            await client.connect(payer).placePayment({
+                escrowId: escrowId1,
+                currency: testToken1.target as string,
+                amount,
+            });
+            await client.connect(payer).placePayment({
+                escrowId: escrowId1,
+                currency: ethers.ZeroAddress,
+                amount,
+            });
+
+            //its sender is unknown, so it goes to the participant who pledged the token
+            const balance = await testToken1.balanceOf(receiver1);
+            await deposit(relayNode, 100n);
+            const actions = await keeper.sync();
+
+            expect(actions.length).to.equal(1);
+            expect(await testToken1.balanceOf(relayNode)).to.equal(0);
+            expect(await testToken1.balanceOf(receiver1)).to.equal(
+                balance + 100n
+            );
+        });
+
+        it('ignores transfers of other tokens, and to other addresses', async function () {
+            const keeper = createKeeper();
+            const relayNode = await client.deployRelayNode(escrowId1);
+            await deposit(relayNode, amount, testToken2);
+            await deposit(receiver1.address, amount);
+
+            expect(await keeper.sync()).to.be.empty;
+            expect(keeper.pendingNodes).to.be.empty;
+            expect(await getAmountPaid(escrowId1)).to.equal(0);
+        });
+
+        it('only scans confirmed blocks', async function () {
+            const keeper = createKeeper({ confirmations: 2 });
+            const relayNode = await client.deployRelayNode(escrowId1);
+            await deposit(relayNode, amount);
+
+            expect(await keeper.sync()).to.be.empty;
+
+            await hre.network.provider.send('evm_mine');
+            await hre.network.provider.send('evm_mine');
+            expect((await keeper.sync()).length).to.equal(1);
+            expect(await getAmountPaid(escrowId1)).to.equal(amount);
+        });
+
+        it('relays single and batch multi-token transfers', async function () {
+            const escrowId3 = ethers.keccak256('0x03');
+            const tokenId = 42n;
+            const multiToken = await (
+                await hre.ethers.getContractFactory('TestMultiToken')
+            ).deploy('https://example.com/{id}.json');
+            await multiToken.mint(payer, tokenId, 100);
+            await client.createEscrow({
+                id: escrowId3,
+                primaryLeg: {
+                    participantAddress: receiver1.address,
+                    currency: multiToken.target as string,
+                    paymentType: PaymentType.ERC1155,
+                    amount: 30n,
+                    tokenId,
+                },
+                secondaryLeg: {
+                    participantAddress: receiver2.address,
+                    currency: ethers.ZeroAddress,
+                    paymentType: PaymentType.Native,
+                    amount,
+                },
+            });
+
+            const keeper = createKeeper();
+            const relayNode = await client.deployRelayNode(escrowId3);
+            await multiToken
+                .connect(payer)
+                .safeTransferFrom(payer, relayNode, tokenId, 10, '0x');
+
+            expect((await keeper.sync()).length).to.equal(1);
+            expect(await getAmountPaid(escrowId3)).to.equal(10n);
+
+            await multiToken
+                .connect(payer)
+                .safeBatchTransferFrom(payer, relayNode, [tokenId], [20], '0x');
+
+            expect((await keeper.sync()).length).to.equal(1);
+            expect(await getAmountPaid(escrowId3)).to.equal(30n);
+            expect(await multiToken.balanceOf(relayNode, tokenId)).to.equal(0);
+        });
+    });
+
+    describe('Dry run', function () {
+        it('simulates relay() without sending a transaction', async function () {
+            const keeper = createKeeper({ dryRun: true });
+            const relayNode = await client.deployRelayNode(escrowId1);
+            await deposit(relayNode, amount);
+            const nonce = await keeperAccount.getNonce();
+
+            const actions = await keeper.sync();
+
+            expect(actions.length).to.equal(1);
+            expect(actions[0].dryRun).to.be.true;
+            expect(actions[0].transactionHash).to.be.undefined;
+            expect(await keeperAccount.getNonce()).to.equal(nonce);
+            expect(await getAmountPaid(escrowId1)).to.equal(0);
+            expect(await testToken1.balanceOf(relayNode)).to.equal(amount);
+            expect(logged.join('\n')).to.contain('[dry run]');
+        });
+    });
+
+    describe('Failures', function () {
+        it('retries failed nodes at later syncs, until maxAttempts', async function () {
+            const keeper = createKeeper({ maxAttempts: 3 });
+            const relayNode = await client.deployRelayNode(escrowId1);
+            const node = await ethers.getContractAt('RelayNode', relayNode);
+            await deposit(relayNode, amount);
+
+            //relay() reverts while the node is paused; each sync tries once
+            await node.pause();
+            for (const attempts of [1, 2, 3]) {
+                const actions = await keeper.sync();
+                expect(actions[0].attempts).to.equal(attempts);
+                expect(actions[0].error).to.contain('Paused');
+            }
+
+            //dropped after the last attempt
+            expect(keeper.pendingNodes).to.be.empty;
+            expect(await keeper.sync()).to.be.empty;
+            expect(logged.join('\n')).to.contain('dropping it');
+
+            //tried again once it receives another deposit
+            await node.unpause();
+            await deposit(relayNode, amount);
+            const actions = await keeper.sync();
+            expect(actions[0].attempts).to.equal(1);
+            expect(actions[0].error).to.be.undefined;
+            expect(keeper.pendingNodes).to.be.empty;
+            expect(await getAmountPaid(escrowId1)).to.equal(amount * 2n);
+        });
+
+        it('backs off from a failing node without holding up the others', async function () {
+            const keeper = createKeeper({ backoffMs: 60000 });
+            const relayNode1 = await client.deployRelayNode(escrowId1);
+            const relayNode2 = await client.deployRelayNode(escrowId2);
+            await (await ethers.getContractAt('RelayNode', relayNode1)).pause();
+            await deposit(relayNode1, amount);
+            await deposit(relayNode2, amount / 2n);
+
+            let actions = await keeper.sync();
+            expect(actions.map((a) => [a.relayNode, !!a.error])).to.deep.equal([
+                [relayNode1, true],
+                [relayNode2, false],
+            ]);
+
+            //the failed node is skipped until its backoff has passed
+            await deposit(relayNode2, amount / 2n);
+            const started = Date.now();
+            actions = await keeper.sync();
+            expect(Date.now() - started).to.be.lessThan(60000);
+            expect(actions.map((a) => a.relayNode)).to.deep.equal([relayNode2]);
+            expect(keeper.pendingNodes).to.deep.equal([relayNode1]);
+            expect(await getAmountPaid(escrowId2)).to.equal(amount);
+        });
+
+        it('recovers when the account nonce changes underneath it', async function () {
+            const keeper = createKeeper();
+            const relayNode = await client.deployRelayNode(escrowId1);
+            await deposit(relayNode, 100n);
+            await keeper.sync();
+
+            //another transaction from the keeper's account makes its cached nonce stale
+            await (
+                await keeperAccount.sendTransaction({
+                    to: receiver1.address,
+                    value: 1,
+                })
+            ).wait();
+
+            //the first attempt fails with the stale nonce, and the next sync's succeeds
+            await deposit(relayNode, 200n);
+            let actions = await keeper.sync();
+            expect(actions[0].error).to.not.be.undefined;
+
+            actions = await keeper.sync();
+            expect(actions[0].attempts).to.equal(2);
+            expect(actions[0].error).to.be.undefined;
+            expect(await getAmountPaid(escrowId1)).to.equal(300n);
+        });
+    });
+});
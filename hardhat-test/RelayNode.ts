@@ -1,14 +1,19 @@
 import { expect } from 'chai';
 import hre, { ethers } from 'hardhat';
 import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import { PolyEscrowClient, computeRelayNodeAddress } from '../client';
 import {
     EscrowStatus,
     PaymentType,
     TestUtil,
+    deployPolyEscrowStack,
     convertEscrow as convertEscrow,
+    checkEscrowInvariantsAfterEachTransaction,
 } from './util';
 
 describe('RelayNode', function () {
+    checkEscrowInvariantsAfterEachTransaction();
+
     let securityContext: any;
     let systemSettings: any;
     let polyEscrow: any;
@@ -17,7 +22,6 @@ describe('RelayNode', function () {
     let testToken2: any;
     let testNft1: any;
     let testNft2: any;
-    let otherToken: any;
     let vaultAccount: any;
     let admin: HardhatEthersSigner;
     let nonOwner: HardhatEthersSigner;
@@ -46,13 +50,28 @@ describe('RelayNode', function () {
         }
     }
 
+    //deposits tokens through the relay node, which attributes them to the account
+    async function depositToRelayNode(
+        account: HardhatEthersSigner,
+        amount: any
+    ): Promise<void> {
+        await testToken1.connect(account).approve(relayNode.target, amount);
+        const tx = await relayNode
+            .connect(account)
+            .deposit(testToken1.target, amount);
+        await tx.wait();
+    }
+
     async function deployRelayNode(
         escrowId: string,
         autoForward: boolean = true
     ): Promise<any> {
         const tx = await polyEscrow.deployRelayNode(escrowId, autoForward);
         const receipt = await tx.wait();
-        return await ethers.getContractAt('RelayNode', receipt.logs[1].args[0]);
+        const deployed = receipt.logs.find(
+            (log: any) => log.eventName === 'RelayNodeDeployed'
+        );
+        return await ethers.getContractAt('RelayNode', deployed.args[0]);
     }
 
     async function getAndVerifyEscrow(escrowId: string, expectedValues: any) {
@@ -66,20 +85,14 @@ describe('RelayNode', function () {
         nonOwner = a2;
         vaultAccount = a3;
 
-        //deploy security context
-        const SecurityContextFactory = await hre.ethers.getContractFactory(
-            'TestSecurityContext'
-        );
-        securityContext = await SecurityContextFactory.deploy(admin.address);
-
-        //deploy system settings
-        const SystemSettingsFactory =
-            await hre.ethers.getContractFactory('SystemSettings');
-        systemSettings = await SystemSettingsFactory.deploy(
-            securityContext.target,
-            vaultAccount,
-            defaultFeeBps
-        );
+        //deploy security context, system settings and polyEscrow
+        ({ securityContext, systemSettings, polyEscrow } =
+            await deployPolyEscrowStack({
+                SystemSettingsModule: {
+                    vaultAddress: vaultAccount.address,
+                    feeBps: defaultFeeBps,
+                },
+            }));
 
         //deploy test token
         const TestTokenFactory =
@@ -87,14 +100,6 @@ describe('RelayNode', function () {
         testToken1 = await TestTokenFactory.deploy('ABC', '123');
         testToken2 = await TestTokenFactory.deploy('XYZ', 'ZYX');
 
-        //deploy polyEscrow
-        const PolyEscrowFactory =
-            await hre.ethers.getContractFactory('PolyEscrow');
-        polyEscrow = await PolyEscrowFactory.deploy(
-            securityContext.target,
-            systemSettings.target
-        );
-
         //create test util
         testUtil = new TestUtil(
             polyEscrow,
@@ -150,6 +155,134 @@ describe('RelayNode', function () {
                 deployRelayNode(ethers.keccak256('0x02'))
             ).to.be.revertedWith('InvalidEscrow');
         });
+
+        it('cannot initialize a relay node again', async function () {
+            relayNode = await deployRelayNode(escrowId);
+
+            await expect(
+                relayNode.initialize(
+                    securityContext.target,
+                    polyEscrow.target,
+                    escrowId,
+                    false
+                )
+            ).to.be.revertedWithCustomError(relayNode, 'InvalidInitialization');
+            expect(await relayNode.autoForwardNative()).to.be.true;
+        });
+
+        it('cannot initialize the implementation as a relay node', async function () {
+            const implementation = await ethers.getContractAt(
+                'RelayNode',
+                await polyEscrow.relayNodeImplementation()
+            );
+
+            await expect(
+                implementation.initialize(
+                    securityContext.target,
+                    polyEscrow.target,
+                    escrowId,
+                    true
+                )
+            ).to.be.revertedWithCustomError(
+                implementation,
+                'InvalidInitialization'
+            );
+        });
+    });
+
+    describe('Predicted Addresses', function () {
+        it('deploys relay nodes at their predicted addresses', async function () {
+            const client = new PolyEscrowClient(polyEscrow.target, admin);
+            const implementation = await polyEscrow.relayNodeImplementation();
+
+            for (const [index, autoForward] of [
+                [0, true],
+                [1, false],
+            ] as [number, boolean][]) {
+                const predicted = await polyEscrow.predictRelayNodeAddress(
+                    escrowId,
+                    index
+                );
+                expect(
+                    computeRelayNodeAddress(
+                        polyEscrow.target,
+                        implementation,
+                        escrowId,
+                        index
+                    )
+                ).to.equal(predicted);
+                expect(
+                    await client.predictRelayNodeAddress(escrowId, index)
+                ).to.equal(predicted);
+
+                relayNode = await deployRelayNode(escrowId, autoForward);
+                expect(relayNode.target).to.equal(predicted);
+                expect(await relayNode.autoForwardNative()).to.equal(
+                    autoForward
+                );
+            }
+        });
+
+        it('rejects an index at which no relay node can be deployed', async function () {
+            const client = new PolyEscrowClient(polyEscrow.target, admin);
+
+            expect(
+                await polyEscrow.predictRelayNodeAddress(escrowId, 9)
+            ).to.equal(await client.predictRelayNodeAddress(escrowId, 9));
+            await expect(
+                polyEscrow.predictRelayNodeAddress(escrowId, 10)
+            ).to.be.revertedWith('MaxRelayNodesExceeded');
+
+            let error: any;
+            try {
+                await client.predictRelayNodeAddress(escrowId, 10);
+            } catch (e) {
+                error = e;
+            }
+            expect(error?.message).to.equal('MaxRelayNodesExceeded');
+        });
+
+        it('predicts a different address for each index and escrow', async function () {
+            const implementation = await polyEscrow.relayNodeImplementation();
+            const address = (id: string, index: number) =>
+                computeRelayNodeAddress(
+                    polyEscrow.target,
+                    implementation,
+                    id,
+                    index
+                );
+
+            const addresses = new Set([
+                address(escrowId, 0),
+                address(escrowId, 1),
+                address(ethers.keccak256('0x02'), 0),
+            ]);
+            expect(addresses.size).to.equal(3);
+        });
+
+        it('relays payments sent to the address before the relay node is deployed', async function () {
+            const predicted = await polyEscrow.predictRelayNodeAddress(
+                escrowId,
+                0
+            );
+            await testToken1
+                .connect(testUtil.payers[0])
+                .transfer(predicted, amount1);
+            await testUtil.payers[1].sendTransaction({
+                to: predicted,
+                value: amount2,
+            });
+
+            relayNode = await deployRelayNode(escrowId);
+
+            expect(relayNode.target).to.equal(predicted);
+            const escrow = convertEscrow(await polyEscrow.getEscrow(escrowId));
+            expect(escrow.primaryLeg.amountPaid).to.equal(amount1);
+            expect(escrow.secondaryLeg.amountPaid).to.equal(amount2);
+            expect(escrow.status).to.equal(EscrowStatus.Completed);
+            expect(await testToken1.balanceOf(predicted)).to.equal(0);
+            expect(await ethers.provider.getBalance(predicted)).to.equal(0);
+        });
     });
 
     describe('Relay', function () {
@@ -608,45 +741,55 @@ describe('RelayNode', function () {
             //TODO: test that relayed payments trigger completions
         });
 
-        describe.skip('Exceptions', function () {
-            it('cannot relay the wrong currency: token when native was expected', async function () {
-                const isToken: boolean = false;
-
+        describe('Exceptions', function () {
+            it('does not relay a currency the escrow does not use', async function () {
                 //deploy relay node
                 relayNode = await deployRelayNode(escrowId);
 
-                expect(await relayNode.escrowId()).to.equal(escrowId);
+                //pay the wrong token into the relay
+                await testToken2
+                    .connect(testUtil.payers[0])
+                    .transfer(relayNode.target, amount1);
 
-                //pay token into the relay
-                await sendToRelayNode(
-                    testUtil.payers[0],
-                    amount1,
-                    testToken2.target
+                //relaying leaves it where it is
+                await relayNode.relay();
+                expect(await testToken2.balanceOf(relayNode.target)).to.equal(
+                    amount1
                 );
 
-                //try to relay
-                await expect(relayNode.relay()).to.be.revertedWith(
-                    'ZeroBalance'
+                const escrow = convertEscrow(
+                    await polyEscrow.getEscrow(escrowId)
                 );
+                expect(escrow.primaryLeg.amountPaid).to.equal(0);
+                expect(escrow.status).to.equal(EscrowStatus.Pending);
             });
 
-            it('cannot relay the wrong currency: wrong token', async function () {
-                const isToken: boolean = true;
-
-                //deploy relay node
-                relayNode = await deployRelayNode(escrowId);
-
-                expect(await relayNode.escrowId()).to.equal(escrowId);
-
-                //pay token into the relay
-                await otherToken
-                    .connect(testUtil.payers[0])
-                    .transfer(relayNode.target, amount1);
-
-                //try to relay
-                await expect(relayNode.relay()).to.be.revertedWith(
-                    'ZeroBalance'
+            it('rejects native currency if neither leg is native', async function () {
+                const tokenEscrowId = ethers.keccak256('0x02');
+                await testUtil.createEscrow(
+                    tokenEscrowId,
+                    testUtil.payers[0],
+                    {
+                        participantAddress: testUtil.receivers[0].address,
+                        paymentType: PaymentType.ERC20,
+                        currency: testToken1.target,
+                        amount: amount1,
+                    },
+                    {
+                        participantAddress: testUtil.receivers[1].address,
+                        paymentType: PaymentType.ERC20,
+                        currency: testToken2.target,
+                        amount: amount2,
+                    }
                 );
+                relayNode = await deployRelayNode(tokenEscrowId, false);
+
+                await expect(
+                    testUtil.payers[1].sendTransaction({
+                        to: relayNode.target,
+                        value: amount2,
+                    })
+                ).to.be.revertedWith('InvalidCurrency');
             });
         });
 
@@ -659,252 +802,318 @@ describe('RelayNode', function () {
                     polyEscrow.deployRelayNode(escrowId, true)
                 ).to.emit(polyEscrow, 'RelayNodeDeployed');
             });
+
+            it('emits Relayed', async function () {
+                relayNode = await deployRelayNode(escrowId);
+                await sendToRelayNode(
+                    testUtil.payers[0],
+                    100,
+                    testToken1.target
+                );
+
+                await expect(relayNode.relay())
+                    .to.emit(relayNode, 'Relayed')
+                    .withArgs(testToken1.target, 100);
+                await expect(
+                    testUtil.payers[1].sendTransaction({
+                        to: relayNode.target,
+                        value: 200,
+                    })
+                )
+                    .to.emit(relayNode, 'Relayed')
+                    .withArgs(ethers.ZeroAddress, 200);
+            });
         });
     });
 
-    describe.skip('Refund', function () {
-        describe('Happy Paths', function () {
-            it('can refund token', async function () {
-                //deploy relay node
-                relayNode = await deployRelayNode(escrowId);
+    describe('Completed Escrows', function () {
+        //pays both legs of the escrow directly, which completes it
+        async function completeEscrow() {
+            await testToken1
+                .connect(testUtil.payers[0])
+                .approve(polyEscrow.target, amount1);
+            await polyEscrow.connect(testUtil.payers[0]).placePayment({
+                escrowId,
+                currency: testToken1.target,
+                amount: amount1,
+            });
+            await polyEscrow.connect(testUtil.payers[1]).placePayment(
+                {
+                    escrowId,
+                    currency: ethers.ZeroAddress,
+                    amount: amount2,
+                },
+                { value: amount2 }
+            );
+
+            const escrow = convertEscrow(await polyEscrow.getEscrow(escrowId));
+            expect(escrow.status).to.equal(EscrowStatus.Completed);
+        }
 
-                expect(await relayNode.escrowId()).to.equal(escrowId);
+        it('rejects native sent after the escrow completes', async function () {
+            relayNode = await deployRelayNode(escrowId);
+            await completeEscrow();
 
-                //initial balances
-                const initialRelayBalance = await testUtil.getBalance(
-                    relayNode.target,
-                    testToken1.target
-                );
-                const initialPayerBalance = await testUtil.getBalance(
-                    testUtil.payers[0].address,
-                    testToken1.target
-                );
-                const initialEscrowBalance = await testUtil.getBalance(
-                    polyEscrow.target,
-                    testToken1.target
-                );
+            await expect(
+                nonOwner.sendTransaction({ to: relayNode.target, value: 500 })
+            ).to.be.revertedWith('InvalidEscrowState');
+        });
 
-                //verify escrow
-                await getAndVerifyEscrow(escrowId, {
-                    primaryLeg: {
-                        participantAddress: testUtil.receivers[0].address,
-                        paymentType: PaymentType.ERC20,
-                        currency: testToken1.target,
-                        amountPledged: amount1,
-                        amountPaid: 0,
-                        amountReleased: 0,
-                        amountRefunded: 0,
-                    },
-                    secondaryLeg: {
-                        participantAddress: testUtil.receivers[1].address,
-                        paymentType: PaymentType.Native,
-                        currency: ethers.ZeroAddress,
-                        amountPledged: amount2,
-                        amountPaid: 0,
-                        amountReleased: 0,
-                        amountRefunded: 0,
-                    },
-                    startTime: 0,
-                    endTime: 0,
-                    status: EscrowStatus.Pending,
-                });
+        it('leaves deposits made before the escrow completed to be claimed', async function () {
+            relayNode = await deployRelayNode(escrowId, false);
+            await depositToRelayNode(nonOwner, 100);
+            await sendToRelayNode(nonOwner, 300, ethers.ZeroAddress);
+            await completeEscrow();
+
+            //relaying doesn't pay them into the escrow
+            const tx = relayNode.relay();
+            await expect(tx).to.changeTokenBalances(
+                testToken1,
+                [relayNode, nonOwner],
+                [0, 0]
+            );
+            await expect(tx).to.not.emit(relayNode, 'Relayed');
 
-                //pay into the relay
-                await sendToRelayNode(
-                    testUtil.payers[0],
-                    amount1,
-                    testToken1.target
-                );
+            await expect(
+                relayNode.connect(nonOwner).claimRefund(testToken1.target)
+            ).to.changeTokenBalances(
+                testToken1,
+                [relayNode, nonOwner],
+                [-100, 100]
+            );
+            await expect(
+                relayNode.connect(nonOwner).claimRefund(ethers.ZeroAddress)
+            ).to.changeEtherBalances([relayNode, nonOwner], [-300, 300]);
+        });
 
-                //verify the relay was paid
-                let newRelayBalance = await testUtil.getBalance(
-                    relayNode.target,
-                    testToken1.target
-                );
-                let newPayerBalance = await testUtil.getBalance(
-                    testUtil.payers[0].address,
-                    testToken1.target
-                );
-                expect(newRelayBalance).to.equal(
-                    initialRelayBalance + BigInt(amount1)
-                );
-                expect(newPayerBalance).to.equal(
-                    initialPayerBalance - BigInt(amount1)
-                );
+        it('refunds token transfers of unknown sender to the participant who pledged them', async function () {
+            relayNode = await deployRelayNode(escrowId);
+            await completeEscrow();
+            await sendToRelayNode(nonOwner, 100, testToken1.target);
+
+            await expect(relayNode.relay()).to.changeTokenBalances(
+                testToken1,
+                [relayNode, testUtil.receivers[0]],
+                [-100, 100]
+            );
+        });
 
-                //pump the relay
-                await relayNode.refundAll(testToken1.target);
+        it('can be deployed after the escrow completes, to refund what was sent to its address', async function () {
+            const predicted = await polyEscrow.predictRelayNodeAddress(
+                escrowId,
+                0
+            );
+            await testToken1.connect(nonOwner).transfer(predicted, 100);
+            await nonOwner.sendTransaction({ to: predicted, value: 300 });
+            await completeEscrow();
+
+            //their senders are unknown, so they go to the participants who pledged them
+            const tx = polyEscrow.deployRelayNode(escrowId, false);
+            await expect(tx).to.changeTokenBalances(
+                testToken1,
+                [predicted, testUtil.receivers[0]],
+                [-100, 100]
+            );
+            await expect(tx).to.changeEtherBalances(
+                [predicted, testUtil.receivers[1]],
+                [-300, 300]
+            );
+        });
 
-                //check the balances
-                newRelayBalance = await testUtil.getBalance(
-                    relayNode.target,
-                    testToken1.target
-                );
-                newPayerBalance = await testUtil.getBalance(
-                    testUtil.payers[0].address,
-                    testToken1.target
-                );
-                let newEscrowBalance = await testUtil.getBalance(
-                    polyEscrow.target,
-                    testToken1.target
-                );
+        it('rejects token deposits once the escrow completes', async function () {
+            relayNode = await deployRelayNode(escrowId);
+            await completeEscrow();
 
-                expect(newRelayBalance).to.equal(0);
-                expect(newPayerBalance).to.equal(initialPayerBalance);
-                expect(newEscrowBalance).to.equal(initialEscrowBalance);
+            await testToken1.connect(nonOwner).approve(relayNode.target, 100);
+            await expect(
+                relayNode.connect(nonOwner).deposit(testToken1.target, 100)
+            ).to.be.revertedWith('InvalidEscrowState');
+        });
+    });
 
-                //verify escrow
-                await getAndVerifyEscrow(escrowId, {
-                    primaryLeg: {
-                        participantAddress: testUtil.receivers[0].address,
-                        paymentType: PaymentType.ERC20,
-                        currency: testToken1.target,
-                        amountPledged: amount1,
-                        amountPaid: 0,
-                        amountReleased: 0,
-                        amountRefunded: 0,
-                    },
-                    secondaryLeg: {
-                        participantAddress: testUtil.receivers[1].address,
-                        paymentType: PaymentType.Native,
-                        currency: ethers.ZeroAddress,
-                        amountPledged: amount2,
-                        amountPaid: 0,
-                        amountReleased: 0,
-                        amountRefunded: 0,
-                    },
-                    startTime: 0,
-                    endTime: 0,
-                    status: EscrowStatus.Active,
-                });
+    describe('NFTs', function () {
+        const nftEscrowId = ethers.keccak256('0x03');
+        let testNft: any;
+        let payer: HardhatEthersSigner;
+
+        async function createNftEscrow(tokenId: bigint = 7n) {
+            await testUtil.createEscrow(
+                nftEscrowId,
+                testUtil.payers[0],
+                {
+                    participantAddress: testUtil.receivers[0].address,
+                    paymentType: PaymentType.ERC20,
+                    currency: testToken1.target,
+                    amount: amount1,
+                },
+                {
+                    participantAddress: testUtil.receivers[1].address,
+                    paymentType: PaymentType.ERC721,
+                    currency: testNft.target,
+                    amount: 1,
+                    tokenId,
+                }
+            );
+            relayNode = await deployRelayNode(nftEscrowId);
+        }
+
+        async function safeTransferToRelayNode(tokenId: bigint) {
+            await testNft
+                .connect(payer)
+                [
+                    'safeTransferFrom(address,address,uint256)'
+                ](payer.address, relayNode.target, tokenId);
+        }
+
+        this.beforeEach(async () => {
+            payer = testUtil.payers[1];
+            testNft = await (
+                await hre.ethers.getContractFactory('TestNft')
+            ).deploy('ABC', 'ABC');
+            await testNft.mint(payer, 7);
+            await testNft.mint(payer, 8);
+        });
+
+        it('can relay an NFT sent with safeTransferFrom', async function () {
+            await createNftEscrow();
+            await safeTransferToRelayNode(7n);
+            expect(await relayNode.nftSenders(testNft.target, 7)).to.equal(
+                payer.address
+            );
+
+            await relayNode.relay();
+
+            expect(await testNft.ownerOf(7)).to.equal(polyEscrow.target);
+            expect(await relayNode.nftSenders(testNft.target, 7)).to.equal(
+                ethers.ZeroAddress
+            );
+            await getAndVerifyEscrow(nftEscrowId, {
+                primaryLeg: { amountPaid: 0 },
+                status: EscrowStatus.Active,
             });
+            const escrow = await testUtil.getEscrow(nftEscrowId);
+            expect(escrow.secondaryLeg.amountPaid).to.equal(1n);
+        });
 
-            //can refund native
-            it('can refund native', async function () {
-                const isToken: boolean = true;
+        it('can relay an NFT sent with transferFrom', async function () {
+            await createNftEscrow();
+            await testNft
+                .connect(payer)
+                .transferFrom(payer.address, relayNode.target, 7);
 
-                //deploy relay node without auto-forwarding (or this won't work)
-                relayNode = await deployRelayNode(escrowId, false);
+            await relayNode.relay();
+            expect(await testNft.ownerOf(7)).to.equal(polyEscrow.target);
+        });
 
-                expect(await relayNode.escrowId()).to.equal(escrowId);
+        it('completes the escrow when the NFT is relayed last', async function () {
+            await createNftEscrow();
+            await testUtil.placePayment(
+                nftEscrowId,
+                testUtil.payers[0],
+                amount1,
+                testToken1.target
+            );
+
+            await safeTransferToRelayNode(7n);
+            await relayNode.relay();
+
+            expect((await testUtil.getEscrow(nftEscrowId)).status).to.equal(
+                EscrowStatus.Completed
+            );
+            expect(await testNft.ownerOf(7)).to.equal(
+                testUtil.receivers[0].address
+            );
+        });
 
-                //initial balances
-                const initialRelayBalance = await testUtil.getBalance(
-                    relayNode.target
-                );
-                const initialPayerBalance = await testUtil.getBalance(
-                    testUtil.payers[0].address
-                );
-                const initialEscrowBalance = await testUtil.getBalance(
-                    polyEscrow.target
-                );
+        it('rejects NFTs which the escrow does not pledge', async function () {
+            await createNftEscrow();
+            await expect(safeTransferToRelayNode(8n)).to.be.revertedWith(
+                'InvalidToken'
+            );
+
+            //the same token id, from another collection
+            const otherNft = await (
+                await hre.ethers.getContractFactory('TestNft')
+            ).deploy('XYZ', 'XYZ');
+            await otherNft.mint(payer, 7);
+            await expect(
+                otherNft
+                    .connect(payer)
+                    [
+                        'safeTransferFrom(address,address,uint256)'
+                    ](payer.address, relayNode.target, 7)
+            ).to.be.revertedWith('InvalidToken');
+        });
 
-                //verify escrow
-                await getAndVerifyEscrow(escrowId, {
-                    primaryLeg: {
-                        participantAddress: testUtil.receivers[0].address,
-                        paymentType: PaymentType.ERC20,
-                        currency: testToken1.target,
-                        amountPledged: amount1,
-                        amountPaid: 0,
-                        amountReleased: 0,
-                        amountRefunded: 0,
-                    },
-                    secondaryLeg: {
-                        participantAddress: testUtil.receivers[1].address,
-                        paymentType: PaymentType.Native,
-                        currency: ethers.ZeroAddress,
-                        amountPledged: amount2,
-                        amountPaid: 0,
-                        amountReleased: 0,
-                        amountRefunded: 0,
-                    },
-                    startTime: 0,
-                    endTime: 0,
-                    status: EscrowStatus.Active,
-                });
+        it('still relays the other leg before the NFT exists', async function () {
+            await createNftEscrow(99n);
+            await testToken1
+                .connect(testUtil.payers[0])
+                .transfer(relayNode.target, amount1);
 
-                //pay native into the relay
-                await sendToRelayNode(
-                    testUtil.payers[0],
-                    amount1,
-                    ethers.ZeroAddress
-                );
+            await relayNode.relay();
 
-                //verify the relay was paid in native
-                let newRelayBalance = await testUtil.getBalance(
-                    relayNode.target
-                );
-                let newPayerBalance = await testUtil.getBalance(
-                    testUtil.payers[0].address
-                );
-                expect(newRelayBalance).to.equal(
-                    initialRelayBalance + BigInt(amount1)
-                );
+            const escrow = await testUtil.getEscrow(nftEscrowId);
+            expect(escrow.primaryLeg.amountPaid).to.equal(BigInt(amount1));
+            expect(escrow.secondaryLeg.amountPaid).to.equal(0n);
+        });
 
-                //pump the relay
-                await relayNode.refundAll(ethers.ZeroAddress);
+        it('refunds an NFT to whoever sent it', async function () {
+            await createNftEscrow();
+            await safeTransferToRelayNode(7n);
 
-                //check the balances
-                newRelayBalance = await testUtil.getBalance(relayNode.target);
-                newPayerBalance = await testUtil.getBalance(
-                    testUtil.payers[0].address
-                );
-                let newEscrowBalance = await testUtil.getBalance(
-                    polyEscrow.target
-                );
+            await relayNode.refundLeg(testNft.target);
 
-                expect(newRelayBalance).to.equal(0);
-                expect(newPayerBalance).to.equal(initialPayerBalance);
-                expect(newEscrowBalance).to.equal(initialEscrowBalance);
+            expect(await testNft.ownerOf(7)).to.equal(payer.address);
+            expect(await relayNode.nftSenders(testNft.target, 7)).to.equal(
+                ethers.ZeroAddress
+            );
+        });
 
-                //verify escrow
-                await getAndVerifyEscrow(escrowId, {
-                    primaryLeg: {
-                        participantAddress: testUtil.receivers[0].address,
-                        paymentType: PaymentType.ERC20,
-                        currency: testToken1.target,
-                        amountPledged: amount1,
-                        amountPaid: 0,
-                        amountReleased: 0,
-                        amountRefunded: 0,
-                    },
-                    secondaryLeg: {
-                        participantAddress: testUtil.receivers[1].address,
-                        paymentType: PaymentType.Native,
-                        currency: ethers.ZeroAddress,
-                        amountPledged: amount2,
-                        amountPaid: 0,
-                        amountReleased: 0,
-                        amountRefunded: 0,
-                    },
-                    startTime: 0,
-                    endTime: 0,
-                    status: EscrowStatus.Active,
-                });
-            });
+        it('refunds an NFT of unknown sender to the participant who pledged it', async function () {
+            await createNftEscrow();
+            await testNft
+                .connect(payer)
+                .transferFrom(payer.address, relayNode.target, 7);
 
-            it('refund a different token', async function () {
-                //deploy relay node without auto-forwarding (or this won't work)
-                relayNode = await deployRelayNode(escrowId, false);
+            await relayNode.refundAll();
 
-                expect(await relayNode.escrowId()).to.equal(escrowId);
+            expect(await testNft.ownerOf(7)).to.equal(
+                testUtil.receivers[1].address
+            );
+        });
+    });
 
-                //initial balances
-                const initialRelayBalance = await testUtil.getBalance(
-                    relayNode.target,
-                    otherToken
-                );
-                const initialPayerBalance = await testUtil.getBalance(
-                    testUtil.payers[0].address,
-                    otherToken
-                );
-                const initialEscrowBalance = await testUtil.getBalance(
-                    polyEscrow.target,
-                    otherToken
+    describe('Refund', function () {
+        let payer1: HardhatEthersSigner;
+        let payer2: HardhatEthersSigner;
+
+        this.beforeEach(async () => {
+            [payer1, payer2] = testUtil.payers;
+
+            //native isn't forwarded, so that it can be refunded
+            relayNode = await deployRelayNode(escrowId, false);
+        });
+
+        describe('Happy Paths', function () {
+            it('can refund token', async function () {
+                await depositToRelayNode(payer1, amount1);
+                expect(
+                    await relayNode.depositOf(testToken1.target, payer1.address)
+                ).to.equal(amount1);
+
+                await expect(
+                    relayNode.connect(payer1).claimRefund(testToken1.target)
+                ).to.changeTokenBalances(
+                    testToken1,
+                    [relayNode, payer1],
+                    [-amount1, amount1]
                 );
+                expect(
+                    await relayNode.depositOf(testToken1.target, payer1.address)
+                ).to.equal(0);
 
-                //verify escrow
+                //the escrow is untouched
                 await getAndVerifyEscrow(escrowId, {
                     primaryLeg: {
                         participantAddress: testUtil.receivers[0].address,
@@ -926,127 +1135,321 @@ describe('RelayNode', function () {
                     },
                     startTime: 0,
                     endTime: 0,
-                    status: EscrowStatus.Active,
+                    status: EscrowStatus.Pending,
                 });
+            });
 
-                //pay native into the relay
-                const tx = await otherToken
-                    .connect(testUtil.payers[1])
-                    .transfer(relayNode.target, amount1);
-                await tx.wait();
+            it('can refund native', async function () {
+                await sendToRelayNode(payer1, amount2, ethers.ZeroAddress);
+                expect(
+                    await relayNode.depositOf(
+                        ethers.ZeroAddress,
+                        payer1.address
+                    )
+                ).to.equal(amount2);
 
-                //verify the relay was paid in native
-                let newRelayBalance = await testUtil.getBalanceOf(
-                    relayNode.target,
-                    otherToken
+                await expect(
+                    relayNode.connect(payer1).claimRefund(ethers.ZeroAddress)
+                ).to.changeEtherBalances(
+                    [relayNode, payer1, testUtil.receivers[0]],
+                    [-amount2, amount2, 0]
                 );
-                let newPayerBalance = await testUtil.getBalanceOf(
-                    testUtil.payers[0].address,
-                    otherToken
+            });
+
+            it('refunds each depositor what they deposited', async function () {
+                await depositToRelayNode(payer1, 100);
+                await depositToRelayNode(payer2, 300);
+                await depositToRelayNode(payer1, 50);
+
+                await expect(
+                    relayNode.connect(payer1).claimRefund(testToken1.target)
+                ).to.changeTokenBalances(
+                    testToken1,
+                    [relayNode, payer1, payer2],
+                    [-150, 150, 0]
                 );
-                expect(newRelayBalance).to.equal(
-                    initialRelayBalance + BigInt(amount1)
+                await expect(
+                    relayNode.connect(payer2).claimRefund(testToken1.target)
+                ).to.changeTokenBalances(
+                    testToken1,
+                    [relayNode, payer1, payer2],
+                    [-300, 0, 300]
                 );
+            });
 
-                //pump the relay
-                await relayNode.refundAll(otherToken.target);
+            it('refunds tokens of unknown sender to the participant who pledged them', async function () {
+                await depositToRelayNode(payer2, 100);
+                await sendToRelayNode(payer1, 200, testToken1.target);
 
-                //check the balances
-                newRelayBalance = await testUtil.getBalanceOf(
-                    relayNode.target,
-                    otherToken
-                );
-                newPayerBalance = await testUtil.getBalanceOf(
-                    testUtil.payers[0].address,
-                    otherToken
+                //the deposit is left for its sender to claim
+                await expect(
+                    relayNode.refundLeg(testToken1.target)
+                ).to.changeTokenBalances(
+                    testToken1,
+                    [relayNode, payer1, payer2, testUtil.receivers[0]],
+                    [-200, 0, 0, 200]
+                );
+                expect(
+                    await relayNode.depositOf(testToken1.target, payer2.address)
+                ).to.equal(100);
+            });
+
+            it('refunds nothing which has been relayed', async function () {
+                await depositToRelayNode(payer1, 100);
+                await relayNode.relay();
+                expect(
+                    await relayNode.depositOf(testToken1.target, payer1.address)
+                ).to.equal(0);
+
+                await depositToRelayNode(payer2, 50);
+                await expect(
+                    relayNode.connect(payer1).claimRefund(testToken1.target)
+                ).to.be.revertedWith('ZeroBalance');
+                await expect(
+                    relayNode.connect(payer2).claimRefund(testToken1.target)
+                ).to.changeTokenBalances(
+                    testToken1,
+                    [relayNode, payer1, payer2],
+                    [-50, 0, 50]
                 );
-                let newEscrowBalance = await testUtil.getBalanceOf(
-                    polyEscrow.target,
-                    otherToken
+
+                const escrow = convertEscrow(
+                    await polyEscrow.getEscrow(escrowId)
                 );
+                expect(escrow.primaryLeg.amountPaid).to.equal(100);
+            });
 
-                expect(newRelayBalance).to.equal(0);
+            it('lets each depositor claim their own refund', async function () {
+                await depositToRelayNode(payer1, 100);
+                await depositToRelayNode(payer2, 300);
+                await sendToRelayNode(payer2, 500, ethers.ZeroAddress);
 
-                //important note: the balance is refunded to the escrow payer,
-                // even though he didn't pay the actual bill
-                expect(newPayerBalance).to.equal(
-                    initialPayerBalance + BigInt(amount1)
+                await expect(
+                    relayNode.connect(payer2).claimRefund(testToken1.target)
+                ).to.changeTokenBalances(
+                    testToken1,
+                    [relayNode, payer1, payer2],
+                    [-300, 0, 300]
                 );
-                expect(newEscrowBalance).to.equal(initialEscrowBalance);
+                await expect(
+                    relayNode.connect(payer2).claimRefund(ethers.ZeroAddress)
+                ).to.changeEtherBalances([relayNode, payer2], [-500, 500]);
+
+                //the other deposit is still held, to relay or refund
+                expect(
+                    await relayNode.depositOf(testToken1.target, payer1.address)
+                ).to.equal(100);
+                expect(
+                    await relayNode.depositOf(testToken1.target, payer2.address)
+                ).to.equal(0);
+            });
 
-                //verify escrow
-                await getAndVerifyEscrow(escrowId, {
-                    primaryLeg: {
-                        participantAddress: testUtil.receivers[0].address,
-                        paymentType: PaymentType.ERC20,
-                        currency: testToken1.target,
-                        amountPledged: amount1,
-                        amountPaid: 0,
-                        amountReleased: 0,
-                        amountRefunded: 0,
-                    },
-                    secondaryLeg: {
-                        participantAddress: testUtil.receivers[1].address,
-                        paymentType: PaymentType.Native,
-                        currency: ethers.ZeroAddress,
-                        amountPledged: amount2,
-                        amountPaid: 0,
-                        amountReleased: 0,
-                        amountRefunded: 0,
-                    },
-                    startTime: 0,
-                    endTime: 0,
-                    status: EscrowStatus.Active,
-                });
+            it('is not held up by a sender which cannot receive its refund', async function () {
+                //a contract without a receive function deposits a single wei
+                const receiver =
+                    await hre.ethers.deployContract('ReentrantReceiver');
+                await receiver.execute(relayNode.target, '0x', { value: 1 });
+                await sendToRelayNode(payer1, 500, ethers.ZeroAddress);
+
+                await relayNode.refundAll();
+                await relayNode.refundLeg(ethers.ZeroAddress);
+                await relayNode.connect(admin).retire();
+                await relayNode.relay();
+
+                await expect(
+                    relayNode.connect(payer1).claimRefund(ethers.ZeroAddress)
+                ).to.changeEtherBalances([relayNode, payer1], [-500, 500]);
+                await expect(
+                    receiver.execute(
+                        relayNode.target,
+                        relayNode.interface.encodeFunctionData('claimRefund', [
+                            ethers.ZeroAddress,
+                        ])
+                    )
+                ).to.be.revertedWith('PaymentTransferFailed');
+            });
+
+            it('does not refund a currency the escrow does not use', async function () {
+                await testToken2
+                    .connect(payer2)
+                    .transfer(relayNode.target, amount1);
+
+                await relayNode.refundAll();
+                await relayNode.refundLeg(testToken2.target);
+
+                expect(await testToken2.balanceOf(relayNode.target)).to.equal(
+                    amount1
+                );
             });
         });
 
         describe('Exceptions', function () {
-            //can refund native
-            it('auto-forwarding prevents native payment for token escrows', async function () {
-                const isToken: boolean = true;
-
-                //deploy relay node with auto forwarding
-                relayNode = await deployRelayNode(escrowId, true);
+            it('only takes deposits in the escrow token', async function () {
+                await testToken2
+                    .connect(payer1)
+                    .approve(relayNode.target, amount1);
 
-                expect(await relayNode.escrowId()).to.equal(escrowId);
+                await expect(
+                    relayNode.connect(payer1).deposit(testToken2.target, 100)
+                ).to.be.revertedWith('InvalidCurrency');
+                await expect(
+                    relayNode.connect(payer1).deposit(ethers.ZeroAddress, 100)
+                ).to.be.revertedWith('InvalidCurrency');
+                await expect(
+                    relayNode.connect(payer1).deposit(testToken1.target, 0)
+                ).to.be.revertedWith('InvalidAmount');
+            });
 
-                //verify escrow
-                await getAndVerifyEscrow(escrowId, {
-                    primaryLeg: {
-                        participantAddress: testUtil.receivers[0].address,
-                        paymentType: PaymentType.ERC20,
-                        currency: testToken1.target,
-                        amountPledged: amount1,
-                        amountPaid: 0,
-                        amountReleased: 0,
-                        amountRefunded: 0,
-                    },
-                    secondaryLeg: {
-                        participantAddress: testUtil.receivers[1].address,
-                        paymentType: PaymentType.Native,
-                        currency: ethers.ZeroAddress,
-                        amountPledged: amount2,
-                        amountPaid: 0,
-                        amountReleased: 0,
-                        amountRefunded: 0,
-                    },
-                    startTime: 0,
-                    endTime: 0,
-                    status: EscrowStatus.Active,
-                });
+            it('cannot claim a refund without a deposit', async function () {
+                await depositToRelayNode(payer1, 100);
 
-                //pay native into the relay
                 await expect(
-                    sendToRelayNode(
-                        testUtil.payers[0],
-                        amount2,
-                        ethers.ZeroAddress
-                    )
+                    relayNode.connect(payer2).claimRefund(testToken1.target)
                 ).to.be.revertedWith('ZeroBalance');
+                await expect(
+                    relayNode.connect(payer1).claimRefund(testToken2.target)
+                ).to.be.revertedWith('InvalidCurrency');
+            });
+
+            it('cannot refund while paused', async function () {
+                await depositToRelayNode(payer1, 100);
+                await relayNode.connect(admin).pause();
+
+                await expect(relayNode.refundAll()).to.be.revertedWith(
+                    'Paused'
+                );
+                await expect(
+                    relayNode.connect(payer1).claimRefund(testToken1.target)
+                ).to.be.revertedWith('Paused');
+            });
+        });
+
+        describe('Events', function () {
+            it('emits Deposited', async function () {
+                await testToken1.connect(payer1).approve(relayNode.target, 100);
+                await expect(
+                    relayNode.connect(payer1).deposit(testToken1.target, 100)
+                )
+                    .to.emit(relayNode, 'Deposited')
+                    .withArgs(testToken1.target, payer1.address, 100);
+
+                await expect(
+                    payer2.sendTransaction({ to: relayNode.target, value: 200 })
+                )
+                    .to.emit(relayNode, 'Deposited')
+                    .withArgs(ethers.ZeroAddress, payer2.address, 200);
+            });
+
+            it('emits Refunded', async function () {
+                await depositToRelayNode(payer1, 100);
+                await sendToRelayNode(payer2, 200, testToken1.target);
+
+                await expect(relayNode.refundAll())
+                    .to.emit(relayNode, 'Refunded')
+                    .withArgs(
+                        testToken1.target,
+                        testUtil.receivers[0].address,
+                        200
+                    );
+                await expect(
+                    relayNode.connect(payer1).claimRefund(testToken1.target)
+                )
+                    .to.emit(relayNode, 'Refunded')
+                    .withArgs(testToken1.target, payer1.address, 100);
             });
         });
+    });
+
+    describe('Retirement', function () {
+        let payer1: HardhatEthersSigner;
+        let payer2: HardhatEthersSigner;
+
+        this.beforeEach(async () => {
+            [payer1, payer2] = testUtil.payers;
+            relayNode = await deployRelayNode(escrowId, false);
+        });
+
+        it('refunds what it holds when retired', async function () {
+            await depositToRelayNode(payer1, 100);
+            await sendToRelayNode(payer2, 200, ethers.ZeroAddress);
+            await sendToRelayNode(payer2, 300, testToken1.target);
+
+            //deposits are left for their senders to claim
+            const tx = relayNode.connect(admin).retire();
+            await expect(tx).to.changeTokenBalances(
+                testToken1,
+                [relayNode, payer1, testUtil.receivers[0]],
+                [-300, 0, 300]
+            );
+            expect(await relayNode.retired()).to.be.true;
+
+            await expect(
+                relayNode.connect(payer1).claimRefund(testToken1.target)
+            ).to.changeTokenBalances(
+                testToken1,
+                [relayNode, payer1],
+                [-100, 100]
+            );
+            await expect(
+                relayNode.connect(payer2).claimRefund(ethers.ZeroAddress)
+            ).to.changeEtherBalances([relayNode, payer2], [-200, 200]);
+        });
 
-        describe('Events', function () {});
+        it('rejects payments once retired', async function () {
+            await relayNode.connect(admin).retire();
+
+            await testToken1.connect(payer1).approve(relayNode.target, 100);
+            await expect(
+                relayNode.connect(payer1).deposit(testToken1.target, 100)
+            ).to.be.revertedWith('RelayNodeRetired');
+            await expect(
+                sendToRelayNode(payer2, 200, ethers.ZeroAddress)
+            ).to.be.revertedWith('RelayNodeRetired');
+        });
+
+        it('refunds token transfers which arrive after it is retired', async function () {
+            await relayNode.connect(admin).retire();
+            await sendToRelayNode(payer1, 100, testToken1.target);
+
+            await expect(relayNode.relay()).to.changeTokenBalances(
+                testToken1,
+                [relayNode, testUtil.receivers[0]],
+                [-100, 100]
+            );
+            const escrow = convertEscrow(await polyEscrow.getEscrow(escrowId));
+            expect(escrow.primaryLeg.amountPaid).to.equal(0);
+        });
+
+        it("lists retired relay nodes among the escrow's relay nodes", async function () {
+            const second = await deployRelayNode(escrowId);
+            await relayNode.connect(admin).retire();
+
+            expect(await polyEscrow.getRelayNodes(escrowId)).to.deep.equal([
+                relayNode.target,
+                second.target,
+            ]);
+            expect(
+                await polyEscrow.getRelayNodes(ethers.keccak256('0x02'))
+            ).to.deep.equal([]);
+        });
+
+        it('can only be retired by the system', async function () {
+            await expect(relayNode.connect(nonOwner).retire())
+                .to.be.revertedWithCustomError(relayNode, 'UnauthorizedAccess')
+                .withArgs(ethers.id('SYSTEM_ROLE'), nonOwner.address);
+        });
+
+        it('cannot be retired twice', async function () {
+            await relayNode.connect(admin).retire();
+            await expect(relayNode.connect(admin).retire()).to.be.revertedWith(
+                'RelayNodeRetired'
+            );
+        });
+
+        it('emits Retired', async function () {
+            await expect(relayNode.connect(admin).retire())
+                .to.emit(relayNode, 'Retired')
+                .withArgs(admin.address);
+        });
     });
 });
@@ -0,0 +1,70 @@
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+import { PolyEscrowClient } from '../client';
+import { PaymentType, deployPolyEscrowStack } from './util';
+
+//run with REPORT_GAS=true for hardhat-gas-reporter's table of deployRelayNode, and of RelayNode deployments
+describe('Relay Node Gas', function () {
+    let securityContext: any;
+    let polyEscrow: any;
+    let escrowClient: PolyEscrowClient;
+
+    const escrowId = ethers.keccak256('0x01');
+
+    this.beforeEach(async () => {
+        const signers = await hre.ethers.getSigners();
+
+        ({ securityContext, polyEscrow } = await deployPolyEscrowStack({
+            SystemSettingsModule: {
+                vaultAddress: signers[2].address,
+                feeBps: 0,
+            },
+        }));
+
+        const testToken: any = await (
+            await hre.ethers.getContractFactory('TestToken')
+        ).deploy('ABC', 'ABC');
+
+        escrowClient = new PolyEscrowClient(polyEscrow.target, signers[0]);
+        await escrowClient.createEscrow({
+            id: escrowId,
+            primaryLeg: {
+                participantAddress: signers[3].address,
+                currency: ethers.ZeroAddress,
+                paymentType: PaymentType.Native,
+                amount: 100,
+            },
+            secondaryLeg: {
+                participantAddress: signers[4].address,
+                currency: testToken.target,
+                paymentType: PaymentType.ERC20,
+                amount: 100,
+            },
+        });
+    });
+
+    it('deploys relay nodes for a fraction of the gas of a full copy', async function () {
+        //what each relay node cost when it was a full copy of the bytecode
+        const fullCopy = await (
+            await hre.ethers.getContractFactory('RelayNode')
+        ).deploy(securityContext.target);
+        const fullCopyGas = (await fullCopy.deploymentTransaction()!.wait())!
+            .gasUsed;
+
+        const tx = await polyEscrow.deployRelayNode(escrowId, true);
+        const cloneGas = (await tx.wait()).gasUsed;
+
+        expect(cloneGas * 5n).to.be.lessThan(fullCopyGas);
+    });
+
+    it('costs the same to deploy every relay node of an escrow', async function () {
+        const gasUsed: bigint[] = [];
+        for (let n = 0; n < 3; n++) {
+            const tx = await polyEscrow.deployRelayNode(escrowId, n % 2 == 0);
+            gasUsed.push((await tx.wait()).gasUsed);
+        }
+
+        //each node adds a storage slot to the escrow's list, and nothing else
+        expect(gasUsed[2]).to.be.lessThan((gasUsed[0] * 11n) / 10n);
+    });
+});
@@ -0,0 +1,511 @@
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import {
+    CreateEscrowInput,
+    PermitSignature,
+    PolyEscrowClient,
+    SignedIntent,
+    encodeCreateEscrowInput,
+    signPermit,
+} from '../client';
+import { IntentRelayer, RelayerServer } from '../services/relayer';
+import {
+    EscrowStatus,
+    PaymentType,
+    deployPolyEscrowStack,
+    checkEscrowInvariantsAfterEachTransaction,
+} from './util';
+
+const ONE_DAY = 86400;
+
+describe('Signed Intents', function () {
+    checkEscrowInvariantsAfterEachTransaction();
+
+    let polyEscrow: any;
+    let permitToken: any;
+    let relayerAccount: HardhatEthersSigner; //submits intents and pays the gas
+    let partyB: HardhatEthersSigner; //pays native into the secondary leg
+    let outsider: HardhatEthersSigner;
+    let payer: any; //pays permit tokens into the primary leg; holds no native currency
+    let payerClient: PolyEscrowClient;
+    let relayerClient: PolyEscrowClient;
+
+    const escrowId = ethers.keccak256('0x01');
+
+    function escrowInput(id: string = escrowId): CreateEscrowInput {
+        return {
+            id,
+            primaryLeg: {
+                participantAddress: payer.address,
+                currency: permitToken.target,
+                paymentType: PaymentType.ERC20,
+                amount: 1000,
+            },
+            secondaryLeg: {
+                participantAddress: partyB.address,
+                currency: ethers.ZeroAddress,
+                paymentType: PaymentType.Native,
+                amount: 500,
+            },
+        };
+    }
+
+    async function deadlineIn(seconds: number) {
+        return BigInt((await time.latest()) + seconds);
+    }
+
+    //the payer's permit for the escrow contract to take the amount
+    async function signPaymentPermit(amount: number) {
+        return await signPermit(
+            payer,
+            permitToken.target,
+            polyEscrow.target,
+            amount,
+            await deadlineIn(ONE_DAY)
+        );
+    }
+
+    //the payer approves the escrow contract with a permit, which a third party submits
+    async function approveWithPermit(amount: number) {
+        const permit = await signPaymentPermit(amount);
+        const { v, r, s } = ethers.Signature.from(permit.signature);
+        await permitToken
+            .connect(outsider)
+            .permit(
+                payer.address,
+                polyEscrow.target,
+                amount,
+                permit.deadline,
+                v,
+                r,
+                s
+            );
+    }
+
+    async function signPayment(
+        amount: number,
+        nonce?: bigint,
+        permit?: PermitSignature
+    ) {
+        return await payerClient.signIntent(
+            {
+                type: 'placePayment',
+                payment: { escrowId, currency: permitToken.target, amount },
+                permit,
+            },
+            await deadlineIn(ONE_DAY),
+            nonce
+        );
+    }
+
+    this.beforeEach(async () => {
+        const signers = await hre.ethers.getSigners();
+        relayerAccount = signers[5];
+        partyB = signers[4];
+        outsider = signers[12];
+
+        ({ polyEscrow } = await deployPolyEscrowStack({
+            SystemSettingsModule: {
+                vaultAddress: signers[2].address,
+                feeBps: 0,
+            },
+        }));
+
+        permitToken = await (
+            await hre.ethers.getContractFactory('TestPermitToken')
+        ).deploy('ABC', 'ABC');
+
+        payer = ethers.Wallet.createRandom().connect(ethers.provider);
+        await permitToken.mint(payer.address, 10000);
+
+        payerClient = new PolyEscrowClient(polyEscrow.target, payer);
+        relayerClient = new PolyEscrowClient(polyEscrow.target, relayerAccount);
+    });
+
+    describe('Contract', function () {
+        it('creates an escrow with a participant signature', async function () {
+            const signed = await payerClient.signIntent(
+                { type: 'createEscrow', input: escrowInput() },
+                await deadlineIn(ONE_DAY)
+            );
+            expect(signed.nonce).to.equal(0n);
+
+            await relayerClient.submitIntent(signed);
+            expect(await relayerClient.hasEscrow(escrowId)).to.be.true;
+            expect(await relayerClient.getNonce(payer.address)).to.equal(1n);
+        });
+
+        it('only creates escrows signed by a participant', async function () {
+            const signed = await new PolyEscrowClient(
+                polyEscrow.target,
+                outsider
+            ).signIntent(
+                { type: 'createEscrow', input: escrowInput() },
+                await deadlineIn(ONE_DAY)
+            );
+            await expect(relayerClient.submitIntent(signed)).to.be.revertedWith(
+                'Unauthorized'
+            );
+        });
+
+        it('rejects an altered input', async function () {
+            const signed = await payerClient.signIntent(
+                { type: 'createEscrow', input: escrowInput() },
+                await deadlineIn(ONE_DAY)
+            );
+            const input = escrowInput();
+            input.secondaryLeg.amount = 1;
+
+            await expect(
+                polyEscrow
+                    .connect(relayerAccount)
+                    .createEscrowWithSignature(
+                        encodeCreateEscrowInput(input),
+                        payer.address,
+                        signed.deadline,
+                        signed.signature
+                    )
+            ).to.be.revertedWith('InvalidSignature');
+        });
+
+        it('pays from the signer with their permit, paid for by the relayer', async function () {
+            await relayerClient.createEscrow(escrowInput());
+            const permit = await signPaymentPermit(400);
+            const signed = await signPayment(400, undefined, permit);
+            const { v, r, s } = ethers.Signature.from(permit.signature);
+
+            const tx = polyEscrow
+                .connect(relayerAccount)
+                .placePaymentWithSignatureAndPermit(
+                    { escrowId, currency: permitToken.target, amount: 400 },
+                    payer.address,
+                    signed.deadline,
+                    signed.signature,
+                    { deadline: permit.deadline, v, r, s }
+                );
+            await expect(tx)
+                .to.emit(polyEscrow, 'PaymentReceived')
+                .withArgs(
+                    escrowId,
+                    payer.address,
+                    permitToken.target,
+                    PaymentType.ERC20,
+                    400
+                );
+            await expect(tx).to.changeTokenBalances(
+                permitToken,
+                [payer, polyEscrow],
+                [-400, 400]
+            );
+
+            const escrow = await relayerClient.getEscrow(escrowId);
+            expect(escrow.status).to.equal(EscrowStatus.Active);
+            expect(escrow.primaryLeg.amountPaid).to.equal(400n);
+            expect(await ethers.provider.getBalance(payer.address)).to.equal(
+                0n
+            );
+        });
+
+        it('pays even if the permit was submitted already', async function () {
+            await relayerClient.createEscrow(escrowInput());
+            const permit = await signPaymentPermit(400);
+            const signed = await signPayment(400, undefined, permit);
+            await approveWithPermit(400);
+
+            //the permit's nonce has been used, so the contract can't submit it again
+            await relayerClient.submitIntent(signed);
+            expect(
+                (await relayerClient.getEscrow(escrowId)).primaryLeg.amountPaid
+            ).to.equal(400n);
+        });
+
+        it('rejects an expired or replayed signature', async function () {
+            await relayerClient.createEscrow(escrowInput());
+            await approveWithPermit(1000);
+
+            const signed = await signPayment(400);
+            await relayerClient.submitIntent(signed);
+            await expect(relayerClient.submitIntent(signed)).to.be.revertedWith(
+                'InvalidSignature'
+            );
+
+            const expiring = await signPayment(400);
+            await time.increaseTo(expiring.deadline + 1n);
+            await expect(
+                relayerClient.submitIntent(expiring)
+            ).to.be.revertedWith('SignatureExpired');
+        });
+
+        it('rejects a payment signed by someone else', async function () {
+            await relayerClient.createEscrow(escrowInput());
+            await approveWithPermit(400);
+            const signed = await new PolyEscrowClient(
+                polyEscrow.target,
+                outsider
+            ).signIntent(
+                {
+                    type: 'placePayment',
+                    payment: {
+                        escrowId,
+                        currency: permitToken.target,
+                        amount: 400,
+                    },
+                },
+                await deadlineIn(ONE_DAY)
+            );
+
+            await expect(
+                relayerClient.submitIntent({ ...signed, signer: payer.address })
+            ).to.be.revertedWith('InvalidSignature');
+        });
+
+        it('cannot pay native currency', async function () {
+            await relayerClient.createEscrow(escrowInput());
+            const signed = await new PolyEscrowClient(
+                polyEscrow.target,
+                partyB
+            ).signIntent(
+                {
+                    type: 'placePayment',
+                    payment: {
+                        escrowId,
+                        currency: ethers.ZeroAddress,
+                        amount: 500,
+                    },
+                },
+                await deadlineIn(ONE_DAY)
+            );
+
+            await expect(relayerClient.submitIntent(signed)).to.be.revertedWith(
+                'InvalidAmount'
+            );
+        });
+
+        it("refunds a relay node with a participant's signature", async function () {
+            await relayerClient.createEscrow(escrowInput());
+            const relayNode = await relayerClient.deployRelayNode(escrowId);
+            await permitToken.connect(relayerAccount).mint(relayNode, 300);
+
+            const intent = {
+                type: 'relayRefund' as const,
+                relayNode,
+                currency: permitToken.target,
+            };
+            const fromOutsider = await new PolyEscrowClient(
+                polyEscrow.target,
+                outsider
+            ).signIntent(intent, await deadlineIn(ONE_DAY));
+            await expect(
+                relayerClient.submitIntent(fromOutsider)
+            ).to.be.revertedWith('Unauthorized');
+
+            await relayerClient.submitIntent(
+                await payerClient.signIntent(intent, await deadlineIn(ONE_DAY))
+            );
+            expect(await permitToken.balanceOf(relayNode)).to.equal(0n);
+        });
+
+        it('only refunds relay nodes of its own escrows', async function () {
+            await relayerClient.createEscrow(escrowInput());
+
+            //a relay node of an escrow with the same id, but of another escrow contract
+            const { polyEscrow: otherEscrow }: any =
+                await deployPolyEscrowStack({
+                    SystemSettingsModule: {
+                        vaultAddress: outsider.address,
+                        feeBps: 0,
+                    },
+                });
+            const otherClient = new PolyEscrowClient(
+                otherEscrow.target,
+                relayerAccount
+            );
+            await otherClient.createEscrow(escrowInput());
+            const relayNode = await otherClient.deployRelayNode(escrowId);
+
+            const signed = await payerClient.signIntent(
+                {
+                    type: 'relayRefund',
+                    relayNode,
+                    currency: permitToken.target,
+                },
+                await deadlineIn(ONE_DAY)
+            );
+            await expect(relayerClient.submitIntent(signed)).to.be.revertedWith(
+                'InvalidRelayNode'
+            );
+        });
+    });
+
+    describe('Relayer', function () {
+        let relayer: IntentRelayer;
+        let logged: string[];
+
+        this.beforeEach(async () => {
+            logged = [];
+            relayer = new IntentRelayer({
+                signer: relayerAccount,
+                escrowAddress: polyEscrow.target,
+                log: (message) => logged.push(message),
+            });
+        });
+
+        it('submits intents signed in advance, in nonce order', async function () {
+            const create = await payerClient.signIntent(
+                { type: 'createEscrow', input: escrowInput() },
+                await deadlineIn(ONE_DAY)
+            );
+            const pay = await signPayment(
+                1000,
+                1n,
+                await signPaymentPermit(1000)
+            );
+
+            expect(await relayer.submit(create)).to.deep.include({
+                type: 'createEscrow',
+                signer: payer.address,
+                nonce: 0n,
+            });
+            const result = await relayer.submit(pay);
+
+            expect(result.error).to.be.undefined;
+            expect(result.transactionHash).to.match(/^0x/);
+            const escrow = await relayerClient.getEscrow(escrowId);
+            expect(escrow.primaryLeg.amountPaid).to.equal(1000n);
+            expect(logged).to.have.length(2);
+        });
+
+        it('rejects intents which would fail, without sending them', async function () {
+            await relayerClient.createEscrow(escrowInput());
+            const blockNumber = await ethers.provider.getBlockNumber();
+
+            //ahead of the signer's nonce
+            expect(
+                (await relayer.submit(await signPayment(400, 1n))).error
+            ).to.equal('InvalidNonce');
+
+            //not approved
+            expect(
+                (await relayer.submit(await signPayment(400))).error
+            ).to.contain('ERC20InsufficientAllowance');
+
+            //tampered with
+            const signed = await signPayment(400);
+            const tampered: SignedIntent = {
+                ...signed,
+                intent: {
+                    type: 'placePayment',
+                    payment: {
+                        escrowId,
+                        currency: permitToken.target,
+                        amount: 1,
+                    },
+                },
+            };
+            expect((await relayer.submit(tampered)).error).to.equal(
+                'InvalidSignature'
+            );
+
+            expect(await ethers.provider.getBlockNumber()).to.equal(
+                blockNumber
+            );
+
+            //expired
+            await time.increaseTo(signed.deadline);
+            expect((await relayer.submit(signed)).error).to.equal(
+                'SignatureExpired'
+            );
+        });
+
+        it('only validates intents in dry-run mode', async function () {
+            const dryRun = new IntentRelayer({
+                signer: relayerAccount,
+                escrowAddress: polyEscrow.target,
+                dryRun: true,
+                log: () => {},
+            });
+            const result = await dryRun.submit(
+                await payerClient.signIntent(
+                    { type: 'createEscrow', input: escrowInput() },
+                    await deadlineIn(ONE_DAY)
+                )
+            );
+
+            expect(result.error).to.be.undefined;
+            expect(result.transactionHash).to.be.undefined;
+            expect(await relayerClient.hasEscrow(escrowId)).to.be.false;
+        });
+
+        describe('HTTP', function () {
+            let server: RelayerServer;
+            let baseUrl: string;
+
+            //posts an intent as JSON, with bigints as strings
+            async function post(body: any) {
+                const response = await fetch(`${baseUrl}/intents`, {
+                    method: 'POST',
+                    body: JSON.stringify(body, (_, v) =>
+                        typeof v === 'bigint' ? v.toString() : v
+                    ),
+                });
+                return { status: response.status, body: await response.json() };
+            }
+
+            this.beforeEach(async () => {
+                server = new RelayerServer(relayer);
+                baseUrl = await server.listen();
+            });
+
+            this.afterEach(async () => {
+                await server.close();
+            });
+
+            it('submits posted intents', async function () {
+                const { status, body } = await post(
+                    await payerClient.signIntent(
+                        { type: 'createEscrow', input: escrowInput() },
+                        await deadlineIn(ONE_DAY)
+                    )
+                );
+
+                expect(status).to.equal(200);
+                expect(body.nonce).to.equal('0');
+                expect(body.transactionHash).to.match(/^0x/);
+                expect(await relayerClient.hasEscrow(escrowId)).to.be.true;
+
+                const response = await fetch(
+                    `${baseUrl}/nonces/${payer.address}`
+                );
+                expect(await response.json()).to.deep.equal({ nonce: '1' });
+            });
+
+            it('rejects invalid intents', async function () {
+                const signed = await payerClient.signIntent(
+                    { type: 'createEscrow', input: escrowInput() },
+                    await deadlineIn(ONE_DAY)
+                );
+
+                let response = await post({ ...signed, signer: 'nobody' });
+                expect(response).to.deep.equal({
+                    status: 400,
+                    body: { error: 'InvalidIntent: signer' },
+                });
+
+                response = await post(
+                    await payerClient.signIntent(
+                        { type: 'createEscrow', input: escrowInput() },
+                        await deadlineIn(ONE_DAY),
+                        5n
+                    )
+                );
+                expect(response.status).to.equal(400);
+                expect(response.body.error).to.equal('InvalidNonce');
+
+                const get = await fetch(`${baseUrl}/intents`);
+                expect(get.status).to.equal(405);
+            });
+        });
+    });
+});
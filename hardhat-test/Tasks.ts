@@ -0,0 +1,550 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import hre, { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import { PolyEscrowClient, ProposalStatus } from '../client';
+import {
+    EscrowStatus,
+    PaymentType,
+    deployArbitrationStack,
+    deployPolyEscrowStack,
+    checkEscrowInvariantsAfterEachTransaction,
+} from './util';
+
+describe('Tasks', function () {
+    checkEscrowInvariantsAfterEachTransaction();
+
+    let polyEscrow: any;
+    let testToken1: any;
+    let admin: HardhatEthersSigner;
+    let receiver1: HardhatEthersSigner;
+    let receiver2: HardhatEthersSigner;
+    let logged: string[];
+    let originalLog: typeof console.log;
+
+    const escrowId = ethers.keccak256('0x01');
+
+    //runs a task against the deployed escrow contract
+    async function runTask(name: string, args: any): Promise<any> {
+        return await hre.run(name, { escrow: polyEscrow.target, ...args });
+    }
+
+    async function createTokenToNativeEscrow(): Promise<any> {
+        return await runTask('escrow:create', {
+            id: escrowId,
+            primary: receiver1.address,
+            primaryCurrency: testToken1.target,
+            primaryAmount: '1.5',
+            secondary: receiver2.address,
+            secondaryAmount: '0.25',
+        });
+    }
+
+    this.beforeEach(async () => {
+        const signers = await hre.ethers.getSigners();
+        admin = signers[0];
+        receiver1 = signers[6];
+        receiver2 = signers[7];
+
+        ({ polyEscrow } = await deployPolyEscrowStack());
+
+        testToken1 = await (
+            await hre.ethers.getContractFactory('TestToken')
+        ).deploy('ABC', 'ABC');
+        await testToken1.mint(admin, ethers.parseEther('100'));
+
+        logged = [];
+        originalLog = console.log;
+        console.log = (...args: any[]) => logged.push(args.join(' '));
+    });
+
+    this.afterEach(async () => {
+        console.log = originalLog;
+    });
+
+    describe('escrow:create', function () {
+        it('creates an escrow, converting human amounts by decimals', async function () {
+            const escrow = await createTokenToNativeEscrow();
+
+            expect(escrow.id).to.equal(escrowId);
+            expect(escrow.primaryLeg.paymentType).to.equal(PaymentType.ERC20);
+            expect(escrow.primaryLeg.amountPledged).to.equal(
+                ethers.parseEther('1.5')
+            );
+            expect(escrow.secondaryLeg.paymentType).to.equal(
+                PaymentType.Native
+            );
+            expect(escrow.secondaryLeg.amountPledged).to.equal(
+                ethers.parseEther('0.25')
+            );
+            expect(logged.join('\n')).to.contain('pledged:       1.5');
+        });
+
+        it('accepts time-window and fee flags', async function () {
+            const endTime = (await time.latest()) + 10 * 86400;
+            const escrow = await runTask('escrow:create', {
+                id: escrowId,
+                primary: receiver1.address,
+                primaryCurrency: testToken1.target,
+                primaryAmount: '1',
+                secondary: receiver2.address,
+                secondaryAmount: '1',
+                startTime: '1000',
+                endTime: new Date(endTime * 1000).toISOString(),
+                fees: `${admin.address}:150`,
+            });
+
+            expect(escrow.startTime).to.equal(1000n);
+            expect(escrow.endTime).to.equal(BigInt(endTime));
+            expect(escrow.fees).to.deep.equal([
+                { recipient: admin.address, feeBps: 150n },
+            ]);
+        });
+
+        it('takes an amount of 1 and a token id for an erc721 leg', async function () {
+            const testNft = await (
+                await hre.ethers.getContractFactory('TestNft')
+            ).deploy('ABC', 'ABC');
+            const args = {
+                id: escrowId,
+                primary: receiver1.address,
+                primaryCurrency: testNft.target,
+                primaryType: 'erc721',
+                primaryAmount: '1',
+                secondary: receiver2.address,
+                secondaryAmount: '1',
+            };
+
+            let error: any;
+            try {
+                await runTask('escrow:create', args);
+            } catch (e) {
+                error = e;
+            }
+            expect(error?.message).to.equal(
+                'A token id is required for erc721'
+            );
+
+            error = undefined;
+            try {
+                await runTask('escrow:create', {
+                    ...args,
+                    primaryAmount: '42',
+                    primaryTokenId: '42',
+                });
+            } catch (e) {
+                error = e;
+            }
+            expect(error?.message).to.equal(
+                'The amount of an erc721 leg must be 1: 42'
+            );
+
+            const escrow = await runTask('escrow:create', {
+                ...args,
+                primaryTokenId: '42',
+            });
+
+            expect(escrow.primaryLeg.paymentType).to.equal(PaymentType.ERC721);
+            expect(escrow.primaryLeg.amountPledged).to.equal(1n);
+            expect(escrow.primaryLeg.tokenId).to.equal(42n);
+            expect(logged.join('\n')).to.contain('token id:      42');
+        });
+
+        it('takes a quantity and a token id for an erc1155 leg', async function () {
+            const multiToken = await (
+                await hre.ethers.getContractFactory('TestMultiToken')
+            ).deploy('');
+
+            const escrow = await runTask('escrow:create', {
+                id: escrowId,
+                primary: receiver1.address,
+                primaryCurrency: multiToken.target,
+                primaryType: 'erc1155',
+                primaryAmount: '30',
+                primaryTokenId: '42',
+                secondary: receiver2.address,
+                secondaryAmount: '1',
+            });
+
+            expect(escrow.primaryLeg.paymentType).to.equal(PaymentType.ERC1155);
+            expect(escrow.primaryLeg.amountPledged).to.equal(30n);
+            expect(escrow.primaryLeg.tokenId).to.equal(42n);
+            expect(logged.join('\n')).to.contain('token id:      42');
+        });
+
+        it('generates an id if none is given', async function () {
+            const escrow = await runTask('escrow:create', {
+                primary: receiver1.address,
+                primaryCurrency: testToken1.target,
+                primaryAmount: '1',
+                secondary: receiver2.address,
+                secondaryAmount: '1',
+            });
+
+            expect(await polyEscrow.hasEscrow(escrow.id)).to.be.true;
+        });
+    });
+
+    describe('escrow:pay', function () {
+        it('pays token and native legs in human units', async function () {
+            await createTokenToNativeEscrow();
+
+            let escrow = await runTask('escrow:pay', {
+                id: escrowId,
+                currency: testToken1.target,
+                amount: '1.5',
+            });
+            expect(escrow.status).to.equal(EscrowStatus.Active);
+            expect(escrow.primaryLeg.amountPaid).to.equal(
+                ethers.parseEther('1.5')
+            );
+
+            escrow = await runTask('escrow:pay', {
+                id: escrowId,
+                amount: '0.25',
+            });
+            expect(escrow.status).to.equal(EscrowStatus.Completed);
+            expect(await testToken1.balanceOf(receiver2.address)).to.equal(
+                ethers.parseEther('1.5')
+            );
+        });
+
+        it('rejects a currency the escrow does not use', async function () {
+            await createTokenToNativeEscrow();
+
+            let error: any;
+            try {
+                await runTask('escrow:pay', {
+                    id: escrowId,
+                    currency: receiver1.address,
+                    amount: '1',
+                });
+            } catch (e) {
+                error = e;
+            }
+            expect(error?.message).to.contain('has no leg in');
+        });
+    });
+
+    describe('escrow:cancel', function () {
+        it('cancels with signatures from escrow:sign-cancel', async function () {
+            await runTask('escrow:create', {
+                id: escrowId,
+                primary: admin.address,
+                primaryCurrency: testToken1.target,
+                primaryAmount: '1.5',
+                secondary: receiver2.address,
+                secondaryAmount: '0.25',
+            });
+            await runTask('escrow:pay', {
+                id: escrowId,
+                currency: testToken1.target,
+                amount: '1.5',
+            });
+
+            const deadline = '4000000000';
+            const primary = await runTask('escrow:sign-cancel', {
+                id: escrowId,
+                deadline,
+            });
+            const secondary = await new PolyEscrowClient(
+                polyEscrow.target,
+                receiver2
+            ).signCancellation(escrowId, deadline);
+
+            const escrow = await runTask('escrow:cancel', {
+                id: escrowId,
+                deadline,
+                signatures: `${secondary.signature},${primary.signature}`,
+            });
+            expect(escrow.status).to.equal(EscrowStatus.Completed);
+            expect(escrow.primaryLeg.amountRefunded).to.equal(
+                ethers.parseEther('1.5')
+            );
+            expect(await testToken1.balanceOf(admin.address)).to.equal(
+                ethers.parseEther('100')
+            );
+            expect(logged.join('\n')).to.contain('Escrow cancelled.');
+        });
+
+        it('approves cancelling on-chain without signatures', async function () {
+            await runTask('escrow:create', {
+                id: escrowId,
+                primary: admin.address,
+                primaryCurrency: testToken1.target,
+                primaryAmount: '1.5',
+                secondary: receiver2.address,
+                secondaryAmount: '0.25',
+            });
+            await runTask('escrow:pay', {
+                id: escrowId,
+                currency: testToken1.target,
+                amount: '1',
+            });
+
+            const escrow = await runTask('escrow:cancel', { id: escrowId });
+            expect(escrow.status).to.equal(EscrowStatus.Active);
+            expect(
+                await polyEscrow.isCancellationApproved(escrowId, admin.address)
+            ).to.be.true;
+            expect(logged.join('\n')).to.contain(
+                'waiting for the other participant'
+            );
+        });
+    });
+
+    describe('escrow:show', function () {
+        it('prints an escrow as JSON', async function () {
+            await createTokenToNativeEscrow();
+            logged = [];
+
+            await runTask('escrow:show', { id: escrowId, json: true });
+
+            const json = JSON.parse(logged.join('\n'));
+            expect(json.id).to.equal(escrowId);
+            expect(json.primaryLeg.amountPledged).to.equal(
+                ethers.parseEther('1.5').toString()
+            );
+        });
+
+        it('fails for an unknown escrow', async function () {
+            let error: any;
+            try {
+                await runTask('escrow:show', { id: escrowId });
+            } catch (e) {
+                error = e;
+            }
+            expect(error?.message).to.contain('Escrow not found');
+        });
+    });
+
+    describe('relay nodes', function () {
+        it('deploys, pumps and refunds a relay node', async function () {
+            await createTokenToNativeEscrow();
+
+            const { relayNode } = await runTask('escrow:relay-node:deploy', {
+                id: escrowId,
+                autoForwardNative: false,
+            });
+
+            //send native to the node; it isn't forwarded automatically
+            await admin.sendTransaction({
+                to: relayNode,
+                value: ethers.parseEther('0.1'),
+            });
+            expect(await ethers.provider.getBalance(relayNode)).to.equal(
+                ethers.parseEther('0.1')
+            );
+
+            //pump
+            const { escrow } = await hre.run('relay:pump', {
+                node: relayNode,
+            });
+            expect(escrow.secondaryLeg.amountPaid).to.equal(
+                ethers.parseEther('0.1')
+            );
+            expect(await ethers.provider.getBalance(relayNode)).to.equal(0);
+
+            //refund whatever is sent afterwards, to whoever sent it
+            await admin.sendTransaction({
+                to: relayNode,
+                value: ethers.parseEther('0.1'),
+            });
+            await hre.run('relay:refund', {
+                node: relayNode,
+                currency: 'native',
+            });
+            expect(await ethers.provider.getBalance(relayNode)).to.equal(
+                ethers.parseEther('0.1')
+            );
+            await hre.run('relay:claim', {
+                node: relayNode,
+                currency: 'native',
+            });
+            expect(await ethers.provider.getBalance(relayNode)).to.equal(0);
+        });
+
+        it('deposits tokens into a relay node, and refunds them to the depositor', async function () {
+            await createTokenToNativeEscrow();
+            const { relayNode } = await runTask('escrow:relay-node:deploy', {
+                id: escrowId,
+            });
+            const balance = await testToken1.balanceOf(admin);
+
+            const { amount } = await hre.run('relay:deposit', {
+                node: relayNode,
+                currency: testToken1.target,
+                amount: '0.5',
+            });
+            expect(amount).to.equal(ethers.parseEther('0.5'));
+            expect(await testToken1.balanceOf(relayNode)).to.equal(amount);
+
+            await hre.run('relay:claim', {
+                node: relayNode,
+                currency: testToken1.target,
+            });
+            expect(await testToken1.balanceOf(admin)).to.equal(balance);
+            expect(await testToken1.balanceOf(receiver1)).to.equal(0);
+        });
+
+        it("lists, pauses and retires an escrow's relay nodes", async function () {
+            await createTokenToNativeEscrow();
+            const { relayNode } = await runTask('escrow:relay-node:deploy', {
+                id: escrowId,
+            });
+            await hre.run('relay:deposit', {
+                node: relayNode,
+                currency: testToken1.target,
+                amount: '0.5',
+            });
+
+            let [listed] = await runTask('escrow:relay-node:list', {
+                id: escrowId,
+            });
+            expect(listed.address).to.equal(relayNode);
+            expect(listed.balances[0].amount).to.equal(
+                ethers.parseEther('0.5')
+            );
+            const [header, row] = logged[logged.length - 1].split('\n');
+            expect(header).to.match(/^relay node\s+state\s+auto-forward/);
+            expect(row.split(/\s+/)).to.deep.equal([
+                relayNode,
+                'active',
+                'yes',
+                '0.5',
+                '0.0',
+            ]);
+
+            const { relayNodes } = await runTask('escrow:relay-node:pause', {
+                id: escrowId,
+            });
+            expect(relayNodes).to.deep.equal([relayNode]);
+            await runTask('escrow:relay-node:pause', {
+                id: escrowId,
+                unpause: true,
+            });
+
+            await hre.run('relay:retire', { node: relayNode });
+            [listed] = await runTask('escrow:relay-node:list', {
+                id: escrowId,
+            });
+            expect(listed.retired).to.be.true;
+            expect(listed.paused).to.be.false;
+
+            //the deposit is left for its depositor to claim
+            expect(listed.balances[0].amount).to.equal(
+                ethers.parseEther('0.5')
+            );
+        });
+    });
+
+    describe('arbitration', function () {
+        let arbitrationModule: any;
+        let arbiter2: HardhatEthersSigner;
+
+        this.beforeEach(async () => {
+            arbiter2 = (await hre.ethers.getSigners())[9];
+            ({ polyEscrow, arbitrationModule } =
+                await deployArbitrationStack());
+        });
+
+        it('finds escrows by arbiter, and proposes and votes on them', async function () {
+            await runTask('escrow:create', {
+                id: escrowId,
+                primary: receiver1.address,
+                primaryCurrency: testToken1.target,
+                primaryAmount: '1.5',
+                secondary: receiver2.address,
+                secondaryAmount: '0.25',
+                arbitrationModule: arbitrationModule.target,
+                arbiters: `${admin.address},${arbiter2.address}`,
+                quorum: 2,
+            });
+            await runTask('escrow:create', {
+                id: ethers.keccak256('0x02'),
+                primary: receiver1.address,
+                secondary: receiver2.address,
+                secondaryCurrency: testToken1.target,
+                primaryAmount: '1',
+                secondaryAmount: '1',
+            });
+            await runTask('escrow:pay', {
+                id: escrowId,
+                currency: testToken1.target,
+                amount: '1.5',
+            });
+
+            //only the escrow naming the account as arbiter is listed
+            const escrows = await runTask('arbiter:escrows', {});
+            expect(escrows.map((e: any) => e.id)).to.deep.equal([escrowId]);
+            expect(logged.join('\n')).to.contain('quorum 2');
+            expect(
+                await runTask('arbiter:escrows', { arbiter: receiver1.address })
+            ).to.be.empty;
+
+            const proposal = await runTask('arbiter:propose', {
+                id: escrowId,
+                type: 'refund',
+                reason: 'not delivered',
+            });
+            expect(proposal.primaryAmount).to.equal(ethers.parseEther('1.5'));
+            expect(proposal.secondaryAmount).to.equal(0n);
+
+            //the first vote, then the second which executes it
+            logged = [];
+            const { escrow } = await runTask('arbiter:vote', { id: escrowId });
+            expect(escrow.status).to.equal(EscrowStatus.Arbitration);
+            expect(logged.join('\n')).to.contain('1 of 2 needed');
+
+            await arbitrationModule.connect(arbiter2).vote(proposal.id);
+            expect(await testToken1.balanceOf(receiver1)).to.equal(
+                ethers.parseEther('1.5')
+            );
+
+            logged = [];
+            await runTask('arbiter:proposals', { id: escrowId, json: true });
+            const json = JSON.parse(logged.join('\n'));
+            expect(json).to.have.length(1);
+            expect(json[0].status).to.equal(ProposalStatus.Passed);
+        });
+
+        it('fails for escrows without arbitration', async function () {
+            await createTokenToNativeEscrow();
+
+            let error: any;
+            try {
+                await runTask('arbiter:vote', { id: escrowId });
+            } catch (e) {
+                error = e;
+            }
+            expect(error?.message).to.contain('has no arbitration module');
+        });
+    });
+
+    describe('indexer:run', function () {
+        it('indexes once into a database file', async function () {
+            const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'indexer-'));
+            const db = path.join(dir, 'index.sqlite');
+
+            try {
+                await createTokenToNativeEscrow();
+                const lastBlock = await runTask('indexer:run', {
+                    db,
+                    confirmations: 0,
+                    once: true,
+                });
+
+                expect(lastBlock).to.equal(
+                    await ethers.provider.getBlockNumber()
+                );
+                expect(fs.existsSync(db)).to.be.true;
+                expect(logged.join('\n')).to.contain('1 escrows');
+            } finally {
+                fs.rmSync(dir, { recursive: true, force: true });
+            }
+        });
+    });
+});
@@ -0,0 +1,237 @@
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import { PolyEscrowClient } from '../client';
+import {
+    EscrowStatus,
+    PaymentType,
+    deployPolyEscrowStack,
+    checkEscrowInvariantsAfterEachTransaction,
+} from './util';
+
+const ONE_DAY = 86400;
+
+describe('Time Windows', function () {
+    checkEscrowInvariantsAfterEachTransaction();
+
+    let polyEscrow: any;
+    let testToken: any;
+    let escrowClient: PolyEscrowClient;
+    let admin: HardhatEthersSigner;
+    let partyA: HardhatEthersSigner; //pays tokens into the primary leg
+    let partyB: HardhatEthersSigner; //pays native into the secondary leg
+    let outsider: HardhatEthersSigner;
+
+    const escrowId = ethers.keccak256('0x01');
+
+    async function createEscrow(startTime: number, endTime: number) {
+        return await escrowClient.connect(admin).createEscrow({
+            id: escrowId,
+            primaryLeg: {
+                participantAddress: partyA.address,
+                currency: testToken.target,
+                paymentType: PaymentType.ERC20,
+                amount: 1000,
+            },
+            secondaryLeg: {
+                participantAddress: partyB.address,
+                currency: ethers.ZeroAddress,
+                paymentType: PaymentType.Native,
+                amount: 500,
+            },
+            startTime,
+            endTime,
+        });
+    }
+
+    //creates an escrow ending in a day, with some of each leg paid in
+    async function createActiveEscrow() {
+        const endTime = (await time.latest()) + ONE_DAY;
+        await createEscrow(0, endTime);
+        await payPrimary(400);
+        await escrowClient.connect(partyB).placePayment({
+            escrowId,
+            currency: ethers.ZeroAddress,
+            amount: 200,
+        });
+        return endTime;
+    }
+
+    async function payPrimary(amount: number = 1000) {
+        return await escrowClient.placePayment({
+            escrowId,
+            currency: testToken.target,
+            amount,
+        });
+    }
+
+    //moves the clock so that the next transaction is mined at the given time
+    async function nextBlockAt(timestamp: number) {
+        await time.increaseTo(timestamp - 1);
+    }
+
+    this.beforeEach(async () => {
+        const signers = await hre.ethers.getSigners();
+        admin = signers[0];
+        partyA = signers[3];
+        partyB = signers[4];
+        outsider = signers[12];
+
+        ({ polyEscrow } = await deployPolyEscrowStack({
+            SystemSettingsModule: {
+                vaultAddress: signers[2].address,
+                feeBps: 0,
+            },
+        }));
+
+        testToken = await (
+            await hre.ethers.getContractFactory('TestToken')
+        ).deploy('ABC', 'ABC');
+        await testToken.mint(partyA, 10000);
+
+        //approved up front, so that each payment is a single transaction at a known time
+        await testToken.connect(partyA).approve(polyEscrow.target, 10000);
+
+        escrowClient = new PolyEscrowClient(polyEscrow.target, partyA);
+    });
+
+    describe('Payments', function () {
+        it('rejects payments before the start time', async function () {
+            const startTime = (await time.latest()) + ONE_DAY;
+            await createEscrow(startTime, startTime + ONE_DAY);
+
+            await nextBlockAt(startTime - 1);
+            await expect(payPrimary()).to.be.revertedWith('EscrowNotStarted');
+        });
+
+        it('accepts payments from the start time', async function () {
+            const startTime = (await time.latest()) + ONE_DAY;
+            await createEscrow(startTime, startTime + ONE_DAY);
+
+            await nextBlockAt(startTime);
+            const escrow = await payPrimary();
+            expect(escrow.primaryLeg.amountPaid).to.equal(1000n);
+            expect(escrow.status).to.equal(EscrowStatus.Active);
+        });
+
+        it('accepts payments until the end time', async function () {
+            const endTime = (await time.latest()) + ONE_DAY;
+            await createEscrow(0, endTime);
+
+            await nextBlockAt(endTime - 1);
+            const escrow = await payPrimary();
+            expect(escrow.primaryLeg.amountPaid).to.equal(1000n);
+        });
+
+        it('rejects payments from the end time', async function () {
+            const endTime = (await time.latest()) + ONE_DAY;
+            await createEscrow(0, endTime);
+
+            await nextBlockAt(endTime);
+            await expect(payPrimary()).to.be.revertedWith('EscrowExpired');
+        });
+
+        it('accepts payments at any time without start and end times', async function () {
+            await createEscrow(0, 0);
+
+            await time.increase(365 * ONE_DAY);
+            const escrow = await payPrimary();
+            expect(escrow.primaryLeg.amountPaid).to.equal(1000n);
+        });
+    });
+
+    describe('Expiry Refunds', function () {
+        it('refunds what remains in each leg once expired', async function () {
+            const endTime = await createActiveEscrow();
+
+            await nextBlockAt(endTime);
+            const tx = polyEscrow.connect(outsider).refundExpired(escrowId);
+            await expect(tx)
+                .to.emit(polyEscrow, 'EscrowRefunded')
+                .withArgs(escrowId, 400, 200);
+            await expect(tx).to.changeTokenBalances(
+                testToken,
+                [polyEscrow, partyA],
+                [-400, 400]
+            );
+            await expect(tx).to.changeEtherBalances(
+                [polyEscrow, partyB],
+                [-200, 200]
+            );
+
+            const escrow = await escrowClient.getEscrow(escrowId);
+            expect(escrow.status).to.equal(EscrowStatus.Completed);
+            expect(escrow.primaryLeg.amountRefunded).to.equal(400n);
+            expect(escrow.secondaryLeg.amountRefunded).to.equal(200n);
+            expect(escrow.primaryLeg.amountReleased).to.equal(0n);
+            expect(escrow.secondaryLeg.amountReleased).to.equal(0n);
+        });
+
+        it('can be refunded through the client', async function () {
+            const endTime = await createActiveEscrow();
+
+            await time.increaseTo(endTime);
+            const escrow = await escrowClient
+                .connect(outsider)
+                .refundExpired(escrowId);
+            expect(escrow.status).to.equal(EscrowStatus.Completed);
+            expect(escrow.primaryLeg.amountRefunded).to.equal(400n);
+        });
+
+        it('cannot be refunded before the end time', async function () {
+            const endTime = await createActiveEscrow();
+
+            await nextBlockAt(endTime - 1);
+            await expect(polyEscrow.refundExpired(escrowId)).to.be.revertedWith(
+                'EscrowNotExpired'
+            );
+        });
+
+        it('cannot be refunded without an end time', async function () {
+            await createEscrow(0, 0);
+            await payPrimary(400);
+
+            await time.increase(365 * ONE_DAY);
+            await expect(polyEscrow.refundExpired(escrowId)).to.be.revertedWith(
+                'EscrowNotExpired'
+            );
+        });
+
+        it('cannot refund an escrow which is not active', async function () {
+            //nothing has been paid in
+            const endTime = (await time.latest()) + ONE_DAY;
+            await createEscrow(0, endTime);
+            await time.increaseTo(endTime);
+            await expect(polyEscrow.refundExpired(escrowId)).to.be.revertedWith(
+                'InvalidEscrowState'
+            );
+        });
+
+        it('cannot refund an escrow twice', async function () {
+            const endTime = await createActiveEscrow();
+
+            await time.increaseTo(endTime);
+            await polyEscrow.refundExpired(escrowId);
+            await expect(polyEscrow.refundExpired(escrowId)).to.be.revertedWith(
+                'InvalidEscrowState'
+            );
+        });
+
+        it('cannot refund an escrow which does not exist', async function () {
+            await expect(
+                polyEscrow.refundExpired(ethers.keccak256('0x02'))
+            ).to.be.revertedWith('InvalidEscrow');
+        });
+
+        it('cannot refund while paused', async function () {
+            const endTime = await createActiveEscrow();
+
+            await time.increaseTo(endTime);
+            await polyEscrow.pause();
+            await expect(polyEscrow.refundExpired(escrowId)).to.be.revertedWith(
+                'Paused'
+            );
+        });
+    });
+});
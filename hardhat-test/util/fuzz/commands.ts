@@ -0,0 +1,705 @@
+import fc from 'fast-check';
+import { expect } from 'chai';
+import { ContractTransactionReceipt } from 'ethers';
+import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import {
+    PolyEscrow,
+    RelayNode,
+    RelayNode__factory,
+    TestNft,
+    TestToken,
+} from '../../../typechain-types';
+import {
+    decodeEscrow,
+    EscrowPaymentType,
+    EscrowStatus,
+    PolyEscrowClient,
+} from '../../../client';
+import {
+    EscrowModel,
+    ModelEscrow,
+    ModelLeg,
+    cancelWithSignatures,
+    claimRefund,
+    createEscrow,
+    deployRelayNode,
+    depositToRelayNode,
+    nftKey,
+    placePayment,
+    refundExpired,
+    refundLeg,
+    relay,
+    setPaused,
+    setRelayNodeAddress,
+} from './model';
+
+/**
+ * FuzzWorld: the contracts and accounts the commands act on.
+ */
+export interface FuzzWorld {
+    polyEscrow: PolyEscrow;
+    admin: HardhatEthersSigner;
+    payers: HardhatEthersSigner[];
+    receivers: HardhatEthersSigner[];
+    feeRecipient: string;
+    tokens: TestToken[];
+    nfts: { collection: TestNft; tokenId: bigint }[]; //one for each ERC721 leg, owned by the first payer
+    relayNodes: RelayNode[]; //in the same order as the model's
+}
+
+export type FuzzCommand = fc.AsyncCommand<EscrowModel, FuzzWorld>;
+
+//assets are numbered: native, then the test tokens, then NFTs
+const NFT_ASSET = 3;
+
+//the fungible currencies, in asset order: native first, then the test tokens
+function currencies(model: EscrowModel): string[] {
+    return Object.keys(model.state.balances);
+}
+
+//ERC721 legs use the world's NFTs in order of creation
+function nftLegCount(model: EscrowModel): number {
+    return model.state.escrows
+        .flatMap((e) => [e.primaryLeg, e.secondaryLeg])
+        .filter((leg) => leg.paymentType === EscrowPaymentType.ERC721).length;
+}
+
+function pick<T>(items: T[], n: number): T {
+    return items[n % items.length];
+}
+
+function isOpen(escrow: ModelEscrow): boolean {
+    return (
+        escrow.status === EscrowStatus.Pending ||
+        escrow.status === EscrowStatus.Active
+    );
+}
+
+function legOf(escrow: ModelEscrow, currency: string): ModelLeg | undefined {
+    return [escrow.primaryLeg, escrow.secondaryLeg].find(
+        (leg) => leg.currency === currency
+    );
+}
+
+//a percentage of what's outstanding, but at least 1
+function portion(outstanding: bigint, percent: number): bigint {
+    const amount = (outstanding * BigInt(percent)) / 100n;
+    return amount > 0n ? amount : 1n;
+}
+
+//fixes the timestamp of the next block, so that the model knows when the next transaction is mined
+async function pinNextTimestamp(): Promise<bigint> {
+    const timestamp = (await time.latest()) + 1;
+    await time.setNextBlockTimestamp(timestamp);
+    return BigInt(timestamp);
+}
+
+/**
+ * Sends a transaction, and checks that it succeeds or reverts as the model expects.
+ *
+ * @returns The receipt, if it succeeded.
+ */
+async function expectOutcome(
+    send: () => Promise<{ wait(): Promise<any> }>,
+    expected: string | undefined
+): Promise<ContractTransactionReceipt | undefined> {
+    try {
+        const receipt = await (await send()).wait();
+        expect(expected, 'expected a revert').to.be.undefined;
+        return receipt;
+    } catch (e: any) {
+        if (expected === undefined) throw e;
+        expect(e.message).to.contain(expected);
+    }
+}
+
+/**
+ * Checks every escrow, relay node, balance and NFT owner tracked by the model against the chain.
+ */
+export async function checkWorld(model: EscrowModel, world: FuzzWorld) {
+    const state = model.state;
+
+    expect(await world.polyEscrow.paused(), 'PolyEscrow paused').to.equal(
+        state.paused
+    );
+
+    for (const escrow of state.escrows) {
+        const actual = decodeEscrow(
+            await world.polyEscrow.getEscrow(escrow.id)
+        );
+        expect(actual.status, `status of ${escrow.id}`).to.equal(escrow.status);
+        expect(actual.startTime, `start time of ${escrow.id}`).to.equal(
+            escrow.startTime
+        );
+        expect(actual.endTime, `end time of ${escrow.id}`).to.equal(
+            escrow.endTime
+        );
+        expect(actual.fees, `fees of ${escrow.id}`).to.deep.equal(escrow.fees);
+        for (const side of ['primaryLeg', 'secondaryLeg'] as const) {
+            expect(actual[side], `${side} of ${escrow.id}`).to.deep.equal(
+                escrow[side]
+            );
+        }
+    }
+
+    for (const [n, node] of state.relayNodes.entries()) {
+        expect(
+            await world.relayNodes[n].paused(),
+            `relay node ${n} paused`
+        ).to.equal(node.paused);
+    }
+
+    for (const [currency, balances] of Object.entries(state.balances)) {
+        const token = world.tokens.find((t) => t.target === currency);
+        for (const [holder, balance] of Object.entries(balances)) {
+            const actual = token
+                ? await token.balanceOf(holder)
+                : await ethers.provider.getBalance(holder);
+            expect(actual, `balance of ${holder} in ${currency}`).to.equal(
+                balance
+            );
+        }
+    }
+
+    for (const { collection, tokenId } of world.nfts) {
+        const address = collection.target as string;
+        expect(
+            await collection.ownerOf(tokenId),
+            `owner of ${address}:${tokenId}`
+        ).to.equal(state.nftOwners[nftKey(address, tokenId)]);
+    }
+}
+
+/**
+ * Creates an escrow between two receivers. Ids are drawn from a small range, so that some creations
+ * are duplicates; some pairs of assets or receivers are invalid. Escrows may start in the future,
+ * and may end some time after they start.
+ */
+export class CreateEscrowCommand implements FuzzCommand {
+    constructor(
+        readonly idSeed: number,
+        readonly assets: [number, number],
+        readonly receivers: [number, number],
+        readonly amounts: [bigint, bigint],
+        readonly feeBps: bigint | undefined,
+        readonly endsIn: number | undefined,
+        readonly startsIn: number | undefined
+    ) {}
+
+    check(model: EscrowModel) {
+        return (
+            nftLegCount(model) +
+                this.assets.filter((a) => a === NFT_ASSET).length <=
+            model.state.nftCount
+        );
+    }
+
+    async run(model: EscrowModel, world: FuzzWorld) {
+        const id = ethers.keccak256(ethers.toBeHex(this.idSeed, 32));
+        const fees =
+            this.feeBps === undefined
+                ? []
+                : [{ recipient: world.feeRecipient, feeBps: this.feeBps }];
+
+        //an ERC721 leg pledges one of the world's NFTs
+        let nextNft = nftLegCount(model);
+        const leg = (n: number) => {
+            const asset = this.assets[n];
+            const nft = asset === NFT_ASSET ? world.nfts[nextNft++] : undefined;
+            return {
+                participantAddress: pick(world.receivers, this.receivers[n])
+                    .address,
+                currency: nft
+                    ? (nft.collection.target as string)
+                    : currencies(model)[asset],
+                paymentType: nft
+                    ? EscrowPaymentType.ERC721
+                    : asset === 0
+                      ? EscrowPaymentType.Native
+                      : EscrowPaymentType.ERC20,
+                amount: nft ? 1n : this.amounts[n],
+                tokenId: nft?.tokenId ?? 0n,
+            };
+        };
+        const primaryLeg = leg(0);
+        const secondaryLeg = leg(1);
+        const now = await time.latest();
+        const startTime = this.startsIn ? now + this.startsIn : 0;
+        const endTime = this.endsIn ? (startTime || now) + this.endsIn : 0;
+
+        const expected = model.transact((state) =>
+            createEscrow(
+                state,
+                id,
+                primaryLeg,
+                secondaryLeg,
+                fees,
+                BigInt(startTime),
+                BigInt(endTime)
+            )
+        );
+        await expectOutcome(
+            () =>
+                world.polyEscrow.connect(world.admin).createEscrow({
+                    id,
+                    primaryLeg,
+                    secondaryLeg,
+                    startTime,
+                    endTime,
+                    arbitration: {
+                        arbiters: [],
+                        arbitrationModule: ethers.ZeroAddress,
+                        quorum: 0,
+                    },
+                    fees,
+                }),
+            expected
+        );
+    }
+
+    toString() {
+        return `createEscrow(id=${this.idSeed}, assets=${this.assets}, receivers=${this.receivers}, amounts=${this.amounts}, feeBps=${this.feeBps}, endsIn=${this.endsIn}, startsIn=${this.startsIn})`;
+    }
+}
+
+/**
+ * Pays part of what's outstanding on one leg of an escrow, or the NFT of an ERC721 leg. Side 2 pays 1
+ * unit of a currency which the escrow doesn't use.
+ */
+export class PlacePaymentCommand implements FuzzCommand {
+    constructor(
+        readonly escrow: number,
+        readonly side: number,
+        readonly percent: number,
+        readonly payer: number
+    ) {}
+
+    check(model: EscrowModel) {
+        if (!model.state.escrows.length) return false;
+        const escrow = pick(model.state.escrows, this.escrow);
+        if (this.side === 2 || !isOpen(escrow)) return true;
+
+        //don't pay more than was pledged
+        const leg = this.side ? escrow.secondaryLeg : escrow.primaryLeg;
+        return leg.paymentType === EscrowPaymentType.ERC721
+            ? leg.amountPaid === 0n
+            : model.getOutstanding(escrow, leg.currency) > 0n;
+    }
+
+    async run(model: EscrowModel, world: FuzzWorld) {
+        const escrow = pick(model.state.escrows, this.escrow);
+        const leg =
+            this.side === 2
+                ? undefined
+                : this.side
+                  ? escrow.secondaryLeg
+                  : escrow.primaryLeg;
+        const currency =
+            leg?.currency ?? currencies(model).find((c) => !legOf(escrow, c))!;
+
+        let payer = pick(world.payers, this.payer);
+        let amount = 1n;
+        if (leg?.paymentType === EscrowPaymentType.ERC721) {
+            payer = world.payers[0];
+        } else if (leg) {
+            amount = portion(
+                model.getOutstanding(escrow, currency),
+                this.percent
+            );
+        }
+
+        //approve the transfer
+        const nft = world.nfts.find(
+            (n) =>
+                n.collection.target === currency && n.tokenId === leg?.tokenId
+        );
+        const token = world.tokens.find((t) => t.target === currency);
+        if (nft) {
+            if (
+                model.state.nftOwners[nftKey(currency, nft.tokenId)] ===
+                payer.address
+            ) {
+                await nft.collection
+                    .connect(payer)
+                    .approve(world.polyEscrow.target, nft.tokenId);
+            }
+        } else if (token) {
+            await token.connect(payer).approve(world.polyEscrow.target, amount);
+        }
+
+        const timestamp = await pinNextTimestamp();
+        const expected = model.transact((state) =>
+            placePayment(
+                state,
+                payer.address,
+                escrow.id,
+                currency,
+                amount,
+                timestamp
+            )
+        );
+        await expectOutcome(
+            () =>
+                world.polyEscrow
+                    .connect(payer)
+                    .placePayment(
+                        { escrowId: escrow.id, currency, amount },
+                        { value: currency === ethers.ZeroAddress ? amount : 0 }
+                    ),
+            expected
+        );
+    }
+
+    toString() {
+        return `placePayment(escrow=${this.escrow}, side=${this.side}, percent=${this.percent}, payer=${this.payer})`;
+    }
+}
+
+/**
+ * Deploys a relay node for an escrow.
+ */
+export class DeployRelayNodeCommand implements FuzzCommand {
+    constructor(
+        readonly escrow: number,
+        readonly autoForwardNative: boolean
+    ) {}
+
+    check(model: EscrowModel) {
+        return model.state.escrows.length > 0;
+    }
+
+    async run(model: EscrowModel, world: FuzzWorld) {
+        const escrow = pick(model.state.escrows, this.escrow);
+
+        const expected = model.transact((state) =>
+            deployRelayNode(state, escrow.id, this.autoForwardNative)
+        );
+        const receipt = await expectOutcome(
+            () =>
+                world.polyEscrow
+                    .connect(world.admin)
+                    .deployRelayNode(escrow.id, this.autoForwardNative),
+            expected
+        );
+
+        if (receipt) {
+            const address = receipt.logs
+                .map((log) => world.polyEscrow.interface.parseLog(log))
+                .find((e) => e?.name === 'RelayNodeDeployed')!.args[0];
+            setRelayNodeAddress(model.state, address);
+            world.relayNodes.push(
+                RelayNode__factory.connect(address, world.admin)
+            );
+        }
+    }
+
+    toString() {
+        return `deployRelayNode(escrow=${this.escrow}, autoForwardNative=${this.autoForwardNative})`;
+    }
+}
+
+/**
+ * Transfers native currency or tokens directly into a relay node; tokens of the escrow's own legs are
+ * deposited through the node, so that it knows who to refund. Deposits in the escrow's own currencies
+ * are part of what's outstanding; others are small.
+ */
+export class DepositCommand implements FuzzCommand {
+    constructor(
+        readonly relayNode: number,
+        readonly asset: number,
+        readonly percent: number,
+        readonly payer: number
+    ) {}
+
+    check(model: EscrowModel) {
+        if (!model.state.relayNodes.length) return false;
+        return this._amount(model) > 0n;
+    }
+
+    async run(model: EscrowModel, world: FuzzWorld) {
+        const n = this.relayNode % model.state.relayNodes.length;
+        const node = model.state.relayNodes[n];
+        const currency = currencies(model)[this.asset];
+        const payer = pick(world.payers, this.payer);
+        const amount = this._amount(model);
+
+        const token = world.tokens.find((t) => t.target === currency);
+        const deposited =
+            token !== undefined &&
+            legOf(model.findEscrow(node.escrowId)!, currency) !== undefined;
+        if (deposited) {
+            await (
+                await token.connect(payer).approve(node.address, amount)
+            ).wait();
+        }
+
+        const timestamp = await pinNextTimestamp();
+        const expected = model.transact((state) =>
+            depositToRelayNode(
+                state,
+                n,
+                payer.address,
+                currency,
+                amount,
+                timestamp
+            )
+        );
+        await expectOutcome(() => {
+            if (!token) {
+                return payer.sendTransaction({
+                    to: node.address,
+                    value: amount,
+                });
+            }
+            return deposited
+                ? world.relayNodes[n].connect(payer).deposit(currency, amount)
+                : token.connect(payer).transfer(node.address, amount);
+        }, expected);
+    }
+
+    private _amount(model: EscrowModel): bigint {
+        const node = pick(model.state.relayNodes, this.relayNode);
+        const escrow = model.findEscrow(node.escrowId)!;
+        const currency = currencies(model)[this.asset];
+
+        if (isOpen(escrow) && legOf(escrow, currency)) {
+            const outstanding = model.getOutstanding(escrow, currency);
+            return outstanding > 0n ? portion(outstanding, this.percent) : 0n;
+        }
+        return BigInt(this.percent);
+    }
+
+    toString() {
+        return `deposit(node=${this.relayNode}, asset=${this.asset}, percent=${this.percent}, payer=${this.payer})`;
+    }
+}
+
+/**
+ * Calls relay() on a relay node.
+ */
+export class RelayCommand implements FuzzCommand {
+    constructor(readonly relayNode: number) {}
+
+    check(model: EscrowModel) {
+        return model.state.relayNodes.length > 0;
+    }
+
+    async run(model: EscrowModel, world: FuzzWorld) {
+        const n = this.relayNode % model.state.relayNodes.length;
+
+        const timestamp = await pinNextTimestamp();
+        const expected = model.transact((state) => relay(state, n, timestamp));
+        await expectOutcome(() => world.relayNodes[n].relay(), expected);
+    }
+
+    toString() {
+        return `relay(node=${this.relayNode})`;
+    }
+}
+
+/**
+ * Calls refundLeg() on a relay node, for one of the fungible currencies.
+ */
+export class RefundLegCommand implements FuzzCommand {
+    constructor(
+        readonly relayNode: number,
+        readonly asset: number
+    ) {}
+
+    check(model: EscrowModel) {
+        return model.state.relayNodes.length > 0;
+    }
+
+    async run(model: EscrowModel, world: FuzzWorld) {
+        const n = this.relayNode % model.state.relayNodes.length;
+        const currency = currencies(model)[this.asset];
+
+        const expected = model.transact((state) =>
+            refundLeg(state, n, currency)
+        );
+        await expectOutcome(
+            () => world.relayNodes[n].refundLeg(currency),
+            expected
+        );
+    }
+
+    toString() {
+        return `refundLeg(node=${this.relayNode}, asset=${this.asset})`;
+    }
+}
+
+/**
+ * Calls claimRefund() on a relay node as one of the payers, for one of the currencies.
+ */
+export class ClaimRefundCommand implements FuzzCommand {
+    constructor(
+        readonly relayNode: number,
+        readonly asset: number,
+        readonly payer: number
+    ) {}
+
+    check(model: EscrowModel) {
+        return model.state.relayNodes.length > 0;
+    }
+
+    async run(model: EscrowModel, world: FuzzWorld) {
+        const n = this.relayNode % model.state.relayNodes.length;
+        const currency = currencies(model)[this.asset];
+        const payer = pick(world.payers, this.payer);
+
+        const expected = model.transact((state) =>
+            claimRefund(state, n, payer.address, currency)
+        );
+        await expectOutcome(
+            () => world.relayNodes[n].connect(payer).claimRefund(currency),
+            expected
+        );
+    }
+
+    toString() {
+        return `claimRefund(node=${this.relayNode}, asset=${this.asset}, payer=${this.payer})`;
+    }
+}
+
+/**
+ * Calls refundExpired() on an escrow, whether or not it has expired.
+ */
+export class RefundExpiredCommand implements FuzzCommand {
+    constructor(readonly escrow: number) {}
+
+    check(model: EscrowModel) {
+        return model.state.escrows.length > 0;
+    }
+
+    async run(model: EscrowModel, world: FuzzWorld) {
+        const escrow = pick(model.state.escrows, this.escrow);
+
+        const timestamp = await pinNextTimestamp();
+        const expected = model.transact((state) =>
+            refundExpired(state, escrow.id, timestamp)
+        );
+        await expectOutcome(
+            () => world.polyEscrow.refundExpired(escrow.id),
+            expected
+        );
+    }
+
+    toString() {
+        return `refundExpired(escrow=${this.escrow})`;
+    }
+}
+
+/**
+ * Cancels an escrow with both participants' signatures, which may have expired; the admin submits
+ * them, so that the participants' native balances aren't spent on gas.
+ */
+export class CancelCommand implements FuzzCommand {
+    constructor(
+        readonly escrow: number,
+        readonly expiresIn: number
+    ) {}
+
+    check(model: EscrowModel) {
+        return model.state.escrows.length > 0;
+    }
+
+    async run(model: EscrowModel, world: FuzzWorld) {
+        const escrow = pick(model.state.escrows, this.escrow);
+        const participant = (leg: ModelLeg) =>
+            world.receivers.find((r) => r.address === leg.participantAddress)!;
+
+        const deadline = BigInt((await time.latest()) + this.expiresIn);
+        const signatures = await Promise.all(
+            [escrow.primaryLeg, escrow.secondaryLeg].map((leg) =>
+                new PolyEscrowClient(
+                    world.polyEscrow.target as string,
+                    participant(leg)
+                ).signCancellation(escrow.id, deadline)
+            )
+        );
+
+        const timestamp = await pinNextTimestamp();
+        const expected = model.transact((state) =>
+            cancelWithSignatures(state, escrow.id, deadline, timestamp)
+        );
+        await expectOutcome(
+            () =>
+                world.polyEscrow
+                    .connect(world.admin)
+                    .cancelWithSignatures(
+                        escrow.id,
+                        deadline,
+                        signatures[0].signature,
+                        signatures[1].signature
+                    ),
+            expected
+        );
+    }
+
+    toString() {
+        return `cancel(escrow=${this.escrow}, expiresIn=${this.expiresIn})`;
+    }
+}
+
+/**
+ * Pauses or unpauses the escrow contract, or a relay node.
+ */
+export class PauseCommand implements FuzzCommand {
+    constructor(
+        readonly relayNode: number | undefined,
+        readonly paused: boolean
+    ) {}
+
+    check(model: EscrowModel) {
+        return (
+            this.relayNode === undefined || model.state.relayNodes.length > 0
+        );
+    }
+
+    async run(model: EscrowModel, world: FuzzWorld) {
+        const n =
+            this.relayNode === undefined
+                ? undefined
+                : this.relayNode % model.state.relayNodes.length;
+        const target =
+            n === undefined
+                ? world.polyEscrow.connect(world.admin)
+                : world.relayNodes[n];
+
+        const expected = model.transact((state) =>
+            setPaused(state, n, this.paused)
+        );
+        await expectOutcome(
+            () => (this.paused ? target.pause() : target.unpause()),
+            expected
+        );
+    }
+
+    toString() {
+        const target =
+            this.relayNode === undefined ? 'escrow' : `node=${this.relayNode}`;
+        return `${this.paused ? 'pause' : 'unpause'}(${target})`;
+    }
+}
+
+/**
+ * Moves the chain's clock forward.
+ */
+export class WarpCommand implements FuzzCommand {
+    constructor(readonly seconds: number) {}
+
+    check() {
+        return true;
+    }
+
+    async run() {
+        //commands which depend on the time pin the timestamp of their own block
+        await time.increase(this.seconds);
+    }
+
+    toString() {
+        return `warp(${this.seconds}s)`;
+    }
+}
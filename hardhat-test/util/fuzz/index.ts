@@ -0,0 +1,273 @@
+import fc from 'fast-check';
+import hre from 'hardhat';
+import { takeSnapshot, time } from '@nomicfoundation/hardhat-network-helpers';
+import { TestNft } from '../../../typechain-types';
+import { deployPolyEscrowStack } from '..';
+import { EscrowModel, nftKey } from './model';
+import {
+    CancelCommand,
+    ClaimRefundCommand,
+    CreateEscrowCommand,
+    DeployRelayNodeCommand,
+    DepositCommand,
+    FuzzCommand,
+    FuzzWorld,
+    PauseCommand,
+    PlacePaymentCommand,
+    RefundExpiredCommand,
+    RefundLegCommand,
+    RelayCommand,
+    WarpCommand,
+    checkWorld,
+} from './commands';
+
+export { EscrowModel } from './model';
+export { FuzzWorld } from './commands';
+
+const PLATFORM_FEE_BPS = 100n;
+const NFT_COUNT = 6;
+const TOKEN_SUPPLY = 10n ** 12n;
+
+/**
+ * FuzzOptions: how many sequences to run, and which behaviour to include.
+ */
+export interface FuzzOptions {
+    numRuns?: number;
+    maxCommands?: number;
+    seed?: number; //to replay a failure; random by default
+
+    //NFT legs use distinct token ids of one collection, rather than token 1 of a collection each
+    sharedNftCollection?: boolean;
+
+    //include relay node refunds
+    refunds?: boolean;
+}
+
+/**
+ * Deploys the escrow stack, test tokens and NFTs for fuzzing.
+ */
+export async function deployFuzzWorld(
+    options: FuzzOptions = {}
+): Promise<FuzzWorld> {
+    const signers = await hre.ethers.getSigners();
+    const [admin, , vault] = signers;
+    const payers = signers.slice(3, 6);
+
+    const { polyEscrow } = await deployPolyEscrowStack({
+        SystemSettingsModule: {
+            vaultAddress: vault.address,
+            feeBps: PLATFORM_FEE_BPS,
+        },
+    });
+
+    const tokenFactory = await hre.ethers.getContractFactory('TestToken');
+    const tokens = [
+        await tokenFactory.deploy('ABC', 'ABC'),
+        await tokenFactory.deploy('DEF', 'DEF'),
+    ];
+    for (const token of tokens) {
+        for (const payer of payers) {
+            await token.mint(payer, TOKEN_SUPPLY);
+        }
+    }
+
+    const nftFactory = await hre.ethers.getContractFactory('TestNft');
+    const nfts: { collection: TestNft; tokenId: bigint }[] = [];
+    let collection = await nftFactory.deploy('NFT', 'NFT');
+    for (let n = 1; n <= NFT_COUNT; n++) {
+        if (!options.sharedNftCollection && n > 1) {
+            collection = await nftFactory.deploy('NFT', 'NFT');
+        }
+        const tokenId = options.sharedNftCollection ? BigInt(n) : 1n;
+        await collection.mint(payers[0], tokenId);
+        nfts.push({ collection, tokenId });
+    }
+
+    return {
+        polyEscrow,
+        admin,
+        payers,
+        receivers: signers.slice(6, 9),
+        feeRecipient: signers[10].address,
+        tokens,
+        nfts,
+        relayNodes: [],
+    };
+}
+
+/**
+ * Creates a model of the world as it is on-chain now, with no escrows.
+ */
+export async function createModel(world: FuzzWorld): Promise<EscrowModel> {
+    const escrowAddress = world.polyEscrow.target as string;
+    const vaultAddress = (await hre.ethers.getSigners())[2].address;
+
+    //native balances are only tracked for accounts which don't send transactions
+    const holders = [
+        escrowAddress,
+        vaultAddress,
+        world.feeRecipient,
+        ...world.receivers.map((r) => r.address),
+    ];
+    const balances: Record<string, Record<string, bigint>> = {
+        [hre.ethers.ZeroAddress]: {},
+    };
+    for (const holder of holders) {
+        balances[hre.ethers.ZeroAddress][holder] =
+            await hre.ethers.provider.getBalance(holder);
+    }
+    for (const token of world.tokens) {
+        balances[token.target as string] = {};
+        for (const holder of [
+            ...holders,
+            ...world.payers.map((p) => p.address),
+        ]) {
+            balances[token.target as string][holder] =
+                await token.balanceOf(holder);
+        }
+    }
+
+    const nftOwners: Record<string, string> = {};
+    for (const { collection, tokenId } of world.nfts) {
+        nftOwners[nftKey(collection.target as string, tokenId)] =
+            world.payers[0].address;
+    }
+
+    return new EscrowModel({
+        escrowAddress,
+        paused: false,
+        settings: { vaultAddress, feeBps: PLATFORM_FEE_BPS },
+        escrows: [],
+        relayNodes: [],
+        balances,
+        nftOwners,
+        nftCount: world.nfts.length,
+    });
+}
+
+/**
+ * Generates sequences of escrow and relay node commands.
+ */
+export function escrowCommands(
+    options: FuzzOptions = {}
+): fc.Arbitrary<Iterable<FuzzCommand>> {
+    const index = fc.nat({ max: 20 });
+    const asset = fc.integer({ min: 0, max: 3 });
+    const currency = fc.integer({ min: 0, max: 2 });
+    const account = fc.nat({ max: 2 });
+    const amount = fc.bigInt({ min: 1n, max: 1000000n });
+    const percent = fc.oneof(
+        fc.constant(100),
+        fc.integer({ min: 1, max: 100 })
+    );
+
+    const createEscrow = fc
+        .tuple(
+            fc.integer({ min: 1, max: 8 }),
+            fc.tuple(asset, asset),
+            fc.tuple(account, account),
+            fc.tuple(amount, amount),
+            fc.option(fc.bigInt({ min: 0n, max: 1000n }), { nil: undefined }),
+            fc.option(fc.integer({ min: 7200, max: 30 * 86400 }), {
+                nil: undefined,
+            }),
+            fc.option(fc.integer({ min: 1, max: 7 * 86400 }), {
+                nil: undefined,
+            })
+        )
+        .map((args) => new CreateEscrowCommand(...args));
+    const placePayment = fc
+        .tuple(index, fc.integer({ min: 0, max: 2 }), percent, account)
+        .map((args) => new PlacePaymentCommand(...args));
+    const deposit = fc
+        .tuple(index, currency, percent, account)
+        .map((args) => new DepositCommand(...args));
+
+    //payments and deposits are listed twice, so that more escrows get completed
+    const commands: fc.Arbitrary<FuzzCommand>[] = [
+        createEscrow,
+        placePayment,
+        placePayment,
+        fc
+            .tuple(index, fc.boolean())
+            .map((args) => new DeployRelayNodeCommand(...args)),
+        deposit,
+        deposit,
+        index.map((n) => new RelayCommand(n)),
+        index.map((n) => new RefundExpiredCommand(n)),
+        fc
+            .tuple(index, fc.integer({ min: 0, max: 3 }))
+            .map((args) => new CancelCommand(...args)),
+        fc
+            .tuple(fc.option(index, { nil: undefined }), fc.boolean())
+            .map((args) => new PauseCommand(...args)),
+        fc
+            .integer({ min: 1, max: 30 * 86400 })
+            .map((seconds) => new WarpCommand(seconds)),
+    ];
+    if (options.refunds) {
+        commands.push(
+            fc
+                .tuple(index, currency)
+                .map((args) => new RefundLegCommand(...args)),
+            fc
+                .tuple(index, currency, account)
+                .map((args) => new ClaimRefundCommand(...args))
+        );
+    }
+
+    return fc.commands(commands.map(checkedAfterRun), {
+        maxCommands: options.maxCommands ?? 40,
+        size: 'max',
+    });
+}
+
+/**
+ * Runs random command sequences against a fresh escrow stack, checking the chain against the model
+ * after every command. On failure, fast-check shrinks the sequence, and the error shows the minimal
+ * failing sequence along with the seed and path to replay it.
+ */
+export async function runEscrowFuzz(options: FuzzOptions = {}) {
+    const world = await deployFuzzWorld(options);
+    const snapshot = await takeSnapshot();
+    const startTime = await time.latest();
+
+    //reverting doesn't undo time warps, so the clock is also set back
+    const restore = async () => {
+        await snapshot.restore();
+        await time.setNextBlockTimestamp(startTime + 1);
+    };
+
+    try {
+        await fc.assert(
+            fc.asyncProperty(escrowCommands(options), async (commands) => {
+                await restore();
+                world.relayNodes = [];
+                const model = await createModel(world);
+
+                await fc.asyncModelRun(
+                    () => ({ model, real: world }),
+                    commands
+                );
+            }),
+            { numRuns: options.numRuns ?? 10, seed: options.seed }
+        );
+    } finally {
+        await restore();
+        await hre.network.provider.send('evm_mine');
+    }
+}
+
+//wraps each generated command so that the world is checked after it runs
+function checkedAfterRun(
+    arbitrary: fc.Arbitrary<FuzzCommand>
+): fc.Arbitrary<FuzzCommand> {
+    return arbitrary.map((command) => ({
+        check: (model: EscrowModel) => command.check(model),
+        run: async (model: EscrowModel, world: FuzzWorld) => {
+            await command.run(model, world);
+            await checkWorld(model, world);
+        },
+        toString: () => command.toString(),
+    }));
+}
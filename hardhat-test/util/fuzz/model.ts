@@ -0,0 +1,550 @@
+import { ZeroAddress } from 'ethers';
+import {
+    EscrowPaymentType,
+    EscrowStatus,
+    FeeDefinition,
+    PlatformFeeSettings,
+    calculatePaymentAmounts,
+    resolveEscrowFees,
+} from '../../../client';
+
+/**
+ * ModelLeg: the model of one escrow leg.
+ */
+export interface ModelLeg {
+    participantAddress: string;
+    currency: string;
+    paymentType: EscrowPaymentType;
+    amountPledged: bigint;
+    amountPaid: bigint;
+    amountReleased: bigint;
+    amountRefunded: bigint;
+    tokenId: bigint; //ERC721: id of the token pledged; otherwise 0
+}
+
+/**
+ * ModelEscrow: the model of one escrow.
+ */
+export interface ModelEscrow {
+    id: string;
+    primaryLeg: ModelLeg;
+    secondaryLeg: ModelLeg;
+    startTime: bigint;
+    endTime: bigint;
+    status: EscrowStatus;
+    fees: FeeDefinition[];
+}
+
+/**
+ * ModelRelayNode: the model of one relay node, including who deposited what into it.
+ */
+export interface ModelRelayNode {
+    address: string;
+    escrowId: string;
+    autoForwardNative: boolean;
+    paused: boolean;
+    deposits: Record<string, Record<string, bigint>>; //currency => depositor => amount
+}
+
+/**
+ * ModelState: everything the model tracks. Plain data, so that it can be copied with structuredClone.
+ */
+export interface ModelState {
+    escrowAddress: string;
+    paused: boolean;
+    settings: PlatformFeeSettings;
+    escrows: ModelEscrow[];
+    relayNodes: ModelRelayNode[];
+
+    //fungible balances of tracked holders; transfers to or from other holders are not tracked
+    balances: Record<string, Record<string, bigint>>; //currency => holder => balance
+
+    //owners of ERC721 tokens, by `${collection}:${tokenId}`, and how many there are for ERC721 legs
+    nftOwners: Record<string, string>;
+    nftCount: number;
+}
+
+/**
+ * EscrowLegSpec: one side of an escrow to create in the model.
+ */
+export interface EscrowLegSpec {
+    participantAddress: string;
+    currency: string;
+    paymentType: EscrowPaymentType;
+    amount: bigint;
+    tokenId?: bigint;
+}
+
+//result of a model operation: undefined on success, otherwise the expected revert reason
+type Outcome = string | undefined;
+
+/**
+ * Reference model of PolyEscrow and its relay nodes, written from the documented behaviour rather than
+ * from the contracts: payments accumulate on the leg paid in that currency, an escrow is released
+ * (less fees) once both legs are fully paid, payments are only accepted within an escrow's time
+ * window, an expired escrow or one both participants cancel is refunded, relay nodes forward everything they hold in their
+ * escrow's currencies (or refund it, once the escrow is completed), and each depositor may claim back from a relay
+ * node what they deposited.
+ *
+ * Operations which depend on the time take the timestamp of the block they're mined in.
+ *
+ * Every operation either applies completely, or fails with the reason the contract should revert
+ * with and leaves the state unchanged, as a transaction does.
+ */
+export class EscrowModel {
+    public state: ModelState;
+
+    constructor(state: ModelState) {
+        this.state = state;
+    }
+
+    /**
+     * Applies an operation to a copy of the state, and keeps the copy only if the operation succeeds.
+     *
+     * @returns Undefined on success, otherwise the expected revert reason.
+     */
+    public transact(operation: (state: ModelState) => Outcome): Outcome {
+        const next = structuredClone(this.state);
+        const outcome = operation(next);
+        if (outcome === undefined) {
+            this.state = next;
+        }
+        return outcome;
+    }
+
+    public findEscrow(escrowId: string): ModelEscrow | undefined {
+        return this.state.escrows.find((e) => e.id === escrowId);
+    }
+
+    /**
+     * Returns how much more can be paid into the leg of an escrow in a currency, counting what's
+     * waiting in its relay nodes as already paid.
+     */
+    public getOutstanding(escrow: ModelEscrow, currency: string): bigint {
+        const leg = getLeg(escrow, currency);
+        if (!leg) return 0n;
+
+        const waiting = this.state.relayNodes
+            .filter((n) => n.escrowId === escrow.id)
+            .reduce(
+                (sum, n) => sum + balanceOf(this.state, currency, n.address),
+                0n
+            );
+        return leg.amountPledged - leg.amountPaid - waiting;
+    }
+}
+
+/**
+ * Creates an escrow.
+ */
+export function createEscrow(
+    state: ModelState,
+    id: string,
+    primaryLeg: EscrowLegSpec,
+    secondaryLeg: EscrowLegSpec,
+    fees: FeeDefinition[],
+    startTime: bigint = 0n,
+    endTime: bigint = 0n
+): Outcome {
+    if (state.paused) return 'Paused';
+    if (primaryLeg.participantAddress === secondaryLeg.participantAddress)
+        return 'InvalidPartyAddress';
+    if (primaryLeg.currency === secondaryLeg.currency)
+        return 'CurrencyMismatch';
+    if (state.escrows.some((e) => e.id === id)) return 'DuplicateEscrow';
+
+    const leg = (spec: EscrowLegSpec): ModelLeg => ({
+        participantAddress: spec.participantAddress,
+        currency: spec.currency,
+        paymentType: spec.paymentType,
+        amountPledged: spec.amount,
+        amountPaid: 0n,
+        amountReleased: 0n,
+        amountRefunded: 0n,
+        tokenId: spec.tokenId ?? 0n,
+    });
+
+    state.escrows.push({
+        id,
+        primaryLeg: leg(primaryLeg),
+        secondaryLeg: leg(secondaryLeg),
+        startTime,
+        endTime,
+        status: EscrowStatus.Pending,
+        fees: resolveEscrowFees(fees, state.settings),
+    });
+    return undefined;
+}
+
+/**
+ * Pays into the leg of an escrow with the given currency; ERC721 legs are paid their token, as an amount of 1.
+ */
+export function placePayment(
+    state: ModelState,
+    payer: string,
+    escrowId: string,
+    currency: string,
+    amount: bigint,
+    timestamp: bigint
+): Outcome {
+    if (state.paused) return 'Paused';
+
+    const escrow = state.escrows.find((e) => e.id === escrowId);
+    if (escrow?.status === EscrowStatus.Completed) return 'InvalidEscrowState';
+    if (escrow?.status === EscrowStatus.Arbitration)
+        return 'InvalidEscrowState';
+    if (amount === 0n) return 'InvalidAmount';
+    if (!escrow) return 'InvalidEscrow';
+    if (timestamp < escrow.startTime) return 'EscrowNotStarted';
+    if (escrow.endTime && timestamp >= escrow.endTime) return 'EscrowExpired';
+
+    const leg = getLeg(escrow, currency);
+    if (!leg) return 'InvalidCurrency';
+
+    if (escrow.status === EscrowStatus.Pending) {
+        escrow.status = EscrowStatus.Active;
+    }
+
+    if (leg.paymentType === EscrowPaymentType.ERC721) {
+        if (amount !== 1n) return 'InvalidAmount';
+        const key = nftKey(currency, leg.tokenId);
+        if (state.nftOwners[key] !== payer) return 'NotTokenOwner';
+        state.nftOwners[key] = state.escrowAddress;
+    } else {
+        transfer(state, currency, payer, state.escrowAddress, amount);
+    }
+    leg.amountPaid += amount;
+
+    if (
+        escrow.primaryLeg.amountPaid >= escrow.primaryLeg.amountPledged &&
+        escrow.secondaryLeg.amountPaid >= escrow.secondaryLeg.amountPledged
+    ) {
+        releaseLeg(state, escrow, escrow.primaryLeg);
+        releaseLeg(state, escrow, escrow.secondaryLeg);
+        escrow.status = EscrowStatus.Completed;
+    }
+    return undefined;
+}
+
+/**
+ * Refunds whatever remains in an expired escrow to the parties that pledged it.
+ */
+export function refundExpired(
+    state: ModelState,
+    escrowId: string,
+    timestamp: bigint
+): Outcome {
+    if (state.paused) return 'Paused';
+
+    const escrow = state.escrows.find((e) => e.id === escrowId);
+    if (!escrow) return 'InvalidEscrow';
+    if (escrow.status !== EscrowStatus.Active) return 'InvalidEscrowState';
+    if (!escrow.endTime || timestamp < escrow.endTime)
+        return 'EscrowNotExpired';
+
+    refundAndComplete(state, escrow);
+    return undefined;
+}
+
+/**
+ * Cancels an escrow with both participants' signatures.
+ */
+export function cancelWithSignatures(
+    state: ModelState,
+    escrowId: string,
+    deadline: bigint,
+    timestamp: bigint
+): Outcome {
+    if (state.paused) return 'Paused';
+
+    const escrow = state.escrows.find((e) => e.id === escrowId);
+    if (!escrow) return 'InvalidEscrow';
+    if (escrow.status !== EscrowStatus.Active) return 'InvalidEscrowState';
+    if (timestamp > deadline) return 'SignatureExpired';
+
+    refundAndComplete(state, escrow);
+    return undefined;
+}
+
+//returns whatever remains in each leg to the party that pledged it, and completes the escrow
+function refundAndComplete(state: ModelState, escrow: ModelEscrow) {
+    for (const leg of [escrow.primaryLeg, escrow.secondaryLeg]) {
+        const amount = leg.amountPaid - leg.amountReleased - leg.amountRefunded;
+        if (leg.paymentType === EscrowPaymentType.ERC721) {
+            if (amount > 0n) {
+                state.nftOwners[nftKey(leg.currency, leg.tokenId)] =
+                    leg.participantAddress;
+            }
+        } else {
+            transfer(
+                state,
+                leg.currency,
+                state.escrowAddress,
+                leg.participantAddress,
+                amount
+            );
+        }
+        leg.amountRefunded += amount;
+    }
+    escrow.status = EscrowStatus.Completed;
+}
+
+/**
+ * Pauses or unpauses the escrow contract (relayNode undefined) or a relay node.
+ */
+export function setPaused(
+    state: ModelState,
+    relayNode: number | undefined,
+    paused: boolean
+): Outcome {
+    const target =
+        relayNode === undefined ? state : state.relayNodes[relayNode];
+    if (paused && target.paused) return 'Paused';
+    if (!paused && !target.paused) return 'NotPaused';
+
+    target.paused = paused;
+    return undefined;
+}
+
+/**
+ * Deploys a relay node for an escrow.
+ */
+export function deployRelayNode(
+    state: ModelState,
+    escrowId: string,
+    autoForwardNative: boolean
+): Outcome {
+    if (state.paused) return 'Paused';
+
+    const escrow = state.escrows.find((e) => e.id === escrowId);
+    if (!escrow) return 'InvalidEscrow';
+    if (state.relayNodes.filter((n) => n.escrowId === escrowId).length >= 10)
+        return 'MaxRelayNodesExceeded';
+
+    state.relayNodes.push({
+        address: '', //filled in once deployed
+        escrowId,
+        autoForwardNative,
+        paused: false,
+        deposits: {},
+    });
+    return undefined;
+}
+
+/**
+ * Records the deployed address of the most recent relay node, and starts tracking its balances.
+ */
+export function setRelayNodeAddress(state: ModelState, address: string) {
+    state.relayNodes[state.relayNodes.length - 1].address = address;
+    for (const currency of Object.keys(state.balances)) {
+        state.balances[currency][address] = 0n;
+    }
+}
+
+/**
+ * A transfer into a relay node: tokens of the escrow's own legs are deposited through the node, which
+ * rejects them (and native transfers) once the escrow is completed; anything else is a plain transfer.
+ * Native transfers are rejected unless the escrow has a native leg, and relayed on receipt if the node
+ * auto-forwards them.
+ */
+export function depositToRelayNode(
+    state: ModelState,
+    relayNode: number,
+    depositor: string,
+    currency: string,
+    amount: bigint,
+    timestamp: bigint
+): Outcome {
+    const node = state.relayNodes[relayNode];
+    const escrow = state.escrows.find((e) => e.id === node.escrowId)!;
+    if (currency === ZeroAddress && !getLeg(escrow, currency)) {
+        return 'InvalidCurrency';
+    }
+    if (
+        (currency === ZeroAddress || getLeg(escrow, currency)) &&
+        escrow.status === EscrowStatus.Completed
+    ) {
+        return 'InvalidEscrowState';
+    }
+
+    transfer(state, currency, depositor, node.address, amount);
+
+    const deposits = (node.deposits[currency] ??= {});
+    deposits[depositor] = (deposits[depositor] ?? 0n) + amount;
+
+    if (currency === ZeroAddress && node.autoForwardNative) {
+        return relay(state, relayNode, timestamp);
+    }
+    return undefined;
+}
+
+/**
+ * Pays everything a relay node holds in its escrow's currencies into the escrow, primary leg first. Once
+ * the escrow is completed, it's refunded instead; while it's in arbitration, it's held.
+ */
+export function relay(
+    state: ModelState,
+    relayNode: number,
+    timestamp: bigint
+): Outcome {
+    const node = state.relayNodes[relayNode];
+    if (node.paused) return 'Paused';
+
+    const escrow = state.escrows.find((e) => e.id === node.escrowId)!;
+    if (escrow.status === EscrowStatus.Completed) {
+        refundLeg(state, relayNode, escrow.primaryLeg.currency);
+        return refundLeg(state, relayNode, escrow.secondaryLeg.currency);
+    }
+    if (escrow.status === EscrowStatus.Arbitration) {
+        return undefined;
+    }
+
+    for (const leg of [escrow.primaryLeg, escrow.secondaryLeg]) {
+        if (leg.paymentType === EscrowPaymentType.ERC721) {
+            const key = nftKey(leg.currency, leg.tokenId);
+            if (state.nftOwners[key] !== node.address) continue;
+
+            const outcome = placePayment(
+                state,
+                node.address,
+                escrow.id,
+                leg.currency,
+                1n,
+                timestamp
+            );
+            if (outcome) return outcome;
+            continue;
+        }
+
+        const balance = balanceOf(state, leg.currency, node.address);
+        if (balance > 0n) {
+            const outcome = placePayment(
+                state,
+                node.address,
+                escrow.id,
+                leg.currency,
+                balance,
+                timestamp
+            );
+            if (outcome) return outcome;
+            delete node.deposits[leg.currency];
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Returns what a relay node holds in one of its escrow's currencies, other than deposits, to the
+ * participant who pledged it; deposits are left for their depositors to claim.
+ */
+export function refundLeg(
+    state: ModelState,
+    relayNode: number,
+    currency: string
+): Outcome {
+    const node = state.relayNodes[relayNode];
+    if (node.paused) return 'Paused';
+
+    const escrow = state.escrows.find((e) => e.id === node.escrowId)!;
+    const leg = getLeg(escrow, currency);
+    if (!leg) return undefined;
+
+    const deposited = Object.values(node.deposits[currency] ?? {}).reduce(
+        (total, amount) => total + amount,
+        0n
+    );
+    const balance = balanceOf(state, currency, node.address);
+    if (balance > deposited) {
+        transfer(
+            state,
+            currency,
+            node.address,
+            leg.participantAddress,
+            balance - deposited
+        );
+    }
+    return undefined;
+}
+
+/**
+ * Returns a depositor's own deposits in one of the escrow's currencies from a relay node.
+ */
+export function claimRefund(
+    state: ModelState,
+    relayNode: number,
+    depositor: string,
+    currency: string
+): Outcome {
+    const node = state.relayNodes[relayNode];
+    if (node.paused) return 'Paused';
+
+    const escrow = state.escrows.find((e) => e.id === node.escrowId)!;
+    const leg = getLeg(escrow, currency);
+    if (!leg || leg.paymentType === EscrowPaymentType.ERC721) {
+        return 'InvalidCurrency';
+    }
+
+    const amount = node.deposits[currency]?.[depositor] ?? 0n;
+    if (amount === 0n) return 'ZeroBalance';
+
+    transfer(state, currency, node.address, depositor, amount);
+    delete node.deposits[currency][depositor];
+    return undefined;
+}
+
+export function balanceOf(
+    state: ModelState,
+    currency: string,
+    holder: string
+): bigint {
+    return state.balances[currency]?.[holder] ?? 0n;
+}
+
+export function nftKey(collection: string, tokenId: bigint): string {
+    return `${collection}:${tokenId}`;
+}
+
+function getLeg(escrow: ModelEscrow, currency: string): ModelLeg | undefined {
+    return [escrow.primaryLeg, escrow.secondaryLeg].find(
+        (leg) => leg.currency === currency
+    );
+}
+
+function transfer(
+    state: ModelState,
+    currency: string,
+    from: string,
+    to: string,
+    amount: bigint
+) {
+    const balances = state.balances[currency];
+    if (!balances) return;
+    if (from in balances) balances[from] -= amount;
+    if (to in balances) balances[to] += amount;
+}
+
+//releases everything held for a leg to the counterparty, less fees
+function releaseLeg(state: ModelState, escrow: ModelEscrow, leg: ModelLeg) {
+    const amount = leg.amountPaid - leg.amountReleased - leg.amountRefunded;
+
+    if (leg.paymentType === EscrowPaymentType.ERC721) {
+        const counterparty =
+            leg === escrow.primaryLeg
+                ? escrow.secondaryLeg.participantAddress
+                : escrow.primaryLeg.participantAddress;
+        if (amount > 0n) {
+            state.nftOwners[nftKey(leg.currency, leg.tokenId)] = counterparty;
+        }
+    } else {
+        for (const payout of calculatePaymentAmounts(escrow, leg, amount)) {
+            transfer(
+                state,
+                leg.currency,
+                state.escrowAddress,
+                payout.recipient,
+                payout.amount
+            );
+        }
+    }
+    leg.amountReleased += amount;
+}
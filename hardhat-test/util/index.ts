@@ -2,113 +2,92 @@ import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
 import { expect } from 'chai';
 import { BigNumberish } from 'ethers';
 import hre, { ethers } from 'hardhat';
-import { TestToken__factory } from '../../typechain-types';
+import {
+    ArbitrationModule__factory,
+    PolyEscrow__factory,
+    RoleBasedSecurityContext__factory,
+    SystemSettings__factory,
+} from '../../typechain-types';
+import PolyEscrowModule from '../../ignition/modules/PolyEscrow';
+import ArbitrationIgnitionModule from '../../ignition/modules/Arbitration';
+import hardhatParameters from '../../ignition/parameters/hardhat.json';
+import { decodeEscrow, EscrowDefinition, EscrowLegInput } from '../../client';
 
-export interface EscrowLeg {
-    participantAddress: string;
-    currency: string;
-    paymentType: number;
+export {
+    EscrowDefinition,
+    EscrowLeg,
+    EscrowLegInput,
+    FeeDefinition,
+    ArbitrationDefinition,
+    EscrowStatus,
+    EscrowPaymentType as PaymentType,
+} from '../../client';
+export { checkEscrowInvariantsAfterEachTransaction } from './invariants';
 
-    //amounts
-    amountPledged: number;
-    amountPaid: number;
-    amountReleased: number;
-    amountRefunded: number;
+/**
+ * Converts the raw getEscrow result into an EscrowDefinition; amounts are bigint.
+ */
+export function convertEscrow(rawData: any): EscrowDefinition {
+    return decodeEscrow(rawData);
 }
 
-export interface FeeDefinition {
-    recipient: string;
-    feeBps: number;
-}
-
-export interface EscrowDefinition {
-    //unique id
-    id: any;
-
-    //counterparties
-    primaryLeg: EscrowLeg;
-    secondaryLeg: EscrowLeg;
-
-    //times
-    timestamp: number;
-    startTime: number;
-    endTime: number;
-
-    //status
-    status: number;
+/**
+ * Deploys the full PolyEscrow stack (security context, system settings, escrow) using the same
+ * Ignition module as production deployments.
+ *
+ * @param parameters Module parameters; defaults to those for the hardhat network.
+ * @returns The deployed securityContext, systemSettings and polyEscrow contracts.
+ */
+export async function deployPolyEscrowStack(
+    parameters: Record<string, Record<string, any>> = hardhatParameters
+) {
+    const [deployer] = await hre.ethers.getSigners();
+    const deployed = await hre.ignition.deploy(PolyEscrowModule, {
+        parameters,
+    });
 
-    //arbitration
-    arbitration: ArbitrationDefinition;
-
-    //fees
-    //TODO: fees for ERC721 doesn't make sense. Should only be for ERC20 and Native. But what about bitcoin?
-    fees: FeeDefinition[];
-}
-
-export interface ArbitrationDefinition {
-    arbitrationModule: string; //address of arbitration module
-    arbiters: string[]; //list of arbiters
-    quorum: number; //number of arbiters required to rule
+    return {
+        securityContext: RoleBasedSecurityContext__factory.connect(
+            await deployed.securityContext.getAddress(),
+            deployer
+        ),
+        systemSettings: SystemSettings__factory.connect(
+            await deployed.systemSettings.getAddress(),
+            deployer
+        ),
+        polyEscrow: PolyEscrow__factory.connect(
+            await deployed.polyEscrow.getAddress(),
+            deployer
+        ),
+    };
 }
 
-export interface EscrowLegInput {
-    participantAddress: string;
-    currency: string; //token address, or 0x0 for native
-    paymentType: number; //0 = payer, 1 = receiver
-    amount: BigNumberish; //amount pledged
-}
+/**
+ * Deploys the full PolyEscrow stack along with an ArbitrationModule for it, using the Ignition modules.
+ *
+ * @param parameters Module parameters; defaults to those for the hardhat network.
+ * @returns The deployed polyEscrow and arbitrationModule contracts.
+ */
+export async function deployArbitrationStack(
+    parameters: Record<string, Record<string, any>> = hardhatParameters
+) {
+    const [deployer] = await hre.ethers.getSigners();
+    const deployed = await hre.ignition.deploy(ArbitrationIgnitionModule, {
+        parameters,
+    });
 
-export function convertEscrow(rawData: any[]): EscrowDefinition {
-    const output: EscrowDefinition = {
-        id: rawData[0],
-        primaryLeg: {
-            participantAddress: rawData[1][0],
-            currency: rawData[1][1],
-            paymentType: rawData[1][2],
-            amountPledged: Number(rawData[1][3]),
-            amountPaid: Number(rawData[1][4]),
-            amountReleased: Number(rawData[1][5]),
-            amountRefunded: Number(rawData[1][6]),
-        },
-        secondaryLeg: {
-            participantAddress: rawData[2][0],
-            currency: rawData[2][1],
-            paymentType: rawData[2][2],
-            amountPledged: Number(rawData[2][3]),
-            amountPaid: Number(rawData[2][4]),
-            amountReleased: Number(rawData[2][5]),
-            amountRefunded: Number(rawData[2][6]),
-        },
-        timestamp: Number(rawData[3]),
-        startTime: Number(rawData[4]),
-        endTime: Number(rawData[5]),
-        status: Number(rawData[6]),
-        arbitration: {
-            arbitrationModule: rawData[7][0],
-            arbiters: rawData[7][1],
-            quorum: rawData[7][2],
-        },
-        fees: rawData[8],
+    return {
+        polyEscrow: PolyEscrow__factory.connect(
+            await deployed.polyEscrow.getAddress(),
+            deployer
+        ),
+        arbitrationModule: ArbitrationModule__factory.connect(
+            await deployed.arbitrationModule.getAddress(),
+            deployer
+        ),
     };
-
-    return output;
 }
 
-export const EscrowStatus = {
-    Pending: 0,
-    Active: 1,
-    Completed: 2,
-    Arbitration: 3,
-};
-
-export const PaymentType = {
-    Native: 0,
-    ERC20: 1,
-    ERC721: 2,
-    Bitcoin: 3,
-    Custom: 4,
-};
-
 export class TestUtil {
     public testToken1: any;
     public testToken2: any;
@@ -152,7 +131,13 @@ export class TestUtil {
         amount: BigNumberish,
         currency: string = ''
     ): Promise<EscrowDefinition> {
-        //take care of approvals
+        //take care of approvals; an NFT leg's token is approved, its amount being 1
+        const nftLeg = async () => {
+            const escrow = await this.getEscrow(escrowId);
+            return escrow.primaryLeg.currency === currency
+                ? escrow.primaryLeg
+                : escrow.secondaryLeg;
+        };
         if (currency === this.testToken1.target) {
             await this.testToken1
                 .connect(payerAccount)
@@ -164,11 +149,11 @@ export class TestUtil {
         } else if (currency === this.testNft1.target) {
             await this.testNft1
                 .connect(payerAccount)
-                .approve(this.polyEscrow.target, amount);
+                .approve(this.polyEscrow.target, (await nftLeg()).tokenId);
         } else if (currency === this.testNft2.target) {
             await this.testNft2
                 .connect(payerAccount)
-                .approve(this.polyEscrow.target, amount);
+                .approve(this.polyEscrow.target, (await nftLeg()).tokenId);
         } else {
             currency = ethers.ZeroAddress;
         }
@@ -198,8 +183,11 @@ export class TestUtil {
     ): Promise<EscrowDefinition> {
         await this.polyEscrow.connect(creatorAccount).createEscrow({
             id: escrowId,
-            primaryLeg,
-            secondaryLeg,
+            primaryLeg: { ...primaryLeg, tokenId: primaryLeg.tokenId ?? 0 },
+            secondaryLeg: {
+                ...secondaryLeg,
+                tokenId: secondaryLeg.tokenId ?? 0,
+            },
             startTime,
             endTime,
             arbitration: {
@@ -278,6 +266,10 @@ export class TestUtil {
                 expect(escrow.primaryLeg.amountRefunded).to.equal(
                     expectedValues.primaryLeg.amountRefunded
                 );
+            if (expectedValues.primaryLeg.tokenId != undefined)
+                expect(escrow.primaryLeg.tokenId).to.equal(
+                    expectedValues.primaryLeg.tokenId
+                );
         }
 
         if (expectedValues.secondary) {
@@ -309,6 +301,10 @@ export class TestUtil {
                 expect(escrow.secondaryLeg.amountRefunded).to.equal(
                     expectedValues.seconaryLeg.amountRefunded
                 );
+            if (expectedValues.seconaryLeg.tokenId != undefined)
+                expect(escrow.secondaryLeg.tokenId).to.equal(
+                    expectedValues.seconaryLeg.tokenId
+                );
         }
 
         if (expectedValues.timestamp != undefined)
@@ -0,0 +1,107 @@
+import hre from 'hardhat';
+import { PolyEscrow__factory } from '../../typechain-types';
+import { decodeEscrow, EscrowInvariantChecker } from '../../client';
+
+const polyEscrowInterface = PolyEscrow__factory.createInterface();
+const ESCROW_EVENT_TOPICS = [
+    polyEscrowInterface.getEvent('EscrowCreated').topicHash,
+    polyEscrowInterface.getEvent('PaymentReceived').topicHash,
+];
+
+//escrows seen in transaction logs, and a checker for each escrow contract
+interface WatchedContract {
+    checker: EscrowInvariantChecker;
+    escrowIds: Set<string>;
+}
+
+/**
+ * Checks the escrow lifecycle invariants (see client/lifecycle.ts) after every transaction sent in the
+ * calling describe block. Every escrow which appears in an EscrowCreated or PaymentReceived log is
+ * watched, and re-checked after each later transaction, against its snapshot after the previous one.
+ *
+ * A violation fails the transaction's send with an 'EscrowInvariantViolated' error. Watched escrows are
+ * forgotten before each test, and previous snapshots are forgotten when the chain is reverted to a
+ * snapshot.
+ */
+export function checkEscrowInvariantsAfterEachTransaction() {
+    const provider: any = hre.network.provider;
+    const contracts = new Map<string, WatchedContract>();
+    let originalSend: any;
+    let originalRequest: any;
+
+    const afterCall = async (method: string, result: any) => {
+        if (method === 'evm_revert') {
+            contracts.forEach((c) => c.checker.reset());
+        }
+        if (
+            method === 'eth_sendTransaction' ||
+            method === 'eth_sendRawTransaction'
+        ) {
+            await checkAfterTransaction(result);
+        }
+    };
+
+    const checkAfterTransaction = async (hash: string) => {
+        const receipt = await hre.ethers.provider.getTransactionReceipt(hash);
+        if (!receipt) return; //not mined yet; checked after the next one
+
+        for (const log of receipt.logs) {
+            if (!ESCROW_EVENT_TOPICS.includes(log.topics[0])) continue;
+
+            const watched = contracts.get(log.address) ?? {
+                checker: new EscrowInvariantChecker(),
+                escrowIds: new Set<string>(),
+            };
+            watched.escrowIds.add(polyEscrowInterface.parseLog(log)!.args[0]);
+            contracts.set(log.address, watched);
+        }
+
+        for (const [address, watched] of contracts) {
+            const polyEscrow = PolyEscrow__factory.connect(
+                address,
+                hre.ethers.provider
+            );
+            for (const escrowId of watched.escrowIds) {
+                const escrow = decodeEscrow(
+                    await polyEscrow.getEscrow(escrowId)
+                );
+                const violations = watched.checker.check(escrow);
+                if (violations.length) {
+                    throw new Error(
+                        `EscrowInvariantViolated: ${violations
+                            .map((v) => `${v.rule} (${v.message})`)
+                            .join(', ')} after tx ${hash}`
+                    );
+                }
+            }
+        }
+    };
+
+    before(() => {
+        originalSend = provider.send;
+        originalRequest = provider.request;
+
+        provider.send = async function (method: string, params?: any[]) {
+            const result = await originalSend.call(this, method, params);
+            await afterCall(method, result);
+            return result;
+        };
+        provider.request = async function (args: {
+            method: string;
+            params?: any;
+        }) {
+            const result = await originalRequest.call(this, args);
+            await afterCall(args.method, result);
+            return result;
+        };
+    });
+
+    beforeEach(() => {
+        contracts.clear();
+    });
+
+    after(() => {
+        provider.send = originalSend;
+        provider.request = originalRequest;
+    });
+}
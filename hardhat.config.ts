@@ -1,5 +1,6 @@
 import { HardhatUserConfig } from 'hardhat/config';
 import '@nomicfoundation/hardhat-toolbox';
+import './tasks';
 
 require('dotenv').config();
 
@@ -12,7 +13,7 @@ const config: HardhatUserConfig = {
         settings: {
             optimizer: {
                 enabled: true,
-                runs: 1000,
+                runs: 200, //keeps PolyEscrow within the contract size limit
             },
         },
     },
@@ -0,0 +1,23 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import PolyEscrowModule from './PolyEscrow';
+
+/**
+ * Deploys an ArbitrationModule for the PolyEscrow contract. Escrows opt in by naming it as their
+ * arbitration module.
+ *
+ * Parameter 'proposalDuration' is how long (in seconds) proposals may be voted on; defaults to 7 days.
+ */
+export default buildModule('ArbitrationModule', (m) => {
+    const { polyEscrow } = m.useModule(PolyEscrowModule);
+    const proposalDuration = m.getParameter<bigint>(
+        'proposalDuration',
+        7n * 24n * 60n * 60n
+    );
+
+    const arbitrationModule = m.contract('ArbitrationModule', [
+        polyEscrow,
+        proposalDuration,
+    ]);
+
+    return { polyEscrow, arbitrationModule };
+});
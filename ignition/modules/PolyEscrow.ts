@@ -0,0 +1,35 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import SystemSettingsModule from './SystemSettings';
+
+/**
+ * Deploys the full PolyEscrow stack: security context (with role grants), system settings, and the
+ * escrow contract itself, linked to the libraries which store its escrows and templates, pay out of its
+ * escrows, and deploy its relay nodes.
+ *
+ * Usage:
+ *  npx hardhat ignition deploy ignition/modules/PolyEscrow.ts --network <network> \
+ *      --parameters ignition/parameters/<network>.json
+ */
+export default buildModule('PolyEscrowModule', (m) => {
+    const { securityContext, systemSettings } =
+        m.useModule(SystemSettingsModule);
+
+    const relayNodeDeployer = m.library('RelayNodeDeployer');
+    const escrowFactory = m.library('EscrowFactory');
+    const escrowPayouts = m.library('EscrowPayouts');
+    const escrowTemplates = m.library('EscrowTemplates');
+    const polyEscrow = m.contract(
+        'PolyEscrow',
+        [securityContext, systemSettings],
+        {
+            libraries: {
+                RelayNodeDeployer: relayNodeDeployer,
+                EscrowFactory: escrowFactory,
+                EscrowPayouts: escrowPayouts,
+                EscrowTemplates: escrowTemplates,
+            },
+        }
+    );
+
+    return { securityContext, systemSettings, polyEscrow };
+});
@@ -0,0 +1,34 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import { id } from 'ethers';
+
+export const ADMIN_ROLE = id('ADMIN_ROLE');
+export const SYSTEM_ROLE = id('SYSTEM_ROLE');
+export const PAUSER_ROLE = id('PAUSER_ROLE');
+
+/**
+ * Deploys the RoleBasedSecurityContext and grants the system roles.
+ *
+ * The deployer is the initial admin (it must be, in order to make the grants); ADMIN_ROLE is then
+ * also granted to the 'admin' parameter, SYSTEM_ROLE to 'systemAccount' and PAUSER_ROLE to
+ * 'pauserAccount'. All three default to the deployer.
+ */
+export default buildModule('SecurityContextModule', (m) => {
+    const deployer = m.getAccount(0);
+    const admin = m.getParameter('admin', deployer);
+    const systemAccount = m.getParameter('systemAccount', deployer);
+    const pauserAccount = m.getParameter('pauserAccount', deployer);
+
+    const securityContext = m.contract('RoleBasedSecurityContext', [deployer]);
+
+    m.call(securityContext, 'grantRole', [ADMIN_ROLE, admin], {
+        id: 'grantAdminRole',
+    });
+    m.call(securityContext, 'grantRole', [SYSTEM_ROLE, systemAccount], {
+        id: 'grantSystemRole',
+    });
+    m.call(securityContext, 'grantRole', [PAUSER_ROLE, pauserAccount], {
+        id: 'grantPauserRole',
+    });
+
+    return { securityContext };
+});
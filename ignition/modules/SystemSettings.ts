@@ -0,0 +1,22 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import SecurityContextModule from './SecurityContext';
+
+/**
+ * Deploys SystemSettings against the security context.
+ *
+ * Parameters 'vaultAddress' (recipient of platform fees) and 'feeBps' (platform fee in basis points)
+ * are both required; there is no sensible default for either.
+ */
+export default buildModule('SystemSettingsModule', (m) => {
+    const { securityContext } = m.useModule(SecurityContextModule);
+    const vaultAddress = m.getParameter<string>('vaultAddress');
+    const feeBps = m.getParameter<bigint>('feeBps');
+
+    const systemSettings = m.contract('SystemSettings', [
+        securityContext,
+        vaultAddress,
+        feeBps,
+    ]);
+
+    return { securityContext, systemSettings };
+});
@@ -0,0 +1,254 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { getAddress, isAddress, isHexString } from 'ethers';
+import { EscrowStatus } from '../../client/types';
+import { EscrowFilter, IndexerStore } from '../indexer';
+
+//an error with the HTTP status to respond with
+class HttpError extends Error {
+    constructor(
+        public readonly status: number,
+        message: string
+    ) {
+        super(message);
+    }
+}
+
+type Query = URLSearchParams;
+type Route = (query: Query, ...params: string[]) => any;
+
+/**
+ * Read-only HTTP/JSON API over an IndexerStore.
+ *
+ * Endpoints (all GET):
+ * - /status: last indexed block and number of indexed escrows
+ * - /escrows: escrows, filtered by participant, status, currency and endsBefore; paged by limit and
+ *   offset
+ * - /escrows/:id: one escrow, with its payments and relay nodes
+ * - /escrows/:id/payments: payments into one escrow
+ * - /balances: amounts held and pending per currency, over the escrows matching the same filters as
+ *   /escrows
+ * - /relay-nodes: relay nodes, optionally for one escrowId
+ * - /admin-events: pause and system settings events
+ *
+ * Amounts are returned as decimal strings. Errors are returned as { error } with status 400 (invalid
+ * parameter), 404 (not found) or 405 (method not allowed).
+ */
+export class EscrowApiServer {
+    public readonly server: http.Server;
+
+    private readonly routes: [RegExp, Route][];
+
+    /**
+     * @param store The indexed data to serve.
+     * @param maxPageSize Largest page of escrows returned at once; also the default page size.
+     */
+    constructor(
+        public readonly store: IndexerStore,
+        public readonly maxPageSize: number = 100
+    ) {
+        this.server = http.createServer((req, res) => this._handle(req, res));
+        this.routes = [
+            [/^\/status$/, () => this._getStatus()],
+            [/^\/escrows$/, (q) => this._getEscrows(q)],
+            [/^\/escrows\/([^/]+)$/, (_, id) => this._getEscrow(id)],
+            [
+                /^\/escrows\/([^/]+)\/payments$/,
+                (_, id) => ({ items: this.store.getPayments(parseId(id)) }),
+            ],
+            [
+                /^\/balances$/,
+                (q) => ({ items: this.store.getBalances(parseFilter(q)) }),
+            ],
+            [
+                /^\/relay-nodes$/,
+                (q) => ({
+                    items: this.store.getRelayNodes(
+                        q.has('escrowId')
+                            ? parseId(q.get('escrowId')!)
+                            : undefined
+                    ),
+                }),
+            ],
+            [
+                /^\/admin-events$/,
+                () => ({ items: this.store.getAdminEvents() }),
+            ],
+        ];
+    }
+
+    /**
+     * Starts listening.
+     *
+     * @param port Port to listen on; 0 picks a free port.
+     * @param host Interface to listen on.
+     * @returns The base URL of the API.
+     */
+    public async listen(
+        port: number = 0,
+        host: string = '127.0.0.1'
+    ): Promise<string> {
+        await new Promise<void>((resolve, reject) => {
+            this.server.once('error', reject);
+            this.server.listen(port, host, () => {
+                this.server.off('error', reject);
+                resolve();
+            });
+        });
+
+        const address = this.server.address() as AddressInfo;
+        return `http://${host}:${address.port}`;
+    }
+
+    /**
+     * Stops listening and closes open connections.
+     */
+    public async close(): Promise<void> {
+        this.server.closeAllConnections();
+        await new Promise<void>((resolve, reject) =>
+            this.server.close((e) => (e ? reject(e) : resolve()))
+        );
+    }
+
+    private _handle(req: http.IncomingMessage, res: http.ServerResponse) {
+        let status = 200;
+        let body: any;
+
+        try {
+            if (req.method !== 'GET') {
+                throw new HttpError(405, 'MethodNotAllowed');
+            }
+
+            const url = new URL(req.url ?? '/', 'http://localhost');
+            const path = url.pathname.replace(/\/+$/, '') || '/';
+
+            const match = this.routes
+                .map(([pattern, route]) => ({ route, m: pattern.exec(path) }))
+                .find((r) => r.m);
+            if (!match) {
+                throw new HttpError(404, 'NotFound');
+            }
+
+            body = match.route(url.searchParams, ...match.m!.slice(1));
+        } catch (e: any) {
+            status = e instanceof HttpError ? e.status : 500;
+            body = {
+                error: e instanceof HttpError ? e.message : 'InternalError',
+            };
+            if (status === 500) console.error(e);
+        }
+
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(
+            JSON.stringify(body, (_, v) =>
+                typeof v === 'bigint' ? v.toString() : v
+            )
+        );
+    }
+
+    private _getStatus() {
+        return {
+            checkpoint: this.store.getCheckpoint() ?? null,
+            escrowCount: this.store.countEscrows(),
+        };
+    }
+
+    private _getEscrows(query: Query) {
+        const filter = parseFilter(query);
+        const limit = parseInteger(query, 'limit') ?? this.maxPageSize;
+        const offset = parseInteger(query, 'offset') ?? 0;
+        if (limit < 1 || limit > this.maxPageSize) {
+            throw new HttpError(400, 'InvalidParameter: limit');
+        }
+
+        return {
+            total: this.store.countEscrows(filter),
+            limit,
+            offset,
+            items: this.store.getEscrows({ ...filter, limit, offset }),
+        };
+    }
+
+    private _getEscrow(id: string) {
+        const escrow = this.store.getEscrow(parseId(id));
+        if (!escrow) {
+            throw new HttpError(404, 'EscrowNotFound');
+        }
+
+        return {
+            ...escrow,
+            payments: this.store.getPayments(escrow.id),
+            relayNodes: this.store.getRelayNodes(escrow.id),
+        };
+    }
+}
+
+//parses the escrow filters shared by /escrows and /balances
+function parseFilter(query: Query): EscrowFilter {
+    const filter: EscrowFilter = {};
+
+    if (query.has('participant')) {
+        filter.participant = parseAddress(query, 'participant');
+    }
+    if (query.has('currency')) {
+        filter.currency = parseAddress(query, 'currency');
+    }
+    if (query.has('status')) {
+        filter.status = parseStatus(query.get('status')!);
+    }
+    if (query.has('endsBefore')) {
+        filter.endsBefore = parseTime(query.get('endsBefore')!);
+    }
+
+    return filter;
+}
+
+function parseId(id: string): string {
+    if (!isHexString(id, 32)) {
+        throw new HttpError(400, 'InvalidParameter: id');
+    }
+    return id.toLowerCase();
+}
+
+function parseAddress(query: Query, name: string): string {
+    const value = query.get(name)!;
+    if (!isAddress(value)) {
+        throw new HttpError(400, `InvalidParameter: ${name}`);
+    }
+    return getAddress(value);
+}
+
+//accepts a status by name (case-insensitive) or by number
+function parseStatus(value: string): EscrowStatus {
+    const byName = Object.keys(EscrowStatus).find(
+        (k) => isNaN(Number(k)) && k.toLowerCase() === value.toLowerCase()
+    );
+    const status = byName
+        ? EscrowStatus[byName as keyof typeof EscrowStatus]
+        : Number(value);
+
+    if (typeof EscrowStatus[status] !== 'string' || !/^\w+$/.test(value)) {
+        throw new HttpError(400, 'InvalidParameter: status');
+    }
+    return status;
+}
+
+//accepts unix seconds or an ISO-8601 date
+function parseTime(value: string): bigint {
+    if (/^\d+$/.test(value)) return BigInt(value);
+
+    const millis = Date.parse(value);
+    if (isNaN(millis)) {
+        throw new HttpError(400, 'InvalidParameter: endsBefore');
+    }
+    return BigInt(Math.floor(millis / 1000));
+}
+
+function parseInteger(query: Query, name: string): number | undefined {
+    const value = query.get(name);
+    if (value === null) return undefined;
+    if (!/^\d+$/.test(value)) {
+        throw new HttpError(400, `InvalidParameter: ${name}`);
+    }
+    return Number(value);
+}
@@ -0,0 +1 @@
+export { EscrowApiServer } from './EscrowApiServer';
@@ -0,0 +1,320 @@
+import { Interface, Log, LogDescription, Provider } from 'ethers';
+import {
+    PolyEscrow,
+    PolyEscrow__factory,
+    SystemSettings,
+    SystemSettings__factory,
+} from '../../typechain-types';
+import { decodeEscrow, decodePaymentType } from '../../client/codec';
+import { IndexerStore } from './IndexerStore';
+import {
+    AdminEventRecord,
+    IndexedBatch,
+    IndexedEscrow,
+    IndexerOptions,
+} from './types';
+
+/**
+ * Builds an off-chain database of escrows from PolyEscrow and SystemSettings logs.
+ *
+ * Only blocks at least `confirmations` deep are indexed. Each range of blocks is written to the store
+ * together with its checkpoint in one transaction, so indexing resumes cleanly after a restart. If a
+ * reorg replaces an already indexed block anyway (the checkpoint's block hash no longer matches),
+ * indexed data is rolled back to the last checkpoint still on the canonical chain and re-indexed.
+ *
+ * Escrow snapshots are read as of the indexed block, so backfilling blocks older than a full node keeps
+ * state for requires an archive node.
+ */
+export class EscrowIndexer {
+    public readonly polyEscrow: PolyEscrow;
+    public readonly confirmations: number;
+    public readonly startBlock: number;
+    public readonly batchSize: number;
+
+    private readonly provider: Provider;
+    private systemSettings: SystemSettings | undefined;
+    private timer: NodeJS.Timeout | undefined;
+    private running: boolean = false;
+
+    /**
+     * @param store The store to write indexed data to.
+     * @param options Contracts, provider and indexing options.
+     */
+    constructor(
+        public readonly store: IndexerStore,
+        private readonly options: IndexerOptions
+    ) {
+        this.provider = options.provider;
+        this.polyEscrow = PolyEscrow__factory.connect(
+            options.escrowAddress,
+            options.provider
+        );
+        this.confirmations = options.confirmations ?? 12;
+        this.startBlock = options.startBlock ?? 0;
+        this.batchSize = options.batchSize ?? 2000;
+    }
+
+    /**
+     * Indexes all confirmed blocks since the last checkpoint.
+     *
+     * @returns The last indexed block number (-1 if nothing is confirmed yet).
+     */
+    public async sync(): Promise<number> {
+        await this._handleReorg();
+
+        const head = await this.provider.getBlockNumber();
+        const safeBlock = head - this.confirmations;
+        let lastBlock =
+            this.store.getCheckpoint()?.blockNumber ?? this.startBlock - 1;
+
+        while (lastBlock < safeBlock) {
+            const toBlock = Math.min(lastBlock + this.batchSize, safeBlock);
+            this.store.applyBatch(
+                await this._indexRange(lastBlock + 1, toBlock)
+            );
+            lastBlock = toBlock;
+        }
+
+        return lastBlock;
+    }
+
+    /**
+     * Starts syncing continuously, every pollInterval ms. Errors are logged and retried at the next
+     * interval.
+     *
+     * @param pollInterval Milliseconds between syncs.
+     */
+    public start(pollInterval: number = 4000): void {
+        if (this.running) return;
+        this.running = true;
+
+        const loop = async () => {
+            try {
+                await this.sync();
+            } catch (e) {
+                console.error('Indexer sync failed:', e);
+            }
+            if (this.running) {
+                this.timer = setTimeout(loop, pollInterval);
+            }
+        };
+        loop();
+    }
+
+    /**
+     * Stops continuous syncing.
+     */
+    public stop(): void {
+        this.running = false;
+        clearTimeout(this.timer);
+    }
+
+    private async _getSystemSettings(): Promise<SystemSettings> {
+        if (!this.systemSettings) {
+            this.systemSettings = SystemSettings__factory.connect(
+                this.options.settingsAddress ??
+                    (await this.polyEscrow.settings()),
+                this.provider
+            );
+        }
+        return this.systemSettings;
+    }
+
+    //reads and decodes all logs in a block range
+    private async _indexRange(
+        fromBlock: number,
+        toBlock: number
+    ): Promise<IndexedBatch> {
+        const systemSettings = await this._getSystemSettings();
+        const logs = [
+            ...(await this._getLogs(this.polyEscrow, fromBlock, toBlock)),
+            ...(await this._getLogs(systemSettings, fromBlock, toBlock)),
+        ].sort(
+            (a, b) =>
+                a.log.blockNumber - b.log.blockNumber ||
+                a.log.index - b.log.index
+        );
+
+        const block = await this.provider.getBlock(toBlock);
+        const batch: IndexedBatch = {
+            checkpoint: { blockNumber: toBlock, blockHash: block!.hash! },
+            escrows: [],
+            payments: [],
+            relayNodes: [],
+            adminEvents: [],
+        };
+
+        //escrows created, paid into or arbitrated in this range, with the tx that created them
+        const touched = new Map<string, { block: number; tx: string } | null>();
+
+        for (const { log, event } of logs) {
+            const location = {
+                blockNumber: log.blockNumber,
+                logIndex: log.index,
+                transactionHash: log.transactionHash,
+            };
+
+            switch (event.name) {
+                case 'EscrowCreated':
+                    touched.set(event.args.escrowId.toLowerCase(), {
+                        block: log.blockNumber,
+                        tx: log.transactionHash,
+                    });
+                    break;
+
+                case 'PaymentReceived': {
+                    const escrowId = event.args.escrowId.toLowerCase();
+                    if (!touched.has(escrowId)) touched.set(escrowId, null);
+                    batch.payments.push({
+                        escrowId,
+                        from: event.args.from,
+                        currency: event.args.currency,
+                        paymentType: decodePaymentType(event.args.paymentType),
+                        amount: event.args.amount,
+                        ...location,
+                    });
+                    break;
+                }
+
+                //arbitration, expiry refunds and cancellation change the status and amounts, without a payment
+                case 'ArbitrationStateChanged':
+                case 'ArbitrationExecuted':
+                case 'EscrowRefunded':
+                case 'EscrowCancelled': {
+                    const escrowId = event.args.escrowId.toLowerCase();
+                    if (!touched.has(escrowId)) touched.set(escrowId, null);
+                    break;
+                }
+
+                case 'RelayNodeDeployed':
+                    batch.relayNodes.push({
+                        address: event.args.relayAddress,
+                        escrowId: event.args.escrowId.toLowerCase(),
+                        ...location,
+                    });
+                    break;
+
+                case 'Paused':
+                case 'Unpaused':
+                    batch.adminEvents.push(
+                        this._adminEvent(log, event, event.args[0], null)
+                    );
+                    break;
+
+                case 'VaultAddressChanged':
+                case 'FeeBpsChanged':
+                    batch.adminEvents.push(
+                        this._adminEvent(
+                            log,
+                            event,
+                            event.args[1],
+                            event.args[0].toString()
+                        )
+                    );
+                    break;
+            }
+        }
+
+        //snapshot the state of every touched escrow as of the end of the range (historical state; see the class doc)
+        for (const [escrowId, created] of touched) {
+            const snapshot = await this._snapshot(escrowId, toBlock, created);
+            if (snapshot) batch.escrows.push(snapshot);
+        }
+
+        return batch;
+    }
+
+    //reads an escrow as of the given block; created is null for escrows indexed earlier
+    private async _snapshot(
+        escrowId: string,
+        blockNumber: number,
+        created: { block: number; tx: string } | null
+    ): Promise<IndexedEscrow | undefined> {
+        const existing = this.store.getEscrow(escrowId);
+        const origin =
+            created ??
+            (existing && {
+                block: existing.createdBlock,
+                tx: existing.createdTransaction,
+            });
+
+        //a payment into an escrow created before startBlock
+        if (!origin) return undefined;
+
+        const escrow = decodeEscrow(
+            await this.polyEscrow.getEscrow(escrowId, { blockTag: blockNumber })
+        );
+        return {
+            ...escrow,
+            createdBlock: origin.block,
+            createdTransaction: origin.tx,
+            updatedBlock: blockNumber,
+        };
+    }
+
+    //reads the logs of one contract in a block range, decoded by the contract's interface
+    private async _getLogs(
+        contract: { target: any; interface: Interface },
+        fromBlock: number,
+        toBlock: number
+    ): Promise<{ log: Log; event: LogDescription }[]> {
+        const logs = await this.provider.getLogs({
+            address: contract.target as string,
+            fromBlock,
+            toBlock,
+        });
+
+        const decoded: { log: Log; event: LogDescription }[] = [];
+        for (const log of logs) {
+            const event = contract.interface.parseLog(log);
+            if (event) decoded.push({ log, event });
+        }
+        return decoded;
+    }
+
+    private _adminEvent(
+        log: Log,
+        event: LogDescription,
+        account: string,
+        value: string | null
+    ): AdminEventRecord {
+        return {
+            contract: log.address,
+            event: event.name as AdminEventRecord['event'],
+            account,
+            value,
+            blockNumber: log.blockNumber,
+            logIndex: log.index,
+            transactionHash: log.transactionHash,
+        };
+    }
+
+    //if the checkpoint is no longer canonical, rolls back to the newest checkpoint that is
+    private async _handleReorg(): Promise<void> {
+        const checkpoints = this.store.getCheckpoints();
+        if (!checkpoints.length) return;
+
+        let keep = this.startBlock - 1;
+        for (const checkpoint of checkpoints) {
+            const block = await this.provider.getBlock(checkpoint.blockNumber);
+            if (block?.hash === checkpoint.blockHash) {
+                keep = checkpoint.blockNumber;
+                break;
+            }
+        }
+        if (keep === checkpoints[0].blockNumber) return;
+
+        //escrows changed after the kept block revert to their state as of that block
+        const snapshots: IndexedEscrow[] = [];
+        for (const escrow of this.store.getEscrowsUpdatedAfter(keep)) {
+            if (escrow.createdBlock > keep) continue;
+            const snapshot = await this._snapshot(escrow.id, keep, {
+                block: escrow.createdBlock,
+                tx: escrow.createdTransaction,
+            });
+            if (snapshot) snapshots.push(snapshot);
+        }
+
+        this.store.rollback(keep, snapshots);
+    }
+}
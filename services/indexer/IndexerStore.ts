@@ -0,0 +1,447 @@
+import fs from 'fs';
+import initSqlJs, { BindParams, Database } from 'sql.js';
+import { EscrowDefinition, EscrowStatus } from '../../client/types';
+import { CHECKPOINT_HISTORY, SCHEMA, SCHEMA_VERSION, TABLES } from './schema';
+import {
+    AdminEventRecord,
+    Checkpoint,
+    CurrencyBalance,
+    EscrowFilter,
+    IndexedBatch,
+    IndexedEscrow,
+    PaymentRecord,
+    RelayNodeRecord,
+} from './types';
+
+//escrow fields which are bigint, and are stored as decimal strings in the escrow's JSON
+const BIGINT_FIELDS = new Set([
+    'amountPledged',
+    'amountPaid',
+    'amountReleased',
+    'amountRefunded',
+    'tokenId',
+    'timestamp',
+    'startTime',
+    'endTime',
+    'feeBps',
+]);
+
+/**
+ * Embedded SQLite store for indexed escrow data.
+ *
+ * The database lives in memory and, if opened with a filename, is written back to that file after
+ * every change (write to a temp file, then rename), so that a restarted indexer resumes from its last
+ * checkpoint.
+ */
+export class IndexerStore {
+    private constructor(
+        private readonly db: Database,
+        public readonly filename?: string
+    ) {
+        //a database from an older version is dropped, to be re-indexed from scratch
+        const version = this._query('PRAGMA user_version')[0].user_version;
+        if (version !== SCHEMA_VERSION) {
+            for (const table of TABLES) {
+                this.db.exec(`DROP TABLE IF EXISTS ${table}`);
+            }
+            this.db.exec(`PRAGMA user_version = ${SCHEMA_VERSION}`);
+        }
+        this.db.exec(SCHEMA);
+    }
+
+    /**
+     * Opens a store, loading it from the given file if the file exists.
+     *
+     * @param filename Path of the database file; omit for a purely in-memory store.
+     */
+    public static async open(filename?: string): Promise<IndexerStore> {
+        const SQL = await initSqlJs();
+        const data =
+            filename && fs.existsSync(filename)
+                ? fs.readFileSync(filename)
+                : undefined;
+
+        return new IndexerStore(new SQL.Database(data), filename);
+    }
+
+    /**
+     * Closes the database; the store can't be used afterwards.
+     */
+    public close(): void {
+        this.db.close();
+    }
+
+    /**
+     * Returns the last indexed block, or undefined if nothing has been indexed yet.
+     */
+    public getCheckpoint(): Checkpoint | undefined {
+        return this.getCheckpoints(1)[0];
+    }
+
+    /**
+     * Returns the most recent checkpoints, newest first.
+     *
+     * @param limit Max number of checkpoints to return.
+     */
+    public getCheckpoints(limit: number = CHECKPOINT_HISTORY): Checkpoint[] {
+        return this._query(
+            'SELECT * FROM checkpoints ORDER BY block_number DESC LIMIT ?',
+            [limit]
+        ).map((row) => ({
+            blockNumber: row.block_number,
+            blockHash: row.block_hash,
+        }));
+    }
+
+    /**
+     * Writes everything indexed from a range of blocks, along with the new checkpoint, in a single
+     * transaction.
+     *
+     * @param batch The indexed data.
+     */
+    public applyBatch(batch: IndexedBatch): void {
+        this._transaction(() => {
+            for (const escrow of batch.escrows) {
+                this._upsertEscrow(escrow);
+            }
+            for (const p of batch.payments) {
+                this.db.run(
+                    'INSERT OR REPLACE INTO payments VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+                    [
+                        p.blockNumber,
+                        p.logIndex,
+                        p.transactionHash,
+                        p.escrowId,
+                        p.from,
+                        p.currency,
+                        p.paymentType,
+                        p.amount.toString(),
+                    ]
+                );
+            }
+            for (const r of batch.relayNodes) {
+                this.db.run(
+                    'INSERT OR REPLACE INTO relay_nodes VALUES (?, ?, ?, ?, ?)',
+                    [
+                        r.address,
+                        r.escrowId,
+                        r.blockNumber,
+                        r.logIndex,
+                        r.transactionHash,
+                    ]
+                );
+            }
+            for (const e of batch.adminEvents) {
+                this.db.run(
+                    'INSERT OR REPLACE INTO admin_events VALUES (?, ?, ?, ?, ?, ?, ?)',
+                    [
+                        e.blockNumber,
+                        e.logIndex,
+                        e.transactionHash,
+                        e.contract,
+                        e.event,
+                        e.account,
+                        e.value,
+                    ]
+                );
+            }
+
+            this.db.run('INSERT OR REPLACE INTO checkpoints VALUES (?, ?)', [
+                batch.checkpoint.blockNumber,
+                batch.checkpoint.blockHash,
+            ]);
+            this.db.run('DELETE FROM checkpoints WHERE block_number <= ? - ?', [
+                batch.checkpoint.blockNumber,
+                CHECKPOINT_HISTORY,
+            ]);
+        });
+    }
+
+    /**
+     * Removes everything indexed after the given block (e.g. after a reorg), and replaces the
+     * snapshots of escrows that were changed after it.
+     *
+     * @param blockNumber The last block to keep.
+     * @param snapshots Escrow snapshots as of blockNumber, for the escrows returned by
+     * getEscrowsUpdatedAfter(blockNumber) which were created at or before it.
+     */
+    public rollback(blockNumber: number, snapshots: IndexedEscrow[]): void {
+        this._transaction(() => {
+            for (const table of [
+                'checkpoints',
+                'payments',
+                'relay_nodes',
+                'admin_events',
+            ]) {
+                this.db.run(`DELETE FROM ${table} WHERE block_number > ?`, [
+                    blockNumber,
+                ]);
+            }
+            this.db.run('DELETE FROM escrows WHERE created_block > ?', [
+                blockNumber,
+            ]);
+            for (const escrow of snapshots) {
+                this._upsertEscrow(escrow);
+            }
+        });
+    }
+
+    /**
+     * Returns the escrows whose latest snapshot was taken after the given block.
+     *
+     * @param blockNumber The block number.
+     */
+    public getEscrowsUpdatedAfter(blockNumber: number): IndexedEscrow[] {
+        return this._query(
+            'SELECT * FROM escrows WHERE updated_block > ? ORDER BY created_block, id',
+            [blockNumber]
+        ).map(toEscrow);
+    }
+
+    /**
+     * Returns an indexed escrow by id, or undefined if it's not (yet) indexed.
+     *
+     * @param escrowId The unique escrow id.
+     */
+    public getEscrow(escrowId: string): IndexedEscrow | undefined {
+        const rows = this._query('SELECT * FROM escrows WHERE id = ?', [
+            escrowId.toLowerCase(),
+        ]);
+        return rows.length ? toEscrow(rows[0]) : undefined;
+    }
+
+    /**
+     * Lists indexed escrows in order of creation.
+     *
+     * @param filter Optional status, participant and paging criteria.
+     */
+    public getEscrows(filter: EscrowFilter = {}): IndexedEscrow[] {
+        const { where, params } = escrowFilterClause(filter);
+        return this._query(
+            `SELECT * FROM escrows${where} ORDER BY created_block, id LIMIT ? OFFSET ?`,
+            [...params, filter.limit ?? -1, filter.offset ?? 0]
+        ).map(toEscrow);
+    }
+
+    /**
+     * Returns the number of indexed escrows matching the filter (paging is ignored).
+     *
+     * @param filter Optional status and participant criteria.
+     */
+    public countEscrows(filter: EscrowFilter = {}): number {
+        const { where, params } = escrowFilterClause(filter);
+        return this._query(
+            `SELECT COUNT(*) AS count FROM escrows${where}`,
+            params
+        )[0].count;
+    }
+
+    /**
+     * Returns, for each currency used by the escrows matching the filter, the amount currently held
+     * by the escrow contract (paid but neither released nor refunded), and the amount still to be paid
+     * into escrows that aren't completed.
+     *
+     * @param filter Optional status, participant, currency and end time criteria (paging is ignored).
+     */
+    public getBalances(filter: EscrowFilter = {}): CurrencyBalance[] {
+        const balances = new Map<string, CurrencyBalance>();
+
+        for (const escrow of this.getEscrows({
+            ...filter,
+            limit: -1,
+            offset: 0,
+        })) {
+            for (const leg of [escrow.primaryLeg, escrow.secondaryLeg]) {
+                const key = `${leg.currency.toLowerCase()}:${leg.paymentType}`;
+                if (!balances.has(key)) {
+                    balances.set(key, {
+                        currency: leg.currency,
+                        paymentType: leg.paymentType,
+                        held: 0n,
+                        pending: 0n,
+                        legCount: 0,
+                    });
+                }
+
+                const balance = balances.get(key)!;
+                balance.held +=
+                    leg.amountPaid - leg.amountReleased - leg.amountRefunded;
+                if (
+                    escrow.status !== EscrowStatus.Completed &&
+                    leg.amountPledged > leg.amountPaid
+                ) {
+                    balance.pending += leg.amountPledged - leg.amountPaid;
+                }
+                balance.legCount++;
+            }
+        }
+
+        return [...balances.values()];
+    }
+
+    /**
+     * Lists payments in the order they were made.
+     *
+     * @param escrowId If given, only payments into this escrow.
+     */
+    public getPayments(escrowId?: string): PaymentRecord[] {
+        return this._query(
+            'SELECT * FROM payments' +
+                (escrowId ? ' WHERE escrow_id = ?' : '') +
+                ' ORDER BY block_number, log_index',
+            escrowId ? [escrowId.toLowerCase()] : []
+        ).map((row) => ({
+            escrowId: row.escrow_id,
+            from: row.from_address,
+            currency: row.currency,
+            paymentType: row.payment_type,
+            amount: BigInt(row.amount),
+            blockNumber: row.block_number,
+            logIndex: row.log_index,
+            transactionHash: row.tx_hash,
+        }));
+    }
+
+    /**
+     * Lists deployed relay nodes in the order they were deployed.
+     *
+     * @param escrowId If given, only relay nodes for this escrow.
+     */
+    public getRelayNodes(escrowId?: string): RelayNodeRecord[] {
+        return this._query(
+            'SELECT * FROM relay_nodes' +
+                (escrowId ? ' WHERE escrow_id = ?' : '') +
+                ' ORDER BY block_number, log_index',
+            escrowId ? [escrowId.toLowerCase()] : []
+        ).map((row) => ({
+            address: row.address,
+            escrowId: row.escrow_id,
+            blockNumber: row.block_number,
+            logIndex: row.log_index,
+            transactionHash: row.tx_hash,
+        }));
+    }
+
+    /**
+     * Lists pause and system settings events in the order they happened.
+     */
+    public getAdminEvents(): AdminEventRecord[] {
+        return this._query(
+            'SELECT * FROM admin_events ORDER BY block_number, log_index'
+        ).map((row) => ({
+            contract: row.contract,
+            event: row.event,
+            account: row.account,
+            value: row.value,
+            blockNumber: row.block_number,
+            logIndex: row.log_index,
+            transactionHash: row.tx_hash,
+        }));
+    }
+
+    private _upsertEscrow(escrow: IndexedEscrow): void {
+        const { createdBlock, createdTransaction, updatedBlock, ...data } =
+            escrow;
+
+        this.db.run(
+            'INSERT OR REPLACE INTO escrows VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+            [
+                escrow.id.toLowerCase(),
+                escrow.status,
+                escrow.primaryLeg.participantAddress.toLowerCase(),
+                escrow.secondaryLeg.participantAddress.toLowerCase(),
+                escrow.primaryLeg.currency.toLowerCase(),
+                escrow.secondaryLeg.currency.toLowerCase(),
+                Number(escrow.endTime),
+                createdBlock,
+                createdTransaction,
+                updatedBlock,
+                JSON.stringify(data, (_, v) =>
+                    typeof v === 'bigint' ? v.toString() : v
+                ),
+            ]
+        );
+    }
+
+    private _query(sql: string, params: BindParams = []): any[] {
+        const stmt = this.db.prepare(sql);
+        try {
+            stmt.bind(params);
+            const rows: any[] = [];
+            while (stmt.step()) {
+                rows.push(stmt.getAsObject());
+            }
+            return rows;
+        } finally {
+            stmt.free();
+        }
+    }
+
+    private _transaction(fn: () => void): void {
+        this.db.exec('BEGIN');
+        try {
+            fn();
+            this.db.exec('COMMIT');
+        } catch (e) {
+            this.db.exec('ROLLBACK');
+            throw e;
+        }
+        this._save();
+    }
+
+    //writes the database to its file, if it has one
+    private _save(): void {
+        if (!this.filename) return;
+
+        const temp = `${this.filename}.tmp`;
+        fs.writeFileSync(temp, Buffer.from(this.db.export()));
+        fs.renameSync(temp, this.filename);
+    }
+}
+
+//builds the WHERE clause for an escrow filter
+function escrowFilterClause(filter: EscrowFilter): {
+    where: string;
+    params: (string | number)[];
+} {
+    const clauses: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (filter.status !== undefined) {
+        clauses.push('status = ?');
+        params.push(filter.status);
+    }
+    if (filter.participant !== undefined) {
+        const participant = filter.participant.toLowerCase();
+        clauses.push('(primary_participant = ? OR secondary_participant = ?)');
+        params.push(participant, participant);
+    }
+    if (filter.currency !== undefined) {
+        const currency = filter.currency.toLowerCase();
+        clauses.push('(primary_currency = ? OR secondary_currency = ?)');
+        params.push(currency, currency);
+    }
+    if (filter.endsBefore !== undefined) {
+        //an end time of 0 means the escrow doesn't expire
+        clauses.push('end_time > 0 AND end_time < ?');
+        params.push(Number(filter.endsBefore));
+    }
+
+    return {
+        where: clauses.length ? ` WHERE ${clauses.join(' AND ')}` : '',
+        params,
+    };
+}
+
+function toEscrow(row: any): IndexedEscrow {
+    const data: EscrowDefinition = JSON.parse(row.data, (key, v) =>
+        BIGINT_FIELDS.has(key) ? BigInt(v) : v
+    );
+
+    return {
+        ...data,
+        createdBlock: row.created_block,
+        createdTransaction: row.created_tx,
+        updatedBlock: row.updated_block,
+    };
+}
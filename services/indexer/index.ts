@@ -0,0 +1,3 @@
+export * from './types';
+export { IndexerStore } from './IndexerStore';
+export { EscrowIndexer } from './EscrowIndexer';
@@ -0,0 +1,73 @@
+//bumped whenever the schema changes; a database with another version is dropped and re-indexed
+export const SCHEMA_VERSION = 3;
+
+//schema of the indexer database; amounts are stored as decimal TEXT so that they're never truncated
+export const SCHEMA = `
+CREATE TABLE IF NOT EXISTS checkpoints (
+    block_number INTEGER PRIMARY KEY,
+    block_hash TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS escrows (
+    id TEXT PRIMARY KEY,
+    status INTEGER NOT NULL,
+    primary_participant TEXT NOT NULL,
+    secondary_participant TEXT NOT NULL,
+    primary_currency TEXT NOT NULL,
+    secondary_currency TEXT NOT NULL,
+    end_time INTEGER NOT NULL,
+    created_block INTEGER NOT NULL,
+    created_tx TEXT NOT NULL,
+    updated_block INTEGER NOT NULL,
+    data TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS escrows_primary ON escrows (primary_participant);
+CREATE INDEX IF NOT EXISTS escrows_secondary ON escrows (secondary_participant);
+CREATE INDEX IF NOT EXISTS escrows_status ON escrows (status);
+CREATE INDEX IF NOT EXISTS escrows_end_time ON escrows (end_time);
+
+CREATE TABLE IF NOT EXISTS payments (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    escrow_id TEXT NOT NULL,
+    from_address TEXT NOT NULL,
+    currency TEXT NOT NULL,
+    payment_type INTEGER NOT NULL,
+    amount TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS payments_escrow ON payments (escrow_id);
+
+CREATE TABLE IF NOT EXISTS relay_nodes (
+    address TEXT PRIMARY KEY,
+    escrow_id TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS relay_nodes_escrow ON relay_nodes (escrow_id);
+
+CREATE TABLE IF NOT EXISTS admin_events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    contract TEXT NOT NULL,
+    event TEXT NOT NULL,
+    account TEXT NOT NULL,
+    value TEXT,
+    PRIMARY KEY (block_number, log_index)
+);
+`;
+
+//all tables, for dropping an outdated database
+export const TABLES = [
+    'checkpoints',
+    'escrows',
+    'payments',
+    'relay_nodes',
+    'admin_events',
+];
+
+//number of checkpoints kept for walking back over a reorg
+export const CHECKPOINT_HISTORY = 128;
@@ -0,0 +1,104 @@
+import type { Provider } from 'ethers';
+import type { EscrowDefinition, EscrowPaymentType } from '../../client/types';
+
+/**
+ * IndexedEscrow: the latest known state of an escrow, along with where it was created and last
+ * updated.
+ */
+export interface IndexedEscrow extends EscrowDefinition {
+    createdBlock: number;
+    createdTransaction: string;
+    updatedBlock: number;
+}
+
+/**
+ * PaymentRecord: one PaymentReceived event.
+ */
+export interface PaymentRecord {
+    escrowId: string;
+    from: string;
+    currency: string;
+    paymentType: EscrowPaymentType;
+    amount: bigint;
+    blockNumber: number;
+    logIndex: number;
+    transactionHash: string;
+}
+
+/**
+ * RelayNodeRecord: one RelayNodeDeployed event.
+ */
+export interface RelayNodeRecord {
+    address: string;
+    escrowId: string;
+    blockNumber: number;
+    logIndex: number;
+    transactionHash: string;
+}
+
+/**
+ * AdminEventRecord: one Paused, Unpaused, VaultAddressChanged or FeeBpsChanged event.
+ */
+export interface AdminEventRecord {
+    contract: string; //address of the emitting contract
+    event: 'Paused' | 'Unpaused' | 'VaultAddressChanged' | 'FeeBpsChanged';
+    account: string; //account that paused, unpaused or made the change
+    value: string | null; //new vault address or fee bps; null for pause events
+    blockNumber: number;
+    logIndex: number;
+    transactionHash: string;
+}
+
+/**
+ * Checkpoint: the last block indexed, with its hash (used to detect reorgs).
+ */
+export interface Checkpoint {
+    blockNumber: number;
+    blockHash: string;
+}
+
+/**
+ * IndexedBatch: everything indexed from one range of blocks, applied to the store atomically.
+ */
+export interface IndexedBatch {
+    checkpoint: Checkpoint;
+    escrows: IndexedEscrow[]; //snapshots of escrows created or changed in the range
+    payments: PaymentRecord[];
+    relayNodes: RelayNodeRecord[];
+    adminEvents: AdminEventRecord[];
+}
+
+/**
+ * EscrowFilter: criteria for listing indexed escrows.
+ */
+export interface EscrowFilter {
+    status?: number;
+    participant?: string; //either leg's participant
+    currency?: string; //either leg's currency (the zero address for native)
+    endsBefore?: bigint | number; //unix time; only escrows with an end time before it
+    limit?: number;
+    offset?: number;
+}
+
+/**
+ * CurrencyBalance: totals for one currency across a set of escrows.
+ */
+export interface CurrencyBalance {
+    currency: string;
+    paymentType: EscrowPaymentType;
+    held: bigint; //paid in, and neither released nor refunded yet
+    pending: bigint; //pledged but not yet paid, in escrows which aren't completed
+    legCount: number; //number of escrow legs in this currency
+}
+
+/**
+ * IndexerOptions: configuration of an EscrowIndexer.
+ */
+export interface IndexerOptions {
+    provider: Provider;
+    escrowAddress: string;
+    settingsAddress?: string; //defaults to the escrow contract's settings()
+    confirmations?: number; //blocks behind the head to stay (default 12)
+    startBlock?: number; //first block to index, e.g. the deployment block (default 0)
+    batchSize?: number; //max blocks per getLogs query (default 2000)
+}
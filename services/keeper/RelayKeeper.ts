@@ -0,0 +1,372 @@
+import { getAddress, id, NonceManager, Provider, zeroPadValue } from 'ethers';
+import {
+    IERC1155__factory,
+    IERC20__factory,
+    PolyEscrow,
+    PolyEscrow__factory,
+    RelayNode__factory,
+} from '../../typechain-types';
+import { decodeEscrow } from '../../client/codec';
+import { EscrowPaymentType, EscrowStatus } from '../../client/types';
+import {
+    KeeperAction,
+    KeeperOptions,
+    RelayNodeInfo,
+    RetryState,
+} from './types';
+
+//topic of the ERC20 Transfer(address,address,uint256) event
+const TRANSFER_TOPIC = id('Transfer(address,address,uint256)');
+
+//topics of the ERC1155 TransferSingle and TransferBatch events
+const TRANSFER_SINGLE_TOPIC = id(
+    'TransferSingle(address,address,address,uint256,uint256)'
+);
+const TRANSFER_BATCH_TOPIC = id(
+    'TransferBatch(address,address,address,uint256[],uint256[])'
+);
+
+//topic of the RelayNode DepositHeld(address,uint256) event
+const DEPOSIT_HELD_TOPIC = id('DepositHeld(address,uint256)');
+
+//max relay node addresses per Transfer log query
+const NODES_PER_QUERY = 100;
+
+/**
+ * Keeper that pumps ERC20, ERC721 and ERC1155 deposits through relay nodes.
+ *
+ * A relay node can't detect token transfers into it, so someone has to call its relay() function. The
+ * keeper discovers relay nodes from the escrow contract's RelayNodeDeployed events, watches Transfer
+ * (or, for ERC1155, TransferSingle and TransferBatch) logs of each node's escrow tokens, and calls relay() on every node which received a deposit. Once an
+ * escrow is completed, relay() refunds what arrives instead (deposits are left for their senders to claim).
+ *
+ * While an escrow is in arbitration, its nodes hold their deposits (emitting DepositHeld), and nothing
+ * relays them once arbitration is resolved, not even native currency which was forwarded automatically.
+ * So the keeper also watches DepositHeld logs: nodes which held a deposit, or received one while the
+ * escrow was in arbitration, stay pending until it's resolved, and are then relayed into the escrow if it's
+ * active again, or left to be claimed if arbitration completed it.
+ *
+ * Transactions go through an ethers NonceManager, which is reset whenever a send fails, so that nonces
+ * stay in order across retries. Each sync makes at most one relay() attempt per node. A node whose relay()
+ * failed is skipped by later syncs until its backoff (doubled after each failure) has passed, so it doesn't
+ * hold up the others; after maxAttempts failures in a row it's dropped until it receives another deposit.
+ * In dry-run mode, relay() calls are simulated with eth_call instead of being sent.
+ */
+export class RelayKeeper {
+    public readonly polyEscrow: PolyEscrow;
+    public readonly confirmations: number;
+    public readonly batchSize: number;
+    public readonly dryRun: boolean;
+    public readonly maxAttempts: number;
+    public readonly backoffMs: number;
+
+    private readonly signer: NonceManager;
+    private readonly provider: Provider;
+    private readonly log: (message: string) => void;
+    private readonly nodes = new Map<string, RelayNodeInfo>();
+    private readonly pending = new Set<string>();
+    private readonly retries = new Map<string, RetryState>();
+    private lastBlock: number;
+    private timer: NodeJS.Timeout | undefined;
+    private running: boolean = false;
+
+    /**
+     * @param options Signer, escrow contract and keeper options.
+     */
+    constructor(options: KeeperOptions) {
+        if (!options.signer.provider) {
+            throw new Error('ProviderRequired');
+        }
+
+        this.signer = new NonceManager(options.signer);
+        this.provider = options.signer.provider;
+        this.polyEscrow = PolyEscrow__factory.connect(
+            options.escrowAddress,
+            this.provider
+        );
+        this.confirmations = options.confirmations ?? 0;
+        this.batchSize = options.batchSize ?? 2000;
+        this.dryRun = options.dryRun ?? false;
+        this.maxAttempts = options.maxAttempts ?? 5;
+        this.backoffMs = options.backoffMs ?? 1000;
+        this.log = options.log ?? console.log;
+        this.lastBlock = (options.startBlock ?? 0) - 1;
+    }
+
+    /**
+     * Relay nodes discovered so far.
+     */
+    public get relayNodes(): RelayNodeInfo[] {
+        return [...this.nodes.values()];
+    }
+
+    /**
+     * Relay nodes which received a deposit that hasn't been relayed yet.
+     */
+    public get pendingNodes(): string[] {
+        return [...this.pending];
+    }
+
+    /**
+     * Scans new blocks for relay nodes and deposits into them, then pumps every node with a pending
+     * deposit.
+     *
+     * @returns What was done for each pumped relay node.
+     */
+    public async sync(): Promise<KeeperAction[]> {
+        const head = await this.provider.getBlockNumber();
+        const safeBlock = head - this.confirmations;
+
+        while (this.lastBlock < safeBlock) {
+            const fromBlock = this.lastBlock + 1;
+            const toBlock = Math.min(
+                this.lastBlock + this.batchSize,
+                safeBlock
+            );
+
+            await this._discoverNodes(fromBlock, toBlock);
+            await this._findDeposits(fromBlock, toBlock);
+            this.lastBlock = toBlock;
+        }
+
+        const actions: KeeperAction[] = [];
+        for (const address of [...this.pending]) {
+            //still backing off after a failed attempt
+            const retry = this.retries.get(address);
+            if (retry && Date.now() < retry.nextAttemptAt) continue;
+
+            const node = this.nodes.get(address)!;
+            const escrow = decodeEscrow(
+                await this.polyEscrow.getEscrow(node.escrowId)
+            );
+
+            //the node would only hold its deposits until arbitration is resolved
+            if (escrow.status === EscrowStatus.Arbitration) continue;
+
+            const action = await this._pump(node, (retry?.failures ?? 0) + 1);
+            if (action) actions.push(action);
+            if (action?.error) {
+                this._scheduleRetry(address, action);
+            } else {
+                this.pending.delete(address);
+                this.retries.delete(address);
+            }
+        }
+        return actions;
+    }
+
+    /**
+     * Starts syncing continuously, every pollInterval ms. Errors are logged and retried at the next
+     * interval.
+     *
+     * @param pollInterval Milliseconds between syncs.
+     */
+    public start(pollInterval: number = 4000): void {
+        if (this.running) return;
+        this.running = true;
+
+        const loop = async () => {
+            try {
+                await this.sync();
+            } catch (e) {
+                console.error('Keeper sync failed:', e);
+            }
+            if (this.running) {
+                this.timer = setTimeout(loop, pollInterval);
+            }
+        };
+        loop();
+    }
+
+    /**
+     * Stops continuous syncing.
+     */
+    public stop(): void {
+        this.running = false;
+        clearTimeout(this.timer);
+    }
+
+    //finds relay nodes deployed in a block range
+    private async _discoverNodes(fromBlock: number, toBlock: number) {
+        const logs = await this.polyEscrow.queryFilter(
+            this.polyEscrow.filters.RelayNodeDeployed(),
+            fromBlock,
+            toBlock
+        );
+
+        for (const log of logs) {
+            const address = getAddress(log.args.relayAddress);
+            const escrow = decodeEscrow(
+                await this.polyEscrow.getEscrow(log.args.escrowId)
+            );
+            const legs = [escrow.primaryLeg, escrow.secondaryLeg];
+            const tokens = legs
+                .filter(
+                    (leg) =>
+                        leg.paymentType === EscrowPaymentType.ERC20 ||
+                        leg.paymentType === EscrowPaymentType.ERC721
+                )
+                .map((leg) => getAddress(leg.currency));
+            const multiTokens = legs
+                .filter((leg) => leg.paymentType === EscrowPaymentType.ERC1155)
+                .map((leg) => ({
+                    currency: getAddress(leg.currency),
+                    tokenId: leg.tokenId,
+                }));
+
+            this.nodes.set(address, {
+                address,
+                escrowId: log.args.escrowId,
+                tokens,
+                multiTokens,
+                native: legs.some(
+                    (leg) => leg.paymentType === EscrowPaymentType.Native
+                ),
+            });
+        }
+    }
+
+    //finds transfers of escrow tokens into known relay nodes in a block range
+    private async _findDeposits(fromBlock: number, toBlock: number) {
+        const addresses = [...this.nodes.keys()];
+
+        for (let n = 0; n < addresses.length; n += NODES_PER_QUERY) {
+            const recipients = addresses
+                .slice(n, n + NODES_PER_QUERY)
+                .map((a) => zeroPadValue(a, 32));
+
+            //ERC20 and ERC721 Transfer events share a topic; the recipient is the 3rd topic of both
+            const logs = await this.provider.getLogs({
+                fromBlock,
+                toBlock,
+                topics: [TRANSFER_TOPIC, null, recipients],
+            });
+            for (const log of logs) {
+                const node = this.nodes.get(topicToAddress(log.topics[2]));
+                if (node?.tokens.includes(getAddress(log.address))) {
+                    this._addPending(node.address);
+                }
+            }
+
+            //the ERC1155 recipient is the 4th topic, after the operator and the sender
+            const multiTokenLogs = await this.provider.getLogs({
+                fromBlock,
+                toBlock,
+                topics: [
+                    [TRANSFER_SINGLE_TOPIC, TRANSFER_BATCH_TOPIC],
+                    null,
+                    null,
+                    recipients,
+                ],
+            });
+            for (const log of multiTokenLogs) {
+                const node = this.nodes.get(topicToAddress(log.topics[3]));
+                const currency = getAddress(log.address);
+                if (node?.multiTokens.some((t) => t.currency === currency)) {
+                    this._addPending(node.address);
+                }
+            }
+
+            //deposits of any currency which a node held, because its escrow was in arbitration
+            const heldLogs = await this.provider.getLogs({
+                fromBlock,
+                toBlock,
+                address: addresses.slice(n, n + NODES_PER_QUERY),
+                topics: [DEPOSIT_HELD_TOPIC],
+            });
+            for (const log of heldLogs) {
+                this._addPending(getAddress(log.address));
+            }
+        }
+    }
+
+    //marks a node as having a new deposit, which it's worth trying again for even if it was dropped
+    private _addPending(address: string) {
+        this.pending.add(address);
+        this.retries.delete(address);
+    }
+
+    //backs off from a node after a failed attempt, or drops it after maxAttempts failures in a row
+    private _scheduleRetry(address: string, action: KeeperAction) {
+        if (action.attempts >= this.maxAttempts) {
+            this.log(
+                `failed to relay ${address} ${action.attempts} times, dropping it until its next deposit: ${action.error}`
+            );
+            this.pending.delete(address);
+            this.retries.delete(address);
+            return;
+        }
+
+        const delay = this.backoffMs * 2 ** (action.attempts - 1);
+        this.log(
+            `failed to relay ${address}, retrying in ${delay}ms: ${action.error}`
+        );
+        this.retries.set(address, {
+            failures: action.attempts,
+            nextAttemptAt: Date.now() + delay,
+        });
+    }
+
+    //calls relay() on a node once, if there's anything for it to relay
+    private async _pump(
+        node: RelayNodeInfo,
+        attempt: number
+    ): Promise<KeeperAction | undefined> {
+        if (!(await this._hasWork(node))) return undefined;
+
+        const relayNode = RelayNode__factory.connect(node.address, this.signer);
+        const action: KeeperAction = {
+            relayNode: node.address,
+            escrowId: node.escrowId,
+            dryRun: this.dryRun,
+            attempts: attempt,
+        };
+
+        try {
+            if (this.dryRun) {
+                await relayNode.relay.staticCall();
+                this.log(`[dry run] would relay ${node.address}`);
+            } else {
+                const receipt = await (await relayNode.relay()).wait();
+                action.transactionHash = receipt?.hash;
+                this.log(`relayed ${node.address} (tx ${receipt?.hash})`);
+            }
+        } catch (e: any) {
+            //the nonce was used up locally even if the transaction never made it
+            this.signer.reset();
+            action.error = e?.shortMessage ?? e?.message ?? String(e);
+        }
+        return action;
+    }
+
+    //a node only has work if it holds some of the escrow's currencies, to relay or (once completed) refund
+    private async _hasWork(node: RelayNodeInfo): Promise<boolean> {
+        if (
+            node.native &&
+            (await this.provider.getBalance(node.address)) > 0n
+        ) {
+            return true;
+        }
+        //balanceOf() is the same for ERC20 and ERC721
+        for (const token of node.tokens) {
+            const balance = await IERC20__factory.connect(
+                token,
+                this.provider
+            ).balanceOf(node.address);
+            if (balance > 0n) return true;
+        }
+        for (const { currency, tokenId } of node.multiTokens) {
+            const balance = await IERC1155__factory.connect(
+                currency,
+                this.provider
+            ).balanceOf(node.address, tokenId);
+            if (balance > 0n) return true;
+        }
+        return false;
+    }
+}
+
+//decodes an address from an indexed event topic
+function topicToAddress(topic: string): string {
+    return getAddress('0x' + topic.slice(26));
+}
@@ -0,0 +1,55 @@
+import type { Signer } from 'ethers';
+
+/**
+ * KeeperOptions: configuration of a RelayKeeper.
+ */
+export interface KeeperOptions {
+    signer: Signer; //account that sends relay() transactions; must be connected to a provider
+    escrowAddress: string;
+    confirmations?: number; //blocks behind the head to stay (default 0)
+    startBlock?: number; //first block to scan for relay nodes and deposits (default 0)
+    batchSize?: number; //max blocks per getLogs query (default 2000)
+    dryRun?: boolean; //simulate relay() calls instead of sending them (default false)
+    maxAttempts?: number; //failed relay() attempts in a row before dropping a node until its next deposit (default 5)
+    backoffMs?: number; //delay before retrying a node after its first failure; doubled after each failure (default 1000)
+    log?: (message: string) => void; //defaults to console.log
+}
+
+/**
+ * RelayNodeInfo: a relay node discovered from a RelayNodeDeployed event.
+ */
+export interface RelayNodeInfo {
+    address: string;
+    escrowId: string;
+    tokens: string[]; //ERC20 and ERC721 currencies of the escrow's legs, which the node can relay
+    multiTokens: MultiTokenInfo[]; //ERC1155 currencies and token ids of the escrow's legs
+    native: boolean; //whether one of the escrow's legs is in native currency
+}
+
+/**
+ * MultiTokenInfo: the ERC1155 currency and token id of an escrow leg.
+ */
+export interface MultiTokenInfo {
+    currency: string;
+    tokenId: bigint;
+}
+
+/**
+ * KeeperAction: the outcome of pumping one relay node.
+ */
+export interface KeeperAction {
+    relayNode: string;
+    escrowId: string;
+    dryRun: boolean;
+    attempts: number; //attempts so far since the node's last deposit, including this one
+    transactionHash?: string; //set when a transaction was sent and mined
+    error?: string; //set when the attempt failed
+}
+
+/**
+ * RetryState: how long to back off from a relay node whose relay() failed.
+ */
+export interface RetryState {
+    failures: number; //failed attempts in a row
+    nextAttemptAt: number; //time (in ms since the epoch) before which the node is skipped
+}
@@ -0,0 +1,115 @@
+import { NonceManager, Provider, TypedDataDomain } from 'ethers';
+import { PolyEscrowClient } from '../../client/PolyEscrowClient';
+import { verifyIntent } from '../../client/signatures';
+import { SignedIntent } from '../../client/types';
+import { RelayerOptions, RelayerResult } from './types';
+
+/**
+ * Relayer which submits intents signed by other accounts (see PolyEscrowClient.signIntent), and pays
+ * the gas for them, so that payers need no native currency.
+ *
+ * Each intent is validated before it's submitted: its signature must be the signer's, its deadline must
+ * not have passed, it must use the signer's next nonce, and the contract call must succeed in simulation.
+ * Transactions go through an ethers NonceManager, which is reset whenever a send fails.
+ */
+export class IntentRelayer {
+    public readonly client: PolyEscrowClient;
+    public readonly dryRun: boolean;
+
+    private readonly signer: NonceManager;
+    private readonly provider: Provider;
+    private readonly log: (message: string) => void;
+    private domain: TypedDataDomain | undefined;
+
+    /**
+     * @param options Signer, escrow contract and relayer options.
+     */
+    constructor(options: RelayerOptions) {
+        if (!options.signer.provider) {
+            throw new Error('ProviderRequired');
+        }
+
+        this.signer = new NonceManager(options.signer);
+        this.provider = options.signer.provider;
+        this.client = new PolyEscrowClient(options.escrowAddress, this.signer);
+        this.dryRun = options.dryRun ?? false;
+        this.log = options.log ?? console.log;
+    }
+
+    /**
+     * Checks whether a signed intent can be submitted.
+     *
+     * @param signed The signed intent.
+     * @returns Why it can't be submitted (e.g. 'InvalidSignature', or the contract's revert reason), or
+     * undefined if it can.
+     */
+    public async validate(signed: SignedIntent): Promise<string | undefined> {
+        this.domain ??= await this.client.getDomain();
+        if (!verifyIntent(this.domain, signed)) {
+            return 'InvalidSignature';
+        }
+
+        //the next block is mined after the latest
+        const latest = await this.provider.getBlock('latest');
+        if (BigInt(latest!.timestamp) >= BigInt(signed.deadline)) {
+            return 'SignatureExpired';
+        }
+
+        if (
+            (await this.client.getNonce(signed.signer)) !== BigInt(signed.nonce)
+        ) {
+            return 'InvalidNonce';
+        }
+
+        try {
+            await this.client.simulateIntent(signed);
+        } catch (e: any) {
+            return errorMessage(e);
+        }
+        return undefined;
+    }
+
+    /**
+     * Validates a signed intent and, unless in dry-run mode, submits it.
+     *
+     * @param signed The signed intent.
+     * @returns What was done; error is set if the intent was rejected or failed.
+     */
+    public async submit(signed: SignedIntent): Promise<RelayerResult> {
+        const result: RelayerResult = {
+            type: signed.intent.type,
+            signer: signed.signer,
+            nonce: BigInt(signed.nonce),
+            dryRun: this.dryRun,
+        };
+        const description = `${signed.intent.type} intent of ${signed.signer} (nonce ${signed.nonce})`;
+
+        result.error = await this.validate(signed);
+        if (result.error) {
+            this.log(`rejected ${description}: ${result.error}`);
+            return result;
+        }
+        delete result.error;
+
+        if (this.dryRun) {
+            this.log(`[dry run] would submit ${description}`);
+            return result;
+        }
+
+        try {
+            result.transactionHash = await this.client.submitIntent(signed);
+            this.log(`submitted ${description} (tx ${result.transactionHash})`);
+        } catch (e: any) {
+            //the nonce was used up locally even if the transaction never made it
+            this.signer.reset();
+            result.error = errorMessage(e);
+            this.log(`failed to submit ${description}: ${result.error}`);
+        }
+        return result;
+    }
+}
+
+//the revert reason of a failed call, if there is one
+function errorMessage(e: any): string {
+    return e?.reason ?? e?.shortMessage ?? e?.message ?? String(e);
+}
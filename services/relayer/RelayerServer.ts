@@ -0,0 +1,166 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { getAddress, isAddress, isHexString } from 'ethers';
+import { EscrowIntent, SignedIntent } from '../../client/types';
+import { IntentRelayer } from './IntentRelayer';
+
+//an error with the HTTP status to respond with
+class HttpError extends Error {
+    constructor(
+        public readonly status: number,
+        message: string
+    ) {
+        super(message);
+    }
+}
+
+const INTENT_TYPES: EscrowIntent['type'][] = [
+    'createEscrow',
+    'placePayment',
+    'relayRefund',
+];
+
+/**
+ * HTTP/JSON front end of an IntentRelayer.
+ *
+ * Endpoints:
+ * - POST /intents: submits a SignedIntent, given as JSON with bigints as decimal strings; responds with
+ *   the RelayerResult, with status 400 if the intent was rejected or failed
+ * - GET /nonces/:address: the next nonce an account's intents must use
+ *
+ * Errors are returned as { error } with status 400 (invalid intent or parameter), 404 (not found) or
+ * 405 (method not allowed).
+ */
+export class RelayerServer {
+    public readonly server: http.Server;
+
+    /**
+     * @param relayer The relayer which validates and submits intents.
+     * @param maxBodySize Largest request body accepted, in bytes.
+     */
+    constructor(
+        public readonly relayer: IntentRelayer,
+        public readonly maxBodySize: number = 64 * 1024
+    ) {
+        this.server = http.createServer((req, res) => this._handle(req, res));
+    }
+
+    /**
+     * Starts listening.
+     *
+     * @param port Port to listen on; 0 picks a free port.
+     * @param host Interface to listen on.
+     * @returns The base URL of the relayer.
+     */
+    public async listen(
+        port: number = 0,
+        host: string = '127.0.0.1'
+    ): Promise<string> {
+        await new Promise<void>((resolve, reject) => {
+            this.server.once('error', reject);
+            this.server.listen(port, host, () => {
+                this.server.off('error', reject);
+                resolve();
+            });
+        });
+
+        const address = this.server.address() as AddressInfo;
+        return `http://${host}:${address.port}`;
+    }
+
+    /**
+     * Stops listening and closes open connections.
+     */
+    public async close(): Promise<void> {
+        this.server.closeAllConnections();
+        await new Promise<void>((resolve, reject) =>
+            this.server.close((e) => (e ? reject(e) : resolve()))
+        );
+    }
+
+    private async _handle(req: http.IncomingMessage, res: http.ServerResponse) {
+        let status = 200;
+        let body: any;
+
+        try {
+            const url = new URL(req.url ?? '/', 'http://localhost');
+            const path = url.pathname.replace(/\/+$/, '') || '/';
+            const nonceMatch = /^\/nonces\/([^/]+)$/.exec(path);
+
+            if (path === '/intents') {
+                if (req.method !== 'POST') {
+                    throw new HttpError(405, 'MethodNotAllowed');
+                }
+                body = await this.relayer.submit(
+                    parseSignedIntent(await this._readBody(req))
+                );
+                if (body.error) status = 400;
+            } else if (nonceMatch) {
+                if (req.method !== 'GET') {
+                    throw new HttpError(405, 'MethodNotAllowed');
+                }
+                if (!isAddress(nonceMatch[1])) {
+                    throw new HttpError(400, 'InvalidParameter: address');
+                }
+                body = {
+                    nonce: await this.relayer.client.getNonce(
+                        getAddress(nonceMatch[1])
+                    ),
+                };
+            } else {
+                throw new HttpError(404, 'NotFound');
+            }
+        } catch (e: any) {
+            status = e instanceof HttpError ? e.status : 500;
+            body = {
+                error: e instanceof HttpError ? e.message : 'InternalError',
+            };
+            if (status === 500) console.error(e);
+        }
+
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(
+            JSON.stringify(body, (_, v) =>
+                typeof v === 'bigint' ? v.toString() : v
+            )
+        );
+    }
+
+    private async _readBody(req: http.IncomingMessage): Promise<any> {
+        let text = '';
+        for await (const chunk of req) {
+            text += chunk;
+            if (text.length > this.maxBodySize) {
+                throw new HttpError(400, 'InvalidIntent: too large');
+            }
+        }
+
+        try {
+            return JSON.parse(text);
+        } catch {
+            throw new HttpError(400, 'InvalidIntent: not JSON');
+        }
+    }
+}
+
+//checks the shape of a posted SignedIntent; the relayer validates the rest
+function parseSignedIntent(body: any): SignedIntent {
+    const invalid = (field: string) =>
+        new HttpError(400, `InvalidIntent: ${field}`);
+
+    if (!INTENT_TYPES.includes(body?.intent?.type)) throw invalid('type');
+    if (!isAddress(body.signer)) throw invalid('signer');
+    if (!isHexString(body.signature)) throw invalid('signature');
+
+    try {
+        return {
+            intent: body.intent,
+            signer: getAddress(body.signer),
+            nonce: BigInt(body.nonce),
+            deadline: BigInt(body.deadline),
+            signature: body.signature,
+        };
+    } catch {
+        throw invalid('nonce or deadline');
+    }
+}
@@ -0,0 +1,3 @@
+export * from './types';
+export { IntentRelayer } from './IntentRelayer';
+export { RelayerServer } from './RelayerServer';
@@ -0,0 +1,24 @@
+import type { Signer } from 'ethers';
+import type { EscrowIntent } from '../../client/types';
+
+/**
+ * RelayerOptions: configuration of an IntentRelayer.
+ */
+export interface RelayerOptions {
+    signer: Signer; //account that submits intents and pays the gas; must be connected to a provider
+    escrowAddress: string;
+    dryRun?: boolean; //validate intents without submitting them (default false)
+    log?: (message: string) => void; //defaults to console.log
+}
+
+/**
+ * RelayerResult: the outcome of relaying one signed intent.
+ */
+export interface RelayerResult {
+    type: EscrowIntent['type'];
+    signer: string;
+    nonce: bigint;
+    dryRun: boolean;
+    transactionHash?: string; //set when the intent was submitted and mined
+    error?: string; //set when the intent was rejected, or failed
+}
@@ -0,0 +1,312 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.20;
+
+import "../interfaces/IPolyEscrow.sol";
+import "../escrow/Types.sol";
+
+/**
+ * @title ArbitrationModule
+ *
+ * @dev Arbitration by vote, for escrows which name this contract as their arbitration module.
+ *
+ * Either party to an escrow, or any of its arbiters, may propose to refund or release some or all of what has been
+ * paid into it. Making a proposal puts the escrow into Arbitration, so that nothing more can be paid in, and there
+ * can only be one pending proposal per escrow. Once as many of the escrow's arbiters as its quorum have voted for
+ * the proposal, it passes and is executed through the escrow contract.
+ *
+ * Until then, the proposer may cancel it; and once it has expired, anyone may mark it as expired. Either way, the
+ * escrow goes back to Active.
+ *
+ * No proposals can be made once the escrow's end time has passed, so that arbitration can't hold off its expiry
+ * refund for longer than the proposal pending at the time.
+ */
+contract ArbitrationModule {
+    IPolyEscrow public escrowContract;
+    uint256 public proposalDuration;
+    uint256 public proposalCount;
+
+    mapping(uint256 => EscrowArbitrationProposal) internal proposals;
+    mapping(bytes32 => uint256[]) internal escrowProposals;
+
+    // -----------
+    // EVENTS
+    // -----------
+
+    //raised when a proposal is made
+    event ProposalCreated (
+        uint256 indexed proposalId,
+        bytes32 indexed escrowId,
+        address proposer
+    );
+
+    //raised when an arbiter votes for a proposal
+    event ProposalVoted (
+        uint256 indexed proposalId,
+        address arbiter
+    );
+
+    //raised when a proposal has passed and been executed
+    event ProposalExecuted (
+        uint256 indexed proposalId
+    );
+
+    //raised when a proposal is cancelled by its proposer
+    event ProposalCancelled (
+        uint256 indexed proposalId
+    );
+
+    //raised when a proposal is marked as expired
+    event ProposalExpired (
+        uint256 indexed proposalId
+    );
+
+    /**
+     * Constructor for ArbitrationModule.
+     *
+     * @param _escrowContract The escrow contract whose escrows this module arbitrates.
+     * @param _proposalDuration How long (in seconds) a proposal may be voted on.
+     */
+    constructor(IPolyEscrow _escrowContract, uint256 _proposalDuration) {
+        escrowContract = _escrowContract;
+        proposalDuration = _proposalDuration;
+    }
+
+    /**
+     * @dev Proposes to refund or release the given amounts of an escrow, and puts the escrow into arbitration.
+     *
+     * Reverts:
+     * - InvalidEscrow
+     * - InvalidArbitrationModule
+     * - InvalidQuorum
+     * - Unauthorized
+     * - InvalidAmount
+     * - AmountExceeded
+     * - EscrowExpired
+     * - InvalidEscrowState
+     *
+     * Emits:
+     * - ProposalCreated
+     *
+     * @param escrowId The unique id of the escrow.
+     * @param proposalType Whether to refund or release.
+     * @param primaryAmount How much of the primary leg to refund or release.
+     * @param secondaryAmount How much of the secondary leg to refund or release.
+     * @param reason The reason for the proposal.
+     * @return proposalId The id of the new proposal.
+     */
+    function propose(
+        bytes32 escrowId,
+        ProposalType proposalType,
+        uint256 primaryAmount,
+        uint256 secondaryAmount,
+        string calldata reason
+    ) external returns (uint256 proposalId) {
+        //EXCEPTION: InvalidEscrow
+        require(escrowContract.hasEscrow(escrowId), "InvalidEscrow");
+        EscrowDefinition memory escrow = escrowContract.getEscrow(escrowId);
+
+        //EXCEPTION: InvalidArbitrationModule
+        require(escrow.arbitration.arbitrationModule == address(this), "InvalidArbitrationModule");
+
+        //EXCEPTION: InvalidQuorum
+        require(
+            escrow.arbitration.quorum > 0 && escrow.arbitration.quorum <= escrow.arbitration.arbiters.length,
+            "InvalidQuorum"
+        );
+
+        //EXCEPTION: Unauthorized (only the parties and the arbiters may propose)
+        require(
+            msg.sender == escrow.primaryLeg.participantAddress ||
+            msg.sender == escrow.secondaryLeg.participantAddress ||
+            _getArbiterIndex(escrow, msg.sender) < escrow.arbitration.arbiters.length,
+            "Unauthorized"
+        );
+
+        //EXCEPTION: InvalidAmount
+        require(primaryAmount > 0 || secondaryAmount > 0, "InvalidAmount");
+
+        //EXCEPTION: AmountExceeded
+        require(primaryAmount <= _getAmountRemaining(escrow.primaryLeg), "AmountExceeded");
+        require(secondaryAmount <= _getAmountRemaining(escrow.secondaryLeg), "AmountExceeded");
+
+        //EXCEPTION: EscrowExpired (an expired escrow is left to refundExpired)
+        require(escrow.endTime == 0 || block.timestamp < escrow.endTime, "EscrowExpired");
+
+        //put the escrow into arbitration (reverts InvalidEscrowState unless it's Active)
+        escrowContract.setArbitration(escrowId, true);
+
+        //store the proposal
+        proposalId = ++proposalCount;
+        EscrowArbitrationProposal storage proposal = proposals[proposalId];
+        proposal.escrowId = escrowId;
+        proposal.proposer = msg.sender;
+        proposal.reason = reason;
+        proposal.timestamp = block.timestamp;
+        proposal.proposalType = proposalType;
+        proposal.primaryAmount = primaryAmount;
+        proposal.secondaryAmount = secondaryAmount;
+        proposal.votes = new uint8[](escrow.arbitration.arbiters.length);
+        proposal.expiresAt = block.timestamp + proposalDuration;
+        proposal.status = ProposalStatus.Pending;
+        escrowProposals[escrowId].push(proposalId);
+
+        //EVENT: ProposalCreated
+        emit ProposalCreated(proposalId, escrowId, msg.sender);
+    }
+
+    /**
+     * @dev Votes for a pending proposal. The vote which brings the proposal to its escrow's quorum also executes it.
+     *
+     * Reverts:
+     * - InvalidProposal
+     * - InvalidProposalState
+     * - ProposalExpired
+     * - Unauthorized
+     * - AlreadyVoted
+     *
+     * Emits:
+     * - ProposalVoted
+     * - ProposalExecuted
+     *
+     * @param proposalId The id of the proposal.
+     */
+    function vote(uint256 proposalId) external {
+        EscrowArbitrationProposal storage proposal = _getPendingProposal(proposalId);
+
+        //EXCEPTION: ProposalExpired
+        require(block.timestamp < proposal.expiresAt, "ProposalExpired");
+
+        //EXCEPTION: Unauthorized (only the escrow's arbiters may vote)
+        EscrowDefinition memory escrow = escrowContract.getEscrow(proposal.escrowId);
+        uint256 index = _getArbiterIndex(escrow, msg.sender);
+        require(index < proposal.votes.length, "Unauthorized");
+
+        //EXCEPTION: AlreadyVoted
+        require(proposal.votes[index] == 0, "AlreadyVoted");
+        proposal.votes[index] = 1;
+
+        //EVENT: ProposalVoted
+        emit ProposalVoted(proposalId, msg.sender);
+
+        //execute once the quorum is reached
+        if (_countVotes(proposal) >= escrow.arbitration.quorum) {
+            proposal.status = ProposalStatus.Passed;
+            escrowContract.executeArbitrationProposal(
+                proposal.escrowId,
+                proposal.proposalType,
+                proposal.primaryAmount,
+                proposal.secondaryAmount
+            );
+
+            //EVENT: ProposalExecuted
+            emit ProposalExecuted(proposalId);
+        }
+    }
+
+    /**
+     * @dev Cancels a pending proposal, and takes its escrow out of arbitration. Only the proposer may cancel.
+     *
+     * Reverts:
+     * - InvalidProposal
+     * - InvalidProposalState
+     * - Unauthorized
+     *
+     * Emits:
+     * - ProposalCancelled
+     *
+     * @param proposalId The id of the proposal.
+     */
+    function cancel(uint256 proposalId) external {
+        EscrowArbitrationProposal storage proposal = _getPendingProposal(proposalId);
+
+        //EXCEPTION: Unauthorized
+        require(msg.sender == proposal.proposer, "Unauthorized");
+
+        proposal.status = ProposalStatus.Cancelled;
+        escrowContract.setArbitration(proposal.escrowId, false);
+
+        //EVENT: ProposalCancelled
+        emit ProposalCancelled(proposalId);
+    }
+
+    /**
+     * @dev Marks a pending proposal whose time is up as expired, and takes its escrow out of arbitration.
+     * Anyone may call this.
+     *
+     * Reverts:
+     * - InvalidProposal
+     * - InvalidProposalState
+     * - ProposalNotExpired
+     *
+     * Emits:
+     * - ProposalExpired
+     *
+     * @param proposalId The id of the proposal.
+     */
+    function expire(uint256 proposalId) external {
+        EscrowArbitrationProposal storage proposal = _getPendingProposal(proposalId);
+
+        //EXCEPTION: ProposalNotExpired
+        require(block.timestamp >= proposal.expiresAt, "ProposalNotExpired");
+
+        proposal.status = ProposalStatus.Expired;
+        escrowContract.setArbitration(proposal.escrowId, false);
+
+        //EVENT: ProposalExpired
+        emit ProposalExpired(proposalId);
+    }
+
+    /**
+     * @dev Returns the proposal with the given id. If no such proposal exists, the returned proposal's escrow id
+     * is zero.
+     *
+     * @param proposalId The id of the proposal.
+     */
+    function getProposal(uint256 proposalId) external view returns (EscrowArbitrationProposal memory) {
+        return proposals[proposalId];
+    }
+
+    /**
+     * @dev Returns the ids of all proposals made for an escrow, oldest first.
+     *
+     * @param escrowId The unique id of the escrow.
+     */
+    function getEscrowProposals(bytes32 escrowId) external view returns (uint256[] memory) {
+        return escrowProposals[escrowId];
+    }
+
+
+    // ----------------------
+    // - Non-Public         -
+    // ----------------------
+
+    function _getPendingProposal(uint256 proposalId) internal view returns (EscrowArbitrationProposal storage) {
+        EscrowArbitrationProposal storage proposal = proposals[proposalId];
+
+        //EXCEPTION: InvalidProposal
+        require(proposal.escrowId != 0, "InvalidProposal");
+
+        //EXCEPTION: InvalidProposalState
+        require(proposal.status == ProposalStatus.Pending, "InvalidProposalState");
+        return proposal;
+    }
+
+    //returns the number of arbiters if the account isn't one
+    function _getArbiterIndex(EscrowDefinition memory escrow, address account) internal pure returns (uint256) {
+        for (uint256 n = 0; n < escrow.arbitration.arbiters.length; n++) {
+            if (escrow.arbitration.arbiters[n] == account)
+                return n;
+        }
+        return escrow.arbitration.arbiters.length;
+    }
+
+    function _countVotes(EscrowArbitrationProposal storage proposal) internal view returns (uint256 count) {
+        for (uint256 n = 0; n < proposal.votes.length; n++) {
+            count += proposal.votes[n];
+        }
+    }
+
+    function _getAmountRemaining(EscrowLeg memory leg) internal pure returns (uint256) {
+        return leg.amountPaid - leg.amountRefunded - leg.amountReleased;
+    }
+}
@@ -0,0 +1,159 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.20;
+
+import "./Types.sol";
+import "../utility/IsErc20.sol";
+import "../utility/IsErc721.sol";
+import "../utility/IsErc1155.sol";
+
+/**
+ * @title EscrowFactory
+ * 
+ * @dev Creates escrows for PolyEscrow: checks each one's participants, amounts, tokens and end date, then stores it 
+ * as Pending, with the platform fee among its fees. 
+ */
+library EscrowFactory {
+
+    /**
+     * @dev Validates an escrow's specification, and stores it as a Pending escrow, with the platform fee added to 
+     * its fees (or raised to the platform fee, if the platform recipient is already among them). 
+     * 
+     * Reverts: see PolyEscrow.createEscrow
+     * 
+     * @param escrow Where to store the escrow: the slot for its id.
+     * @param input Specification of the escrow to create.
+     * @param platformRecipient The recipient of the platform fee (0x0 for none).
+     * @param platformFee The platform fee, in bps.
+     */
+    function create(
+        EscrowDefinition storage escrow, 
+        CreateEscrowInput memory input, 
+        address platformRecipient, 
+        uint256 platformFee
+    ) 
+        external 
+    {
+
+        // -------------
+        // VALIDATION 
+        // -------------
+
+        //EXCEPTION: InvalidEscrow
+        require(input.id != 0, "InvalidEscrow");
+
+        //EXCEPTION: InvalidPartyAddress
+        require(input.primaryLeg.participantAddress != address(0), "InvalidPartyAddress");
+        require(input.secondaryLeg.participantAddress != address(0), "InvalidPartyAddress");
+
+        //EXCEPTION: InvalidPartyAddress: (receiver cannot be the same as payer)
+        require(input.primaryLeg.participantAddress != input.secondaryLeg.participantAddress, "InvalidPartyAddress");
+
+        //EXCEPTION: InvalidAmount
+        require(input.primaryLeg.amount > 0, "InvalidAmount");
+        require(input.secondaryLeg.amount > 0, "InvalidAmount");
+
+        //EXCEPTION: InvalidToken
+        _validateLegToken(input.primaryLeg);
+        _validateLegToken(input.secondaryLeg);
+
+        //EXCEPTION: CurrencyMismatch
+        require (input.primaryLeg.currency != input.secondaryLeg.currency, "CurrencyMismatch");
+
+        //EXCEPTION: InvalidEndDate
+        if (input.endTime > 0) {
+            require((input.endTime > block.timestamp + 3600) && (input.endTime > input.startTime), 'InvalidEndDate');
+        }
+
+        // EXCEPTION: DuplicateEscrow if existing escrow
+        require(escrow.id != input.id, "DuplicateEscrow");
+
+
+        // -------------
+        // EXECUTION 
+        // -------------
+
+        //Create and store the escrow
+        escrow.id = input.id;
+
+        //add primary participant
+        escrow.primaryLeg = EscrowLeg({
+            participantAddress: input.primaryLeg.participantAddress,
+            currency: input.primaryLeg.currency,
+            paymentType: input.primaryLeg.paymentType,
+            amountPledged: input.primaryLeg.amount,
+            amountPaid: 0,
+            amountReleased: 0,
+            amountRefunded: 0,
+            tokenId: input.primaryLeg.tokenId
+        });
+
+        //add secondary participant
+        escrow.secondaryLeg = EscrowLeg({
+            participantAddress: input.secondaryLeg.participantAddress,
+            currency: input.secondaryLeg.currency,
+            paymentType: input.secondaryLeg.paymentType,
+            amountPledged: input.secondaryLeg.amount,
+            amountPaid: 0,
+            amountReleased: 0,
+            amountRefunded: 0,
+            tokenId: input.secondaryLeg.tokenId
+        });
+        
+        //add times
+        escrow.startTime = input.startTime;
+        escrow.endTime = input.endTime;
+        escrow.timestamp = block.timestamp;
+
+        //arbitration and status
+        escrow.arbitration = input.arbitration;        
+        escrow.status = EscrowStatus.Pending;
+
+        //add the platform fee to the list of fees, if it isn't already there
+        _addEscrowFeesToEscrow(escrow, input.fees, platformRecipient, platformFee);
+    }
+
+    function _addEscrowFeesToEscrow(
+        EscrowDefinition storage escrow, 
+        FeeDefinition[] memory fees, 
+        address platformRecipient, 
+        uint256 platformFee
+    ) private {
+        bool found = false;
+
+        //add all given fees
+        for(uint n=0; n<fees.length; n++) {
+            //if the platform fee has already been added, but it's too little, make it correct
+            if (!found && platformRecipient != address(0) && fees[n].recipient == platformRecipient) {
+                found = true;
+                if (fees[n].feeBps < platformFee) {
+                    fees[n].feeBps = platformFee;
+                }
+            }
+
+            escrow.fees.push(fees[n]);
+        }
+
+        //add the platform fee if it wasn't already there
+        if (!found && platformRecipient != address(0) && platformFee > 0) {
+            escrow.fees.push(FeeDefinition({
+                recipient: platformRecipient,
+                feeBps: platformFee
+            }));
+        }
+    }
+
+    function _validateLegToken(EscrowLegInput memory leg) private view {
+        if (leg.paymentType == EscrowPaymentType.ERC20) {
+            require(IsErc20.check(leg.currency), "InvalidToken");
+        }
+        else if (leg.paymentType == EscrowPaymentType.ERC721) {
+            require(IsErc721.check(leg.currency), "InvalidToken");
+
+            //EXCEPTION: InvalidAmount (a single NFT is pledged)
+            require(leg.amount == 1, "InvalidAmount");
+        }
+        else if (leg.paymentType == EscrowPaymentType.ERC1155) {
+            require(IsErc1155.check(leg.currency), "InvalidToken");
+        }
+    }
+}
@@ -0,0 +1,129 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.20;
+
+import "./Types.sol";
+import "../utility/CarefulMath.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
+
+/**
+ * @title EscrowPayouts
+ * 
+ * @dev Pays out of PolyEscrow's escrow legs: a release goes to the counterparty, split with the escrow's fee 
+ * recipients (fees are only taken from ERC20 and native legs), and a refund goes back to the leg's participant. 
+ */
+library EscrowPayouts {
+
+    /**
+     * @dev Releases the given amount of a leg (or all that remains of it, if 0) to the counterparty, paying the 
+     * escrow's fees out of it. The amount is recorded as released before anything is transferred.
+     */
+    function release(EscrowDefinition storage escrow, EscrowLeg storage leg, uint256 amount) external {
+        uint256 activeAmount = amountRemaining(leg);
+
+        //EXCEPTION: AmountExceeded
+        require(amount <= activeAmount, "AmountExceeded"); //NOT COVERABLE
+        if (amount == 0)
+            amount = activeAmount;
+
+        //calculate fee, and amount to release
+        (address[] memory recipients, uint256[] memory amounts) = _calculatePaymentAmounts(escrow, leg, amount);
+
+        //record the amount released
+        leg.amountReleased += amount;
+
+        //now for each recipient, transfer the amount
+        for(uint n=0; n<recipients.length; n++) {
+            //transfer the amount to the other party
+            _transferAmount(leg, recipients[n], leg.currency, amounts[n]);
+        }
+    }
+
+    /**
+     * @dev Refunds the given amount of a leg to its participant. The amount is recorded as refunded before 
+     * anything is transferred.
+     */
+    function refund(EscrowLeg storage leg, uint256 amount) external {
+        //EXCEPTION: AmountExceeded
+        require(amountRemaining(leg) >= amount, "AmountExceeded"); //NOT COVERED
+
+        //record the amount refunded
+        leg.amountRefunded += amount;
+
+        //return the amount to the party that pledged it
+        _transferAmount(leg, leg.participantAddress, leg.currency, amount);
+    }
+
+    /**
+     * @dev Returns what has been paid into a leg, and neither released nor refunded.
+     */
+    function amountRemaining(EscrowLeg memory leg) internal pure returns (uint256) {
+        return leg.amountPaid - leg.amountRefunded - leg.amountReleased;
+    }
+
+    function _calculatePaymentAmounts(EscrowDefinition storage escrow, EscrowLeg memory leg, uint256 amount) 
+        private view returns(address[] memory, uint256[] memory) {
+        
+        address[] memory recipients = new address[](escrow.fees.length + 1);
+        uint256[] memory amounts = new uint256[](escrow.fees.length + 1);
+        
+        //ok first, we shall have the base amount paid to other participant, the counterparty
+        recipients[0] = (leg.participantAddress == escrow.primaryLeg.participantAddress) ? 
+            escrow.secondaryLeg.participantAddress : 
+            escrow.primaryLeg.participantAddress;
+        amounts[0] = amount;
+
+        //we're only calculating fees for ERC20 and Native payments
+        if (leg.paymentType == EscrowPaymentType.ERC20 ||
+            leg.paymentType == EscrowPaymentType.Native) {
+
+            //next we must go through each fee and calculate it
+            for(uint8 n=0; n<escrow.fees.length; n++) {
+                recipients[n+1] = escrow.fees[n].recipient;
+                amounts[n+1] = CarefulMath.mulDiv(amount, escrow.fees[n].feeBps, 10000);
+
+                //and subtract that amount from what the recipient will get 
+                amounts[0] -= amounts[n+1];
+            }
+        }
+
+        return (recipients, amounts);
+    }
+
+    function _transferAmount(EscrowLeg memory from, address to, address tokenAddressOrZero, uint256 amount) private returns (bool) {
+        bool success = false;
+
+        //TODO: handle Bitcoin, and Custom
+
+        if (amount > 0) {
+            if (tokenAddressOrZero == address(0)) {
+                (success,) = payable(to).call{value: amount}("");
+            } 
+            else if (from.paymentType == EscrowPaymentType.ERC20) {
+                IERC20 token = IERC20(tokenAddressOrZero); 
+                success = token.transfer(to, amount);
+            }
+            else if (from.paymentType == EscrowPaymentType.ERC721) {
+                IERC721 token = IERC721(tokenAddressOrZero); 
+                token.safeTransferFrom(address(this), to, from.tokenId);
+                success = true;
+            }
+            else if (from.paymentType == EscrowPaymentType.ERC1155) {
+                IERC1155 token = IERC1155(tokenAddressOrZero); 
+                token.safeTransferFrom(address(this), to, from.tokenId, amount, "");
+                success = true;
+            }
+
+            if (success) {
+                //TODO: do thise
+                //emit PaymentTransferred(escrowId, to, amount); //NOT COVERED
+            }
+            else {
+                revert("PaymentTransferFailed"); //NOT COVERED
+            }
+        }
+
+        return success;
+    }
+}
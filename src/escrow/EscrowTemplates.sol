@@ -0,0 +1,63 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.20;
+
+import "./Types.sol";
+
+/**
+ * @title EscrowTemplates
+ *
+ * @dev Stores PolyEscrow's escrow templates, and fills in the terms of escrows created from them: each leg's 
+ * currency and payment type, the arbitration and fees come from the template, and the end time from its duration.
+ */
+library EscrowTemplates {
+
+    /**
+     * @dev Copies a template into storage.
+     *
+     * Reverts:
+     * - InvalidEndDate (if the duration leaves too little time to pay)
+     */
+    function store(EscrowTemplate storage stored, EscrowTemplate calldata template) external {
+        //EXCEPTION: InvalidEndDate (same minimum as createEscrow's end time)
+        require(template.duration == 0 || template.duration > 3600, "InvalidEndDate");
+
+        stored.primaryLeg = template.primaryLeg;
+        stored.secondaryLeg = template.secondaryLeg;
+        stored.duration = template.duration;
+        stored.arbitration = template.arbitration;
+
+        //arrays of structs can't be copied to storage at once
+        for (uint256 n = 0; n < template.fees.length; n++) {
+            stored.fees.push(template.fees[n]);
+        }
+    }
+
+    /**
+     * @dev Builds the specification of an escrow from a template, to be created now; its id is left as 0.
+     */
+    function build(
+        EscrowTemplate storage template,
+        TemplateLegInput calldata primaryLeg,
+        TemplateLegInput calldata secondaryLeg
+    )
+        external view returns (CreateEscrowInput memory input)
+    {
+        input.primaryLeg = _buildLeg(template.primaryLeg, primaryLeg);
+        input.secondaryLeg = _buildLeg(template.secondaryLeg, secondaryLeg);
+        input.endTime = template.duration > 0 ? block.timestamp + template.duration : 0;
+        input.arbitration = template.arbitration;
+        input.fees = template.fees;
+    }
+
+    function _buildLeg(EscrowLegTemplate storage leg, TemplateLegInput calldata legInput)
+        private view returns (EscrowLegInput memory)
+    {
+        return EscrowLegInput({
+            participantAddress: legInput.participantAddress,
+            currency: leg.currency,
+            paymentType: leg.paymentType,
+            amount: legInput.amount,
+            tokenId: legInput.tokenId
+        });
+    }
+}
@@ -2,43 +2,59 @@
 pragma solidity ^0.8.20;
 
 import "./RelayNode.sol"; 
+import "./RelayNodeDeployer.sol"; 
+import "./EscrowTemplates.sol"; 
+import "./EscrowPayouts.sol"; 
+import "./EscrowFactory.sol"; 
 import "../security/HasSecurityContext.sol"; 
-import "../utility/CarefulMath.sol";
 import "../interfaces/ISystemSettings.sol";
 import "../interfaces/IPolyEscrow.sol";
-import "../utility/IsErc20.sol";
 import "../utility/Pausable.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import "@openzeppelin/contracts/token/ERC721/IERC721Receiver.sol";
+import "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
+import "@openzeppelin/contracts/token/ERC1155/IERC1155Receiver.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/Nonces.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 //import "hardhat/console.sol";
 
 uint8 constant MAX_RELAY_NODES_PER_ESCROW = 10; // Max number of relay nodes allowed per escrow
 
-//TODO: add relay nodes
-//TODO: add arbitration module
-//TODO: make pausable
+//first byte of every id derived by computeEscrowId; ids chosen by callers of createEscrow can't start with it
+bytes32 constant SALTED_ESCROW_ID_TAG = bytes32(uint256(0xff) << 248);
 
-struct CreateEscrowInput {
-    bytes32 id;                         //Unique identifier for the escrow
-    EscrowLegInput primaryLeg;          //Details of the first party
-    EscrowLegInput secondaryLeg;        //Details of the second party
-    uint256 startTime;                  //Optional start time for the escrow (0 if none)
-    uint256 endTime;                    //Optional end time for the escrow (0 if none)
-    ArbitrationDefinition arbitration;  //Arbitration details
-    FeeDefinition[] fees;               //Fees to be applied on payments
-}
+//EIP-712 type of a participant's agreement to cancel an escrow
+bytes32 constant CANCEL_ESCROW_TYPEHASH = keccak256("CancelEscrow(bytes32 escrowId,uint256 deadline)");
 
-struct EscrowLegInput {
-    address participantAddress;         
-    address currency;                   //token address, or 0x0 for native
-    EscrowPaymentType paymentType;      
-    uint256 amount;                     //amount pledged  
-}
+//EIP-712 types of actions signed by one account, for a relayer to submit (and pay the gas for) on its behalf
+bytes32 constant CREATE_ESCROW_INTENT_TYPEHASH = keccak256(
+    "CreateEscrowIntent(bytes32 inputHash,uint256 nonce,uint256 deadline)"
+);
+bytes32 constant PAYMENT_INTENT_TYPEHASH = keccak256(
+    "PaymentIntent(bytes32 escrowId,address currency,uint256 amount,uint256 nonce,uint256 deadline)"
+);
+bytes32 constant RELAY_REFUND_INTENT_TYPEHASH = keccak256(
+    "RelayRefundIntent(address relayNode,address currency,uint256 nonce,uint256 deadline)"
+);
 
-contract PolyEscrow is HasSecurityContext, Pausable, IPolyEscrow {
+//TODO: add relay nodes
+//TODO: make pausable
+
+contract PolyEscrow is
+    HasSecurityContext, Pausable, EIP712, Nonces, ReentrancyGuard, IPolyEscrow, IERC721Receiver, IERC1155Receiver
+{
     mapping(bytes32 => EscrowDefinition) internal escrows;
     mapping(bytes32 => RelayNode[]) internal relayNodes;
+    mapping(bytes32 => mapping(address => bool)) internal cancellationApprovals;
+    mapping(uint256 => EscrowTemplate) internal templates;
+    uint256 public templateCount;
+    mapping(address => uint256) public escrowNonces; //number of escrows created by each account with a salt
     ISystemSettings public settings;
+    address public immutable relayNodeImplementation; //relay nodes are clones of it
 
     // -----------
     // MODIFIERS 
@@ -56,6 +72,13 @@ contract PolyEscrow is HasSecurityContext, Pausable, IPolyEscrow {
         _;
     }
 
+    //Enforces that the caller is the arbitration module of the escrow
+    modifier onlyArbitrationModule(bytes32 escrowId) {
+        require(hasEscrow(escrowId), "InvalidEscrow");
+        require(msg.sender == escrows[escrowId].arbitration.arbitrationModule, "Unauthorized");
+        _;
+    }
+
     // -----------
     // EVENTS 
     // -----------
@@ -74,12 +97,52 @@ contract PolyEscrow is HasSecurityContext, Pausable, IPolyEscrow {
         uint256 amount 
     );
 
+    //raised when an expired escrow has been refunded
+    event EscrowRefunded (
+        bytes32 indexed escrowId,
+        uint256 primaryAmount,
+        uint256 secondaryAmount
+    );
+
+    //raised when a participant approves cancelling an escrow on-chain
+    event CancellationApproved (
+        bytes32 indexed escrowId,
+        address participant
+    );
+
+    //raised when an escrow has been cancelled by both participants, and refunded
+    event EscrowCancelled (
+        bytes32 indexed escrowId,
+        uint256 primaryAmount,
+        uint256 secondaryAmount
+    );
+
     //raised when a relay node has been successfully deployed.
     event RelayNodeDeployed (
         address indexed relayAddress,
         bytes32 indexed escrowId
     );
 
+    //raised when the arbitration module puts an escrow into arbitration, or takes it out again
+    event ArbitrationStateChanged (
+        bytes32 indexed escrowId,
+        bool state
+    );
+
+    //raised when an escrow template has been stored
+    event TemplateCreated (
+        uint256 indexed templateId,
+        address indexed creator
+    );
+
+    //raised when an arbitration proposal has been executed
+    event ArbitrationExecuted (
+        bytes32 indexed escrowId,
+        ProposalType proposalType,
+        uint256 primaryAmount,
+        uint256 secondaryAmount
+    );
+
     
     /**
      * Constructor for PolyEscrow.
@@ -90,10 +153,11 @@ contract PolyEscrow is HasSecurityContext, Pausable, IPolyEscrow {
     constructor(
         ISecurityContext securityContext, 
         ISystemSettings systemSettings
-    ) Pausable(securityContext) 
+    ) Pausable(securityContext) EIP712("PolyEscrow", "1")
     {
         _setSecurityContext(securityContext);
         settings = systemSettings;
+        relayNodeImplementation = RelayNodeDeployer.deployImplementation(securityContext);
     }
 
 
@@ -103,10 +167,11 @@ contract PolyEscrow is HasSecurityContext, Pausable, IPolyEscrow {
 
 
     /**
-     * @dev Creates a new escrow agreement.
+     * @dev Creates a new escrow agreement, with an id chosen by the caller. Ids starting with the byte 0xff are 
+     * reserved for those derived by computeEscrowId, so that no one can take an id which is about to be derived.
      * 
      * Reverts: 
-     * - InvalidEscrow
+     * - InvalidEscrow (also if the id starts with 0xff)
      * - InvalidPayer
      * - InvalidReceiver
      * - InvalidAmount
@@ -122,97 +187,11 @@ contract PolyEscrow is HasSecurityContext, Pausable, IPolyEscrow {
      *
      * @param input Specification of the escrow to create.
      */
-    function createEscrow(CreateEscrowInput memory input) public whenNotPaused {
-
-        // -------------
-        // VALIDATION 
-        // -------------
-
-        //EXCEPTION: InvalidEscrow
-        require(input.id != 0, "InvalidEscrow");
+    function createEscrow(CreateEscrowInput memory input) public {
+        //EXCEPTION: InvalidEscrow (the id is reserved for derived ids)
+        require(input.id & SALTED_ESCROW_ID_TAG != SALTED_ESCROW_ID_TAG, "InvalidEscrow");
 
-        //EXCEPTION: InvalidPartyAddress
-        require(input.primaryLeg.participantAddress != address(0), "InvalidPartyAddress");
-        require(input.secondaryLeg.participantAddress != address(0), "InvalidPartyAddress");
-
-        //EXCEPTION: InvalidPartyAddress: (receiver cannot be the same as payer)
-        require(input.primaryLeg.participantAddress != input.secondaryLeg.participantAddress, "InvalidPartyAddress");
-
-        //EXCEPTION: InvalidAmount
-        require(input.primaryLeg.amount > 0, "InvalidAmount");
-        require(input.secondaryLeg.amount > 0, "InvalidAmount");
-
-        //EXCEPTION: InvalidToken
-        if (input.primaryLeg.paymentType == EscrowPaymentType.ERC20) {
-            require(IsErc20.check(input.primaryLeg.currency), "InvalidToken");
-        }
-        if (input.secondaryLeg.paymentType == EscrowPaymentType.ERC20) {
-            require(IsErc20.check(input.secondaryLeg.currency), "InvalidToken");
-        }
-
-        //EXCEPTION: CurrencyMismatch
-        require (input.primaryLeg.currency != input.secondaryLeg.currency, "CurrencyMismatch");
-
-        //EXCEPTION: InvalidEndDate
-        if (input.endTime > 0) {
-            require((input.endTime > block.timestamp + 3600) && (input.endTime > input.startTime), 'InvalidEndDate');
-        }
-
-        // EXCEPTION: DuplicateEscrow if existing escrow
-        require(escrows[input.id].id != input.id, "DuplicateEscrow");
-
-
-        // -------------
-        // EXECUTION 
-        // -------------
-
-        //Create and store the escrow
-        EscrowDefinition storage escrow = escrows[input.id];
-        escrow.id = input.id;
-
-        //add primary participant
-        escrow.primaryLeg = EscrowLeg({
-            participantAddress: input.primaryLeg.participantAddress,
-            currency: input.primaryLeg.currency,
-            paymentType: input.primaryLeg.paymentType,
-            amountPledged: input.primaryLeg.amount,
-            amountPaid: 0,
-            amountReleased: 0,
-            amountRefunded: 0
-        });
-
-        //add secondary participant
-        escrow.secondaryLeg = EscrowLeg({
-            participantAddress: input.secondaryLeg.participantAddress,
-            currency: input.secondaryLeg.currency,
-            paymentType: input.secondaryLeg.paymentType,
-            amountPledged: input.secondaryLeg.amount,
-            amountPaid: 0,
-            amountReleased: 0,
-            amountRefunded: 0
-        });
-        
-        //add times
-        escrow.startTime = input.startTime;
-        escrow.endTime = input.endTime;
-        escrow.timestamp = block.timestamp;
-
-        //arbitration and status
-        escrow.arbitration = input.arbitration;        
-        escrow.status = EscrowStatus.Pending;
-
-        //store the escrow
-        escrows[input.id] = escrow;
-
-        //add the platform fee to the list of fees, if it isn't already there
-        _addEscrowFeesToEscrow(input.id, input.fees);
-
-        // -------------
-        // EVENTS 
-        // -------------
-
-        //EVENT: emit event escrow created
-        emit EscrowCreated(input.id);
+        _createEscrow(input);
     }
 
     /**
@@ -230,13 +209,14 @@ contract PolyEscrow is HasSecurityContext, Pausable, IPolyEscrow {
     }
 
     /**
-     * @dev Allows multiple payments to be processed for an escrow.
+     * @dev Places a payment into one leg of an escrow; the leg is chosen by the payment's currency.
      * 
      * Reverts: 
      * - Paused
      * - InvalidEscrowState
      * - InvalidEscrow
-     * - EscrowNotActive
+     * - EscrowNotStarted
+     * - EscrowExpired
      * - InvalidCurrency
      * - InvalidAmount
      * - TokenPaymentFailed
@@ -247,100 +227,214 @@ contract PolyEscrow is HasSecurityContext, Pausable, IPolyEscrow {
      * 
      * @param paymentInput Payment inputs
      */
-    function placePayment(PaymentInput calldata paymentInput) public virtual payable 
-        whenNotPaused 
-        whenNotCompleted(paymentInput.escrowId)
-        whenNotInArbitration(paymentInput.escrowId)
-    {
-        //EXCEPTION: InvalidAmount
-        require(paymentInput.amount > 0, "InvalidAmount");
+    function placePayment(PaymentInput calldata paymentInput) public virtual payable nonReentrant {
+        _placePayment(paymentInput, msg.sender, msg.value);
+    }
 
-        //EXCEPTION: InvalidEscrow
-        require(hasEscrow(paymentInput.escrowId), "InvalidEscrow");
+    /**
+     * @dev Creates several escrows in one transaction. If any of them can't be created, none are.
+     * 
+     * Reverts: 
+     * - same as createEscrow
+     * 
+     * Emits: 
+     * - EscrowCreated (for each)
+     * 
+     * @param inputs Specifications of the escrows to create.
+     */
+    function createEscrows(CreateEscrowInput[] calldata inputs) external {
+        for (uint256 n = 0; n < inputs.length; n++) {
+            createEscrow(inputs[n]);
+        }
+    }
 
-        //get the escrow 
-        EscrowDefinition storage escrow = escrows[paymentInput.escrowId];
-        EscrowLeg memory payer;
+    /**
+     * @dev Places several payments in one transaction, in order. If any of them fails, none are placed. The value 
+     * sent must be exactly the total of the native payments.
+     * 
+     * Reverts: 
+     * - InvalidAmount (if the value sent is not the total of the native payments)
+     * - same as placePayment
+     * 
+     * Emits: 
+     * - PaymentReceived (for each)
+     * 
+     * @param paymentInputs Payment inputs
+     */
+    function placePayments(PaymentInput[] calldata paymentInputs) external payable nonReentrant {
+        uint256 valueRemaining = msg.value;
 
-        //figure out by the currency, which participant is paying
-        if (escrow.primaryLeg.paymentType == EscrowPaymentType.Native) {
-            if (paymentInput.currency == address(0)) {
-                //got it 
-                payer = escrow.primaryLeg;
-            }
-        }
-        if (escrow.primaryLeg.paymentType == EscrowPaymentType.ERC20 || 
-            escrow.primaryLeg.paymentType == EscrowPaymentType.ERC721) {
-            if (paymentInput.currency == escrow.primaryLeg.currency) {
-                //got it 
-                payer = escrow.primaryLeg;
-            }
-        }
-        if (escrow.secondaryLeg.paymentType == EscrowPaymentType.Native) {
-            if (paymentInput.currency == address(0)) {
-                //got it 
-                payer = escrow.secondaryLeg;
-            }
-        }
-        if (escrow.secondaryLeg.paymentType == EscrowPaymentType.ERC20 || 
-            escrow.secondaryLeg.paymentType == EscrowPaymentType.ERC721) {
-            if (paymentInput.currency == escrow.secondaryLeg.currency) {
-                //got it 
-                payer = escrow.secondaryLeg;
-            }
+        for (uint256 n = 0; n < paymentInputs.length; n++) {
+            _placePayment(paymentInputs[n], msg.sender, valueRemaining);
+
+            //a native payment uses up its amount of the value sent 
+            if (paymentInputs[n].currency == address(0)) 
+                valueRemaining -= paymentInputs[n].amount;
         }
 
-        //EXCEPTION: InvalidCurrency
-        //otherwise, invalid currency
-        if (payer.participantAddress == address(0))
-            revert("InvalidCurrency");
+        //EXCEPTION: InvalidAmount (nothing may be left over)
+        require(valueRemaining == 0, "InvalidAmount");
+    }
 
-        //if status was pending, is now active 
-        if (escrow.status == EscrowStatus.Pending)
-            escrow.status = EscrowStatus.Active;
+    /**
+     * @dev Pays into an ERC20 leg in a single transaction, using the payer's EIP-2612 permit in place of a 
+     * separate approve. Otherwise the same as placePayment. Only EIP-2612 permits are accepted, not Permit2 
+     * signatures; a token without EIP-2612 must be approved separately.
+     * 
+     * A permit which fails (e.g. because someone else has already submitted it) is ignored; the payment still 
+     * goes through if the allowance is in place.
+     * 
+     * Reverts: 
+     * - InvalidCurrency
+     * - same as placePayment
+     * 
+     * Emits: 
+     * - PaymentReceived
+     * 
+     * @param paymentInput Payment inputs
+     * @param deadline The time (in unix seconds) after which the permit can no longer be used.
+     * @param v Recovery id of the permit signature.
+     * @param r First half of the permit signature.
+     * @param s Second half of the permit signature.
+     */
+    function placePaymentWithPermit(
+        PaymentInput calldata paymentInput, 
+        uint256 deadline, 
+        uint8 v, 
+        bytes32 r, 
+        bytes32 s
+    ) external nonReentrant {
+        //EXCEPTION: InvalidCurrency (native payments have nothing to permit)
+        require(paymentInput.currency != address(0), "InvalidCurrency");
+
+        try IERC20Permit(paymentInput.currency).permit(
+            msg.sender, address(this), paymentInput.amount, deadline, v, r, s
+        ) {} catch {}
+
+        _placePayment(paymentInput, msg.sender, 0);
+    }
 
-        //if native, verify the amount sent is correct 
-        if (payer.paymentType == EscrowPaymentType.Native) {
-            //EXCEPTION: InvalidAmount
-            require(msg.value >= paymentInput.amount, "InvalidAmount");
-        }
+    /**
+     * @dev Refunds an escrow which has passed its end time without completing: whatever remains of each leg's 
+     * payments is returned to the party that pledged it, and the escrow is Completed. Anyone may call this.
+     * 
+     * Reverts: 
+     * - Paused
+     * - InvalidEscrow
+     * - InvalidEscrowState
+     * - EscrowNotExpired
+     * - PaymentTransferFailed
+     * 
+     * Emits: 
+     * - EscrowRefunded
+     * 
+     * @param escrowId The unique escrow id.
+     */
+    function refundExpired(bytes32 escrowId) external whenNotPaused nonReentrant {
+        //EXCEPTION: InvalidEscrow
+        require(hasEscrow(escrowId), "InvalidEscrow");
 
-        //if token, transfer the specified amount in 
-        else if (payer.paymentType == EscrowPaymentType.ERC20) {
-            //transfer the tokens in 
-            IERC20 token = IERC20(payer.currency);
-            bool success = token.transferFrom(msg.sender, address(this), paymentInput.amount);
+        //EXCEPTION: InvalidEscrowState (only Active escrows have anything to refund)
+        EscrowDefinition storage escrow = escrows[escrowId];
+        require(escrow.status == EscrowStatus.Active, "InvalidEscrowState");
 
-            //EXCEPTION: TokenPaymentFailed
-            require(success, "TokenPaymentFailed");
-        }
-        //if NFT, transfer the NFT to self
-        else if (payer.paymentType == EscrowPaymentType.ERC721) {
-            IERC721 token = IERC721(payer.currency);
-            token.transferFrom(msg.sender, address(this), paymentInput.amount);
-        }
+        //EXCEPTION: EscrowNotExpired
+        require(escrow.endTime > 0 && block.timestamp >= escrow.endTime, "EscrowNotExpired");
 
-        //increment the amount paid for the leg
-        EscrowLeg storage leg = 
-            (payer.participantAddress == escrow.primaryLeg.participantAddress) ? 
-                escrow.primaryLeg : 
-                escrow.secondaryLeg;
-        leg.amountPaid += paymentInput.amount;
+        (uint256 primaryAmount, uint256 secondaryAmount) = _refundAndComplete(escrow);
 
-        //if escrow now fully paid, release it 
-        if (escrow.primaryLeg.amountPaid >= escrow.primaryLeg.amountPledged &&
-            escrow.secondaryLeg.amountPaid >= escrow.secondaryLeg.amountPledged) {
-            _releaseEscrow(paymentInput.escrowId);
-        }
+        //EVENT: EscrowRefunded
+        emit EscrowRefunded(escrowId, primaryAmount, secondaryAmount);
+    }
 
-        //EVENT: emit payment received event
-        emit PaymentReceived(
-            paymentInput.escrowId,
-            msg.sender,
-            paymentInput.currency,
-            payer.paymentType,
-            paymentInput.amount
+    /**
+     * @dev Records the caller's approval to cancel an Active escrow. Once both participants have approved, the 
+     * escrow is cancelled: whatever remains of each leg's payments is returned to the party that pledged it, and 
+     * the escrow is Completed.
+     * 
+     * Reverts: 
+     * - Paused
+     * - InvalidEscrow
+     * - InvalidEscrowState
+     * - Unauthorized
+     * - PaymentTransferFailed
+     * 
+     * Emits: 
+     * - CancellationApproved
+     * - EscrowCancelled
+     * 
+     * @param escrowId The unique escrow id.
+     */
+    function approveCancellation(bytes32 escrowId) external whenNotPaused nonReentrant {
+        EscrowDefinition storage escrow = _getCancellableEscrow(escrowId);
+
+        //EXCEPTION: Unauthorized (only the participants may approve)
+        require(
+            msg.sender == escrow.primaryLeg.participantAddress || 
+            msg.sender == escrow.secondaryLeg.participantAddress, 
+            "Unauthorized"
         );
+        cancellationApprovals[escrowId][msg.sender] = true;
+
+        //EVENT: CancellationApproved
+        emit CancellationApproved(escrowId, msg.sender);
+
+        //cancel once both have approved
+        if (
+            cancellationApprovals[escrowId][escrow.primaryLeg.participantAddress] && 
+            cancellationApprovals[escrowId][escrow.secondaryLeg.participantAddress]
+        ) {
+            _cancelEscrow(escrowId, escrow);
+        }
+    }
+
+    /**
+     * @dev Cancels an Active escrow with the EIP-712 CancelEscrow signatures of both participants, in the same way 
+     * as approveCancellation does once both have approved. Anyone may submit the signatures.
+     * 
+     * Reverts: 
+     * - Paused
+     * - InvalidEscrow
+     * - InvalidEscrowState
+     * - SignatureExpired
+     * - InvalidSignature
+     * - PaymentTransferFailed
+     * 
+     * Emits: 
+     * - EscrowCancelled
+     * 
+     * @param escrowId The unique escrow id.
+     * @param deadline The time (in unix seconds) after which the signatures can no longer be used.
+     * @param primarySignature Signature of the primary leg's participant.
+     * @param secondarySignature Signature of the secondary leg's participant.
+     */
+    function cancelWithSignatures(
+        bytes32 escrowId, 
+        uint256 deadline, 
+        bytes calldata primarySignature, 
+        bytes calldata secondarySignature
+    ) external whenNotPaused nonReentrant {
+        EscrowDefinition storage escrow = _getCancellableEscrow(escrowId);
+
+        //EXCEPTION: SignatureExpired
+        require(block.timestamp <= deadline, "SignatureExpired");
+
+        //EXCEPTION: InvalidSignature
+        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(CANCEL_ESCROW_TYPEHASH, escrowId, deadline)));
+        require(_isSignedBy(digest, primarySignature, escrow.primaryLeg.participantAddress), "InvalidSignature");
+        require(_isSignedBy(digest, secondarySignature, escrow.secondaryLeg.participantAddress), "InvalidSignature");
+
+        _cancelEscrow(escrowId, escrow);
+    }
+
+    /**
+     * @dev Returns true if the given participant has approved cancelling the escrow on-chain.
+     * 
+     * @param escrowId The unique escrow id.
+     * @param participant The address of the participant.
+     */
+    function isCancellationApproved(bytes32 escrowId, address participant) external view returns (bool) {
+        return cancellationApprovals[escrowId][participant];
     }
 
     /**
@@ -350,19 +444,23 @@ contract PolyEscrow is HasSecurityContext, Pausable, IPolyEscrow {
      * for users (direct wallet transfer as opposed to dealing with the complexity of a smart contract method call).
      * In the end, the relay node ends up calling the placePayment method with the correct parameters.
      * 
+     * A relay node can be deployed whatever the escrow's status, so that whatever was sent to its predicted address 
+     * can always be recovered: once the escrow is completed, the node refunds it.
+     * 
      * Reverts: 
+     * - Paused
      * - InvalidEscrow
-     * - InvalidEscrowState
      * - MaxRelayNodesExceeded
      * 
      * Emits: 
      * - RelayNodeDeployed
      * 
+     * Its address can be known before it's deployed (see predictRelayNodeAddress).
+     * 
      * @param escrowId The unique escrow id to associate with the relay node.
      * @param autoForwardNative Whether to automatically forward native currency payments.
      */
-    function deployRelayNode(bytes32 escrowId, bool autoForwardNative) 
-        whenNotPaused whenNotCompleted(escrowId) whenNotInArbitration(escrowId) external {
+    function deployRelayNode(bytes32 escrowId, bool autoForwardNative) whenNotPaused external {
 
         //EXCEPTION: InvalidEscrow
         require(hasEscrow(escrowId), "InvalidEscrow");
@@ -370,20 +468,372 @@ contract PolyEscrow is HasSecurityContext, Pausable, IPolyEscrow {
         //EXCEPTION: MaxRelayNodesExceeded
         require(relayNodes[escrowId].length < MAX_RELAY_NODES_PER_ESCROW, "MaxRelayNodesExceeded");
 
-        //deploy the relay node
-        RelayNode relayNode = new RelayNode(
+        //deploy the relay node, at the address predicted for its index
+        RelayNode relayNode = RelayNodeDeployer.deploy(
+            relayNodeImplementation,
             securityContext,
             IPolyEscrow(this),
             escrowId,
+            relayNodes[escrowId].length,
             autoForwardNative
         );
         relayNodes[escrowId].push(relayNode);
 
         //EVENT: RelayNodeDeployed
         emit RelayNodeDeployed(address(relayNode), escrowId);
+
+        //relay whatever was sent to its address before it was deployed; if that fails (e.g. the escrow 
+        // has expired), it's left in the node to be refunded
+        try relayNode.relay() {} catch {}
+    }
+
+    /**
+     * @dev Returns the relay nodes deployed for an escrow, in the order deployed (retired ones included).
+     * 
+     * @param escrowId The unique escrow id.
+     * @return The relay nodes.
+     */
+    function getRelayNodes(bytes32 escrowId) external view returns (RelayNode[] memory) {
+        return relayNodes[escrowId];
+    }
+
+    /**
+     * @dev Returns the address of one of an escrow's relay nodes, whether or not it's been deployed yet. Relay 
+     * nodes are deployed with CREATE2, so payers can be given the address of the next one before anyone deploys 
+     * it; whatever they send to it is relayed when it's deployed. 
+     * 
+     * Reverts: 
+     * - MaxRelayNodesExceeded (if no relay node can be deployed at the index)
+     * 
+     * @param escrowId The unique escrow id of the relay node.
+     * @param index Its position among the escrow's relay nodes, in the order deployed (from 0).
+     * @return The relay node's address.
+     */
+    function predictRelayNodeAddress(bytes32 escrowId, uint256 index) external view returns (address) {
+        //EXCEPTION: MaxRelayNodesExceeded
+        require(index < MAX_RELAY_NODES_PER_ESCROW, "MaxRelayNodesExceeded");
+
+        return RelayNodeDeployer.predict(relayNodeImplementation, escrowId, index);
     }
     
 
+    /**
+     * @dev Accepts the ERC721 tokens which this contract pulls in itself, as payments. Tokens sent to it directly 
+     * are rejected, as they would otherwise be stuck.
+     * 
+     * Reverts: 
+     * - Unauthorized
+     * 
+     * @param operator The account which made the transfer.
+     */
+    function onERC721Received(address operator, address, uint256, bytes calldata) external view returns (bytes4) {
+        //EXCEPTION: Unauthorized
+        require(operator == address(this), "Unauthorized");
+        return IERC721Receiver.onERC721Received.selector;
+    }
+
+    /**
+     * @dev Accepts the ERC1155 tokens which this contract pulls in itself, as payments. Tokens sent to it directly 
+     * are rejected, as they would otherwise be stuck.
+     * 
+     * Reverts: 
+     * - Unauthorized
+     * 
+     * @param operator The account which made the transfer.
+     */
+    function onERC1155Received(address operator, address, uint256, uint256, bytes calldata) 
+        external view returns (bytes4) {
+
+        //EXCEPTION: Unauthorized
+        require(operator == address(this), "Unauthorized");
+        return IERC1155Receiver.onERC1155Received.selector;
+    }
+
+    /**
+     * @dev Rejects batch transfers of ERC1155 tokens; this contract only pulls in single token ids.
+     * 
+     * Reverts: 
+     * - Unauthorized
+     */
+    function onERC1155BatchReceived(address, address, uint256[] calldata, uint256[] calldata, bytes calldata) 
+        external pure returns (bytes4) {
+
+        //EXCEPTION: Unauthorized
+        revert("Unauthorized");
+    }
+
+    /**
+     * @dev See {IERC165-supportsInterface}.
+     */
+    function supportsInterface(bytes4 interfaceId) external pure returns (bool) {
+        return interfaceId == type(IERC1155Receiver).interfaceId || interfaceId == type(IERC165).interfaceId;
+    }
+
+
+    // ----------------------
+    // - Templates & Ids    -
+    // ----------------------
+
+    /**
+     * @dev Creates an escrow with an id derived from the caller, their escrow nonce and the given salt (the id in 
+     * the input is ignored); see computeEscrowId. The caller's escrow nonce is incremented. 
+     * 
+     * Reverts: 
+     * - same as createEscrow
+     * 
+     * Emits: 
+     * - EscrowCreated
+     * 
+     * @param input Specification of the escrow to create.
+     * @param salt Any value, chosen by the caller.
+     * @return The id of the escrow created.
+     */
+    function createEscrowWithSalt(CreateEscrowInput memory input, bytes32 salt) public returns (bytes32) {
+        input.id = computeEscrowId(msg.sender, escrowNonces[msg.sender]++, salt);
+        _createEscrow(input);
+        return input.id;
+    }
+
+    /**
+     * @dev Returns the id of an escrow created with a salt: the hash of the (ABI-encoded) creator, nonce and salt, 
+     * with its first byte set to 0xff (which createEscrow doesn't accept).
+     * 
+     * @param creator The account which creates the escrow.
+     * @param nonce The creator's escrow nonce at the time.
+     * @param salt The salt given by the creator.
+     */
+    function computeEscrowId(address creator, uint256 nonce, bytes32 salt) public pure returns (bytes32) {
+        return keccak256(abi.encode(creator, nonce, salt)) | SALTED_ESCROW_ID_TAG;
+    }
+
+    /**
+     * @dev Returns the id which the creator's next escrow created with the given salt will have.
+     * 
+     * @param creator The account which will create the escrow.
+     * @param salt The salt to be given by the creator.
+     */
+    function predictEscrowId(address creator, bytes32 salt) external view returns (bytes32) {
+        return computeEscrowId(creator, escrowNonces[creator], salt);
+    }
+
+    /**
+     * @dev Stores a template of escrow terms, which anyone may then create escrows from. Templates can't be 
+     * changed once stored. The terms are validated as each escrow is created. 
+     * 
+     * Reverts: 
+     * - Paused
+     * - InvalidEndDate
+     * 
+     * Emits: 
+     * - TemplateCreated
+     * 
+     * @param template The terms to store.
+     * @return templateId The id of the new template.
+     */
+    function createTemplate(EscrowTemplate calldata template) external whenNotPaused returns (uint256 templateId) {
+        templateId = ++templateCount;
+        EscrowTemplates.store(templates[templateId], template);
+
+        //EVENT: TemplateCreated
+        emit TemplateCreated(templateId, msg.sender);
+    }
+
+    /**
+     * @dev Returns the template specified by id.
+     * 
+     * @param templateId The template id.
+     */
+    function getTemplate(uint256 templateId) external view returns (EscrowTemplate memory) {
+        return templates[templateId];
+    }
+
+    /**
+     * @dev Creates an escrow from a template, with an id derived from the caller and salt as in createEscrowWithSalt.
+     * It starts now, and ends after the template's duration (if any). 
+     * 
+     * Reverts: 
+     * - InvalidTemplate
+     * - same as createEscrow
+     * 
+     * Emits: 
+     * - EscrowCreated
+     * 
+     * @param templateId The id of the template.
+     * @param primaryLeg The primary leg's participant and pledge.
+     * @param secondaryLeg The secondary leg's participant and pledge.
+     * @param salt Any value, chosen by the caller.
+     * @return The id of the escrow created.
+     */
+    function createEscrowFromTemplate(
+        uint256 templateId, 
+        TemplateLegInput calldata primaryLeg, 
+        TemplateLegInput calldata secondaryLeg, 
+        bytes32 salt
+    ) 
+        external returns (bytes32) 
+    {
+        //EXCEPTION: InvalidTemplate
+        require(templateId > 0 && templateId <= templateCount, "InvalidTemplate");
+
+        return createEscrowWithSalt(
+            EscrowTemplates.build(templates[templateId], primaryLeg, secondaryLeg), 
+            salt
+        );
+    }
+
+
+    // ----------------------
+    // - Signed Intents     -
+    // ----------------------
+
+    /**
+     * @dev Creates an escrow on behalf of one of its participants, with their EIP-712 CreateEscrowIntent 
+     * signature over the hash of the (ABI-encoded) input. Anyone, e.g. a relayer, may submit it. 
+     * 
+     * Reverts: 
+     * - SignatureExpired
+     * - InvalidSignature
+     * - Unauthorized
+     * - same as createEscrow
+     * 
+     * Emits: 
+     * - EscrowCreated
+     * 
+     * @param input Specification of the escrow to create.
+     * @param signer The participant who signed the intent.
+     * @param deadline The time (in unix seconds) after which the signature can no longer be used.
+     * @param signature The signer's signature, with their next nonce.
+     */
+    function createEscrowWithSignature(
+        CreateEscrowInput calldata input, 
+        address signer, 
+        uint256 deadline, 
+        bytes calldata signature
+    ) external {
+        //EXCEPTION: Unauthorized (only the participants may sign)
+        require(
+            signer == input.primaryLeg.participantAddress || signer == input.secondaryLeg.participantAddress, 
+            "Unauthorized"
+        );
+
+        _useIntent(
+            signer, 
+            abi.encode(CREATE_ESCROW_INTENT_TYPEHASH, keccak256(abi.encode(input)), _useNonce(signer), deadline), 
+            deadline, 
+            signature
+        );
+        createEscrow(input);
+    }
+
+    /**
+     * @dev Places a payment on behalf of the payer, with their EIP-712 PaymentIntent signature. Anyone, e.g. a 
+     * relayer, may submit it; the tokens are taken from the payer, who must have approved them to this contract, 
+     * and the payment is attributed to the payer. Native payments can't be made this way.
+     * 
+     * Reverts: 
+     * - SignatureExpired
+     * - InvalidSignature
+     * - same as placePayment
+     * 
+     * Emits: 
+     * - PaymentReceived
+     * 
+     * @param paymentInput Payment inputs
+     * @param payer The account which signed the intent, and pays.
+     * @param deadline The time (in unix seconds) after which the signature can no longer be used.
+     * @param signature The payer's signature, with their next nonce.
+     */
+    function placePaymentWithSignature(
+        PaymentInput calldata paymentInput, 
+        address payer, 
+        uint256 deadline, 
+        bytes calldata signature
+    ) external nonReentrant {
+        _placePaymentWithSignature(paymentInput, payer, deadline, signature);
+    }
+
+    /**
+     * @dev Same as placePaymentWithSignature, but first submits the payer's EIP-2612 permit for the amount, so that
+     * a payer with no native currency for gas needn't have approved the tokens beforehand. As with
+     * placePaymentWithPermit, a permit which fails is ignored; the payment still goes through if the allowance is
+     * in place.
+     * 
+     * Reverts: 
+     * - InvalidCurrency
+     * - same as placePaymentWithSignature
+     * 
+     * Emits: 
+     * - PaymentReceived
+     * 
+     * @param paymentInput Payment inputs
+     * @param payer The account which signed the intent and the permit, and pays.
+     * @param deadline The time (in unix seconds) after which the intent signature can no longer be used.
+     * @param signature The payer's intent signature, with their next nonce.
+     * @param permit The payer's permit for this contract to transfer the amount.
+     */
+    function placePaymentWithSignatureAndPermit(
+        PaymentInput calldata paymentInput, 
+        address payer, 
+        uint256 deadline, 
+        bytes calldata signature, 
+        PermitInput calldata permit
+    ) external nonReentrant {
+        //EXCEPTION: InvalidCurrency (native payments have nothing to permit)
+        require(paymentInput.currency != address(0), "InvalidCurrency");
+
+        try IERC20Permit(paymentInput.currency).permit(
+            payer, address(this), paymentInput.amount, permit.deadline, permit.v, permit.r, permit.s
+        ) {} catch {}
+
+        _placePaymentWithSignature(paymentInput, payer, deadline, signature);
+    }
+
+    /**
+     * @dev Refunds what a relay node holds in one currency, other than deposits (see RelayNode.refundLeg), on behalf 
+     * of one of its escrow's participants, with their EIP-712 RelayRefundIntent signature. Anyone, e.g. a relayer, 
+     * may submit it. 
+     * 
+     * Reverts: 
+     * - SignatureExpired
+     * - InvalidSignature
+     * - InvalidRelayNode
+     * - Unauthorized
+     * 
+     * @param relayNode The relay node to refund from; must have been deployed by this contract.
+     * @param currency The currency to refund (0x0 for native).
+     * @param signer The participant who signed the intent.
+     * @param deadline The time (in unix seconds) after which the signature can no longer be used.
+     * @param signature The signer's signature, with their next nonce.
+     */
+    function refundRelayNodeWithSignature(
+        RelayNode relayNode, 
+        address currency, 
+        address signer, 
+        uint256 deadline, 
+        bytes calldata signature
+    ) external {
+        _useIntent(
+            signer, 
+            abi.encode(RELAY_REFUND_INTENT_TYPEHASH, relayNode, currency, _useNonce(signer), deadline), 
+            deadline, 
+            signature
+        );
+
+        //EXCEPTION: InvalidRelayNode
+        bytes32 escrowId = relayNode.escrowId();
+        require(_isRelayNodeOf(escrowId, relayNode), "InvalidRelayNode");
+
+        //EXCEPTION: Unauthorized (only the participants may sign)
+        require(
+            signer == escrows[escrowId].primaryLeg.participantAddress || 
+            signer == escrows[escrowId].secondaryLeg.participantAddress, 
+            "Unauthorized"
+        );
+
+        relayNode.refundLeg(currency);
+    }
+
+
     // ----------------------
     // - HasSecurityContext -
     // ----------------------
@@ -404,21 +854,56 @@ contract PolyEscrow is HasSecurityContext, Pausable, IPolyEscrow {
      * @dev Executes an arbitration proposal that has been approved by the arbitration module.
      * Can only be called by the arbitration module associated with the escrow.
      * 
+     * A refund returns the given amount of each leg to the party that pledged it; a release sends it to the 
+     * counterparty, less fees. Afterwards the escrow is Completed if nothing is left in it, and Active otherwise.
+     * 
      * Reverts: 
+     * - Paused
      * - InvalidEscrow
      * - Unauthorized
-     * - AlreadyReleased
+     * - InvalidEscrowState
      * - AmountExceeded
      * - PaymentTransferFailed
      * 
      * Emits: 
-     * - PaymentTransferred
-     * - EscrowRefunded
-     * - EscrowReleased
+     * - ArbitrationExecuted
      * 
      * @param escrowId The unique escrow id for the arbitration proposal to execute.
+     * @param proposalType Whether to refund or release.
+     * @param primaryAmount How much of the primary leg to refund or release.
+     * @param secondaryAmount How much of the secondary leg to refund or release.
      */
-    function executeArbitrationProposal(bytes32 escrowId) external {
+    function executeArbitrationProposal(
+        bytes32 escrowId, 
+        ProposalType proposalType, 
+        uint256 primaryAmount, 
+        uint256 secondaryAmount
+    ) external whenNotPaused onlyArbitrationModule(escrowId) nonReentrant {
+        EscrowDefinition storage escrow = escrows[escrowId];
+
+        //EXCEPTION: InvalidEscrowState
+        require(escrow.status == EscrowStatus.Arbitration, "InvalidEscrowState");
+
+        if (proposalType == ProposalType.Refund) {
+            EscrowPayouts.refund(escrow.primaryLeg, primaryAmount);
+            EscrowPayouts.refund(escrow.secondaryLeg, secondaryAmount);
+        }
+        else {
+            //(an amount of 0 would release everything)
+            if (primaryAmount > 0)
+                EscrowPayouts.release(escrow, escrow.primaryLeg, primaryAmount);
+            if (secondaryAmount > 0)
+                EscrowPayouts.release(escrow, escrow.secondaryLeg, secondaryAmount);
+        }
+
+        //completed if nothing is left, otherwise back to active
+        escrow.status = (
+            EscrowPayouts.amountRemaining(escrow.primaryLeg) == 0 && 
+            EscrowPayouts.amountRemaining(escrow.secondaryLeg) == 0
+        ) ? EscrowStatus.Completed : EscrowStatus.Active;
+
+        //EVENT: ArbitrationExecuted
+        emit ArbitrationExecuted(escrowId, proposalType, primaryAmount, secondaryAmount);
     }
 
     /**
@@ -427,13 +912,26 @@ contract PolyEscrow is HasSecurityContext, Pausable, IPolyEscrow {
      * From arbitration it may go into Completed status once the arbitration is executed.
      * 
      * Reverts: 
+     * - Paused
      * - InvalidEscrow
      * - Unauthorized
+     * - InvalidEscrowState
+     * 
+     * Emits: 
+     * - ArbitrationStateChanged
      * 
      * @param escrowId The unique id of the escrow to put into arbitration.
      * @param state If true, sets the state to Arbitration. If false, sets the state to Active.
      */
-    function setArbitration(bytes32 escrowId, bool state) external {
+    function setArbitration(bytes32 escrowId, bool state) external whenNotPaused onlyArbitrationModule(escrowId) {
+        EscrowDefinition storage escrow = escrows[escrowId];
+
+        //EXCEPTION: InvalidEscrowState (only an Active escrow can go into arbitration)
+        require(escrow.status == (state ? EscrowStatus.Active : EscrowStatus.Arbitration), "InvalidEscrowState");
+        escrow.status = state ? EscrowStatus.Arbitration : EscrowStatus.Active;
+
+        //EVENT: ArbitrationStateChanged
+        emit ArbitrationStateChanged(escrowId, state);
     }
 
 
@@ -442,147 +940,224 @@ contract PolyEscrow is HasSecurityContext, Pausable, IPolyEscrow {
     // - Non-Public         -
     // ----------------------
 
-    function _getFeeRecipientAndBps() internal view returns (address, uint256) {
-        if (address(settings) != address(0)) 
-            return (settings.vaultAddress(), settings.feeBps());
+    //validates and stores an escrow, with any id
+    function _createEscrow(CreateEscrowInput memory input) internal whenNotPaused {
+        //validate and store the escrow, adding the platform fee to its fees if it isn't already there
+        (address platformRecipient, uint256 platformFee) = _getFeeRecipientAndBps();
+        EscrowFactory.create(escrows[input.id], input, platformRecipient, platformFee);
 
-        //TODO: test this
-        return (address(0), 0);
+        //EVENT: emit event escrow created
+        emit EscrowCreated(input.id);
     }
 
-    function _addEscrowFeesToEscrow(bytes32 escrowId, FeeDefinition[] memory fees) internal {
-        //get the fee and fee recipient 
-        (address platformRecipient, uint256 platformFee) = _getFeeRecipientAndBps();
+    //checks and uses up the payer's PaymentIntent signature, then places the payment from them
+    function _placePaymentWithSignature(
+        PaymentInput calldata paymentInput, 
+        address payer, 
+        uint256 deadline, 
+        bytes calldata signature
+    ) internal {
+        _useIntent(
+            payer, 
+            abi.encode(
+                PAYMENT_INTENT_TYPEHASH, 
+                paymentInput.escrowId, 
+                paymentInput.currency, 
+                paymentInput.amount, 
+                _useNonce(payer), 
+                deadline
+            ), 
+            deadline, 
+            signature
+        );
+        _placePayment(paymentInput, payer, 0);
+    }
 
-        //get the escrow
-        EscrowDefinition storage escrow = escrows[escrowId];
-        
-        if (platformRecipient != address(0)) {
-            bool found = false;
-            uint256 foundFee = 0;
-
-            //try to find if the platform fee has already been added
-            for(uint n=0; n<fees.length; n++) {
-                if (fees[n].recipient == platformRecipient) {
-                    found = true;
-                    foundFee = fees[n].feeBps;
-
-                    //if it's been added, but it's too little, make it correct
-                    if (foundFee < platformFee) {
-                        fees[n].feeBps = platformFee;
-                    }
-                    break;
-                }
-
-                escrow.fees.push(fees[n]);
-            }
+    //places a payment from the given payer, who must have approved the tokens (if any) to this contract; value is 
+    //the native currency sent which is available to the payment
+    function _placePayment(PaymentInput calldata paymentInput, address from, uint256 value) internal 
+        whenNotPaused 
+        whenNotCompleted(paymentInput.escrowId)
+        whenNotInArbitration(paymentInput.escrowId)
+    {
+        //EXCEPTION: InvalidAmount
+        require(paymentInput.amount > 0, "InvalidAmount");
+
+        //EXCEPTION: InvalidEscrow
+        require(hasEscrow(paymentInput.escrowId), "InvalidEscrow");
+
+        //get the escrow 
+        EscrowDefinition storage escrow = escrows[paymentInput.escrowId];
+        EscrowLeg memory payer;
+
+        //EXCEPTION: EscrowNotStarted
+        require(block.timestamp >= escrow.startTime, "EscrowNotStarted");
 
-            //add the platform fee if it wasn't already there
-            if (!found && platformFee > 0) {
-                escrow.fees.push(FeeDefinition({
-                    recipient: platformRecipient,
-                    feeBps: platformFee
-                }));
+        //EXCEPTION: EscrowExpired
+        require(escrow.endTime == 0 || block.timestamp < escrow.endTime, "EscrowExpired");
+
+        //figure out by the currency, which participant is paying
+        if (escrow.primaryLeg.paymentType == EscrowPaymentType.Native) {
+            if (paymentInput.currency == address(0)) {
+                //got it 
+                payer = escrow.primaryLeg;
             }
         }
+        if (escrow.primaryLeg.paymentType == EscrowPaymentType.ERC20 || 
+            escrow.primaryLeg.paymentType == EscrowPaymentType.ERC721 || 
+            escrow.primaryLeg.paymentType == EscrowPaymentType.ERC1155) {
+            if (paymentInput.currency == escrow.primaryLeg.currency) {
+                //got it 
+                payer = escrow.primaryLeg;
+            }
+        }
+        if (escrow.secondaryLeg.paymentType == EscrowPaymentType.Native) {
+            if (paymentInput.currency == address(0)) {
+                //got it 
+                payer = escrow.secondaryLeg;
+            }
+        }
+        if (escrow.secondaryLeg.paymentType == EscrowPaymentType.ERC20 || 
+            escrow.secondaryLeg.paymentType == EscrowPaymentType.ERC721 || 
+            escrow.secondaryLeg.paymentType == EscrowPaymentType.ERC1155) {
+            if (paymentInput.currency == escrow.secondaryLeg.currency) {
+                //got it 
+                payer = escrow.secondaryLeg;
+            }
+        }
+
+        //EXCEPTION: InvalidCurrency
+        //otherwise, invalid currency
+        if (payer.participantAddress == address(0))
+            revert("InvalidCurrency");
+
+        //if status was pending, is now active 
+        if (escrow.status == EscrowStatus.Pending)
+            escrow.status = EscrowStatus.Active;
+
+        //if native, verify the amount sent is correct 
+        if (payer.paymentType == EscrowPaymentType.Native) {
+            //EXCEPTION: InvalidAmount
+            require(value >= paymentInput.amount, "InvalidAmount");
+        }
+
+        //if token, transfer the specified amount in 
+        else if (payer.paymentType == EscrowPaymentType.ERC20) {
+            //transfer the tokens in 
+            IERC20 token = IERC20(payer.currency);
+            bool success = token.transferFrom(from, address(this), paymentInput.amount);
+
+            //EXCEPTION: TokenPaymentFailed
+            require(success, "TokenPaymentFailed");
+        }
+        //if NFT, transfer the pledged NFT to self
+        else if (payer.paymentType == EscrowPaymentType.ERC721) {
+            //EXCEPTION: InvalidAmount (an NFT is paid as an amount of 1)
+            require(paymentInput.amount == 1, "InvalidAmount");
+
+            IERC721 token = IERC721(payer.currency);
+            token.safeTransferFrom(from, address(this), payer.tokenId);
+        }
+        //if multi-token, transfer the amount of the pledged token id to self
+        else if (payer.paymentType == EscrowPaymentType.ERC1155) {
+            IERC1155 token = IERC1155(payer.currency);
+            token.safeTransferFrom(from, address(this), payer.tokenId, paymentInput.amount, "");
+        }
+
+        //increment the amount paid for the leg
+        EscrowLeg storage leg = 
+            (payer.participantAddress == escrow.primaryLeg.participantAddress) ? 
+                escrow.primaryLeg : 
+                escrow.secondaryLeg;
+        leg.amountPaid += paymentInput.amount;
+
+        //if escrow now fully paid, release it 
+        if (escrow.primaryLeg.amountPaid >= escrow.primaryLeg.amountPledged &&
+            escrow.secondaryLeg.amountPaid >= escrow.secondaryLeg.amountPledged) {
+            _releaseEscrow(paymentInput.escrowId);
+        }
+
+        //EVENT: emit payment received event
+        emit PaymentReceived(
+            paymentInput.escrowId,
+            from,
+            paymentInput.currency,
+            payer.paymentType,
+            paymentInput.amount
+        );
+    }
+
+    function _getFeeRecipientAndBps() internal view returns (address, uint256) {
+        if (address(settings) != address(0)) 
+            return (settings.vaultAddress(), settings.feeBps());
+
+        //TODO: test this
+        return (address(0), 0);
     }
 
+    //marks the escrow Completed before anything is transferred out, so that it can't be paid into or released 
+    //again, then releases both legs
     function _releaseEscrow(bytes32 escrowId) internal {
         EscrowDefinition storage escrow = escrows[escrowId]; 
+        escrow.status = EscrowStatus.Completed;
 
         //release for both sides
-        _releaseEscrowOneSide(escrow, escrow.primaryLeg, 0);
-        _releaseEscrowOneSide(escrow, escrow.secondaryLeg, 0);
-
-        escrow.status = EscrowStatus.Completed;
+        EscrowPayouts.release(escrow, escrow.primaryLeg, 0);
+        EscrowPayouts.release(escrow, escrow.secondaryLeg, 0);
     }
 
-    function _releaseEscrowOneSide(EscrowDefinition storage escrow, EscrowLeg storage leg, uint256 amount) internal {
-        uint256 activeAmount = _getEscrowAmountRemaining(leg);
+    //marks the escrow Completed before anything is transferred out, so that it can't be refunded twice, then 
+    //refunds whatever remains in each leg
+    function _refundAndComplete(EscrowDefinition storage escrow) internal returns (
+        uint256 primaryAmount, 
+        uint256 secondaryAmount
+    ) {
+        escrow.status = EscrowStatus.Completed;
 
-        //EXCEPTION: AmountExceeded
-        require(amount <= activeAmount, "AmountExceeded"); //NOT COVERABLE
-        if (amount == 0)
-            amount = activeAmount;
+        primaryAmount = EscrowPayouts.amountRemaining(escrow.primaryLeg);
+        secondaryAmount = EscrowPayouts.amountRemaining(escrow.secondaryLeg);
+        EscrowPayouts.refund(escrow.primaryLeg, primaryAmount);
+        EscrowPayouts.refund(escrow.secondaryLeg, secondaryAmount);
+    }
 
-        //calculate fee, and amount to release
-        (address[] memory recipients, uint256[] memory amounts) = _calculatePaymentAmounts(escrow, leg, amount);
+    function _getCancellableEscrow(bytes32 escrowId) internal view returns (EscrowDefinition storage escrow) {
+        //EXCEPTION: InvalidEscrow
+        require(hasEscrow(escrowId), "InvalidEscrow");
 
-        //now for each recipient, transfer the amount
-        for(uint n=0; n<recipients.length; n++) {
-            //transfer the amount to the other party
-            _transferAmount(leg, recipients[n], leg.currency, amounts[n]);
-        }
+        //EXCEPTION: InvalidEscrowState (only Active escrows can be cancelled)
+        escrow = escrows[escrowId];
+        require(escrow.status == EscrowStatus.Active, "InvalidEscrowState");
+    }
 
-        //record the amount released
-        leg.amountReleased += amount;
-    }
-
-    function _calculatePaymentAmounts(EscrowDefinition storage escrow, EscrowLeg memory leg, uint256 amount) 
-        internal view returns(address[] memory, uint256[] memory) {
-        
-        address[] memory recipients = new address[](escrow.fees.length + 1);
-        uint256[] memory amounts = new uint256[](escrow.fees.length + 1);
-        
-        //ok first, we shall have the base amount paid to other participant, the counterparty
-        recipients[0] = (leg.participantAddress == escrow.primaryLeg.participantAddress) ? 
-            escrow.secondaryLeg.participantAddress : 
-            escrow.primaryLeg.participantAddress;
-        amounts[0] = amount;
-
-        //we're only calculating fees for ERC20 and Native payments
-        if (leg.paymentType == EscrowPaymentType.ERC20 ||
-            leg.paymentType == EscrowPaymentType.Native) {
-
-            //next we must go through each fee and calculate it
-            for(uint8 n=0; n<escrow.fees.length; n++) {
-                recipients[n+1] = escrow.fees[n].recipient;
-                amounts[n+1] = CarefulMath.mulDiv(amount, escrow.fees[n].feeBps, 10000);
-
-                //and subtract that amount from what the recipient will get 
-                amounts[0] -= amounts[n+1];
-            }
-        }
+    function _cancelEscrow(bytes32 escrowId, EscrowDefinition storage escrow) internal {
+        (uint256 primaryAmount, uint256 secondaryAmount) = _refundAndComplete(escrow);
 
-        return (recipients, amounts);
+        //EVENT: EscrowCancelled
+        emit EscrowCancelled(escrowId, primaryAmount, secondaryAmount);
     }
 
-    function _transferAmount(EscrowLeg memory from, address to, address tokenAddressOrZero, uint256 amount) internal returns (bool) {
-        bool success = false;
+    //checks the deadline and signature of an intent, given its encoded struct
+    function _useIntent(address signer, bytes memory encoded, uint256 deadline, bytes calldata signature) 
+        internal view {
 
-        //TODO: handle NFTs, Bitcoin, and Custom
+        //EXCEPTION: SignatureExpired
+        require(block.timestamp <= deadline, "SignatureExpired");
 
-        //EXCEPTION: InvalidAmount
-        require(_getEscrowAmountRemaining(from) >= amount, "AmountExceeded"); //NOT COVERED
-
-        if (amount > 0) {
-            if (tokenAddressOrZero == address(0)) {
-                (success,) = payable(to).call{value: amount}("");
-            } 
-            else if (from.paymentType == EscrowPaymentType.ERC20) {
-                IERC20 token = IERC20(tokenAddressOrZero); 
-                success = token.transfer(to, amount);
-            }
-            else if (from.paymentType == EscrowPaymentType.ERC721) {
-                IERC721 token = IERC721(tokenAddressOrZero); 
-                token.transferFrom(address(this), to, 1);
-                success = true;
-            }
+        //EXCEPTION: InvalidSignature
+        require(_isSignedBy(_hashTypedDataV4(keccak256(encoded)), signature, signer), "InvalidSignature");
+    }
 
-            if (success) {
-                //TODO: do thise
-                //emit PaymentTransferred(escrowId, to, amount); //NOT COVERED
-            }
-            else {
-                revert("PaymentTransferFailed"); //NOT COVERED
-            }
+    function _isRelayNodeOf(bytes32 escrowId, RelayNode relayNode) internal view returns (bool) {
+        for (uint256 n = 0; n < relayNodes[escrowId].length; n++) {
+            if (relayNodes[escrowId][n] == relayNode) 
+                return true;
         }
-
-        return success;
+        return false;
     }
 
-    function _getEscrowAmountRemaining(EscrowLeg memory leg) internal pure returns (uint256) {
-        return leg.amountPaid - leg.amountRefunded - leg.amountReleased;
+    function _isSignedBy(bytes32 digest, bytes calldata signature, address signer) internal pure returns (bool) {
+        (address recovered, ECDSA.RecoverError error, ) = ECDSA.tryRecover(digest, signature);
+        return error == ECDSA.RecoverError.NoError && recovered == signer;
     }
 }
 
@@ -5,9 +5,12 @@ import "../interfaces/IPolyEscrow.sol";
 import "../utility/Pausable.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import "@openzeppelin/contracts/token/ERC721/IERC721Receiver.sol";
+import "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
+import "@openzeppelin/contracts/token/ERC1155/IERC1155Receiver.sol";
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
 //import "hardhat/console.sol";
 
-//TODO: (LOW) events 
 //TODO: (LOW) add hooks for hooked ERC721 and hooked ERC20
 /**
  * @title RelayNode
@@ -17,89 +20,376 @@ import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
  * contract can be 'pumped' by calling the relay() function. Or, if the payment is native, then that step isn't 
  * necessary (it happens automatically). 
  * 
- * Each relay node contract is tied to a specific escrow contract and escrow ID.
+ * Each relay node contract is tied to a specific escrow contract and escrow ID. Relay nodes are minimal proxies 
+ * (EIP-1167) of a single implementation, deployed by the escrow contract, and initialized rather than constructed.
  * 
- * Refunding causes any value in this relay node to be sent back to the payer of the associated escrow.
+ * Once the escrow is completed, it's too late to pay: relaying refunds whatever arrives instead. While the escrow is 
+ * in arbitration, relaying holds deposits, until arbitration either reactivates the escrow (and they're relayed) or 
+ * completes it (and they're refunded).
+ * 
+ * Deposits are refunded to whoever made them, and never more than they deposited. Native currency and ERC1155 
+ * tokens are attributed to their senders on receipt, and ERC20 tokens when they're deposited by calling deposit(). 
+ * Each sender claims their own refund with claimRefund(), so that no sender (e.g. a contract which can't receive 
+ * native currency) can hold up anyone else's. Refunding a currency pays out only what isn't attributed to anyone 
+ * (e.g. tokens sent with a plain transfer, whose sender is unknown), to the participant who pledged it. An NFT goes 
+ * back to whoever sent it, if it was sent with safeTransferFrom, and otherwise to the participant who pledged it.
+ * 
+ * A relay node which is no longer needed can be retired by the system: it refunds what it holds, and accepts no 
+ * further payments.
  */
-contract RelayNode is Pausable {
+contract RelayNode is Pausable, Initializable, IERC721Receiver, IERC1155Receiver {
     IPolyEscrow public escrowContract;
     bytes32 public escrowId;
     bool public autoForwardNative;
+    bool public retired; //no longer accepts payments; whatever arrives anyway is refunded
+
+    //who sent each NFT in with safeTransferFrom, by collection and token id
+    mapping(address => mapping(uint256 => address)) public nftSenders;
+
+    //deposits attributed to their senders, by currency (0x0 for native), then round, then sender; and the total 
+    //yet to be refunded of each round. Relaying a currency pays its deposits into the escrow, so it starts a new 
+    //round rather than clearing each one.
+    mapping(address => uint256) internal depositRounds;
+    mapping(address => mapping(uint256 => mapping(address => uint256))) internal deposits;
+    mapping(address => mapping(uint256 => uint256)) internal depositTotals;
+
+    //raised when a deposit has been attributed to its sender
+    event Deposited (
+        address indexed currency,
+        address indexed sender,
+        uint256 amount
+    );
+
+    //raised when a deposit (or an amount of unknown origin) has been refunded
+    event Refunded (
+        address indexed currency,
+        address indexed recipient,
+        uint256 amount
+    );
+
+    //raised when an amount has been paid into the escrow
+    event Relayed (
+        address indexed currency,
+        uint256 amount
+    );
+
+    //raised when relaying is put off, because the escrow is in arbitration
+    event DepositHeld (
+        address indexed currency,
+        uint256 amount
+    );
+
+    //raised when the relay node has been retired
+    event Retired (
+        address indexed retiredBy
+    );
+
+    /**
+     * @dev Constructor for the RelayNode implementation, which relay nodes are clones of (EIP-1167); it can't 
+     * itself be initialized as a relay node.
+     * 
+     * @param securityContext Security context is required.
+     */
+    constructor(ISecurityContext securityContext) Pausable(securityContext) {
+        _disableInitializers();
+    }
 
     /**
-     * @dev Constructor for RelayNode 
+     * @dev Initializes a clone of the implementation as a relay node, in place of a constructor. 
+     * 
+     * Reverts: 
+     * - InvalidInitialization (if already initialized)
+     * - InvalidEscrow
      * 
      * @param securityContext Security context is required.
      * @param _contractAddress Address of the escrow contract which this relay services.
      * @param _escrowId ID of the escrow which this relay services.
+     * @param _autoForwardNative Whether to relay native currency as soon as it's received.
      */
-    constructor(
+    function initialize(
         ISecurityContext securityContext, 
         IPolyEscrow _contractAddress, 
         bytes32 _escrowId, 
         bool _autoForwardNative
     ) 
-        Pausable(securityContext) 
+        external initializer 
     {
+        _setSecurityContext(securityContext);
         escrowContract = _contractAddress;
         escrowId = _escrowId;
 
-        //validate escrow id 
+        //EXCEPTION: InvalidEscrow
         require(escrowContract.hasEscrow(escrowId), "InvalidEscrow");
         autoForwardNative = _autoForwardNative;
     }
 
     /**
-     * @dev Transfers funds from this contract to the appropriate escrow.
+     * @dev Transfers funds from this contract to the appropriate escrow. If the escrow is completed, or the relay node 
+     * is retired, they're refunded instead (see refundLeg); if the escrow is in arbitration, they're held.
+     * 
+     * Reverts: 
+     * - PaymentTransferFailed (if they're refunded, and the participant can't receive the refund)
      */
     function relay() public whenNotPaused {
         EscrowDefinition memory escrow = escrowContract.getEscrow(escrowId);
 
-        if (escrow.status == EscrowStatus.Pending || escrow.status == EscrowStatus.Active) {
+        if (retired) {
+            _refundLeg(escrow, escrow.primaryLeg.currency);
+            _refundLeg(escrow, escrow.secondaryLeg.currency);
+
+        } else if (escrow.status == EscrowStatus.Pending || escrow.status == EscrowStatus.Active) {
             _relay(escrow, escrow.primaryLeg);
             _relay(escrow, escrow.secondaryLeg);
 
         } else if (escrow.status == EscrowStatus.Completed) {
-            //TODO: Logic for completed escrow: refund
+            _refundLeg(escrow, escrow.primaryLeg.currency);
+            _refundLeg(escrow, escrow.secondaryLeg.currency);
+
         } else if (escrow.status == EscrowStatus.Arbitration) {
-            //TODO: Logic for arbitration
+            _hold(escrow.primaryLeg);
+            _hold(escrow.secondaryLeg);
         }
     }
 
-    //TODO: this should be re-structured so that it keeps a record of who has paid in,
-    // and refunds to the original payer no more than the amount that they paid (according to currency)
+    /**
+     * @dev Retires the relay node: it refunds what it holds (as refundAll does; deposits are left for their senders 
+     * to claim), and accepts no further payments. Deposits, native currency and NFTs or ERC1155 tokens sent with 
+     * safeTransferFrom are rejected, and whatever arrives in other ways is refunded by relay(). Retiring can't be 
+     * undone.
+     * 
+     * Reverts: 
+     * - UnauthorizedAccess (unless the caller has the system role)
+     * - RelayNodeRetired
+     * - PaymentTransferFailed (if the participant can't receive the refund)
+     * 
+     * Emits: 
+     * - Retired
+     * - Refunded
+     */
+    function retire() external whenNotPaused onlyRole(SecurityRoles.SYSTEM_ROLE) {
+        //EXCEPTION: RelayNodeRetired
+        require(!retired, "RelayNodeRetired");
+        retired = true;
+
+        //EVENT: Retired
+        emit Retired(msg.sender);
+
+        EscrowDefinition memory escrow = escrowContract.getEscrow(escrowId);
+        _refundLeg(escrow, escrow.primaryLeg.currency);
+        _refundLeg(escrow, escrow.secondaryLeg.currency);
+    }
+
+    /**
+     * @dev Refunds everything held in both of the escrow's currencies; see refundLeg.
+     */
     function refundAll() public whenNotPaused {
         EscrowDefinition memory escrow = escrowContract.getEscrow(escrowId);
-        refundLeg(escrow.primaryLeg.currency);
-        refundLeg(escrow.secondaryLeg.currency);
+        _refundLeg(escrow, escrow.primaryLeg.currency);
+        _refundLeg(escrow, escrow.secondaryLeg.currency);
     }
 
+    /**
+     * @dev Refunds what's held in one of the escrow's currencies, other than deposits, to the participant who 
+     * pledged the currency; deposits are left for their senders to claim (see claimRefund). An NFT is refunded to 
+     * whoever sent it. Currencies which the escrow doesn't use are left where they are.
+     * 
+     * Reverts: 
+     * - PaymentTransferFailed (if the participant can't receive the refund)
+     * 
+     * @param currency Token address, or 0x0 for native.
+     */
     function refundLeg(address currency) public whenNotPaused {
+        _refundLeg(escrowContract.getEscrow(escrowId), currency);
+    }
+
+    /**
+     * @dev Refunds the sender's own deposits in one of the escrow's currencies, which haven't been relayed.
+     * 
+     * Reverts: 
+     * - InvalidCurrency
+     * - ZeroBalance
+     * - PaymentTransferFailed
+     * 
+     * @param currency Token address, or 0x0 for native.
+     */
+    function claimRefund(address currency) external whenNotPaused {
         EscrowDefinition memory escrow = escrowContract.getEscrow(escrowId);
+        EscrowLeg memory leg = _depositKey(escrow.primaryLeg) == currency ? escrow.primaryLeg : escrow.secondaryLeg;
 
-        //refund native 
-        if (currency == address(0)) {
-            if (escrow.primaryLeg.paymentType == EscrowPaymentType.Native) {
-                _refundNative(escrow.secondaryLeg);
-            }
-            else if (escrow.secondaryLeg.paymentType == EscrowPaymentType.Native) {
-                _refundNative(escrow.primaryLeg);
-            }
-        }
-        else {
-            if (escrow.primaryLeg.currency == currency) {
-                _refundERC20(escrow.primaryLeg, escrow.secondaryLeg);
-            }
-            else if (escrow.secondaryLeg.currency == currency) {
-                _refundERC20(escrow.secondaryLeg, escrow.primaryLeg);
-            }
+        //EXCEPTION: InvalidCurrency
+        require(_depositKey(leg) == currency && leg.paymentType != EscrowPaymentType.ERC721, "InvalidCurrency");
+
+        //EXCEPTION: ZeroBalance
+        require(_refundDeposit(leg, depositRounds[currency], msg.sender) > 0, "ZeroBalance");
+    }
+
+    /**
+     * @dev Deposits tokens of one of the escrow's ERC20 legs from the sender, who must have approved this contract 
+     * to transfer them. Unlike a plain transfer, the deposit is attributed to the sender, so that a refund goes back 
+     * to them. As with any token transfer, relay() pays it into the escrow.
+     * 
+     * Reverts: 
+     * - InvalidCurrency
+     * - InvalidAmount
+     * - InvalidEscrowState (if the escrow is completed)
+     * - RelayNodeRetired
+     * - TokenPaymentFailed
+     * 
+     * @param currency Address of the token.
+     * @param amount The amount to deposit.
+     */
+    function deposit(address currency, uint256 amount) external {
+        EscrowDefinition memory escrow = escrowContract.getEscrow(escrowId);
+
+        //EXCEPTION: InvalidCurrency
+        require(_isPledgedToken(escrow.primaryLeg, currency) || _isPledgedToken(escrow.secondaryLeg, currency), "InvalidCurrency");
+
+        //EXCEPTION: InvalidAmount
+        require(amount > 0, "InvalidAmount");
+
+        //EXCEPTION: InvalidEscrowState (too late to pay)
+        require(escrow.status != EscrowStatus.Completed, "InvalidEscrowState");
+
+        //EXCEPTION: RelayNodeRetired
+        require(!retired, "RelayNodeRetired");
+
+        //attribute what actually arrived, in case the token takes a fee on transfer
+        IERC20 token = IERC20(currency);
+        uint256 balance = token.balanceOf(address(this));
+
+        //EXCEPTION: TokenPaymentFailed
+        require(token.transferFrom(msg.sender, address(this), amount), "TokenPaymentFailed");
+        _recordDeposit(currency, msg.sender, token.balanceOf(address(this)) - balance);
+    }
+
+    /**
+     * @dev Returns how much of a currency is held for a sender, to be relayed or refunded.
+     * 
+     * @param currency Token address, or 0x0 for native.
+     * @param sender Address of the sender.
+     */
+    function depositOf(address currency, address sender) external view returns (uint256) {
+        return deposits[currency][depositRounds[currency]][sender];
+    }
+
+    /**
+     * @dev Accepts the NFT pledged by one of the escrow's ERC721 legs, and records who sent it, for refunds.
+     * 
+     * Reverts: 
+     * - InvalidToken
+     * - InvalidEscrowState (if the escrow is completed)
+     * - RelayNodeRetired
+     * 
+     * @param from The previous owner of the NFT.
+     * @param tokenId The id of the NFT.
+     */
+    function onERC721Received(address, address from, uint256 tokenId, bytes calldata) external returns (bytes4) {
+        EscrowDefinition memory escrow = escrowContract.getEscrow(escrowId);
+
+        //EXCEPTION: InvalidToken
+        require(_isPledgedNft(escrow.primaryLeg, tokenId) || _isPledgedNft(escrow.secondaryLeg, tokenId), "InvalidToken");
+
+        //EXCEPTION: InvalidEscrowState (too late to pay)
+        require(escrow.status != EscrowStatus.Completed, "InvalidEscrowState");
+
+        //EXCEPTION: RelayNodeRetired
+        require(!retired, "RelayNodeRetired");
+
+        nftSenders[msg.sender][tokenId] = from;
+        return IERC721Receiver.onERC721Received.selector;
+    }
+
+    /**
+     * @dev Accepts the token id pledged by one of the escrow's ERC1155 legs, and attributes it to its sender.
+     * 
+     * Reverts: 
+     * - InvalidToken
+     * - InvalidEscrowState (if the escrow is completed)
+     * - RelayNodeRetired
+     * 
+     * @param from The previous owner of the tokens.
+     * @param id The id of the token.
+     * @param value The number of tokens.
+     */
+    function onERC1155Received(address, address from, uint256 id, uint256 value, bytes calldata) 
+        external returns (bytes4) {
+
+        EscrowDefinition memory escrow = _getEscrowAcceptingMultiTokens();
+
+        //EXCEPTION: InvalidToken
+        require(_isPledgedMultiToken(escrow, id), "InvalidToken");
+
+        _recordDeposit(msg.sender, from, value);
+        return IERC1155Receiver.onERC1155Received.selector;
+    }
+
+    /**
+     * @dev Accepts a batch of tokens, as long as every one of them is the token id pledged by one of the escrow's 
+     * ERC1155 legs; they're attributed to their sender.
+     * 
+     * Reverts: 
+     * - InvalidToken
+     * - InvalidEscrowState (if the escrow is completed)
+     * - RelayNodeRetired
+     * 
+     * @param from The previous owner of the tokens.
+     * @param ids The ids of the tokens.
+     * @param values The number of tokens of each id.
+     */
+    function onERC1155BatchReceived(
+        address, 
+        address from, 
+        uint256[] calldata ids, 
+        uint256[] calldata values, 
+        bytes calldata
+    ) 
+        external returns (bytes4) 
+    {
+        EscrowDefinition memory escrow = _getEscrowAcceptingMultiTokens();
+
+        for (uint256 n = 0; n < ids.length; n++) {
+            //EXCEPTION: InvalidToken
+            require(_isPledgedMultiToken(escrow, ids[n]), "InvalidToken");
+
+            _recordDeposit(msg.sender, from, values[n]);
         }
+        return IERC1155Receiver.onERC1155BatchReceived.selector;
     }
 
     /**
-     * @dev Allow direct native payment; automatically relays.
+     * @dev See {IERC165-supportsInterface}.
+     */
+    function supportsInterface(bytes4 interfaceId) external pure returns (bool) {
+        return interfaceId == type(IERC1155Receiver).interfaceId || interfaceId == type(IERC165).interfaceId;
+    }
+
+    /**
+     * @dev Allow direct native payment into an escrow with a native leg, attributed to its sender; automatically 
+     * relays, if auto-forwarding.
+     * 
+     * Reverts: 
+     * - InvalidCurrency (if neither leg is native)
+     * - InvalidEscrowState (if the escrow is completed)
+     * - RelayNodeRetired
      */
     receive() external payable {
+        EscrowDefinition memory escrow = escrowContract.getEscrow(escrowId);
+
+        //EXCEPTION: InvalidCurrency (nothing could relay or refund it)
+        require(
+            escrow.primaryLeg.paymentType == EscrowPaymentType.Native || 
+            escrow.secondaryLeg.paymentType == EscrowPaymentType.Native, 
+            "InvalidCurrency"
+        );
+
+        //EXCEPTION: InvalidEscrowState (too late to pay)
+        require(escrow.status != EscrowStatus.Completed, "InvalidEscrowState");
+
+        //EXCEPTION: RelayNodeRetired
+        require(!retired, "RelayNodeRetired");
+
+        _recordDeposit(address(0), msg.sender, msg.value);
+
         if (autoForwardNative)
             relay();
     }
@@ -114,6 +404,9 @@ contract RelayNode is Pausable {
         else if (leg.paymentType == EscrowPaymentType.ERC721) {
             _relayERC721(escrow, leg);
         }
+        else if (leg.paymentType == EscrowPaymentType.ERC1155) {
+            _relayERC1155(escrow, leg);
+        }
     }
 
     function _relayNative(EscrowDefinition memory escrow, EscrowLeg memory leg) internal {
@@ -124,6 +417,10 @@ contract RelayNode is Pausable {
                 amount: balance,
                 currency: leg.currency
             }));
+            _clearDeposits(address(0));
+
+            //EVENT: Relayed
+            emit Relayed(address(0), balance);
         }
     }
 
@@ -138,30 +435,213 @@ contract RelayNode is Pausable {
                 amount: balance,
                 currency: leg.currency
             }));
+            _clearDeposits(leg.currency);
+
+            //EVENT: Relayed
+            emit Relayed(leg.currency, balance);
         }
     }
 
     function _relayERC721(EscrowDefinition memory escrow, EscrowLeg memory leg) internal {
-        //TODO: implement
+        if (_holdsNft(leg)) {
+            IERC721(leg.currency).approve(address(escrowContract), leg.tokenId);
+            escrowContract.placePayment(PaymentInput({
+                escrowId: escrow.id,
+                amount: 1,
+                currency: leg.currency
+            }));
+            delete nftSenders[leg.currency][leg.tokenId];
+
+            //EVENT: Relayed
+            emit Relayed(leg.currency, 1);
+        }
     }
 
-    function _refundNative(EscrowLeg memory toLeg) internal {
-        uint256 balance = address(this).balance;
+    function _relayERC1155(EscrowDefinition memory escrow, EscrowLeg memory leg) internal {
+        IERC1155 token = IERC1155(leg.currency);
+        uint256 balance = token.balanceOf(address(this), leg.tokenId);
+
         if (balance > 0) {
-            (bool success,) = payable(toLeg.participantAddress).call{value: balance}("");
+            if (!token.isApprovedForAll(address(this), address(escrowContract))) {
+                token.setApprovalForAll(address(escrowContract), true);
+            }
+            escrowContract.placePayment(PaymentInput({
+                escrowId: escrow.id,
+                amount: balance,
+                currency: leg.currency
+            }));
+            _clearDeposits(leg.currency);
+
+            //EVENT: Relayed
+            emit Relayed(leg.currency, balance);
         }
     }
 
-    function _refundERC20(EscrowLeg memory fromLeg, EscrowLeg memory toLeg) internal {
-        IERC20 token = IERC20(fromLeg.currency);
-        uint256 balance = token.balanceOf(address(this));
+    //deposits stay where they are, and are still attributed to their senders
+    function _hold(EscrowLeg memory leg) internal {
+        uint256 amount = leg.paymentType == EscrowPaymentType.ERC721 
+            ? (_holdsNft(leg) ? 1 : 0) 
+            : _balanceOf(leg);
 
-        if (balance > 0) {
-            token.transfer(toLeg.participantAddress, balance);
+        if (amount > 0) {
+            //EVENT: DepositHeld
+            emit DepositHeld(_depositKey(leg), amount);
         }
     }
 
-    function _refundERC721(EscrowLeg memory fromLeg, EscrowLeg memory toLeg) internal {
-        //TODO: implement
+    function _refundLeg(EscrowDefinition memory escrow, address currency) internal {
+        //refund native 
+        if (currency == address(0)) {
+            if (escrow.primaryLeg.paymentType == EscrowPaymentType.Native) {
+                _refundDeposits(escrow.primaryLeg);
+            }
+            else if (escrow.secondaryLeg.paymentType == EscrowPaymentType.Native) {
+                _refundDeposits(escrow.secondaryLeg);
+            }
+        }
+        else {
+            if (escrow.primaryLeg.currency == currency) {
+                _refundToken(escrow.primaryLeg);
+            }
+            else if (escrow.secondaryLeg.currency == currency) {
+                _refundToken(escrow.secondaryLeg);
+            }
+        }
+    }
+
+    function _refundToken(EscrowLeg memory leg) internal {
+        if (leg.paymentType == EscrowPaymentType.ERC721) {
+            _refundERC721(leg);
+        }
+        else {
+            _refundDeposits(leg);
+        }
+    }
+
+    //refunds what isn't attributed to anyone (e.g. tokens sent with a plain transfer) to the participant who 
+    //pledged the currency; deposits stay where they are, for their senders to claim
+    function _refundDeposits(EscrowLeg memory leg) internal {
+        address currency = _depositKey(leg);
+        uint256 balance = _balanceOf(leg);
+        uint256 deposited = depositTotals[currency][depositRounds[currency]];
+
+        if (balance > deposited) {
+            _transfer(leg, leg.participantAddress, balance - deposited);
+
+            //EVENT: Refunded
+            emit Refunded(currency, leg.participantAddress, balance - deposited);
+        }
+    }
+
+    function _refundDeposit(EscrowLeg memory leg, uint256 round, address sender) internal returns (uint256 amount) {
+        address currency = _depositKey(leg);
+        amount = deposits[currency][round][sender];
+
+        if (amount > 0) {
+            delete deposits[currency][round][sender];
+            depositTotals[currency][round] -= amount;
+            _transfer(leg, sender, amount);
+
+            //EVENT: Refunded
+            emit Refunded(currency, sender, amount);
+        }
+    }
+
+    function _refundERC721(EscrowLeg memory fromLeg) internal {
+        if (_holdsNft(fromLeg)) {
+            address sender = nftSenders[fromLeg.currency][fromLeg.tokenId];
+            delete nftSenders[fromLeg.currency][fromLeg.tokenId];
+
+            IERC721(fromLeg.currency).safeTransferFrom(
+                address(this), 
+                sender != address(0) ? sender : fromLeg.participantAddress, 
+                fromLeg.tokenId
+            );
+        }
+    }
+
+    //transfers an amount of a fungible leg's currency out
+    function _transfer(EscrowLeg memory leg, address to, uint256 amount) internal {
+        if (leg.paymentType == EscrowPaymentType.Native) {
+            (bool success,) = payable(to).call{value: amount}("");
+
+            //EXCEPTION: PaymentTransferFailed
+            require(success, "PaymentTransferFailed");
+        }
+        else if (leg.paymentType == EscrowPaymentType.ERC20) {
+            //EXCEPTION: PaymentTransferFailed
+            require(IERC20(leg.currency).transfer(to, amount), "PaymentTransferFailed");
+        }
+        else {
+            IERC1155(leg.currency).safeTransferFrom(address(this), to, leg.tokenId, amount, "");
+        }
+    }
+
+    function _balanceOf(EscrowLeg memory leg) internal view returns (uint256) {
+        if (leg.paymentType == EscrowPaymentType.Native) {
+            return address(this).balance;
+        }
+        if (leg.paymentType == EscrowPaymentType.ERC20) {
+            return IERC20(leg.currency).balanceOf(address(this));
+        }
+        return IERC1155(leg.currency).balanceOf(address(this), leg.tokenId);
+    }
+
+    function _recordDeposit(address currency, address sender, uint256 amount) internal {
+        //minted tokens have no sender to refund
+        if (amount == 0 || sender == address(0)) 
+            return;
+
+        uint256 round = depositRounds[currency];
+        deposits[currency][round][sender] += amount;
+        depositTotals[currency][round] += amount;
+
+        //EVENT: Deposited
+        emit Deposited(currency, sender, amount);
+    }
+
+    function _clearDeposits(address currency) internal {
+        depositRounds[currency]++;
+    }
+
+    //deposits of native currency are recorded as 0x0, whatever currency the escrow gives its native leg
+    function _depositKey(EscrowLeg memory leg) internal pure returns (address) {
+        return leg.paymentType == EscrowPaymentType.Native ? address(0) : leg.currency;
+    }
+
+    //ownerOf() reverts for tokens which don't exist (yet)
+    function _holdsNft(EscrowLeg memory leg) internal view returns (bool) {
+        try IERC721(leg.currency).ownerOf(leg.tokenId) returns (address owner) {
+            return owner == address(this);
+        } catch {
+            return false;
+        }
+    }
+
+    function _isPledgedToken(EscrowLeg memory leg, address currency) internal pure returns (bool) {
+        return leg.paymentType == EscrowPaymentType.ERC20 && leg.currency == currency;
+    }
+
+    function _isPledgedNft(EscrowLeg memory leg, uint256 tokenId) internal view returns (bool) {
+        return leg.paymentType == EscrowPaymentType.ERC721 && leg.currency == msg.sender && leg.tokenId == tokenId;
+    }
+
+    function _getEscrowAcceptingMultiTokens() internal view returns (EscrowDefinition memory escrow) {
+        escrow = escrowContract.getEscrow(escrowId);
+
+        //EXCEPTION: InvalidEscrowState (too late to pay)
+        require(escrow.status != EscrowStatus.Completed, "InvalidEscrowState");
+
+        //EXCEPTION: RelayNodeRetired
+        require(!retired, "RelayNodeRetired");
+    }
+
+    //whether the calling ERC1155 contract and token id are those of one of the escrow's legs
+    function _isPledgedMultiToken(EscrowDefinition memory escrow, uint256 id) internal view returns (bool) {
+        return _isPledgedMultiToken(escrow.primaryLeg, id) || _isPledgedMultiToken(escrow.secondaryLeg, id);
+    }
+
+    function _isPledgedMultiToken(EscrowLeg memory leg, uint256 id) internal view returns (bool) {
+        return leg.paymentType == EscrowPaymentType.ERC1155 && leg.currency == msg.sender && leg.tokenId == id;
     }
 }
\ No newline at end of file
@@ -0,0 +1,52 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.20;
+
+import "./RelayNode.sol"; 
+import "@openzeppelin/contracts/proxy/Clones.sol";
+
+/**
+ * @title RelayNodeDeployer
+ * 
+ * @dev Deploys PolyEscrow's relay nodes. The RelayNode implementation is deployed once, with the escrow contract; 
+ * each relay node is a minimal proxy (EIP-1167) of it, which costs a fraction of a full copy to deploy. Its 
+ * address is derived from its escrow id and index, so it can be predicted before it's deployed.
+ */
+library RelayNodeDeployer {
+
+    /**
+     * @dev Deploys the RelayNode implementation, which relay nodes are clones of.
+     */
+    function deployImplementation(ISecurityContext securityContext) external returns (address) {
+        return address(new RelayNode(securityContext));
+    }
+
+    /**
+     * @dev Deploys a relay node, as a clone of the implementation created with CREATE2, at the address given by 
+     * predict() for the same escrow id and index; then initializes it.
+     */
+    function deploy(
+        address implementation,
+        ISecurityContext securityContext, 
+        IPolyEscrow escrowContract, 
+        bytes32 escrowId, 
+        uint256 index,
+        bool autoForwardNative
+    ) 
+        external returns (RelayNode relayNode) 
+    {
+        relayNode = RelayNode(payable(Clones.cloneDeterministic(implementation, _salt(escrowId, index))));
+        relayNode.initialize(securityContext, escrowContract, escrowId, autoForwardNative);
+    }
+
+    /**
+     * @dev Returns the address at which deploy() creates a relay node, whether or not it's been deployed yet. The 
+     * deployer is address(this), which (being delegatecalled) is the escrow contract.
+     */
+    function predict(address implementation, bytes32 escrowId, uint256 index) external view returns (address) {
+        return Clones.predictDeterministicAddress(implementation, _salt(escrowId, index));
+    }
+
+    function _salt(bytes32 escrowId, uint256 index) private pure returns (bytes32) {
+        return keccak256(abi.encode(escrowId, index));
+    }
+}
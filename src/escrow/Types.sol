@@ -36,7 +36,7 @@ enum ProposalType {
  * ------------------------------------------
  * Pending: the proposal has been made, but not enough votes have been cast to determine its outcome. From this state,
  * the state may move to any of the other states.
- * Passed: the proposal has passed, and may be executed. This is a terminal state.
+ * Passed: the proposal has passed, and has been executed. This is a terminal state.
  * Cancelled: the proposal has been cancelled by the proposer without having been executed. This is a terminal state.
  * Expired: the proposal has expired without having been executed. This is a terminal state.
  */
@@ -53,6 +53,7 @@ enum ProposalStatus {
  * Native: native EVM blockchain currency (e.g. ETH, BNB, AVAX)
  * ERC20: standard fungible token
  * ERC721: non-fungible token
+ * ERC1155: multi-token; a quantity of one token id
  * Bitcoin: Bitcoin payment         
  * Custom: not yet defined what this is; could be determined by chainlink oracle, or a custom oracle, or something else
  */
@@ -61,7 +62,8 @@ enum EscrowPaymentType {
     ERC20,
     ERC721,
     Bitcoin,
-    Custom
+    Custom,
+    ERC1155
 }
 
 /**
@@ -127,23 +129,26 @@ struct ArbitrationDefinition {
  * amountPaid: how much they've paid in already
  * amountReleased: how much has been released to the other party
  * amountRefunded: how much has been refunded back to the payer
+ * tokenId: for ERC721 and ERC1155 legs, the id of the token pledged (ERC721 amounts are then 0 or 1); otherwise 0
  */
 //TODO: change terminology to "side" or "leg"
 struct EscrowLeg {
     address participantAddress;
-    address currency;               //ignored if paymentType not ERC20 or ERC721
+    address currency;               //ignored if paymentType not ERC20, ERC721 or ERC1155
     EscrowPaymentType paymentType;
     uint256 amountPledged;
     uint256 amountPaid;
     uint256 amountReleased;
     uint256 amountRefunded;
+    uint256 tokenId;
 }
 
 /**
  * EscrowArbitrationProposal: defines an arbitration proposal for an escrow
  * --------------------------------------------------------------------------
  * Each proposal has an escrow ID, a proposer address, a reason for the proposal, a timestamp, a proposal type (refund or release),
- * an amount (how much to refund or release), an array of votes (by arbiters), and a status (pending, passed, cancelled, expired).
+ * the amount of each leg to refund or release, the votes of the arbiters, an expiry time, and a status (pending, passed, 
+ * cancelled, expired).
  */
 struct EscrowArbitrationProposal {
     bytes32 escrowId;           //the ID of the escrow being proposed for arbitration
@@ -152,11 +157,64 @@ struct EscrowArbitrationProposal {
     uint256 timestamp;          //the timestamp when the proposal was made
     ProposalType proposalType; 
 
-    //TODO: instead of just amount, we need to specify what to do with asset 1 and asset 2. 
-    //could one be refunded and the other released? Should that be two separate proposals?
-    //etc.
-    uint256 amount;
-    uint8[] votes;
+    //how much of each leg to refund to its payer, or release to its counterparty; both legs are treated alike
+    uint256 primaryAmount;
+    uint256 secondaryAmount;
+
+    uint8[] votes;              //one per arbiter, in the order of the escrow's arbiters: 1 if they voted for the proposal
+    uint256 expiresAt;          //the proposal can't be voted on from this time
     ProposalStatus status;
 }
 
+/**
+ * CreateEscrowInput: specification of an escrow to create
+ * --------------------------------------------------------------------------
+ * The legs give each party's address, and what they pledge to pay. Times, arbitration and fees are as in 
+ * EscrowDefinition.
+ */
+struct CreateEscrowInput {
+    bytes32 id;                         //Unique identifier for the escrow
+    EscrowLegInput primaryLeg;          //Details of the first party
+    EscrowLegInput secondaryLeg;        //Details of the second party
+    uint256 startTime;                  //Optional start time for the escrow (0 if none)
+    uint256 endTime;                    //Optional end time for the escrow (0 if none)
+    ArbitrationDefinition arbitration;  //Arbitration details
+    FeeDefinition[] fees;               //Fees to be applied on payments
+}
+
+struct EscrowLegInput {
+    address participantAddress;         
+    address currency;                   //token address, or 0x0 for native
+    EscrowPaymentType paymentType;      
+    uint256 amount;                     //amount pledged (1 for ERC721)
+    uint256 tokenId;                    //ERC721/ERC1155: id of the token pledged; ignored otherwise
+}
+
+/**
+ * EscrowTemplate: reusable terms for recurring escrows
+ * --------------------------------------------------------------------------
+ * Stores each leg's currency, along with the arbitration and fees of the escrows created from it. Their 
+ * participants and amounts are given for each escrow. If the duration is not 0, each escrow ends that many 
+ * seconds after it's created.
+ */
+struct EscrowTemplate {
+    EscrowLegTemplate primaryLeg;
+    EscrowLegTemplate secondaryLeg;
+    uint256 duration;                   //seconds from creation to end time (0 if none)
+    ArbitrationDefinition arbitration;
+    FeeDefinition[] fees;
+}
+
+struct EscrowLegTemplate {
+    address currency;                   //token address, or 0x0 for native
+    EscrowPaymentType paymentType;
+}
+
+/**
+ * TemplateLegInput: the part of a leg not given by its template
+ */
+struct TemplateLegInput {
+    address participantAddress;
+    uint256 amount;                     //amount pledged (1 for ERC721)
+    uint256 tokenId;                    //ERC721/ERC1155: id of the token pledged; ignored otherwise
+}
@@ -10,6 +10,13 @@ struct PaymentInput {
     uint256 amount;   //amount being paid
 }
 
+struct PermitInput {
+    uint256 deadline; //the time (in unix seconds) after which the permit can no longer be used
+    uint8 v;          //recovery id of the permit signature
+    bytes32 r;        //first half of the permit signature
+    bytes32 s;        //second half of the permit signature
+}
+
 /**
  * @title IPolyEscrow
  */
@@ -27,9 +34,16 @@ interface IPolyEscrow {
      * to finish executing a successful arbitration proposal. 
      * 
      * @param escrowId The unique escrow agreement id.
+     * @param proposalType Whether to refund each leg to its payer, or release it to the counterparty.
+     * @param primaryAmount How much of the primary leg to refund or release.
+     * @param secondaryAmount How much of the secondary leg to refund or release.
      */
-    //TODO: (TLOW) test this whole function
-    function executeArbitrationProposal(bytes32 escrowId) external;
+    function executeArbitrationProposal(
+        bytes32 escrowId, 
+        ProposalType proposalType, 
+        uint256 primaryAmount, 
+        uint256 secondaryAmount
+    ) external;
 
     /**
      * @dev Only the authorized ArbitrationModule contract may call this, to signal that the specified escrow is now 
@@ -54,9 +68,17 @@ interface IPolyEscrow {
     function hasEscrow(bytes32 escrowId) external view returns (bool);
 
     /**
-     * @dev Allows multiple payments to be processed. 
+     * @dev Places a payment into one leg of an escrow; the leg is chosen by the payment's currency. 
      * 
      * @param paymentInput Payment inputs
      */
     function placePayment(PaymentInput calldata paymentInput) external payable;
+
+    /**
+     * @dev Places several payments in one transaction; if any of them fails, none are placed. The value sent must 
+     * be exactly the total of the native payments.
+     * 
+     * @param paymentInputs Payment inputs, placed in order
+     */
+    function placePayments(PaymentInput[] calldata paymentInputs) external payable;
 }
\ No newline at end of file
@@ -12,8 +12,17 @@ import "@openzeppelin/contracts/access/AccessControl.sol";
  */
 contract RoleBasedSecurityContext is ISecurityContext, AccessControl {
 
+    /**
+     * @dev Constructor for RoleBasedSecurityContext. ADMIN_ROLE is made the admin role of all roles, so that 
+     * the given admin may go on to grant SYSTEM_ROLE and PAUSER_ROLE (and ADMIN_ROLE to others).
+     * 
+     * @param adminAddress The initial holder of ADMIN_ROLE.
+     */
     constructor(address adminAddress) {
-        super.grantRole(SecurityRoles.ADMIN_ROLE, adminAddress);
+        _setRoleAdmin(SecurityRoles.ADMIN_ROLE, SecurityRoles.ADMIN_ROLE);
+        _setRoleAdmin(SecurityRoles.SYSTEM_ROLE, SecurityRoles.ADMIN_ROLE);
+        _setRoleAdmin(SecurityRoles.PAUSER_ROLE, SecurityRoles.ADMIN_ROLE);
+        _grantRole(SecurityRoles.ADMIN_ROLE, adminAddress);
     }
 
     /**
@@ -0,0 +1,54 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC1155/IERC1155Receiver.sol";
+import "@openzeppelin/contracts/utils/introspection/IERC165.sol";
+
+// An escrow participant which, when it receives multi-tokens, calls back into the contract that sent them.
+contract ReentrantReceiver is IERC1155Receiver {
+    address public reentryTarget;
+    bytes public callData; //the call made on receipt; cleared once made, so that it's only made once
+    bool public reentered; //whether the call made on receipt succeeded
+    bytes public reentryResult;
+
+    // including this excludes from coverage report foundry
+    function test() public {}
+
+    // makes a call as this contract, e.g. to approve tokens or pay into an escrow
+    function execute(address to, bytes calldata data) external payable {
+        (bool success, bytes memory result) = to.call{value: msg.value}(data);
+        if (!success) {
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+    }
+
+    function setReentry(address _target, bytes calldata _callData) external {
+        reentryTarget = _target;
+        callData = _callData;
+    }
+
+    function onERC1155Received(address, address, uint256, uint256, bytes calldata) external returns (bytes4) {
+        _reenter();
+        return IERC1155Receiver.onERC1155Received.selector;
+    }
+
+    function onERC1155BatchReceived(address, address, uint256[] calldata, uint256[] calldata, bytes calldata)
+        external returns (bytes4) {
+        _reenter();
+        return IERC1155Receiver.onERC1155BatchReceived.selector;
+    }
+
+    function supportsInterface(bytes4 interfaceId) external pure returns (bool) {
+        return interfaceId == type(IERC1155Receiver).interfaceId || interfaceId == type(IERC165).interfaceId;
+    }
+
+    function _reenter() internal {
+        if (callData.length == 0) return;
+
+        bytes memory data = callData;
+        delete callData;
+        (reentered, reentryResult) = reentryTarget.call(data);
+    }
+}
@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
+
+library IsErc1155 {
+    function check(address tokenAddress) internal view returns (bool) {
+        if (tokenAddress == address(0)) {
+            return false;
+        }
+
+        //ERC1155 contracts must report the interface through ERC165
+        (bool success, bytes memory data) = tokenAddress.staticcall(
+            abi.encodeWithSignature("supportsInterface(bytes4)", type(IERC1155).interfaceId)
+        );
+        return success && data.length == 32 && abi.decode(data, (bool));
+    }
+}
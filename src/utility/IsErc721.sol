@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+
+library IsErc721 {
+    function check(address tokenAddress) internal view returns (bool) {
+        if (tokenAddress == address(0)) {
+            return false;
+        }
+
+        //ERC721 contracts must report the interface through ERC165
+        (bool success, bytes memory data) = tokenAddress.staticcall(
+            abi.encodeWithSignature("supportsInterface(bytes4)", type(IERC721).interfaceId)
+        );
+        return success && data.length == 32 && abi.decode(data, (bool));
+    }
+}
@@ -0,0 +1,51 @@
+import { task, types } from 'hardhat/config';
+import { resolveEscrowAddress } from './util';
+
+task(
+    'api:serve',
+    'Indexes escrow events, and serves them over a read-only HTTP/JSON API'
+)
+    .addOptionalParam('escrow', 'Address of the PolyEscrow contract')
+    .addOptionalParam('db', 'Path of the database file', 'escrow-index.sqlite')
+    .addOptionalParam('port', 'Port to listen on', 8080, types.int)
+    .addOptionalParam('host', 'Interface to listen on', '127.0.0.1')
+    .addOptionalParam(
+        'confirmations',
+        'Number of blocks behind the head to stay, for reorg safety',
+        12,
+        types.int
+    )
+    .addOptionalParam(
+        'startBlock',
+        'First block to index (e.g. the deployment block)',
+        0,
+        types.int
+    )
+    .addOptionalParam(
+        'pollInterval',
+        'Milliseconds between syncs',
+        4000,
+        types.int
+    )
+    .setAction(async (args, hre) => {
+        //imported lazily; the indexer depends on typechain bindings
+        const { EscrowIndexer, IndexerStore } = await import(
+            '../services/indexer'
+        );
+        const { EscrowApiServer } = await import('../services/api');
+
+        //the API serves the same in-memory database the indexer writes to
+        const store = await IndexerStore.open(args.db);
+        const indexer = new EscrowIndexer(store, {
+            provider: hre.ethers.provider,
+            escrowAddress: resolveEscrowAddress(hre, args.escrow),
+            confirmations: args.confirmations,
+            startBlock: args.startBlock,
+        });
+        const api = new EscrowApiServer(store);
+
+        indexer.start(args.pollInterval);
+        const url = await api.listen(args.port, args.host);
+        console.log(`Serving escrows at ${url}; press Ctrl+C to stop.`);
+        await new Promise(() => {});
+    });
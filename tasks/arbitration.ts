@@ -0,0 +1,216 @@
+import { task, types } from 'hardhat/config';
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+import type { ArbitrationProposal, EscrowDefinition } from '../client';
+import { ProposalStatus, ProposalType } from '../client/types';
+import {
+    describeEscrow,
+    formatAmount,
+    getClient,
+    output,
+    parseAmount,
+} from './util';
+
+//proposal types by name, as accepted on the command line
+const PROPOSAL_TYPES: Record<string, ProposalType> = {
+    refund: ProposalType.Refund,
+    release: ProposalType.Release,
+};
+
+/**
+ * Returns an escrow, and an ArbitrationClient for its arbitration module. The client is imported
+ * lazily, like the PolyEscrowClient.
+ */
+async function getArbitration(
+    hre: HardhatRuntimeEnvironment,
+    escrowAddress: string | undefined,
+    escrowId: string
+) {
+    const client = await getClient(hre, escrowAddress);
+    if (!(await client.hasEscrow(escrowId))) {
+        throw new Error(`Escrow not found: ${escrowId}`);
+    }
+
+    const escrow = await client.getEscrow(escrowId);
+    const moduleAddress = escrow.arbitration.arbitrationModule;
+    if (moduleAddress === hre.ethers.ZeroAddress) {
+        throw new Error(`Escrow ${escrowId} has no arbitration module`);
+    }
+
+    const { ArbitrationClient } = await import('../client');
+    const [signer] = await hre.ethers.getSigners();
+    return {
+        escrow,
+        arbitration: new ArbitrationClient(moduleAddress, signer),
+    };
+}
+
+/**
+ * Formats a proposal as human-readable lines, with amounts in the units of its escrow's legs.
+ */
+async function describeProposal(
+    hre: HardhatRuntimeEnvironment,
+    escrow: EscrowDefinition,
+    proposal: ArbitrationProposal
+): Promise<string[]> {
+    const fmt = (amount: bigint, leg: EscrowDefinition['primaryLeg']) =>
+        formatAmount(hre, amount, leg.currency, leg.paymentType);
+    const votes = escrow.arbitration.arbiters.map(
+        (arbiter, n) => `${arbiter}${proposal.votes[n] ? ' (voted)' : ''}`
+    );
+
+    return [
+        `Proposal ${proposal.id} for escrow ${proposal.escrowId}`,
+        `type:            ${ProposalType[proposal.proposalType]}`,
+        `status:          ${ProposalStatus[proposal.status]}`,
+        `proposer:        ${proposal.proposer}`,
+        `reason:          ${proposal.reason || 'none'}`,
+        `primary amount:  ${await fmt(proposal.primaryAmount, escrow.primaryLeg)}`,
+        `secondary amount: ${await fmt(proposal.secondaryAmount, escrow.secondaryLeg)}`,
+        `votes:           ${proposal.votes.filter((v) => v).length} of ${escrow.arbitration.quorum} needed [${votes.join(', ')}]`,
+        `expires:         ${new Date(Number(proposal.expiresAt) * 1000).toISOString()}`,
+    ];
+}
+
+task('arbiter:escrows', 'Lists the escrows which name an account as arbiter')
+    .addOptionalParam('escrow', 'Address of the PolyEscrow contract')
+    .addOptionalParam(
+        'arbiter',
+        'Address of the arbiter; defaults to the first configured account'
+    )
+    .addOptionalParam(
+        'fromBlock',
+        'Block to search for escrows from',
+        0,
+        types.int
+    )
+    .addFlag('json', 'Output as JSON')
+    .setAction(async (args, hre) => {
+        const client = await getClient(hre, args.escrow);
+        const arbiter =
+            args.arbiter ??
+            (await (await hre.ethers.getSigners())[0].getAddress());
+        if (!hre.ethers.isAddress(arbiter)) {
+            throw new Error(`Invalid arbiter address: ${arbiter}`);
+        }
+
+        const escrows = await client.findEscrowsByArbiter(
+            arbiter,
+            args.fromBlock
+        );
+
+        const lines = [`${escrows.length} escrow(s) with arbiter ${arbiter}.`];
+        for (const escrow of escrows) {
+            lines.push('', ...(await describeEscrow(hre, escrow)));
+        }
+        output(args.json, escrows, lines);
+        return escrows;
+    });
+
+task('arbiter:proposals', 'Lists the arbitration proposals for an escrow')
+    .addOptionalParam('escrow', 'Address of the PolyEscrow contract')
+    .addPositionalParam('id', 'Unique escrow id')
+    .addFlag('json', 'Output as JSON')
+    .setAction(async (args, hre) => {
+        const { escrow, arbitration } = await getArbitration(
+            hre,
+            args.escrow,
+            args.id
+        );
+        const proposals = await arbitration.getEscrowProposals(args.id);
+
+        const lines = [
+            `${proposals.length} proposal(s) for escrow ${args.id}.`,
+        ];
+        for (const proposal of proposals) {
+            lines.push('', ...(await describeProposal(hre, escrow, proposal)));
+        }
+        output(args.json, proposals, lines);
+        return proposals;
+    });
+
+task('arbiter:propose', 'Proposes to refund or release an escrow')
+    .addOptionalParam('escrow', 'Address of the PolyEscrow contract')
+    .addParam('id', 'Unique escrow id')
+    .addParam('type', 'Proposal type (refund, release)')
+    .addOptionalParam(
+        'primaryAmount',
+        'Amount of the primary leg, in human units; default is all that remains'
+    )
+    .addOptionalParam(
+        'secondaryAmount',
+        'Amount of the secondary leg, in human units; default is all that remains'
+    )
+    .addOptionalParam('reason', 'Reason for the proposal', '')
+    .addFlag('json', 'Output as JSON')
+    .setAction(async (args, hre) => {
+        const proposalType = PROPOSAL_TYPES[args.type.toLowerCase()];
+        if (proposalType === undefined) {
+            throw new Error(`Invalid proposal type: ${args.type}`);
+        }
+
+        const { escrow, arbitration } = await getArbitration(
+            hre,
+            args.escrow,
+            args.id
+        );
+        const parse = (
+            amount: string | undefined,
+            leg: EscrowDefinition['primaryLeg']
+        ) =>
+            amount === undefined
+                ? undefined
+                : parseAmount(hre, amount, leg.currency, leg.paymentType);
+
+        const proposal = await arbitration.propose({
+            escrowId: args.id,
+            proposalType,
+            primaryAmount: await parse(args.primaryAmount, escrow.primaryLeg),
+            secondaryAmount: await parse(
+                args.secondaryAmount,
+                escrow.secondaryLeg
+            ),
+            reason: args.reason,
+        });
+
+        output(args.json, proposal, [
+            'Proposal made.',
+            ...(await describeProposal(hre, escrow, proposal)),
+        ]);
+        return proposal;
+    });
+
+task('arbiter:vote', 'Votes for an arbitration proposal')
+    .addOptionalParam('escrow', 'Address of the PolyEscrow contract')
+    .addParam('id', 'Unique escrow id')
+    .addOptionalParam(
+        'proposal',
+        "Id of the proposal; defaults to the escrow's pending proposal"
+    )
+    .addFlag('json', 'Output as JSON')
+    .setAction(async (args, hre) => {
+        const { arbitration } = await getArbitration(hre, args.escrow, args.id);
+
+        const proposalId =
+            args.proposal !== undefined
+                ? BigInt(args.proposal)
+                : (await arbitration.getPendingProposal(args.id))?.id;
+        if (proposalId === undefined) {
+            throw new Error(`Escrow ${args.id} has no pending proposal`);
+        }
+
+        const proposal = await arbitration.vote(proposalId);
+        const escrow = await (
+            await getClient(hre, args.escrow)
+        ).getEscrow(args.id);
+
+        const result = { proposal, escrow };
+        output(args.json, result, [
+            proposal.status === ProposalStatus.Passed
+                ? 'Voted; the proposal has passed and been executed.'
+                : 'Voted.',
+            ...(await describeProposal(hre, escrow, proposal)),
+            '',
+            ...(await describeEscrow(hre, escrow)),
+        ]);
+        return result;
+    });
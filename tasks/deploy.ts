@@ -0,0 +1,132 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { task } from 'hardhat/config';
+import { ZeroAddress, isAddress } from 'ethers';
+
+const PARAMETERS_DIR = path.join(__dirname, '../ignition/parameters');
+const MODULES_DIR = path.join(__dirname, '../ignition/modules');
+
+//a parameter value which is read from an environment variable, e.g. "${SEPOLIA_VAULT_ADDRESS}"
+const ENV_PLACEHOLDER = /^\$\{(\w+)\}$/;
+
+/**
+ * Replaces each "${NAME}" value in the parameters with the environment variable NAME, so that the
+ * accounts of each network can be kept out of its parameters file.
+ *
+ * @param parameters The parameters, as read from a parameters file.
+ * @param source Where they came from, for the error message.
+ * @param env The environment variables to read (defaults to process.env).
+ * @returns A copy of the parameters, with the placeholders replaced.
+ */
+export function resolveDeploymentParameters(
+    parameters: any,
+    source: string,
+    env: NodeJS.ProcessEnv = process.env
+): any {
+    if (Array.isArray(parameters)) {
+        return parameters.map((p) =>
+            resolveDeploymentParameters(p, source, env)
+        );
+    }
+    if (parameters && typeof parameters === 'object') {
+        return Object.fromEntries(
+            Object.entries(parameters).map(([key, value]) => [
+                key,
+                resolveDeploymentParameters(value, source, env),
+            ])
+        );
+    }
+
+    const name =
+        typeof parameters === 'string'
+            ? ENV_PLACEHOLDER.exec(parameters)?.[1]
+            : undefined;
+    if (name === undefined) return parameters;
+    if (!env[name]) {
+        throw new Error(`${source}: environment variable ${name} must be set`);
+    }
+    return env[name];
+}
+
+/**
+ * Checks the parameters of a deployment of the PolyEscrow stack before anything is sent, so that it
+ * fails with a clear message rather than with a reverted transaction part way through.
+ *
+ * @param parameters The parameters, as read from a parameters file.
+ * @param source Where they came from, for the error message.
+ */
+export function checkDeploymentParameters(
+    parameters: any,
+    source: string
+): void {
+    const settings = parameters?.SystemSettingsModule;
+    if (
+        !isAddress(settings?.vaultAddress) ||
+        settings.vaultAddress === ZeroAddress
+    ) {
+        throw new Error(
+            `${source}: SystemSettingsModule.vaultAddress must be the address which receives platform fees (SystemSettings rejects the zero address)`
+        );
+    }
+
+    const feeBps = Number(settings.feeBps);
+    if (!Number.isInteger(feeBps) || feeBps < 0 || feeBps > 10000) {
+        throw new Error(
+            `${source}: SystemSettingsModule.feeBps must be a whole number of basis points, from 0 to 10000`
+        );
+    }
+
+    //the roles are optional, defaulting to the deployer
+    const roles = parameters?.SecurityContextModule ?? {};
+    for (const account of ['admin', 'systemAccount', 'pauserAccount']) {
+        if (roles[account] !== undefined && !isAddress(roles[account])) {
+            throw new Error(
+                `${source}: SecurityContextModule.${account} must be an address`
+            );
+        }
+    }
+}
+
+task(
+    'deploy:stack',
+    'Deploys the PolyEscrow stack with Ignition, after checking its parameters'
+)
+    .addOptionalParam(
+        'parameters',
+        'Parameters file; defaults to ignition/parameters/<network>.json'
+    )
+    .addFlag('arbitration', 'Deploy an ArbitrationModule along with it')
+    .setAction(async (args, hre) => {
+        const file =
+            args.parameters ??
+            path.join(PARAMETERS_DIR, `${hre.network.name}.json`);
+        if (!fs.existsSync(file)) {
+            throw new Error(
+                `Missing parameters file ${file}: copy ignition/parameters/example.json and fill it in`
+            );
+        }
+        const parameters = resolveDeploymentParameters(
+            JSON.parse(fs.readFileSync(file, 'utf8')),
+            file
+        );
+        checkDeploymentParameters(parameters, file);
+
+        //Ignition reads parameters from a file, so the resolved ones are written to a new one
+        const resolvedFile = path.join(
+            fs.mkdtempSync(path.join(os.tmpdir(), 'poly-escrow-')),
+            path.basename(file)
+        );
+        fs.writeFileSync(resolvedFile, JSON.stringify(parameters, null, 4));
+
+        return await hre.run(
+            { scope: 'ignition', task: 'deploy' },
+            {
+                modulePath: path.join(
+                    MODULES_DIR,
+                    args.arbitration ? 'Arbitration.ts' : 'PolyEscrow.ts'
+                ),
+                parameters: resolvedFile,
+            }
+        );
+    });
@@ -0,0 +1,407 @@
+import { task, types } from 'hardhat/config';
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { EscrowPaymentType, EscrowStatus } from '../client/types';
+import {
+    PAYMENT_TYPES,
+    describeEscrow,
+    describeRelayNodes,
+    getClient,
+    output,
+    parseAddresses,
+    parseAmount,
+    parseCurrency,
+    parseFees,
+    parseTime,
+} from './util';
+
+/**
+ * Builds one escrow leg from its command-line flags. The payment type defaults to native for the
+ * native currency, and ERC20 otherwise. ERC721 and ERC1155 legs also take the id of the token pledged;
+ * the amount of an ERC721 leg can only be 1.
+ */
+async function parseLeg(
+    hre: HardhatRuntimeEnvironment,
+    participant: string,
+    currencyArg: string | undefined,
+    typeArg: string | undefined,
+    amount: string,
+    tokenId: string | undefined
+) {
+    const currency = parseCurrency(hre, currencyArg);
+    const typeName =
+        typeArg?.toLowerCase() ??
+        (currency === hre.ethers.ZeroAddress ? 'native' : 'erc20');
+    const paymentType = PAYMENT_TYPES[typeName];
+    if (paymentType === undefined) {
+        throw new Error(`Invalid payment type: ${typeArg}`);
+    }
+    if (!hre.ethers.isAddress(participant)) {
+        throw new Error(`Invalid participant address: ${participant}`);
+    }
+
+    const isNft =
+        paymentType === EscrowPaymentType.ERC721 ||
+        paymentType === EscrowPaymentType.ERC1155;
+    if (isNft && tokenId === undefined) {
+        throw new Error(`A token id is required for ${typeName}`);
+    }
+
+    const parsedAmount = await parseAmount(hre, amount, currency, paymentType);
+    if (paymentType === EscrowPaymentType.ERC721 && parsedAmount !== 1n) {
+        throw new Error(`The amount of an erc721 leg must be 1: ${amount}`);
+    }
+
+    return {
+        participantAddress: hre.ethers.getAddress(participant),
+        currency,
+        paymentType,
+        amount: parsedAmount,
+        tokenId: isNft ? BigInt(tokenId!) : 0n,
+    };
+}
+
+task('escrow:create', 'Creates a new escrow')
+    .addOptionalParam('escrow', 'Address of the PolyEscrow contract')
+    .addOptionalParam(
+        'id',
+        'Unique escrow id (bytes32); a random id is generated if omitted'
+    )
+    .addParam('primary', 'Participant address of the primary leg')
+    .addOptionalParam(
+        'primaryCurrency',
+        "Token address of the primary leg, or 'native'",
+        'native'
+    )
+    .addOptionalParam(
+        'primaryType',
+        'Payment type of the primary leg (native, erc20, erc721, erc1155)'
+    )
+    .addParam(
+        'primaryAmount',
+        'Amount pledged to the primary leg, in human units (1 for erc721)'
+    )
+    .addOptionalParam(
+        'primaryTokenId',
+        'Token id of an erc721 or erc1155 primary leg'
+    )
+    .addParam('secondary', 'Participant address of the secondary leg')
+    .addOptionalParam(
+        'secondaryCurrency',
+        "Token address of the secondary leg, or 'native'",
+        'native'
+    )
+    .addOptionalParam(
+        'secondaryType',
+        'Payment type of the secondary leg (native, erc20, erc721, erc1155)'
+    )
+    .addParam(
+        'secondaryAmount',
+        'Amount pledged to the secondary leg, in human units (1 for erc721)'
+    )
+    .addOptionalParam(
+        'secondaryTokenId',
+        'Token id of an erc721 or erc1155 secondary leg'
+    )
+    .addOptionalParam(
+        'startTime',
+        'Start time, as unix seconds or ISO-8601 date (default none)'
+    )
+    .addOptionalParam(
+        'endTime',
+        'End time, as unix seconds or ISO-8601 date (default none)'
+    )
+    .addOptionalParam(
+        'fees',
+        "Additional fees, as 'recipient:bps' pairs separated by commas"
+    )
+    .addOptionalParam(
+        'arbitrationModule',
+        'Address of the arbitration module (default none)'
+    )
+    .addOptionalParam('arbiters', 'Arbiter addresses, separated by commas')
+    .addOptionalParam(
+        'quorum',
+        'Number of arbiter votes needed to pass a proposal',
+        1,
+        types.int
+    )
+    .addFlag('json', 'Output as JSON')
+    .setAction(async (args, hre) => {
+        const client = await getClient(hre, args.escrow);
+        const id = args.id ?? hre.ethers.hexlify(hre.ethers.randomBytes(32));
+
+        const escrow = await client.createEscrow({
+            id,
+            primaryLeg: await parseLeg(
+                hre,
+                args.primary,
+                args.primaryCurrency,
+                args.primaryType,
+                args.primaryAmount,
+                args.primaryTokenId
+            ),
+            secondaryLeg: await parseLeg(
+                hre,
+                args.secondary,
+                args.secondaryCurrency,
+                args.secondaryType,
+                args.secondaryAmount,
+                args.secondaryTokenId
+            ),
+            startTime: parseTime(args.startTime),
+            endTime: parseTime(args.endTime),
+            fees: parseFees(hre, args.fees),
+            arbitration: args.arbitrationModule
+                ? {
+                      arbitrationModule: args.arbitrationModule,
+                      arbiters: parseAddresses(hre, args.arbiters),
+                      quorum: args.quorum,
+                  }
+                : undefined,
+        });
+
+        output(args.json, escrow, [
+            'Created escrow.',
+            ...(await describeEscrow(hre, escrow)),
+        ]);
+        return escrow;
+    });
+
+task('escrow:pay', 'Pays into one leg of an escrow')
+    .addOptionalParam('escrow', 'Address of the PolyEscrow contract')
+    .addParam('id', 'Unique escrow id')
+    .addOptionalParam(
+        'currency',
+        "Currency of the leg to pay into: token address, or 'native'",
+        'native'
+    )
+    .addParam('amount', 'Amount to pay, in human units (1 for erc721)')
+    .addFlag('json', 'Output as JSON')
+    .setAction(async (args, hre) => {
+        const client = await getClient(hre, args.escrow);
+        const currency = parseCurrency(hre, args.currency);
+
+        //the leg being paid determines how the amount is interpreted
+        const existing = await client.getEscrow(args.id);
+        const leg = [existing.secondaryLeg, existing.primaryLeg].find((l) =>
+            l.paymentType === EscrowPaymentType.Native
+                ? currency === hre.ethers.ZeroAddress
+                : l.currency === currency
+        );
+        if (!leg) {
+            throw new Error(`Escrow ${args.id} has no leg in ${currency}`);
+        }
+
+        const escrow = await client.placePayment({
+            escrowId: args.id,
+            currency,
+            amount: await parseAmount(
+                hre,
+                args.amount,
+                currency,
+                leg.paymentType
+            ),
+        });
+
+        output(args.json, escrow, [
+            'Payment placed.',
+            ...(await describeEscrow(hre, escrow)),
+        ]);
+        return escrow;
+    });
+
+task(
+    'escrow:refund-expired',
+    'Refunds what remains in an escrow whose end time has passed'
+)
+    .addOptionalParam('escrow', 'Address of the PolyEscrow contract')
+    .addParam('id', 'Unique escrow id')
+    .addFlag('json', 'Output as JSON')
+    .setAction(async (args, hre) => {
+        const client = await getClient(hre, args.escrow);
+        const escrow = await client.refundExpired(args.id);
+
+        output(args.json, escrow, [
+            'Escrow refunded.',
+            ...(await describeEscrow(hre, escrow)),
+        ]);
+        return escrow;
+    });
+
+task(
+    'escrow:sign-cancel',
+    "Signs the first account's agreement to cancel an escrow, without sending it"
+)
+    .addOptionalParam('escrow', 'Address of the PolyEscrow contract')
+    .addParam('id', 'Unique escrow id')
+    .addParam(
+        'deadline',
+        'Time after which the signature expires, as unix seconds or ISO-8601 date'
+    )
+    .addFlag('json', 'Output as JSON')
+    .setAction(async (args, hre) => {
+        const client = await getClient(hre, args.escrow);
+        const signature = await client.signCancellation(
+            args.id,
+            parseTime(args.deadline)
+        );
+
+        output(args.json, signature, [
+            `Cancellation of escrow ${args.id} signed by ${signature.signer}.`,
+            `deadline:  ${new Date(Number(signature.deadline) * 1000).toISOString()}`,
+            `signature: ${signature.signature}`,
+        ]);
+        return signature;
+    });
+
+task(
+    'escrow:cancel',
+    "Approves cancelling an escrow as the first account, or cancels it with both participants' signatures"
+)
+    .addOptionalParam('escrow', 'Address of the PolyEscrow contract')
+    .addParam('id', 'Unique escrow id')
+    .addOptionalParam(
+        'signatures',
+        'Signatures from escrow:sign-cancel of both participants, separated by commas'
+    )
+    .addOptionalParam(
+        'deadline',
+        'Deadline the signatures were made with, as unix seconds or ISO-8601 date'
+    )
+    .addFlag('json', 'Output as JSON')
+    .setAction(async (args, hre) => {
+        const client = await getClient(hre, args.escrow);
+
+        let escrow;
+        if (args.signatures) {
+            if (!args.deadline) {
+                throw new Error('The deadline of the signatures is required');
+            }
+
+            //the signers are recovered, so that only the signatures need to be passed around (the
+            //types are imported lazily, like the client, as they're alongside typechain bindings)
+            const { CANCEL_ESCROW_TYPES } = await import(
+                '../client/signatures'
+            );
+            const domain = await client.getDomain();
+            const deadline = parseTime(args.deadline);
+            const signatures = args.signatures
+                .split(',')
+                .map((signature: string) => ({
+                    escrowId: args.id,
+                    deadline,
+                    signature,
+                    signer: hre.ethers.verifyTypedData(
+                        domain,
+                        CANCEL_ESCROW_TYPES,
+                        { escrowId: args.id, deadline },
+                        signature
+                    ),
+                }));
+            escrow = await client.cancelWithSignatures(signatures);
+        } else {
+            escrow = await client.approveCancellation(args.id);
+        }
+
+        output(args.json, escrow, [
+            escrow.status === EscrowStatus.Completed
+                ? 'Escrow cancelled.'
+                : 'Cancellation approved; waiting for the other participant.',
+            ...(await describeEscrow(hre, escrow)),
+        ]);
+        return escrow;
+    });
+
+task('escrow:show', 'Shows an escrow')
+    .addOptionalParam('escrow', 'Address of the PolyEscrow contract')
+    .addPositionalParam('id', 'Unique escrow id')
+    .addFlag('json', 'Output as JSON')
+    .setAction(async (args, hre) => {
+        const client = await getClient(hre, args.escrow);
+        if (!(await client.hasEscrow(args.id))) {
+            throw new Error(`Escrow not found: ${args.id}`);
+        }
+
+        const escrow = await client.getEscrow(args.id);
+        output(args.json, escrow, await describeEscrow(hre, escrow));
+        return escrow;
+    });
+
+task('escrow:relay-node:deploy', 'Deploys a relay node for an escrow')
+    .addOptionalParam('escrow', 'Address of the PolyEscrow contract')
+    .addParam('id', 'Unique escrow id')
+    .addOptionalParam(
+        'autoForwardNative',
+        'Whether native payments into the node are forwarded automatically',
+        true,
+        types.boolean
+    )
+    .addFlag('json', 'Output as JSON')
+    .setAction(async (args, hre) => {
+        const client = await getClient(hre, args.escrow);
+        const relayNode = await client.deployRelayNode(
+            args.id,
+            args.autoForwardNative
+        );
+
+        const result = {
+            escrowId: args.id,
+            relayNode,
+            autoForwardNative: args.autoForwardNative,
+        };
+        output(args.json, result, [
+            `Deployed relay node ${relayNode} for escrow ${args.id}.`,
+        ]);
+        return result;
+    });
+
+task(
+    'escrow:relay-node:list',
+    "Lists an escrow's relay nodes, with what each holds in each leg currency"
+)
+    .addOptionalParam('escrow', 'Address of the PolyEscrow contract')
+    .addParam('id', 'Unique escrow id')
+    .addFlag('json', 'Output as JSON')
+    .setAction(async (args, hre) => {
+        const client = await getClient(hre, args.escrow);
+        if (!(await client.hasEscrow(args.id))) {
+            throw new Error(`Escrow not found: ${args.id}`);
+        }
+
+        const escrow = await client.getEscrow(args.id);
+        const relayNodes = await client.getRelayNodeSummaries(args.id);
+        output(
+            args.json,
+            relayNodes,
+            relayNodes.length === 0
+                ? [`Escrow ${args.id} has no relay nodes.`]
+                : await describeRelayNodes(hre, escrow, relayNodes)
+        );
+        return relayNodes;
+    });
+
+task(
+    'escrow:relay-node:pause',
+    "Pauses all of an escrow's relay nodes (requires the system role)"
+)
+    .addOptionalParam('escrow', 'Address of the PolyEscrow contract')
+    .addParam('id', 'Unique escrow id')
+    .addFlag('unpause', 'Unpause them instead')
+    .addFlag('json', 'Output as JSON')
+    .setAction(async (args, hre) => {
+        const client = await getClient(hre, args.escrow);
+        const changed = await client.setRelayNodesPaused(
+            args.id,
+            !args.unpause
+        );
+
+        const result = {
+            escrowId: args.id,
+            paused: !args.unpause,
+            relayNodes: changed,
+        };
+        output(args.json, result, [
+            `${args.unpause ? 'Unpaused' : 'Paused'} ${changed.length} relay node(s) of escrow ${args.id}.`,
+        ]);
+        return result;
+    });
@@ -0,0 +1,8 @@
+import './api';
+import './arbitration';
+import './deploy';
+import './escrow';
+import './indexer';
+import './keeper';
+import './relay';
+import './relayer';
@@ -0,0 +1,55 @@
+import { task, types } from 'hardhat/config';
+import { resolveEscrowAddress } from './util';
+
+task(
+    'indexer:run',
+    'Indexes escrow events into an SQLite database (backfilling old blocks needs an archive node)'
+)
+    .addOptionalParam('escrow', 'Address of the PolyEscrow contract')
+    .addOptionalParam('db', 'Path of the database file', 'escrow-index.sqlite')
+    .addOptionalParam(
+        'confirmations',
+        'Number of blocks behind the head to stay, for reorg safety',
+        12,
+        types.int
+    )
+    .addOptionalParam(
+        'startBlock',
+        'First block to index (e.g. the deployment block)',
+        0,
+        types.int
+    )
+    .addOptionalParam(
+        'pollInterval',
+        'Milliseconds between syncs',
+        4000,
+        types.int
+    )
+    .addFlag('once', 'Sync up to the current confirmed block, then exit')
+    .setAction(async (args, hre) => {
+        //imported lazily; the indexer depends on typechain bindings
+        const { EscrowIndexer, IndexerStore } = await import(
+            '../services/indexer'
+        );
+
+        const store = await IndexerStore.open(args.db);
+        const indexer = new EscrowIndexer(store, {
+            provider: hre.ethers.provider,
+            escrowAddress: resolveEscrowAddress(hre, args.escrow),
+            confirmations: args.confirmations,
+            startBlock: args.startBlock,
+        });
+
+        if (args.once) {
+            const lastBlock = await indexer.sync();
+            console.log(
+                `Indexed to block ${lastBlock}: ${store.countEscrows()} escrows.`
+            );
+            store.close();
+            return lastBlock;
+        }
+
+        console.log(`Indexing into ${args.db}; press Ctrl+C to stop.`);
+        indexer.start(args.pollInterval);
+        await new Promise(() => {});
+    });
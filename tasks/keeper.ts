@@ -0,0 +1,55 @@
+import { task, types } from 'hardhat/config';
+import { resolveEscrowAddress } from './util';
+
+task('keeper:run', 'Calls relay() on relay nodes which receive token deposits')
+    .addOptionalParam('escrow', 'Address of the PolyEscrow contract')
+    .addOptionalParam(
+        'confirmations',
+        'Number of blocks behind the head to stay',
+        0,
+        types.int
+    )
+    .addOptionalParam(
+        'startBlock',
+        'First block to scan (e.g. the deployment block)',
+        0,
+        types.int
+    )
+    .addOptionalParam(
+        'pollInterval',
+        'Milliseconds between syncs',
+        4000,
+        types.int
+    )
+    .addOptionalParam(
+        'maxAttempts',
+        'Failed relay() attempts in a row before dropping a node until its next deposit',
+        5,
+        types.int
+    )
+    .addFlag('dryRun', 'Simulate relay() calls instead of sending them')
+    .addFlag('once', 'Sync once, then exit')
+    .setAction(async (args, hre) => {
+        //imported lazily; the keeper depends on typechain bindings
+        const { RelayKeeper } = await import('../services/keeper');
+
+        const [signer] = await hre.ethers.getSigners();
+        const keeper = new RelayKeeper({
+            signer,
+            escrowAddress: resolveEscrowAddress(hre, args.escrow),
+            confirmations: args.confirmations,
+            startBlock: args.startBlock,
+            maxAttempts: args.maxAttempts,
+            dryRun: args.dryRun,
+        });
+
+        if (args.once) {
+            return await keeper.sync();
+        }
+
+        console.log(
+            `Keeper running as ${signer.address}${args.dryRun ? ' (dry run)' : ''}; press Ctrl+C to stop.`
+        );
+        keeper.start(args.pollInterval);
+        await new Promise(() => {});
+    });
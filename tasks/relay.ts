@@ -0,0 +1,156 @@
+import { task } from 'hardhat/config';
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { EscrowPaymentType } from '../client/types';
+import {
+    describeEscrow,
+    getClient,
+    output,
+    parseAmount,
+    parseCurrency,
+} from './util';
+
+/**
+ * Returns the relay node at the given address, and a client for its escrow contract.
+ */
+async function getRelayNode(hre: HardhatRuntimeEnvironment, address: string) {
+    if (!hre.ethers.isAddress(address)) {
+        throw new Error(`Invalid relay node address: ${address}`);
+    }
+
+    const relayNode = await hre.ethers.getContractAt('RelayNode', address);
+    const client = await getClient(hre, await relayNode.escrowContract());
+    return { relayNode, client, escrowId: await relayNode.escrowId() };
+}
+
+task('relay:pump', 'Relays funds held by a relay node into its escrow')
+    .addParam('node', 'Address of the relay node')
+    .addFlag('json', 'Output as JSON')
+    .setAction(async (args, hre) => {
+        const { relayNode, client, escrowId } = await getRelayNode(
+            hre,
+            args.node
+        );
+
+        const receipt = await (await relayNode.relay()).wait();
+        const escrow = await client.getEscrow(escrowId);
+
+        const result = {
+            relayNode: args.node,
+            transactionHash: receipt?.hash,
+            escrow,
+        };
+        output(args.json, result, [
+            `Relayed ${args.node} (tx ${receipt?.hash}).`,
+            ...(await describeEscrow(hre, escrow)),
+        ]);
+        return result;
+    });
+
+task(
+    'relay:deposit',
+    'Deposits tokens into a relay node, which records who deposited them for refunds'
+)
+    .addParam('node', 'Address of the relay node')
+    .addParam('currency', 'Address of the token')
+    .addParam('amount', 'Amount in human units (e.g. 1.5)')
+    .addFlag('json', 'Output as JSON')
+    .setAction(async (args, hre) => {
+        const { relayNode } = await getRelayNode(hre, args.node);
+        const currency = parseCurrency(hre, args.currency);
+        const amount = await parseAmount(
+            hre,
+            args.amount,
+            currency,
+            EscrowPaymentType.ERC20
+        );
+
+        const token = await hre.ethers.getContractAt('IERC20', currency);
+        await (await token.approve(args.node, amount)).wait();
+        const receipt = await (
+            await relayNode.deposit(currency, amount)
+        ).wait();
+
+        const result = {
+            relayNode: args.node,
+            currency,
+            amount,
+            transactionHash: receipt?.hash,
+        };
+        output(args.json, result, [
+            `Deposited ${args.amount} of ${currency} into ${args.node} (tx ${receipt?.hash}).`,
+        ]);
+        return result;
+    });
+
+task(
+    'relay:refund',
+    'Refunds what a relay node holds, other than deposits, to the participants (depositors claim theirs with relay:claim)'
+)
+    .addParam('node', 'Address of the relay node')
+    .addOptionalParam(
+        'currency',
+        "Refund only this currency (token address, or 'native'); default is all"
+    )
+    .addFlag('json', 'Output as JSON')
+    .setAction(async (args, hre) => {
+        const { relayNode } = await getRelayNode(hre, args.node);
+
+        const tx =
+            args.currency === undefined
+                ? await relayNode.refundAll()
+                : await relayNode.refundLeg(parseCurrency(hre, args.currency));
+        const receipt = await tx.wait();
+
+        const result = {
+            relayNode: args.node,
+            currency: args.currency ?? 'all',
+            transactionHash: receipt?.hash,
+        };
+        output(args.json, result, [
+            `Refunded ${result.currency} from ${args.node} (tx ${receipt?.hash}).`,
+        ]);
+        return result;
+    });
+
+task(
+    'relay:claim',
+    "Claims back the first account's own deposits in one currency from a relay node"
+)
+    .addParam('node', 'Address of the relay node')
+    .addParam('currency', "Token address, or 'native'")
+    .addFlag('json', 'Output as JSON')
+    .setAction(async (args, hre) => {
+        const { relayNode } = await getRelayNode(hre, args.node);
+        const currency = parseCurrency(hre, args.currency);
+        const receipt = await (await relayNode.claimRefund(currency)).wait();
+
+        const result = {
+            relayNode: args.node,
+            currency,
+            transactionHash: receipt?.hash,
+        };
+        output(args.json, result, [
+            `Claimed ${args.currency} deposits from ${args.node} (tx ${receipt?.hash}).`,
+        ]);
+        return result;
+    });
+
+task(
+    'relay:retire',
+    'Retires a relay node, which refunds what it holds other than deposits and accepts no further payments (requires the system role)'
+)
+    .addParam('node', 'Address of the relay node')
+    .addFlag('json', 'Output as JSON')
+    .setAction(async (args, hre) => {
+        const { relayNode } = await getRelayNode(hre, args.node);
+        const receipt = await (await relayNode.retire()).wait();
+
+        const result = {
+            relayNode: args.node,
+            transactionHash: receipt?.hash,
+        };
+        output(args.json, result, [
+            `Retired ${args.node} (tx ${receipt?.hash}).`,
+        ]);
+        return result;
+    });
@@ -0,0 +1,31 @@
+import { task, types } from 'hardhat/config';
+import { resolveEscrowAddress } from './util';
+
+task(
+    'relayer:serve',
+    'Accepts signed intents over HTTP, and submits them, paying the gas'
+)
+    .addOptionalParam('escrow', 'Address of the PolyEscrow contract')
+    .addOptionalParam('port', 'Port to listen on', 8081, types.int)
+    .addOptionalParam('host', 'Interface to listen on', '127.0.0.1')
+    .addFlag('dryRun', 'Validate intents without submitting them')
+    .setAction(async (args, hre) => {
+        //imported lazily; the relayer depends on typechain bindings
+        const { IntentRelayer, RelayerServer } = await import(
+            '../services/relayer'
+        );
+
+        const [signer] = await hre.ethers.getSigners();
+        const relayer = new IntentRelayer({
+            signer,
+            escrowAddress: resolveEscrowAddress(hre, args.escrow),
+            dryRun: args.dryRun,
+        });
+        const server = new RelayerServer(relayer);
+
+        const url = await server.listen(args.port, args.host);
+        console.log(
+            `Relaying intents at ${url} as ${signer.address}${args.dryRun ? ' (dry run)' : ''}; press Ctrl+C to stop.`
+        );
+        await new Promise(() => {});
+    });
@@ -0,0 +1,284 @@
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+import type { EscrowDefinition, EscrowLeg, RelayNodeSummary } from '../client';
+import { EscrowPaymentType, EscrowStatus } from '../client/types';
+
+//payment types by name, as accepted on the command line
+export const PAYMENT_TYPES: Record<string, EscrowPaymentType> = {
+    native: EscrowPaymentType.Native,
+    erc20: EscrowPaymentType.ERC20,
+    erc721: EscrowPaymentType.ERC721,
+    erc1155: EscrowPaymentType.ERC1155,
+};
+
+/**
+ * Resolves the PolyEscrow contract address from the --escrow argument, falling back to the
+ * POLY_ESCROW_ADDRESS environment variable.
+ */
+export function resolveEscrowAddress(
+    hre: HardhatRuntimeEnvironment,
+    address: string | undefined
+): string {
+    const resolved = address ?? process.env.POLY_ESCROW_ADDRESS;
+    if (!resolved || !hre.ethers.isAddress(resolved)) {
+        throw new Error(
+            'Missing or invalid escrow contract address: pass --escrow or set POLY_ESCROW_ADDRESS'
+        );
+    }
+    return resolved;
+}
+
+/**
+ * Returns a connected PolyEscrowClient. The client is imported lazily, because it depends on
+ * typechain bindings which don't exist until the contracts are compiled.
+ */
+export async function getClient(
+    hre: HardhatRuntimeEnvironment,
+    escrowAddress: string | undefined
+) {
+    const { PolyEscrowClient } = await import('../client');
+    const [signer] = await hre.ethers.getSigners();
+    return new PolyEscrowClient(
+        resolveEscrowAddress(hre, escrowAddress),
+        signer
+    );
+}
+
+/**
+ * Normalizes a currency argument: 'native' (or nothing) means the zero address.
+ */
+export function parseCurrency(
+    hre: HardhatRuntimeEnvironment,
+    currency: string | undefined
+): string {
+    if (!currency || currency.toLowerCase() === 'native') {
+        return hre.ethers.ZeroAddress;
+    }
+    if (!hre.ethers.isAddress(currency)) {
+        throw new Error(`Invalid currency address: ${currency}`);
+    }
+    return hre.ethers.getAddress(currency);
+}
+
+/**
+ * Returns the number of decimals of a currency: 18 for native, the token's decimals() for ERC20,
+ * and 0 for ERC721 and ERC1155 (whose amounts are whole tokens).
+ */
+export async function getDecimals(
+    hre: HardhatRuntimeEnvironment,
+    currency: string,
+    paymentType: EscrowPaymentType
+): Promise<number> {
+    if (paymentType === EscrowPaymentType.Native) return 18;
+    if (paymentType !== EscrowPaymentType.ERC20) return 0;
+
+    const token = await hre.ethers.getContractAt('IERC20Metadata', currency);
+    return Number(await token.decimals());
+}
+
+/**
+ * Converts an amount in human units (e.g. '1.5') to base units, using the currency's decimals.
+ */
+export async function parseAmount(
+    hre: HardhatRuntimeEnvironment,
+    amount: string,
+    currency: string,
+    paymentType: EscrowPaymentType
+): Promise<bigint> {
+    const decimals = await getDecimals(hre, currency, paymentType);
+    return hre.ethers.parseUnits(amount, decimals);
+}
+
+/**
+ * Converts an amount in base units to human units, using the currency's decimals.
+ */
+export async function formatAmount(
+    hre: HardhatRuntimeEnvironment,
+    amount: bigint,
+    currency: string,
+    paymentType: EscrowPaymentType
+): Promise<string> {
+    const decimals = await getDecimals(hre, currency, paymentType);
+    return decimals > 0
+        ? hre.ethers.formatUnits(amount, decimals)
+        : amount.toString();
+}
+
+/**
+ * Parses a time argument, given either as unix seconds or as an ISO-8601 date. Empty means none (0).
+ */
+export function parseTime(time: string | undefined): bigint {
+    if (!time) return 0n;
+    if (/^\d+$/.test(time)) return BigInt(time);
+
+    const millis = Date.parse(time);
+    if (isNaN(millis)) {
+        throw new Error(`Invalid time: ${time}`);
+    }
+    return BigInt(Math.floor(millis / 1000));
+}
+
+/**
+ * Parses a list of addresses separated by commas.
+ */
+export function parseAddresses(
+    hre: HardhatRuntimeEnvironment,
+    addresses: string | undefined
+): string[] {
+    if (!addresses) return [];
+
+    return addresses.split(',').map((address) => {
+        if (!hre.ethers.isAddress(address)) {
+            throw new Error(`Invalid address: ${address}`);
+        }
+        return hre.ethers.getAddress(address);
+    });
+}
+
+/**
+ * Parses a fee list of the form 'recipient:bps,recipient:bps'.
+ */
+export function parseFees(
+    hre: HardhatRuntimeEnvironment,
+    fees: string | undefined
+): { recipient: string; feeBps: bigint }[] {
+    if (!fees) return [];
+
+    return fees.split(',').map((fee) => {
+        const [recipient, bps] = fee.split(':');
+        if (!hre.ethers.isAddress(recipient) || !/^\d+$/.test(bps ?? '')) {
+            throw new Error(`Invalid fee (expected recipient:bps): ${fee}`);
+        }
+        return {
+            recipient: hre.ethers.getAddress(recipient),
+            feeBps: BigInt(bps),
+        };
+    });
+}
+
+/**
+ * Returns a JSON-friendly copy of a value: bigints become decimal strings.
+ */
+export function toJson(value: any): string {
+    return JSON.stringify(
+        value,
+        (_, v) => (typeof v === 'bigint' ? v.toString() : v),
+        2
+    );
+}
+
+/**
+ * Prints a task's result, either as JSON or as human-readable lines.
+ */
+export function output(json: boolean, result: any, lines: string[]): void {
+    console.log(json ? toJson(result) : lines.join('\n'));
+}
+
+/**
+ * Formats an escrow as human-readable lines, with amounts in human units.
+ */
+export async function describeEscrow(
+    hre: HardhatRuntimeEnvironment,
+    escrow: EscrowDefinition
+): Promise<string[]> {
+    const formatTime = (t: bigint) =>
+        t === 0n ? 'none' : new Date(Number(t) * 1000).toISOString();
+
+    const describeLeg = async (name: string, leg: EscrowLeg) => {
+        const fmt = (amount: bigint) =>
+            formatAmount(hre, amount, leg.currency, leg.paymentType);
+        const currency =
+            leg.paymentType === EscrowPaymentType.Native
+                ? 'native'
+                : leg.currency;
+
+        return [
+            `${name}:`,
+            `  participant:   ${leg.participantAddress}`,
+            `  currency:      ${currency} (${EscrowPaymentType[leg.paymentType]})`,
+            ...(leg.paymentType === EscrowPaymentType.ERC721 ||
+            leg.paymentType === EscrowPaymentType.ERC1155
+                ? [`  token id:      ${leg.tokenId}`]
+                : []),
+            `  pledged:       ${await fmt(leg.amountPledged)}`,
+            `  paid:          ${await fmt(leg.amountPaid)}`,
+            `  released:      ${await fmt(leg.amountReleased)}`,
+            `  refunded:      ${await fmt(leg.amountRefunded)}`,
+        ];
+    };
+
+    const arbitration = escrow.arbitration;
+    return [
+        `Escrow ${escrow.id}`,
+        `status:          ${EscrowStatus[escrow.status]}`,
+        `created:         ${formatTime(escrow.timestamp)}`,
+        `start time:      ${formatTime(escrow.startTime)}`,
+        `end time:        ${formatTime(escrow.endTime)}`,
+        ...(await describeLeg('primary leg', escrow.primaryLeg)),
+        ...(await describeLeg('secondary leg', escrow.secondaryLeg)),
+        `fees:            ${
+            escrow.fees.length === 0
+                ? 'none'
+                : escrow.fees
+                      .map((f) => `${f.recipient} (${f.feeBps} bps)`)
+                      .join(', ')
+        }`,
+        `arbitration:     ${
+            arbitration.arbitrationModule === hre.ethers.ZeroAddress
+                ? 'none'
+                : `${arbitration.arbitrationModule}, quorum ${arbitration.quorum} of [${arbitration.arbiters.join(', ')}]`
+        }`,
+    ];
+}
+
+/**
+ * Formats an escrow's relay nodes as a table, one row each, with what each holds in each of the escrow's
+ * currencies in human units.
+ */
+export async function describeRelayNodes(
+    hre: HardhatRuntimeEnvironment,
+    escrow: EscrowDefinition,
+    relayNodes: RelayNodeSummary[]
+): Promise<string[]> {
+    const currencyOf = (leg: EscrowLeg) =>
+        leg.paymentType === EscrowPaymentType.Native ? 'native' : leg.currency;
+
+    const rows = [
+        [
+            'relay node',
+            'state',
+            'auto-forward',
+            `primary (${currencyOf(escrow.primaryLeg)})`,
+            `secondary (${currencyOf(escrow.secondaryLeg)})`,
+        ],
+    ];
+    for (const node of relayNodes) {
+        const amounts: string[] = [];
+        for (const balance of node.balances) {
+            amounts.push(
+                await formatAmount(
+                    hre,
+                    balance.amount,
+                    balance.currency,
+                    balance.paymentType
+                )
+            );
+        }
+        rows.push([
+            node.address,
+            node.retired ? 'retired' : node.paused ? 'paused' : 'active',
+            node.autoForwardNative ? 'yes' : 'no',
+            ...amounts,
+        ]);
+    }
+
+    //pad each column to its widest cell
+    const widths = rows[0].map((_, n) =>
+        Math.max(...rows.map((row) => row[n].length))
+    );
+    return rows.map((row) =>
+        row
+            .map((cell, n) => cell.padEnd(widths[n]))
+            .join('  ')
+            .trimEnd()
+    );
+}